@@ -0,0 +1,919 @@
+// src/AdminPage.tsx
+//
+// /admin — lead dashboard (Supabase Auth magic link + team allowlist). Loaded on
+// demand by App.tsx, so the landing page doesn't ship it.
+import React, { useEffect, useState, type FormEvent } from 'react';
+import { getAdminSupabase, SUPABASE_CONFIGURED } from './supabaseClient';
+import { ADMIN_ROUTE, COACH_WAITLIST_EXPORT_FN, PROFILE_INPUT_CLASS, downloadFile } from './site';
+import { BrandLockup, Container, Kicker, PrimaryButton } from './ui';
+import {
+  CLIENT_COUNT_OPTIONS,
+  type AttributionTouch,
+  type ExperimentAssignments,
+} from '../supabase/functions/_shared/signupSchema.ts';
+import {
+  EXPORT_COLUMNS,
+  type ExportColumn,
+  type ExportErrorResponse,
+  type ExportFormat,
+  type ExportRequest,
+} from '../supabase/functions/_shared/exportContract.ts';
+
+type AdminAuthState = 'loading' | 'signed_out' | 'sending' | 'link_sent' | 'checking' | 'forbidden' | 'ready' | 'error';
+
+type AdminLead = {
+  id: string;
+  created_at: string;
+  email: string;
+  name: string | null;
+  primary_focus: string | null;
+  client_count: string | null;
+  coach_intents: string[];
+  presence: string | null;
+  notes: string | null;
+  source: string;
+  site_version: string | null;
+  utm: Record<string, string>;
+  user_agent: string | null;
+  referer: string | null;
+  first_touch: AttributionTouch | null;
+  last_touch: AttributionTouch | null;
+  experiments: ExperimentAssignments;
+  status: string;
+  confirmed_at: string | null;
+  score: number | null;
+  score_reasons: string[] | null;
+  profile_updated_at: string | null;
+  unsubscribed_at: string | null;
+  marketing_consent: boolean;
+  email_preference: string | null;
+};
+
+type AdminProfileChange = { changes: Record<string, { from: unknown; to: unknown }>; source: string; created_at: string };
+type AdminConsent = {
+  marketing_consent: boolean;
+  email_preference: string | null;
+  consent_text_version: string | null;
+  consented_at: string | null;
+  recorded_at: string;
+  source: string;
+};
+
+type AdminSortKey = 'created_at' | 'email' | 'source' | 'client_count' | 'status' | 'score';
+type AdminSort = { key: AdminSortKey; ascending: boolean };
+
+type AdminFilters = {
+  search: string;
+  source: string;
+  clientCount: string;
+  campaign: string;
+  /** yyyy-mm-dd (local), inclusive. */
+  from: string;
+  to: string;
+};
+
+const EMPTY_ADMIN_FILTERS: AdminFilters = { search: '', source: '', clientCount: '', campaign: '', from: '', to: '' };
+const ADMIN_PAGE_SIZE = 100;
+
+const ADMIN_LEAD_COLUMNS =
+  'id, created_at, email, name, primary_focus, client_count, coach_intents, presence, notes, source, site_version, ' +
+  'utm, first_touch, last_touch, experiments, user_agent, referer, status, confirmed_at, score, score_reasons, profile_updated_at, unsubscribed_at, ' +
+  'marketing_consent, email_preference';
+
+const ADMIN_COLUMNS: { key: AdminSortKey | null; label: string }[] = [
+  { key: 'created_at', label: 'Signed up' },
+  { key: 'email', label: 'Email' },
+  { key: null, label: 'Name' },
+  { key: 'source', label: 'Source' },
+  { key: 'client_count', label: 'Clients' },
+  { key: null, label: 'Campaign' },
+  { key: 'status', label: 'Status' },
+  { key: 'score', label: 'Score' },
+];
+
+/** Start of a local calendar day (yyyy-mm-dd), shifted by `offsetDays`, as ISO; null if unparseable. */
+function localDayStartIso(day: string, offsetDays = 0): string | null {
+  const d = new Date(`${day}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return null;
+  d.setDate(d.getDate() + offsetDays);
+  return d.toISOString();
+}
+
+function formatAdminDate(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** One page of leads. Filtering and sorting happen in Postgres; RLS decides whether anything comes back. */
+async function fetchAdminLeads(filters: AdminFilters, sort: AdminSort, offset: number) {
+  let q = getAdminSupabase().from('leads_coach_waitlist').select(ADMIN_LEAD_COLUMNS, { count: 'exact' });
+
+  const search = filters.search.trim().toLowerCase();
+  if (search) q = q.ilike('email', `%${search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  if (filters.source) q = q.eq('source', filters.source.trim());
+  if (filters.clientCount) q = q.eq('client_count', filters.clientCount);
+  if (filters.campaign.trim()) q = q.eq('utm->>utm_campaign', filters.campaign.trim());
+
+  // Date inputs are local days; `to` is inclusive, so compare against the next midnight.
+  const from = filters.from ? localDayStartIso(filters.from) : null;
+  if (from) q = q.gte('created_at', from);
+  const to = filters.to ? localDayStartIso(filters.to, 1) : null;
+  if (to) q = q.lt('created_at', to);
+
+  q = q.order(sort.key, { ascending: sort.ascending, nullsFirst: false });
+  if (sort.key !== 'created_at') q = q.order('created_at', { ascending: false });
+
+  const { data, error, count } = await q.range(offset, offset + ADMIN_PAGE_SIZE - 1);
+  if (error) throw error;
+  return { leads: (data ?? []) as AdminLead[], total: (count ?? 0) as number };
+}
+
+function rememberAdminOptions(prev: { sources: string[]; campaigns: string[] }, rows: AdminLead[]) {
+  const merge = (seen: string[], next: (string | null | undefined)[]) =>
+    Array.from(new Set([...seen, ...next.filter((v): v is string => Boolean(v))])).sort();
+  return {
+    sources: merge(prev.sources, rows.map((r) => r.source)),
+    campaigns: merge(prev.campaigns, rows.map((r) => r.utm?.utm_campaign)),
+  };
+}
+
+export default function AdminPage() {
+  const [state, setState] = useState<AdminAuthState>(SUPABASE_CONFIGURED ? 'loading' : 'error');
+  const [sessionEmail, setSessionEmail] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!SUPABASE_CONFIGURED) return;
+    const client = getAdminSupabase();
+    let disposed = false;
+
+    // The allowlist lives in the database (admin_team_members); ask it rather than guessing here.
+    const check = async (userEmail: string | null) => {
+      if (!userEmail) {
+        setSessionEmail(null);
+        setState('signed_out');
+        return;
+      }
+      setSessionEmail(userEmail);
+      setState('checking');
+      const { data, error: rpcError } = await client.rpc('is_waitlist_admin');
+      if (disposed) return;
+      if (rpcError) {
+        // eslint-disable-next-line no-console
+        console.error('Admin allowlist check failed', rpcError);
+        setState('error');
+        return;
+      }
+      setState(data === true ? 'ready' : 'forbidden');
+    };
+
+    // Fires INITIAL_SESSION on subscribe (after the magic-link code in the URL is exchanged).
+    type AuthSession = { user?: { email?: string } } | null;
+    const { data: sub } = client.auth.onAuthStateChange((_event: string, session: AuthSession) => {
+      if (disposed) return;
+      // Defer: calling the client inside this callback can deadlock its auth lock.
+      window.setTimeout(() => void check(session?.user?.email ?? null), 0);
+    });
+
+    return () => {
+      disposed = true;
+      sub.subscription.unsubscribe();
+    };
+  }, []);
+
+  const onSendLink = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    const trimmed = email.trim().toLowerCase();
+    if (!trimmed) {
+      setError('Please enter your work email.');
+      return;
+    }
+
+    setState('sending');
+    const { error: otpError } = await getAdminSupabase().auth.signInWithOtp({
+      email: trimmed,
+      options: { emailRedirectTo: `${window.location.origin}${ADMIN_ROUTE}` },
+    });
+    if (otpError) {
+      // eslint-disable-next-line no-console
+      console.error('Admin magic link error', otpError);
+      setError(
+        otpError.status === 429 ? 'Too many links requested. Wait a minute and try again.' : 'Could not send the link.'
+      );
+      setState('signed_out');
+      return;
+    }
+    setState('link_sent');
+  };
+
+  const onSignOut = async () => {
+    await getAdminSupabase().auth.signOut();
+    setEmail('');
+    setState('signed_out');
+  };
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
+      <header className="safe-pt border-b border-black/10 bg-white/90">
+        <Container>
+          <div className="flex h-16 items-center justify-between gap-4">
+            <BrandLockup href="/" />
+            {sessionEmail && state !== 'signed_out' ? (
+              <div className="flex items-center gap-3 text-xs text-neutral-600">
+                <span className="hidden sm:inline">{sessionEmail}</span>
+                <button type="button" onClick={onSignOut} className="font-semibold text-neutral-700 hover:text-black">
+                  Sign out
+                </button>
+              </div>
+            ) : null}
+          </div>
+        </Container>
+      </header>
+
+      <main className="flex-1" id="main">
+        {state === 'ready' ? (
+          <AdminLeadsDashboard />
+        ) : (
+          <Container>
+            <div className="max-w-xl py-16 sm:py-24" aria-live="polite">
+              <Kicker>Team</Kicker>
+
+              {state === 'loading' || state === 'checking' ? (
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Checking your session...</h1>
+              ) : state === 'link_sent' ? (
+                <>
+                  <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Check your inbox.</h1>
+                  <p className="mt-3 text-sm text-neutral-700">
+                    We sent a sign-in link to {email.trim().toLowerCase()}. Open it in this browser.
+                  </p>
+                </>
+              ) : state === 'forbidden' ? (
+                <>
+                  <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">This account isn’t on the team list.</h1>
+                  <p className="mt-3 text-sm text-neutral-700">
+                    {sessionEmail} is signed in but can’t see leads. Ask an admin to add it, or sign out and use your
+                    team email.
+                  </p>
+                  <div className="mt-6">
+                    <PrimaryButton onClick={onSignOut}>Sign out</PrimaryButton>
+                  </div>
+                </>
+              ) : state === 'error' ? (
+                <>
+                  <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Something went wrong.</h1>
+                  <p className="mt-3 text-sm text-neutral-700">
+                    {SUPABASE_CONFIGURED
+                      ? 'Please refresh and try again.'
+                      : 'The dashboard is not configured (missing Supabase env vars).'}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Sign in to the lead dashboard.</h1>
+                  <p className="mt-3 text-sm text-neutral-700">We’ll email you a one-time sign-in link.</p>
+
+                  <form onSubmit={onSendLink} className="mt-8 space-y-4" noValidate>
+                    <label className="block">
+                      <span className="text-xs font-semibold text-neutral-700">Work email</span>
+                      <input
+                        type="email"
+                        name="email"
+                        autoComplete="email"
+                        required
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className={PROFILE_INPUT_CLASS}
+                        placeholder="you@lungeable.com"
+                      />
+                    </label>
+
+                    {error ? (
+                      <p className="text-sm text-red-700" role="alert">
+                        {error}
+                      </p>
+                    ) : null}
+
+                    <PrimaryButton type="submit" disabled={state === 'sending'}>
+                      {state === 'sending' ? 'Sending...' : 'Email me a sign-in link'}
+                    </PrimaryButton>
+                  </form>
+                </>
+              )}
+            </div>
+          </Container>
+        )}
+      </main>
+    </div>
+  );
+}
+
+const ADMIN_FILTER_CLASS =
+  'mt-1 w-full rounded-xl border border-black/10 bg-white px-3 py-1.5 text-sm text-neutral-900 outline-none focus:border-black/40';
+
+function AdminLeadsDashboard() {
+  const [filters, setFilters] = useState<AdminFilters>(EMPTY_ADMIN_FILTERS);
+  const [sort, setSort] = useState<AdminSort>({ key: 'created_at', ascending: false });
+  const [leads, setLeads] = useState<AdminLead[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<AdminLead | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  // Suggestions for the free-text filters, collected from whatever has been loaded.
+  const [known, setKnown] = useState<{ sources: string[]; campaigns: string[] }>({ sources: [], campaigns: [] });
+
+  // Debounced so typing in the search box doesn't fire a query per keystroke.
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const t = window.setTimeout(async () => {
+      try {
+        const page = await fetchAdminLeads(filters, sort, 0);
+        if (cancelled) return;
+        setLeads(page.leads);
+        setTotal(page.total);
+        setKnown((prev) => rememberAdminOptions(prev, page.leads));
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        // eslint-disable-next-line no-console
+        console.error('Admin leads query failed', err);
+        setError('Could not load leads. Refresh to try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [filters, sort]);
+
+  const loadMore = async () => {
+    setLoading(true);
+    try {
+      const page = await fetchAdminLeads(filters, sort, leads.length);
+      setLeads((prev) => [...prev, ...page.leads]);
+      setTotal(page.total);
+      setKnown((prev) => rememberAdminOptions(prev, page.leads));
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Admin leads query failed', err);
+      setError('Could not load more leads.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setFilter = (key: keyof AdminFilters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters((prev) => ({ ...prev, [key]: e.target.value }));
+
+  // Dates and scores read best newest / highest first; text columns A→Z.
+  const toggleSort = (key: AdminSortKey) =>
+    setSort((prev) =>
+      prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: key !== 'created_at' && key !== 'score' }
+    );
+
+  const filtered = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-10 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Kicker>Coach waitlist</Kicker>
+          <h1 className="mt-2 text-2xl font-semibold tracking-tight">Leads</h1>
+        </div>
+        <div className="flex items-center gap-4">
+          <p className="text-xs text-neutral-600" aria-live="polite">
+            {loading ? 'Loading...' : `Showing ${leads.length} of ${total}`}
+          </p>
+          <button
+            type="button"
+            onClick={() => setExporting((v) => !v)}
+            className="rounded-full border border-black/10 px-4 py-2 text-xs font-semibold text-neutral-800 hover:border-black/30"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      {exporting ? <AdminExportPanel filters={filters} onClose={() => setExporting(false)} /> : null}
+
+      <div className="mt-6 grid gap-3 rounded-2xl border border-black/10 bg-[#f5f5f7] p-4 sm:grid-cols-2 lg:grid-cols-6">
+        <label className="block lg:col-span-2">
+          <span className="text-xs font-semibold text-neutral-700">Search email</span>
+          <input
+            type="search"
+            value={filters.search}
+            onChange={setFilter('search')}
+            className={ADMIN_FILTER_CLASS}
+            placeholder="alex@"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-neutral-700">Source</span>
+          <input
+            list="admin-sources"
+            value={filters.source}
+            onChange={setFilter('source')}
+            className={ADMIN_FILTER_CLASS}
+            placeholder="Any"
+          />
+          <datalist id="admin-sources">
+            {known.sources.map((s) => (
+              <option key={s} value={s} />
+            ))}
+          </datalist>
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-neutral-700">Clients</span>
+          <select value={filters.clientCount} onChange={setFilter('clientCount')} className={ADMIN_FILTER_CLASS}>
+            <option value="">Any</option>
+            {CLIENT_COUNT_OPTIONS.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-neutral-700">UTM campaign</span>
+          <input
+            list="admin-campaigns"
+            value={filters.campaign}
+            onChange={setFilter('campaign')}
+            className={ADMIN_FILTER_CLASS}
+            placeholder="Any"
+          />
+          <datalist id="admin-campaigns">
+            {known.campaigns.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block">
+            <span className="text-xs font-semibold text-neutral-700">From</span>
+            <input type="date" value={filters.from} onChange={setFilter('from')} className={ADMIN_FILTER_CLASS} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-semibold text-neutral-700">To</span>
+            <input type="date" value={filters.to} onChange={setFilter('to')} className={ADMIN_FILTER_CLASS} />
+          </label>
+        </div>
+        {filtered ? (
+          <div className="sm:col-span-2 lg:col-span-6">
+            <button
+              type="button"
+              onClick={() => setFilters(EMPTY_ADMIN_FILTERS)}
+              className="text-xs font-semibold text-neutral-700 hover:text-black"
+            >
+              Clear filters
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {error ? (
+        <p className="mt-4 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      <div className="mt-6 overflow-x-auto rounded-2xl border border-black/10">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-[#f5f5f7] text-xs text-neutral-600">
+            <tr>
+              {ADMIN_COLUMNS.map(({ key, label }) => (
+                <th
+                  key={label}
+                  scope="col"
+                  className="whitespace-nowrap px-3 py-2 font-semibold"
+                  aria-sort={key && sort.key === key ? (sort.ascending ? 'ascending' : 'descending') : undefined}
+                >
+                  {key ? (
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(key)}
+                      className="inline-flex items-center gap-1 hover:text-black"
+                    >
+                      {label}
+                      <span aria-hidden="true">{sort.key === key ? (sort.ascending ? '▲' : '▼') : ''}</span>
+                    </button>
+                  ) : (
+                    label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-black/5">
+            {leads.map((lead) => (
+              <tr key={lead.id} onClick={() => setSelected(lead)} className="cursor-pointer hover:bg-[#f5f5f7]">
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-600">{formatAdminDate(lead.created_at)}</td>
+                <td className="px-3 py-2">
+                  {/* The row is clickable too; the button makes the drawer keyboard-reachable. */}
+                  <button type="button" className="font-medium text-neutral-900 hover:underline">
+                    {lead.email}
+                  </button>
+                </td>
+                <td className="px-3 py-2 text-neutral-700">{lead.name || '—'}</td>
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-700">{lead.source}</td>
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-700">{lead.client_count || '—'}</td>
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-700">{lead.utm?.utm_campaign || '—'}</td>
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-700">
+                  {lead.unsubscribed_at ? `${lead.status} · unsubscribed` : lead.status}
+                </td>
+                <td className="whitespace-nowrap px-3 py-2 text-neutral-700">{lead.score ?? '—'}</td>
+              </tr>
+            ))}
+            {!loading && leads.length === 0 ? (
+              <tr>
+                <td colSpan={ADMIN_COLUMNS.length} className="px-3 py-8 text-center text-sm text-neutral-500">
+                  {filtered ? 'No leads match these filters.' : 'No leads yet.'}
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      {leads.length < total ? (
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loading}
+            className="text-sm font-semibold text-neutral-700 hover:text-black disabled:text-neutral-400"
+          >
+            Load {Math.min(ADMIN_PAGE_SIZE, total - leads.length)} more
+          </button>
+        </div>
+      ) : null}
+
+      {selected ? <AdminLeadDrawer lead={selected} onClose={() => setSelected(null)} /> : null}
+    </div>
+  );
+}
+
+const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: 'ID',
+  created_at: 'Signed up',
+  email: 'Email',
+  name: 'Name',
+  status: 'Status',
+  confirmed_at: 'Confirmed',
+  source: 'Source',
+  site_version: 'Site version',
+  primary_focus: 'Primary focus',
+  client_count: 'Clients',
+  coach_intents: 'Goals',
+  presence: 'Coaches on',
+  notes: 'Notes',
+  score: 'Score',
+  marketing_consent: 'Marketing consent',
+  email_preference: 'Email preference',
+  unsubscribed_at: 'Unsubscribed',
+  utm: 'UTM (one column per key)',
+  first_touch: 'First touch (JSON)',
+  last_touch: 'Last touch (JSON)',
+  experiments: 'Experiments (JSON)',
+  referer: 'Referrer',
+  user_agent: 'Browser',
+};
+
+/** Download through coach-waitlist-export with the dashboard's date range and source. */
+function AdminExportPanel({ filters, onClose }: { filters: AdminFilters; onClose: () => void }) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>([...EXPORT_COLUMNS]);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (c: ExportColumn) =>
+    setColumns((prev) => (prev.includes(c) ? prev.filter((x) => x !== c) : [...prev, c]));
+
+  const onDownload = async () => {
+    setError(null);
+    setWorking(true);
+    const body: ExportRequest = {
+      format,
+      from: (filters.from && localDayStartIso(filters.from)) || undefined,
+      to: (filters.to && localDayStartIso(filters.to, 1)) || undefined,
+      source: filters.source.trim() || undefined,
+      columns,
+    };
+    try {
+      // invoke() sends the signed-in session's access token; the function checks the team list.
+      const { data, error: fnError } = await getAdminSupabase().functions.invoke(COACH_WAITLIST_EXPORT_FN, { body });
+      if (fnError) {
+        const ctx = (fnError as { context?: Response }).context;
+        const res = (ctx ? await ctx.clone().json().catch(() => null) : null) as ExportErrorResponse | null;
+        // eslint-disable-next-line no-console
+        console.error('Admin export failed', res ?? fnError);
+        setError(
+          res?.error === 'forbidden' || res?.error === 'unauthorized'
+            ? 'Your session can’t export leads. Sign out and back in.'
+            : 'Export failed. Please try again.'
+        );
+        return;
+      }
+      const day = new Date().toISOString().slice(0, 10);
+      downloadFile(
+        `lungeable-leads-${day}.${format}`,
+        typeof data === 'string' ? data : '',
+        format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+      );
+      onClose();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Admin export failed', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const scope = [
+    filters.from || filters.to ? `${filters.from || 'start'} → ${filters.to || 'today'}` : 'all dates',
+    filters.source.trim() ? `source “${filters.source.trim()}”` : 'all sources',
+  ].join(', ');
+
+  return (
+    <div className="mt-4 rounded-2xl border border-black/10 bg-white p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold">Export leads</p>
+          <p className="mt-1 text-xs text-neutral-600">Uses the date range and source filters above: {scope}.</p>
+        </div>
+        <button type="button" onClick={onClose} className="text-xs font-semibold text-neutral-700 hover:text-black">
+          Cancel
+        </button>
+      </div>
+
+      <fieldset className="mt-4 flex flex-wrap gap-2">
+        <legend className="text-xs font-semibold text-neutral-700">Format</legend>
+        {(
+          [
+            ['csv', 'CSV (spreadsheets, CRM import)'],
+            ['ndjson', 'NDJSON (one JSON object per line)'],
+          ] as const
+        ).map(([value, label]) => (
+          <label
+            key={value}
+            className="mt-2 flex items-center gap-2 rounded-full border border-black/10 bg-[#f5f5f7] px-3 py-2 text-xs text-neutral-900"
+          >
+            <input
+              type="radio"
+              name="export_format"
+              value={value}
+              checked={format === value}
+              onChange={() => setFormat(value)}
+              className="accent-black"
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="mt-4">
+        <legend className="text-xs font-semibold text-neutral-700">
+          Columns{' '}
+          <button
+            type="button"
+            onClick={() => setColumns(columns.length === EXPORT_COLUMNS.length ? [] : [...EXPORT_COLUMNS])}
+            className="ml-2 font-normal text-neutral-500 hover:text-black"
+          >
+            {columns.length === EXPORT_COLUMNS.length ? 'Select none' : 'Select all'}
+          </button>
+        </legend>
+        <div className="mt-2 grid gap-1 sm:grid-cols-2 lg:grid-cols-4">
+          {EXPORT_COLUMNS.map((c) => (
+            <label key={c} className="flex items-center gap-2 text-xs text-neutral-800">
+              <input type="checkbox" checked={columns.includes(c)} onChange={() => toggleColumn(c)} className="accent-black" />
+              <span>{EXPORT_COLUMN_LABELS[c]}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {error ? (
+        <p className="mt-3 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      <div className="mt-4">
+        <PrimaryButton onClick={onDownload} disabled={working || columns.length === 0}>
+          {working ? 'Exporting...' : `Download ${format.toUpperCase()}`}
+        </PrimaryButton>
+      </div>
+    </div>
+  );
+}
+
+function AdminDetail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-3 gap-3 py-2">
+      <dt className="text-xs font-semibold text-neutral-500">{label}</dt>
+      <dd className="col-span-2 break-words text-sm text-neutral-900">{children || '—'}</dd>
+    </div>
+  );
+}
+
+/** One attribution touch: when, campaign and click IDs, where from, where it landed. */
+function AdminTouch({ touch }: { touch: AttributionTouch }) {
+  const rows: [string, string][] = [
+    ...Object.entries(touch.utm),
+    ...Object.entries(touch.click_ids),
+    ['from', touch.referrer_domain || 'direct'],
+    ['landed on', touch.landing_path],
+  ];
+  return (
+    <>
+      <span className="text-xs text-neutral-600">{formatAdminDate(touch.at)}</span>
+      <ul className="text-xs">
+        {rows.map(([k, v]) => (
+          <li key={k}>
+            <span className="text-neutral-500">{k}:</span> {v}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+function AdminLeadDrawer({ lead, onClose }: { lead: AdminLead; onClose: () => void }) {
+  const [history, setHistory] = useState<{ changes: AdminProfileChange[]; consents: AdminConsent[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    const client = getAdminSupabase();
+    void Promise.all([
+      client
+        .from('lead_profile_changes')
+        .select('changes, source, created_at')
+        .eq('lead_id', lead.id)
+        .order('created_at', { ascending: false }),
+      client
+        .from('lead_consents')
+        .select('marketing_consent, email_preference, consent_text_version, consented_at, recorded_at, source')
+        .eq('lead_id', lead.id)
+        .order('recorded_at', { ascending: false }),
+    ]).then(([changes, consents]) => {
+      if (cancelled) return;
+      // eslint-disable-next-line no-console
+      if (changes.error || consents.error) console.error('Admin lead history failed', changes.error ?? consents.error);
+      setHistory({
+        changes: (changes.data ?? []) as AdminProfileChange[],
+        consents: (consents.data ?? []) as AdminConsent[],
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lead.id]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const utmEntries = Object.entries(lead.utm || {});
+  const experimentEntries = Object.entries(lead.experiments || {});
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <button type="button" aria-label="Close" onClick={onClose} className="absolute inset-0 bg-black/20" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Lead ${lead.email}`}
+        className="relative h-full w-full max-w-lg overflow-y-auto bg-white p-6 shadow-xl"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Kicker>Lead</Kicker>
+            <h2 className="mt-2 break-all text-lg font-semibold">{lead.email}</h2>
+            <p className="mt-1 text-xs text-neutral-600">Signed up {formatAdminDate(lead.created_at)}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-sm font-semibold text-neutral-700 hover:text-black">
+            Close
+          </button>
+        </div>
+
+        <dl className="mt-6 divide-y divide-black/5">
+          <AdminDetail label="Name">{lead.name}</AdminDetail>
+          <AdminDetail label="Status">
+            {lead.status}
+            {lead.confirmed_at ? ` (${formatAdminDate(lead.confirmed_at)})` : ''}
+          </AdminDetail>
+          <AdminDetail label="Unsubscribed">{lead.unsubscribed_at ? formatAdminDate(lead.unsubscribed_at) : null}</AdminDetail>
+          <AdminDetail label="Marketing">
+            {lead.marketing_consent ? `Opted in${lead.email_preference ? ` (${lead.email_preference})` : ''}` : 'No'}
+          </AdminDetail>
+          <AdminDetail label="Score">
+            {lead.score ?? null}
+            {lead.score_reasons?.length ? (
+              <ul className="mt-1 list-disc pl-4 text-xs text-neutral-600">
+                {lead.score_reasons.map((r) => (
+                  <li key={r}>{r}</li>
+                ))}
+              </ul>
+            ) : null}
+          </AdminDetail>
+          <AdminDetail label="Primary focus">{lead.primary_focus}</AdminDetail>
+          <AdminDetail label="Clients">{lead.client_count}</AdminDetail>
+          <AdminDetail label="Goals">{lead.coach_intents.join(', ')}</AdminDetail>
+          <AdminDetail label="Coaches on">{lead.presence}</AdminDetail>
+          <AdminDetail label="Notes">
+            {lead.notes ? <span className="whitespace-pre-wrap">{lead.notes}</span> : null}
+          </AdminDetail>
+          <AdminDetail label="Source">{lead.source}</AdminDetail>
+          <AdminDetail label="Site version">{lead.site_version}</AdminDetail>
+          <AdminDetail label="UTM">
+            {utmEntries.length ? (
+              <ul className="text-xs">
+                {utmEntries.map(([k, v]) => (
+                  <li key={k}>
+                    <span className="text-neutral-500">{k}:</span> {v}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </AdminDetail>
+          <AdminDetail label="First touch">{lead.first_touch ? <AdminTouch touch={lead.first_touch} /> : null}</AdminDetail>
+          <AdminDetail label="Last touch">{lead.last_touch ? <AdminTouch touch={lead.last_touch} /> : null}</AdminDetail>
+          <AdminDetail label="Experiments">
+            {experimentEntries.length ? (
+              <ul className="text-xs">
+                {experimentEntries.map(([k, v]) => (
+                  <li key={k}>
+                    <span className="text-neutral-500">{k}:</span> {v}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </AdminDetail>
+          <AdminDetail label="Referrer">{lead.referer}</AdminDetail>
+          <AdminDetail label="Browser">{lead.user_agent}</AdminDetail>
+          <AdminDetail label="Profile updated">
+            {lead.profile_updated_at ? formatAdminDate(lead.profile_updated_at) : null}
+          </AdminDetail>
+        </dl>
+
+        <h3 className="mt-8 text-sm font-semibold">Profile changes</h3>
+        {!history ? (
+          <p className="mt-2 text-xs text-neutral-500">Loading...</p>
+        ) : history.changes.length === 0 ? (
+          <p className="mt-2 text-xs text-neutral-500">None.</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {history.changes.map((c, i) => (
+              <li key={`${c.created_at}-${i}`} className="rounded-xl border border-black/10 p-3 text-xs">
+                <p className="text-neutral-500">
+                  {formatAdminDate(c.created_at)} · {c.source}
+                </p>
+                <ul className="mt-1">
+                  {Object.entries(c.changes).map(([field, { from, to }]) => (
+                    <li key={field}>
+                      <span className="font-semibold">{field}</span>: {JSON.stringify(from)} → {JSON.stringify(to)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h3 className="mt-8 text-sm font-semibold">Consent records</h3>
+        {!history ? (
+          <p className="mt-2 text-xs text-neutral-500">Loading...</p>
+        ) : history.consents.length === 0 ? (
+          <p className="mt-2 text-xs text-neutral-500">None.</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {history.consents.map((c, i) => (
+              <li key={`${c.recorded_at}-${i}`} className="rounded-xl border border-black/10 p-3 text-xs">
+                <p className="text-neutral-500">
+                  {formatAdminDate(c.recorded_at)} · {c.source}
+                </p>
+                <p className="mt-1">
+                  {c.marketing_consent ? 'Opted in' : 'Opted out'}
+                  {c.email_preference ? ` (${c.email_preference})` : ''}
+                  {c.consent_text_version ? ` · wording ${c.consent_text_version}` : ''}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
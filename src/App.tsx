@@ -1,15 +1,52 @@
 // src/App.tsx
-import React, { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import React, { Suspense, lazy, useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
 import WeekOneGlance from './WeekOneGlance';
 import DMSimulator from './DMSimulator';
+import ConfirmPage from './ConfirmPage';
+import ProfilePage from './ProfilePage';
+import UnsubscribePage from './UnsubscribePage';
+import MyDataPage from './MyDataPage';
+import { track, type CtaLocation, type DemoBookingStep, type SignupFailureReason } from './analytics';
+import { getAttribution, getUtmFromUrl } from './attribution';
+import { getExperimentAssignments, useVariant } from './experiments';
+import { summarizeFieldErrors } from './fieldErrors';
+import { SECTION_ATTR, useSectionAnalytics } from './sectionAnalytics';
+import {
+  ADMIN_ROUTE,
+  ASSET_BASE,
+  COACH_DEMO_BOOKING_FN,
+  COACH_WAITLIST_SIGNUP_FN,
+  CONFIRM_ROUTE,
+  DEMO_ROUTE,
+  MY_DATA_ROUTE,
+  PROFILE_ROUTE,
+  SUPPORT_EMAIL,
+  UNSUBSCRIBE_ROUTE,
+} from './site';
 import { supabase, SUPABASE_CONFIGURED } from './supabaseClient';
+import { BrandLockup, Container, FieldErrorText, Kicker, PrimaryButton, SecondaryLink } from './ui';
+import {
+  ALLOWED_COACH_INTENTS,
+  MARKETING_CONSENT_TEXTS,
+  MARKETING_CONSENT_TEXT_VERSION,
+  SIGNUP_SCHEMA_VERSION,
+  isSignupErrorResponse,
+  suggestEmail,
+  validateSignupBody,
+  type EmailPreference,
+  type SignupBody,
+  type SignupFieldErrors,
+} from '../supabase/functions/_shared/signupSchema.ts';
+import type { DemoBookingRequest, DemoBookingResponse } from '../supabase/functions/_shared/demoBookingContract.ts';
+
+// The team dashboard is the largest page and only the team opens it.
+const AdminPage = lazy(() => import('./AdminPage'));
 
 type ScrollStepId = 'onboard' | 'pocket' | 'report' | 'accept';
 type CtaMode = 'demo' | 'apply';
 
 const SITE_VERSION = 'coach-landing-v2-mono';
 
-const DEMO_ROUTE = '/demo';
 const DEFAULT_CALENDLY_URL = 'https://calendly.com/xuru-lungeable/30min';
 const CALENDLY_URL = import.meta.env.VITE_CALENDLY_URL || DEFAULT_CALENDLY_URL;
 
@@ -26,23 +63,13 @@ const parsePositiveInt = (value: unknown, fallback: number): number => {
 // Defaults keep local builds working even when env vars are missing.
 const TRIAL_DAYS = parsePositiveInt(import.meta.env.VITE_TRIAL_DAYS, 14);
 const TRIAL_STARTER_CLIENTS = parsePositiveInt(import.meta.env.VITE_TRIAL_STARTER_CLIENTS, 3);
-const SUPPORT_EMAIL = (() => {
-  const v = String(import.meta.env.VITE_SUPPORT_EMAIL || '').trim();
-  return v || 'support@lungeable.com';
-})();
-
-const ALLOWED_COACH_INTENTS = [
-  'Save time',
-  'Safer progression',
-  'Scale my roster',
-  'Better client experience',
-  'Other',
-] as const;
+
+// Founding coach plan (PricingSection; the price_framing experiment divides one by the other).
+const FOUNDING_PRICE_USD = 39;
+const FOUNDING_PLAN_CLIENTS = 30;
+const FOUNDING_PRICE_PER_CLIENT = (FOUNDING_PRICE_USD / FOUNDING_PLAN_CLIENTS).toFixed(2);
 
 const TURNSTILE_SITE_KEY = (import.meta.env.VITE_TURNSTILE_SITE_KEY || '').trim();
-const COACH_WAITLIST_SIGNUP_FN = (
-  import.meta.env.VITE_COACH_WAITLIST_SIGNUP_FN || 'coach-waitlist-signup'
-).trim();
 
 declare global {
   interface Window {
@@ -57,23 +84,8 @@ declare global {
   }
 }
 
-const ASSET_BASE = (import.meta.env.BASE_URL || '/').replace(/\/?$/, '/');
-const LOGO_SVG_SRC = `${ASSET_BASE}logo.svg`;
-const LOGO_PNG_SRC = `${ASSET_BASE}${encodeURI('Lungeable Logo.png')}`;
 const OG_IMAGE_SRC = `${ASSET_BASE}og.png`;
 
-function getUtmFromUrl(): Record<string, string> {
-  if (typeof window === 'undefined') return {};
-  const params = new URLSearchParams(window.location.search);
-  const keys = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'utm_id'];
-  const utm: Record<string, string> = {};
-  for (const k of keys) {
-    const v = params.get(k);
-    if (v) utm[k] = v;
-  }
-  return utm;
-}
-
 function upsertMetaTag(
   key: { name?: string; property?: string },
   content: string
@@ -165,51 +177,6 @@ function usePrefersReducedMotion() {
 /* Layout primitives                                                           */
 /* -------------------------------------------------------------------------- */
 
-function Container({ children }: { children: React.ReactNode }) {
-  return <div className="mx-auto max-w-6xl px-4 sm:px-6 lg:px-8">{children}</div>;
-}
-
-function Kicker({ children }: { children: React.ReactNode }) {
-  return (
-    <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-neutral-500">
-      {children}
-    </p>
-  );
-}
-
-function PrimaryButton({
-  children,
-  onClick,
-  className = '',
-  type = 'button',
-  disabled = false,
-}: {
-  children: React.ReactNode;
-  onClick?: () => void;
-  className?: string;
-  type?: 'button' | 'submit';
-  disabled?: boolean;
-}) {
-  return (
-    <button
-      type={type}
-      onClick={onClick}
-      disabled={disabled}
-      className={`inline-flex min-h-[44px] items-center justify-center rounded-full bg-black px-6 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-neutral-900 disabled:cursor-not-allowed disabled:bg-neutral-500 disabled:hover:bg-neutral-500 ${className}`}
-    >
-      {children}
-    </button>
-  );
-}
-
-function SecondaryLink({ href, children }: { href: string; children: React.ReactNode }) {
-  return (
-    <a href={href} className="text-sm font-semibold text-neutral-700 hover:text-black">
-      {children}
-    </a>
-  );
-}
-
 function Band({
   id,
   tone = 'paper',
@@ -229,49 +196,36 @@ function Band({
         : 'bg-black text-white border-b border-white/10';
 
   return (
-    <section id={id} className={`${toneClass} py-16 sm:py-20 lg:py-24 ${className}`}>
+    <section
+      id={id}
+      {...(id ? { [SECTION_ATTR]: id } : {})}
+      className={`${toneClass} py-16 sm:py-20 lg:py-24 ${className}`}
+    >
       {children}
     </section>
   );
 }
 
-function BrandMark({ className = '' }: { className?: string }) {
-  // Prefer SVG if it exists, fall back to your public/Lungeable Logo.png automatically.
-  const [src, setSrc] = useState(LOGO_SVG_SRC);
-
-  return (
-    <img
-      src={src}
-      onError={() => {
-        // Avoid infinite loops if both assets are missing.
-        if (src !== LOGO_PNG_SRC) setSrc(LOGO_PNG_SRC);
-      }}
-      alt="Lungeable"
-      className={`h-8 w-8 rounded-xl border border-black/10 bg-white p-1 ${className}`}
-    />
-  );
-}
-
-function BrandLockup({ href }: { href: string }) {
-  return (
-    <a href={href} className="flex items-center gap-2">
-      <BrandMark />
-      <div className="leading-tight">
-        <p className="text-sm font-semibold">Lungeable</p>
-        <p className="text-xs text-neutral-500">Adaptive training OS</p>
-      </div>
-    </a>
-  );
-}
 
 /* -------------------------------------------------------------------------- */
 /* App                                                                         */
 /* -------------------------------------------------------------------------- */
 
 const App: React.FC = () => {
-  // This site is intentionally “no-router”: we only special-case /demo.
+  // This site is intentionally “no-router”: we only special-case /demo, the emailed-link
+  // pages (/confirm, /profile, /unsubscribe, /my-data) and the team's /admin dashboard.
   const pathname = typeof window !== 'undefined' ? window.location.pathname : '/';
   const isDemoPage = pathname === DEMO_ROUTE || pathname.startsWith(`${DEMO_ROUTE}/`);
+  const isConfirmPage = pathname === CONFIRM_ROUTE;
+  const isProfilePage = pathname === PROFILE_ROUTE;
+  const isUnsubscribePage = pathname === UNSUBSCRIBE_ROUTE;
+  const isMyDataPage = pathname === MY_DATA_ROUTE;
+  const isAdminPage = pathname === ADMIN_ROUTE || pathname.startsWith(`${ADMIN_ROUTE}/`);
+
+  const isLandingPage = !(isDemoPage || isConfirmPage || isProfilePage || isUnsubscribePage || isMyDataPage || isAdminPage);
+
+  // Which sections get read, and for how long (see ./sectionAnalytics.ts).
+  useSectionAnalytics(isLandingPage);
 
   // CTA mode for Join section
   const [ctaMode, setCtaMode] = useState<CtaMode>('apply');
@@ -280,7 +234,17 @@ const App: React.FC = () => {
   useEffect(() => {
     const title = isDemoPage
       ? 'Book a demo — Lungeable'
-      : 'Lungeable — Adaptive training OS for remote strength coaches';
+      : isConfirmPage
+        ? 'Confirm your email — Lungeable'
+        : isProfilePage
+          ? 'Complete your profile — Lungeable'
+          : isUnsubscribePage
+            ? 'Unsubscribe — Lungeable'
+            : isMyDataPage
+              ? 'Your data — Lungeable'
+              : isAdminPage
+                ? 'Leads — Lungeable'
+                : 'Lungeable — Adaptive training OS for remote strength coaches';
 
     const description = isDemoPage
       ? 'Schedule a walkthrough of the Weekly Report → Accept‑Week loop, Pocket Coach replans, and guardrails.'
@@ -297,6 +261,7 @@ const App: React.FC = () => {
     upsertMetaTag({ name: 'twitter:title' }, title);
     upsertMetaTag({ name: 'twitter:description' }, description);
     upsertMetaTag({ name: 'twitter:image' }, OG_IMAGE_SRC);
+    if (isAdminPage) upsertMetaTag({ name: 'robots' }, 'noindex, nofollow');
 
     if (typeof window !== 'undefined') {
       const canonical = new URL(window.location.href);
@@ -304,7 +269,7 @@ const App: React.FC = () => {
       canonical.hash = '';
       upsertLinkTag('canonical', canonical.toString());
     }
-  }, [isDemoPage]);
+  }, [isDemoPage, isConfirmPage, isProfilePage, isUnsubscribePage, isMyDataPage, isAdminPage]);
 
   const scrollToJoin = (mode: CtaMode = 'apply') => {
     setCtaMode(mode);
@@ -319,6 +284,17 @@ const App: React.FC = () => {
     window.location.assign(`${DEMO_ROUTE}${qs}`);
   };
 
+  // CTA handlers per placement, so analytics can tell the hero button from the header's.
+  const startTrialFrom = (location: CtaLocation) => () => {
+    track('CTA Click', { cta: 'start_trial', location });
+    scrollToJoin('apply');
+  };
+
+  const demoFrom = (location: CtaLocation) => () => {
+    track('Demo Click', { location });
+    goToDemo();
+  };
+
   // CTA-mode deep links for marketing (e.g., /?cta=apply&utm_source=linkedin)
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -341,43 +317,71 @@ const App: React.FC = () => {
     return <DemoPage calendlyUrl={CALENDLY_URL} />;
   }
 
+  if (isConfirmPage) {
+    return <ConfirmPage />;
+  }
+
+  if (isProfilePage) {
+    return <ProfilePage />;
+  }
+
+  if (isUnsubscribePage) {
+    return <UnsubscribePage />;
+  }
+
+  if (isMyDataPage) {
+    return <MyDataPage />;
+  }
+
+  if (isAdminPage) {
+    return (
+      <Suspense fallback={null}>
+        <AdminPage />
+      </Suspense>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
       <a href="#main" className="skip-link">
         Skip to main content
       </a>
 
-      <AnnouncementBar onStartTrial={() => scrollToJoin('apply')} />
-      <Header onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+      <AnnouncementBar onStartTrial={startTrialFrom('announcement')} />
+      <Header onDemo={demoFrom('header')} onStartTrial={startTrialFrom('header')} />
 
       <main className="flex-1" id="main">
-        <Hero onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <Hero onDemo={demoFrom('hero')} onStartTrial={startTrialFrom('hero')} />
 
         <WhySwitch />
 
-        <HowItWorks onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <HowItWorks
+          onDemo={demoFrom('how_it_works')}
+          onStartTrial={startTrialFrom('how_it_works')}
+          onWeekOneJoin={startTrialFrom('week_one_glance')}
+        />
 
-        <WeeklyReportsDeepDive onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <WeeklyReportsDeepDive onDemo={demoFrom('weekly_reports')} onStartTrial={startTrialFrom('weekly_reports')} />
 
-        <PocketCoachDeepDive onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <PocketCoachDeepDive onDemo={demoFrom('pocket_coach')} onStartTrial={startTrialFrom('pocket_coach')} />
 
-        <CoachDeskDeepDive onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <CoachDeskDeepDive onDemo={demoFrom('coach_desk')} onStartTrial={startTrialFrom('coach_desk')} />
 
         <DefaultStackSection />
 
         <CompareSection />
 
-        <PricingSection onDemo={goToDemo} onStartTrial={() => scrollToJoin('apply')} />
+        <PricingSection onDemo={demoFrom('pricing')} onStartTrial={startTrialFrom('pricing')} />
 
         <ProofSection />
 
-        <JoinSection mode={ctaMode} onModeChange={setCtaMode} onDemo={goToDemo} />
+        <JoinSection mode={ctaMode} onModeChange={setCtaMode} onDemo={demoFrom('join')} />
 
         <FaqSection />
       </main>
 
       <Footer />
-      <MobileBottomCta onStartTrial={() => scrollToJoin('apply')} />
+      <MobileBottomCta onStartTrial={startTrialFrom('mobile_bar')} />
     </div>
   );
 };
@@ -388,11 +392,76 @@ export default App;
 /* /demo — Calendly booking page                                               */
 /* -------------------------------------------------------------------------- */
 
+const CALENDLY_ORIGIN = 'https://calendly.com';
+
+const DEMO_BOOKING_STEPS: readonly DemoBookingStep[] = [
+  'profile_page_viewed',
+  'event_type_viewed',
+  'date_and_time_selected',
+  'event_scheduled',
+];
+
+/** What the Calendly embed posts to its parent page: { event: "calendly.<step>", payload }. */
+type CalendlyMessage = {
+  event?: unknown;
+  payload?: { event?: { uri?: string }; invitee?: { uri?: string } };
+};
+
+/**
+ * Hand a booking to coach-demo-booking, which confirms it with Calendly and links it
+ * to the lead. The page only knows the two URIs; the function gets the email.
+ */
+async function recordDemoBooking(payload: CalendlyMessage['payload']) {
+  const eventUri = payload?.event?.uri;
+  const inviteeUri = payload?.invitee?.uri;
+  let recorded = false;
+
+  if (eventUri && inviteeUri && SUPABASE_CONFIGURED) {
+    const body: DemoBookingRequest = {
+      event_uri: eventUri,
+      invitee_uri: inviteeUri,
+      utm: getAttribution().last_touch?.utm ?? getUtmFromUrl(),
+      site_version: `${SITE_VERSION}:demo`,
+      experiments: getExperimentAssignments(),
+    };
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke(COACH_DEMO_BOOKING_FN, { body });
+      recorded = !fnError && (data as DemoBookingResponse | null)?.ok === true;
+      // eslint-disable-next-line no-console
+      if (fnError) console.error('Demo booking error', fnError);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Demo booking error', err);
+    }
+  }
+
+  track('Demo Booked', { recorded });
+}
+
 function DemoPage({ calendlyUrl }: { calendlyUrl: string }) {
   useEffect(() => {
     if (typeof window !== 'undefined') window.scrollTo(0, 0);
   }, []);
 
+  // Calendly reports each step of the booking to the embedding page (only with
+  // embed_domain set, see calendlyEmbedUrl). A finished booking is also recorded.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin !== CALENDLY_ORIGIN) return;
+      const data = (e.data && typeof e.data === 'object' ? e.data : {}) as CalendlyMessage;
+      const step = typeof data.event === 'string' ? data.event.replace(/^calendly\./, '') : '';
+      if (!(DEMO_BOOKING_STEPS as readonly string[]).includes(step)) return;
+
+      track('Demo Booking Step', { step: step as DemoBookingStep });
+      if (step === 'event_scheduled') void recordDemoBooking(data.payload);
+    };
+
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
   const goToTrial = () => {
     if (typeof window === 'undefined') return;
     const params = new URLSearchParams(window.location.search);
@@ -411,6 +480,10 @@ function DemoPage({ calendlyUrl }: { calendlyUrl: string }) {
       // Keep the embed clean.
       u.searchParams.set('hide_landing_page_details', '1');
       u.searchParams.set('hide_gdpr_banner', '1');
+
+      // Without these Calendly doesn't post its events to this page.
+      u.searchParams.set('embed_domain', window.location.host);
+      u.searchParams.set('embed_type', 'Inline');
       return u.toString();
     } catch {
       return calendlyUrl;
@@ -546,13 +619,18 @@ function DemoPage({ calendlyUrl }: { calendlyUrl: string }) {
 /* -------------------------------------------------------------------------- */
 
 function AnnouncementBar({ onStartTrial }: { onStartTrial: () => void }) {
+  const priceFraming = useVariant('price_framing');
+
   return (
     <div className="border-b border-black/10 bg-[#f5f5f7]">
       <Container>
         <div className="flex min-h-[40px] items-center justify-between gap-3 py-2 text-xs text-neutral-700">
           <p className="leading-snug">
             <span className="font-semibold text-neutral-900">Coach beta:</span> {TRIAL_DAYS}-day free trial for new
-            coaches · founding price locked for life.
+            coaches ·{' '}
+            {priceFraming === 'per_client'
+              ? `founding price about $${FOUNDING_PRICE_PER_CLIENT} per client, locked for life.`
+              : 'founding price locked for life.'}
           </p>
           <button
             type="button"
@@ -626,6 +704,8 @@ function Hero({
   onDemo: () => void;
   onStartTrial: () => void;
 }) {
+  const headline = useVariant('hero_headline');
+
   return (
     <Band id="coach" tone="paper">
       <Container>
@@ -633,9 +713,19 @@ function Hero({
           <div className="max-w-xl">
             <Kicker>Adaptive training OS for remote strength coaches</Kicker>
             <h1 className="mt-4 text-4xl font-semibold tracking-tight sm:text-5xl">
-              Program weeks in minutes.
-              <br />
-              Adjust in seconds.
+              {headline === 'sunday' ? (
+                <>
+                  Stop rewriting 20 plans
+                  <br />
+                  every Sunday.
+                </>
+              ) : (
+                <>
+                  Program weeks in minutes.
+                  <br />
+                  Adjust in seconds.
+                </>
+              )}
             </h1>
             <p className="mt-4 text-base leading-relaxed text-neutral-700">
               Lungeable drafts weeks with evidence‑based guardrails, turns check‑ins into clear Weekly Reports, and
@@ -758,9 +848,12 @@ function WhySwitch() {
 function HowItWorks({
   onDemo,
   onStartTrial,
+  onWeekOneJoin,
 }: {
   onDemo: () => void;
   onStartTrial: () => void;
+  /** WeekOneGlance's own "Start free trial" button. */
+  onWeekOneJoin: () => void;
 }) {
   const steps = useMemo(
     () =>
@@ -819,14 +912,19 @@ function HowItWorks({
                     seedGoal="build"
                     seedMinutes={45}
                     seedEquipment={['db', 'barbell']}
-                    onJoin={onStartTrial}
+                    onJoin={onWeekOneJoin}
+                    onGoalChange={(goal) => track('Week One Goal Changed', { goal })}
+                    onMinutesChange={(minutes) => track('Week One Minutes Changed', { minutes })}
+                    onEquipmentChange={(equipment, selected) =>
+                      track('Week One Equipment Changed', { equipment, selected })
+                    }
                     trialDays={TRIAL_DAYS}
                     trialStarterClients={TRIAL_STARTER_CLIENTS}
                   />
                 </DeviceScene>
 
                 <DeviceScene visible={activeId === 'pocket'} reducedMotion={reducedMotion}>
-                  <DMSimulator />
+                  <DMSimulator onSim={(scenario) => track('DM Scenario Played', { scenario, location: 'how_it_works' })} />
                 </DeviceScene>
 
                 <DeviceScene visible={activeId === 'report'} reducedMotion={reducedMotion}>
@@ -1064,7 +1162,7 @@ function PocketCoachDeepDive({
           </div>
 
           <div>
-            <DMSimulator />
+            <DMSimulator onSim={(scenario) => track('DM Scenario Played', { scenario, location: 'pocket_coach' })} />
           </div>
         </div>
       </Container>
@@ -1328,6 +1426,8 @@ function PricingSection({
   onDemo: () => void;
   onStartTrial: () => void;
 }) {
+  const priceFraming = useVariant('price_framing');
+
   return (
     <Band id="pricing" tone="paper">
       <Container>
@@ -1347,13 +1447,28 @@ function PricingSection({
             <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-neutral-600">
               Founding coach plan
             </p>
-            <div className="mt-3 flex items-baseline gap-1">
-              <span className="text-3xl font-semibold text-neutral-900">$39</span>
-              <span className="text-sm text-neutral-600">/month</span>
-            </div>
-            <p className="mt-1 text-xs text-neutral-600">
-              Up to 30 active online clients · price locked for life for early coaches.
-            </p>
+            {priceFraming === 'per_client' ? (
+              <>
+                <div className="mt-3 flex items-baseline gap-1">
+                  <span className="text-3xl font-semibold text-neutral-900">${FOUNDING_PRICE_PER_CLIENT}</span>
+                  <span className="text-sm text-neutral-600">/client/month</span>
+                </div>
+                <p className="mt-1 text-xs text-neutral-600">
+                  ${FOUNDING_PRICE_USD}/month flat for up to {FOUNDING_PLAN_CLIENTS} active online clients · price locked
+                  for life for early coaches.
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="mt-3 flex items-baseline gap-1">
+                  <span className="text-3xl font-semibold text-neutral-900">${FOUNDING_PRICE_USD}</span>
+                  <span className="text-sm text-neutral-600">/month</span>
+                </div>
+                <p className="mt-1 text-xs text-neutral-600">
+                  Up to {FOUNDING_PLAN_CLIENTS} active online clients · price locked for life for early coaches.
+                </p>
+              </>
+            )}
 
             <ul className="mt-4 space-y-2 text-sm text-neutral-800">
               <li>• Weekly generator with guardrails</li>
@@ -1606,6 +1721,33 @@ function JoinSection({
 
 type FormState = 'idle' | 'submitting' | 'success' | 'error';
 
+/**
+ * "Did you mean …?" under the email field. One click takes the suggestion;
+ * "Keep it" tells the server the coach really meant what they typed.
+ */
+function EmailSuggestion({
+  suggestion,
+  onAccept,
+  onKeep,
+}: {
+  suggestion: string;
+  onAccept: () => void;
+  onKeep: () => void;
+}) {
+  return (
+    <span className="mt-1 block text-[11px] text-neutral-700">
+      Did you mean{' '}
+      <button type="button" onClick={onAccept} className="font-semibold text-neutral-900 underline underline-offset-2">
+        {suggestion}
+      </button>
+      ?{' '}
+      <button type="button" onClick={onKeep} className="text-neutral-500 underline underline-offset-2">
+        No, keep mine
+      </button>
+    </span>
+  );
+}
+
 function CoachSignupForm({
   mode,
   variant = 'full',
@@ -1624,7 +1766,19 @@ function CoachSignupForm({
   const [state, setState] = useState<FormState>('idle');
   const [email, setEmail] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<SignupFieldErrors>({});
   const [alreadyOnList, setAlreadyOnList] = useState(false);
+  const [needsConfirmation, setNeedsConfirmation] = useState(false);
+  const [emailSuggestion, setEmailSuggestion] = useState<string | null>(null);
+  const [emailTypoAck, setEmailTypoAck] = useState(false);
+
+  /**
+   * Marketing consent is opt-in (never pre-ticked). We send the wording's version and
+   * when the box was ticked; the server snapshots the text into lead_consents.
+   */
+  const [marketingConsent, setMarketingConsent] = useState(false);
+  const [emailPreference, setEmailPreference] = useState<EmailPreference>('beta_access');
+  const [consentAt, setConsentAt] = useState<string | null>(null);
 
   /**
    * Honeypot: hidden input that real users will not fill.
@@ -1723,10 +1877,6 @@ function CoachSignupForm({
     }
 
     const trimmedEmail = email.trim().toLowerCase();
-    if (!trimmedEmail || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) {
-      setError('Please enter a valid email.');
-      return;
-    }
 
     // Honeypot hit -> silently accept (do NOT insert anything, do NOT show an error)
     // This reduces signal to automated spam.
@@ -1744,16 +1894,17 @@ function CoachSignupForm({
       return;
     }
 
+    const source = sourceOverride || (mode === 'apply' ? 'coach-trial' : 'coach-demo');
+    const failed = (reason: SignupFailureReason) => track('Signup Failed', { mode, source, reason });
+    track('Signup Submitted', { mode, source });
+
     // If Turnstile is enabled, require a token.
     if (TURNSTILE_SITE_KEY && !turnstileToken) {
+      failed('verification');
       setError('Please complete the verification and try again.');
       return;
     }
 
-    setState('submitting');
-    setError(null);
-    setAlreadyOnList(false);
-
     const form = e.currentTarget;
     const formData = new FormData(form);
 
@@ -1763,30 +1914,64 @@ function CoachSignupForm({
     // Only allow checkbox values that pass your DB CHECK constraint.
     const allowed = new Set<string>(ALLOWED_COACH_INTENTS);
     const coachIntentsRaw = formData.getAll('coach_intent').map(String);
-    const coachIntents = coachIntentsRaw.filter((x) => allowed.has(x));
+    const coachIntents = coachIntentsRaw.filter((x) => allowed.has(x)) as SignupBody['coach_intents'];
 
-    const utm = getUtmFromUrl();
+    // Attribution survives across visits (./attribution.ts); `utm` is the last touch's,
+    // so a coach who came back directly keeps the campaign that brought them.
+    const { first_touch, last_touch } = getAttribution();
+    const utm = last_touch?.utm ?? getUtmFromUrl();
 
-    const payload = {
+    const payload: SignupBody = {
+      schema_version: SIGNUP_SCHEMA_VERSION,
       email: trimmedEmail,
       name: (formData.get('name') || '')?.toString() || null,
-      primary_focus: (formData.get('focus') || '')?.toString() || null,
-      client_count: (formData.get('client_count') || '')?.toString() || null,
+      primary_focus: ((formData.get('focus') || '')?.toString() || null) as SignupBody['primary_focus'],
+      client_count: ((formData.get('client_count') || '')?.toString() || null) as SignupBody['client_count'],
       coach_intents: coachIntents,
       presence: (formData.get('presence') || '')?.toString() || null,
       notes: (formData.get('notes') || '')?.toString() || null,
 
       // Store request type safely:
-      source: sourceOverride || (mode === 'apply' ? 'coach-trial' : 'coach-demo'),
+      source,
       site_version: `${SITE_VERSION}:${sourceOverride || mode}:${variant}`,
 
       // Attribution / analytics:
       utm,
+      first_touch,
+      last_touch,
+      experiments: getExperimentAssignments(),
 
       user_agent: ua,
       referer: ref,
+
+      email_typo_ack: emailTypoAck || undefined,
+
+      // Consent (the wording shown is pinned by version):
+      marketing_consent: marketingConsent,
+      email_preference: marketingConsent ? emailPreference : null,
+      consent_text_version: MARKETING_CONSENT_TEXT_VERSION,
+      consent_at: marketingConsent ? consentAt ?? new Date().toISOString() : null,
+
+      // Anti-spam (field names are part of the shared contract):
+      company: company || null,
+      turnstile_token: TURNSTILE_SITE_KEY ? turnstileToken : null,
     };
 
+    // Same validator the Edge Function runs, so most mistakes never leave the browser.
+    const validation = validateSignupBody(payload);
+    if (!validation.ok) {
+      failed('invalid_fields');
+      if (validation.did_you_mean) setEmailSuggestion(validation.did_you_mean);
+      setFieldErrors(validation.field_errors);
+      setError(summarizeFieldErrors(validation.field_errors));
+      return;
+    }
+
+    setState('submitting');
+    setError(null);
+    setFieldErrors({});
+    setAlreadyOnList(false);
+
     try {
       /**
        * IMPORTANT:
@@ -1800,17 +1985,34 @@ function CoachSignupForm({
        * (override with VITE_COACH_WAITLIST_SIGNUP_FN if desired)
        */
       const { data, error: fnError } = await supabase.functions.invoke(COACH_WAITLIST_SIGNUP_FN, {
-        body: {
-          ...payload,
-          turnstile_token: TURNSTILE_SITE_KEY ? turnstileToken : null,
-          honeypot: company || null,
-        },
+        body: payload,
       });
 
       if (fnError) {
         // eslint-disable-next-line no-console
         console.error('Waitlist Edge Function error', fnError);
 
+        // Non-2xx responses arrive as an error; the JSON body (with field_errors) is on `context`.
+        const ctx = (fnError as { context?: Response }).context;
+        const errBody: unknown = ctx ? await ctx.clone().json().catch(() => null) : null;
+        if (isSignupErrorResponse(errBody) && errBody.field_errors) {
+          failed('invalid_fields');
+          if (errBody.did_you_mean) setEmailSuggestion(errBody.did_you_mean);
+          setFieldErrors(errBody.field_errors);
+          setError(summarizeFieldErrors(errBody.field_errors));
+          setState('error');
+          resetTurnstile();
+          return;
+        }
+        if (isSignupErrorResponse(errBody) && errBody.error.startsWith('rate_limit')) {
+          failed('rate_limited');
+          setError('Too many attempts. Please wait a bit and try again.');
+          setState('error');
+          resetTurnstile();
+          return;
+        }
+
+        failed('server');
         const msgLower = (fnError.message || '').toLowerCase();
         if (msgLower.includes('not found')) {
           setError('Waitlist endpoint not found. Deploy the Edge Function "coach-waitlist-signup".');
@@ -1832,7 +2034,12 @@ function CoachSignupForm({
       // If the function returns ok:false, treat as an error.
       if (d.ok === false) {
         const errCode = String(d.code || d.error || 'unknown');
-        if (errCode.includes('turnstile')) {
+        const hasFieldErrors = isSignupErrorResponse(d) && Boolean(d.field_errors);
+        failed(hasFieldErrors ? 'invalid_fields' : errCode.includes('turnstile') ? 'verification' : 'server');
+        if (isSignupErrorResponse(d) && d.field_errors) {
+          setFieldErrors(d.field_errors);
+          setError(summarizeFieldErrors(d.field_errors));
+        } else if (errCode.includes('turnstile')) {
           setError('Verification failed. Please try again.');
         } else if (import.meta.env.DEV) {
           setError(`Waitlist submit failed: ${JSON.stringify(d)}`);
@@ -1846,15 +2053,28 @@ function CoachSignupForm({
 
       const isDuplicate = Boolean(d.already_on_list || d.alreadyOnList || d.duplicate);
       if (isDuplicate) setAlreadyOnList(true);
+      setNeedsConfirmation(d.confirmationSent === true);
+      track('Signup Succeeded', {
+        mode,
+        source,
+        already_on_list: isDuplicate,
+        confirmation_sent: d.confirmationSent === true,
+      });
 
       setState('success');
       setEmail('');
+      setEmailSuggestion(null);
+      setEmailTypoAck(false);
       setCompany('');
+      setMarketingConsent(false);
+      setEmailPreference('beta_access');
+      setConsentAt(null);
       form.reset();
       resetTurnstile();
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error('Waitlist form submit error', err);
+      failed('network');
       setState('error');
       setError(
         import.meta.env.DEV ? `Something went wrong: ${String(err)}` : 'Something went wrong. Please refresh and try again.'
@@ -1890,10 +2110,33 @@ function CoachSignupForm({
             autoComplete="email"
             autoFocus={autoFocusEmail}
             value={email}
-            onChange={(e) => setEmail(e.target.value)}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setEmailSuggestion(null);
+              setEmailTypoAck(false);
+              if (fieldErrors.email) setFieldErrors((prev) => ({ ...prev, email: undefined }));
+            }}
+            onBlur={() => setEmailSuggestion(suggestEmail(email))}
             className="mt-1 w-full rounded-2xl border border-black/10 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-black/40"
             placeholder="you@coaching.com"
+            aria-invalid={fieldErrors.email ? true : undefined}
           />
+          {emailSuggestion && !emailTypoAck ? (
+            <EmailSuggestion
+              suggestion={emailSuggestion}
+              onAccept={() => {
+                setEmail(emailSuggestion);
+                setEmailSuggestion(null);
+                setFieldErrors((prev) => ({ ...prev, email: undefined }));
+              }}
+              onKeep={() => {
+                setEmailTypoAck(true);
+                setFieldErrors((prev) => ({ ...prev, email: undefined }));
+              }}
+            />
+          ) : (
+            <FieldErrorText field="email" errors={fieldErrors} />
+          )}
         </label>
 
         <label className="block">
@@ -1908,6 +2151,7 @@ function CoachSignupForm({
             <option value="25-50">25–50</option>
             <option value="50+">50+</option>
           </select>
+          <FieldErrorText field="client_count" errors={fieldErrors} />
         </label>
       </div>
 
@@ -1929,6 +2173,7 @@ function CoachSignupForm({
                 className="mt-1 w-full rounded-2xl border border-black/10 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-black/40"
                 placeholder="Alex, Ava Strength, ..."
               />
+              <FieldErrorText field="name" errors={fieldErrors} />
             </label>
 
             <label className="block">
@@ -1945,6 +2190,7 @@ function CoachSignupForm({
                 <option value="rehab">Return‑to‑sport / rehab</option>
                 <option value="other">Other</option>
               </select>
+              <FieldErrorText field="primary_focus" errors={fieldErrors} />
             </label>
           </div>
 
@@ -1961,6 +2207,7 @@ function CoachSignupForm({
                 </label>
               ))}
             </div>
+            <FieldErrorText field="coach_intents" errors={fieldErrors} />
           </label>
 
           <label className="block">
@@ -1972,6 +2219,7 @@ function CoachSignupForm({
               className="mt-1 w-full rounded-2xl border border-black/10 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-black/40"
               placeholder="@yourhandle, Sheets, TrueCoach, Trainerize, ..."
             />
+            <FieldErrorText field="presence" errors={fieldErrors} />
           </label>
 
           <label className="block">
@@ -1984,11 +2232,57 @@ function CoachSignupForm({
               className="mt-1 w-full rounded-2xl border border-black/10 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-black/40"
               placeholder="What’s hardest about programming or managing your roster right now?"
             />
+            <FieldErrorText field="notes" errors={fieldErrors} />
           </label>
         </div>
       </details>
       ) : null}
 
+      <div className="space-y-2">
+        <label className="flex items-start gap-2 text-xs text-neutral-700">
+          <input
+            type="checkbox"
+            name="marketing_consent"
+            checked={marketingConsent}
+            onChange={(e) => {
+              setMarketingConsent(e.target.checked);
+              setConsentAt(e.target.checked ? new Date().toISOString() : null);
+            }}
+            className="mt-0.5 accent-black"
+          />
+          <span>
+            {MARKETING_CONSENT_TEXTS[MARKETING_CONSENT_TEXT_VERSION]} <span className="text-neutral-500">(optional)</span>
+          </span>
+        </label>
+        {marketingConsent ? (
+          <div className="flex flex-wrap gap-2 pl-6" role="radiogroup" aria-label="Email preference">
+            {(
+              [
+                ['beta_access', 'Beta access news only'],
+                ['product_updates', 'Product updates too'],
+              ] as const
+            ).map(([value, label]) => (
+              <label
+                key={value}
+                className="flex items-center gap-2 rounded-full border border-black/10 bg-[#f5f5f7] px-3 py-2 text-xs text-neutral-900"
+              >
+                <input
+                  type="radio"
+                  name="email_preference"
+                  value={value}
+                  checked={emailPreference === value}
+                  onChange={() => setEmailPreference(value)}
+                  className="accent-black"
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        ) : null}
+        <FieldErrorText field="marketing_consent" errors={fieldErrors} />
+        <FieldErrorText field="email_preference" errors={fieldErrors} />
+      </div>
+
       {TURNSTILE_SITE_KEY ? (
         <div className="rounded-2xl border border-black/10 bg-white px-4 py-4">
           <p className="text-xs font-semibold text-neutral-700">Verification</p>
@@ -2023,9 +2317,13 @@ function CoachSignupForm({
 
       {state === 'success' && (
         <div className="animate-toast-pop rounded-2xl border border-black/10 bg-white p-4">
-          <p className="text-sm font-semibold text-neutral-900">{alreadyOnList ? 'You’re already on the list.' : 'You’re in.'}</p>
+          <p className="text-sm font-semibold text-neutral-900">
+            {needsConfirmation ? 'Check your inbox.' : alreadyOnList ? 'You’re already on the list.' : 'You’re in.'}
+          </p>
           <p className="mt-1 text-sm text-neutral-700">
-            We’ll email trial access + setup details. No marketing drip.
+            {needsConfirmation
+              ? 'Click the link we just sent to confirm your email — then we’ll email trial access + setup details.'
+              : 'We’ll email trial access + setup details. No marketing drip.'}
           </p>
         </div>
       )}
@@ -2074,7 +2372,13 @@ function FaqSection() {
 
         <div className="mt-8 space-y-4">
           {faqs.map((item) => (
-            <details key={item.q} className="group rounded-3xl border border-black/10 bg-[#f5f5f7] px-5 py-4">
+            <details
+              key={item.q}
+              onToggle={(e) => {
+                if (e.currentTarget.open) track('FAQ Opened', { question: item.q });
+              }}
+              className="group rounded-3xl border border-black/10 bg-[#f5f5f7] px-5 py-4"
+            >
               <summary className="flex cursor-pointer list-none items-center justify-between gap-3 text-sm font-semibold text-neutral-900">
                 <span>{item.q}</span>
                 <span aria-hidden className="text-xs text-neutral-500 transition-transform group-open:rotate-180">
@@ -0,0 +1,122 @@
+// src/ConfirmPage.tsx
+//
+// /confirm — double opt-in email confirmation.
+import { useEffect, useState } from 'react';
+import { supabase, SUPABASE_CONFIGURED } from './supabaseClient';
+import { COACH_WAITLIST_CONFIRM_FN, SUPPORT_EMAIL } from './site';
+import { BrandLockup, Container, Kicker, PrimaryButton, SecondaryLink } from './ui';
+import type { ConfirmResponse } from '../supabase/functions/_shared/signupSchema.ts';
+
+type ConfirmState = 'verifying' | 'confirmed' | 'already' | 'expired' | 'invalid' | 'error';
+
+export default function ConfirmPage() {
+  const [state, setState] = useState<ConfirmState>('verifying');
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+    if (!SUPABASE_CONFIGURED) {
+      setState('error');
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { data, error: fnError } = await supabase.functions.invoke(COACH_WAITLIST_CONFIRM_FN, {
+          body: { token },
+        });
+
+        // Non-2xx responses arrive as an error; the JSON body is on `context`.
+        let res = data as ConfirmResponse | null;
+        if (fnError) {
+          const ctx = (fnError as { context?: Response }).context;
+          res = ctx ? ((await ctx.clone().json().catch(() => null)) as ConfirmResponse | null) : null;
+        }
+        if (cancelled) return;
+
+        if (res?.ok) {
+          setState(res.alreadyConfirmed ? 'already' : 'confirmed');
+        } else if (res?.error === 'expired_token') {
+          setState('expired');
+        } else if (res?.error === 'invalid_token' || res?.error === 'missing_token' || res?.error === 'not_found') {
+          setState('invalid');
+        } else {
+          // eslint-disable-next-line no-console
+          console.error('Waitlist confirm error', fnError ?? res);
+          setState('error');
+        }
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Waitlist confirm error', err);
+        if (!cancelled) setState('error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const copy: Record<ConfirmState, { title: string; body: string }> = {
+    verifying: {
+      title: 'Confirming your email…',
+      body: 'One moment.',
+    },
+    confirmed: {
+      title: 'You’re confirmed.',
+      body: 'Thanks — we’ll email trial access + setup details shortly.',
+    },
+    already: {
+      title: 'Already confirmed.',
+      body: 'You’re all set. Trial access + setup details are on the way.',
+    },
+    expired: {
+      title: 'This link has expired.',
+      body: 'Sign up again with the same email and we’ll send a fresh confirmation link.',
+    },
+    invalid: {
+      title: 'This link isn’t valid.',
+      body: 'Make sure you opened the full link from the email, or sign up again to get a new one.',
+    },
+    error: {
+      title: 'Something went wrong.',
+      body: `Please refresh and try again. If it keeps happening, email ${SUPPORT_EMAIL}.`,
+    },
+  };
+
+  const showSignupLink = state === 'expired' || state === 'invalid';
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
+      <header className="safe-pt border-b border-black/10 bg-white/90">
+        <Container>
+          <div className="flex h-16 items-center">
+            <BrandLockup href="/" />
+          </div>
+        </Container>
+      </header>
+
+      <main className="flex-1" id="main">
+        <Container>
+          <div className="max-w-xl py-16 sm:py-24" aria-live="polite">
+            <Kicker>Coach waitlist</Kicker>
+            <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">{copy[state].title}</h1>
+            <p className="mt-3 text-sm text-neutral-700">{copy[state].body}</p>
+
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              {showSignupLink ? (
+                <PrimaryButton onClick={() => window.location.assign('/?cta=apply')}>Sign up again</PrimaryButton>
+              ) : null}
+              <SecondaryLink href="/">← Back to lungeable.com</SecondaryLink>
+            </div>
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+// src/MyDataPage.tsx
+//
+// /my-data — email-verified data export / deletion.
+import { useMemo, useState, type FormEvent } from 'react';
+import { SUPABASE_CONFIGURED } from './supabaseClient';
+import {
+  COACH_WAITLIST_DATA_FN,
+  MY_DATA_ROUTE,
+  PROFILE_INPUT_CLASS,
+  SUPPORT_EMAIL,
+  downloadFile,
+  invokeWaitlistFn,
+} from './site';
+import { BrandLockup, Container, Kicker, PrimaryButton, SecondaryLink } from './ui';
+import type { DataRequest, DataRequestKind, DataResponse } from '../supabase/functions/_shared/dataContract.ts';
+
+type MyDataState = 'form' | 'working' | 'sent' | 'confirm' | 'exported' | 'deleted' | 'expired' | 'invalid' | 'error';
+
+function downloadJson(filename: string, value: unknown) {
+  downloadFile(filename, JSON.stringify(value, null, 2), 'application/json');
+}
+
+export default function MyDataPage() {
+  const { token, linkKind } = useMemo(() => {
+    const params = new URLSearchParams(window.location.search);
+    const kind = params.get('kind');
+    return {
+      token: params.get('token') || '',
+      linkKind: kind === 'export' || kind === 'delete' ? (kind as DataRequestKind) : null,
+    };
+  }, []);
+  const [state, setState] = useState<MyDataState>(token ? (linkKind ? 'confirm' : 'invalid') : 'form');
+  const [email, setEmail] = useState('');
+  const [kind, setKind] = useState<DataRequestKind>('export');
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = (res: DataResponse | null) => {
+    if (res && !res.ok && res.error === 'expired_token') setState('expired');
+    else if (res && !res.ok && (res.error === 'invalid_token' || res.error === 'missing_token')) setState('invalid');
+    else setState('error');
+  };
+
+  const onRequest = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    if (!SUPABASE_CONFIGURED) {
+      setState('error');
+      return;
+    }
+
+    setState('working');
+    try {
+      const res = await invokeWaitlistFn<DataRequest, DataResponse>(COACH_WAITLIST_DATA_FN, {
+        action: 'request',
+        kind,
+        email: email.trim(),
+      });
+      if (res?.ok) {
+        setState('sent');
+      } else if (res?.error === 'invalid_email') {
+        setError('Please enter a valid email.');
+        setState('form');
+      } else if (res?.error === 'rate_limited') {
+        setError('Too many requests. Please wait a bit and try again.');
+        setState('form');
+      } else {
+        fail(res);
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Waitlist data request error', err);
+      setState('error');
+    }
+  };
+
+  const onRedeem = async () => {
+    if (!linkKind || !SUPABASE_CONFIGURED) {
+      setState('error');
+      return;
+    }
+
+    setState('working');
+    try {
+      const res = await invokeWaitlistFn<DataRequest, DataResponse>(COACH_WAITLIST_DATA_FN, {
+        action: linkKind,
+        token,
+      });
+      if (res?.ok && res.action === 'export') {
+        downloadJson('lungeable-my-data.json', {
+          lead: res.lead,
+          profile_changes: res.profile_changes,
+          consents: res.consents,
+          demo_bookings: res.demo_bookings,
+        });
+        setState('exported');
+      } else if (res?.ok && res.action === 'delete') {
+        setState('deleted');
+      } else {
+        fail(res);
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Waitlist data request error', err);
+      setState('error');
+    }
+  };
+
+  const notice: Partial<Record<MyDataState, { title: string; body: string }>> = {
+    sent: {
+      title: 'Check your inbox.',
+      body: 'If that email is on our list, we’ve sent it a link to confirm it’s you. The link expires in an hour.',
+    },
+    exported: {
+      title: 'Your data is downloading.',
+      body: 'lungeable-my-data.json has everything we store for your email. Open the link again within the hour for another copy.',
+    },
+    deleted: {
+      title: 'Your data is deleted.',
+      body: 'We’ve removed your waitlist entry and won’t email this address again. Want back in later? Write to us first.',
+    },
+    expired: {
+      title: 'This link has expired.',
+      body: 'Request a new one below — links are valid for an hour.',
+    },
+    invalid: {
+      title: 'This link isn’t valid.',
+      body: 'Make sure you opened the full link from our email, or request a new one.',
+    },
+    error: {
+      title: 'Something went wrong.',
+      body: `Please refresh and try again. If it keeps happening, email ${SUPPORT_EMAIL}.`,
+    },
+  };
+  const working = state === 'working';
+  const redeeming = Boolean(token && linkKind);
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
+      <header className="safe-pt border-b border-black/10 bg-white/90">
+        <Container>
+          <div className="flex h-16 items-center">
+            <BrandLockup href="/" />
+          </div>
+        </Container>
+      </header>
+
+      <main className="flex-1" id="main">
+        <Container>
+          <div className="max-w-xl py-16 sm:py-24" aria-live="polite">
+            <Kicker>Your data</Kicker>
+
+            {notice[state] ? (
+              <>
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">{notice[state]?.title}</h1>
+                <p className="mt-3 text-sm text-neutral-700">{notice[state]?.body}</p>
+                {state === 'expired' || state === 'invalid' ? (
+                  <div className="mt-6">
+                    <SecondaryLink href={MY_DATA_ROUTE}>Request a new link</SecondaryLink>
+                  </div>
+                ) : null}
+              </>
+            ) : redeeming ? (
+              <>
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">
+                  {linkKind === 'delete' ? 'Delete your data?' : 'Download your data'}
+                </h1>
+                <p className="mt-3 text-sm text-neutral-700">
+                  {linkKind === 'delete'
+                    ? 'This permanently removes your waitlist entry and profile. We keep only a one-way fingerprint of your email so we never contact it again. This can’t be undone.'
+                    : 'You’ll get a JSON file with everything we store for your email.'}
+                </p>
+                <div className="mt-6">
+                  <PrimaryButton onClick={onRedeem} disabled={working}>
+                    {working ? 'Working...' : linkKind === 'delete' ? 'Permanently delete my data' : 'Download my data'}
+                  </PrimaryButton>
+                </div>
+              </>
+            ) : (
+              <>
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Get or delete your data.</h1>
+                <p className="mt-3 text-sm text-neutral-700">
+                  Enter the email you signed up with. We’ll send a link there to confirm it’s you.
+                </p>
+
+                <form onSubmit={onRequest} className="mt-8 space-y-4" noValidate>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-neutral-700">Email</span>
+                    <input
+                      type="email"
+                      name="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className={PROFILE_INPUT_CLASS}
+                      placeholder="you@domain.com"
+                    />
+                  </label>
+
+                  <fieldset className="space-y-2">
+                    <legend className="text-xs font-semibold text-neutral-700">What do you need?</legend>
+                    {(
+                      [
+                        ['export', 'Send me a copy of my data'],
+                        ['delete', 'Delete my data'],
+                      ] as const
+                    ).map(([value, label]) => (
+                      <label key={value} className="flex items-center gap-2 text-sm text-neutral-900">
+                        <input
+                          type="radio"
+                          name="kind"
+                          value={value}
+                          checked={kind === value}
+                          onChange={() => setKind(value)}
+                          className="accent-black"
+                        />
+                        <span>{label}</span>
+                      </label>
+                    ))}
+                  </fieldset>
+
+                  {error ? (
+                    <p className="text-sm text-red-700" role="alert">
+                      {error}
+                    </p>
+                  ) : null}
+
+                  <PrimaryButton type="submit" disabled={working}>
+                    {working ? 'Sending...' : 'Email me a link'}
+                  </PrimaryButton>
+                </form>
+              </>
+            )}
+
+            <div className="mt-6">
+              <SecondaryLink href="/">← Back to lungeable.com</SecondaryLink>
+            </div>
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
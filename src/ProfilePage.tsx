@@ -0,0 +1,275 @@
+// src/ProfilePage.tsx
+//
+// /profile — complete your profile (signed link from the welcome email).
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { SUPABASE_CONFIGURED } from './supabaseClient';
+import { COACH_WAITLIST_PROFILE_FN, PROFILE_INPUT_CLASS, SUPPORT_EMAIL, invokeWaitlistFn } from './site';
+import { BrandLockup, Container, FieldErrorText, Kicker, PrimaryButton, SecondaryLink } from './ui';
+import {
+  ALLOWED_COACH_INTENTS,
+  validateProfileUpdate,
+  type CoachIntent,
+  type LeadProfile,
+  type ProfileRequest,
+  type ProfileResponse,
+  type SignupFieldErrors,
+} from '../supabase/functions/_shared/signupSchema.ts';
+
+type ProfileState = 'loading' | 'ready' | 'saving' | 'saved' | 'expired' | 'invalid' | 'error';
+
+export default function ProfilePage() {
+  const token = useMemo(() => new URLSearchParams(window.location.search).get('token') || '', []);
+  const [state, setState] = useState<ProfileState>('loading');
+  const [email, setEmail] = useState('');
+  const [profile, setProfile] = useState<LeadProfile>({
+    name: null,
+    primary_focus: null,
+    coach_intents: [],
+    presence: null,
+    notes: null,
+  });
+  const [fieldErrors, setFieldErrors] = useState<SignupFieldErrors>({});
+
+  const applyError = (res: ProfileResponse | null) => {
+    if (res && !res.ok && res.error === 'expired_token') setState('expired');
+    else if (res && !res.ok && ['missing_token', 'invalid_token', 'not_found'].includes(res.error)) setState('invalid');
+    else setState('error');
+  };
+
+  useEffect(() => {
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+    if (!SUPABASE_CONFIGURED) {
+      setState('error');
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await invokeWaitlistFn<ProfileRequest, ProfileResponse>(COACH_WAITLIST_PROFILE_FN, {
+          token,
+          action: 'load',
+        });
+        if (cancelled) return;
+        if (res?.ok) {
+          setEmail(res.email);
+          setProfile(res.profile);
+          setState('ready');
+        } else {
+          applyError(res);
+        }
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Waitlist profile error', err);
+        if (!cancelled) setState('error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const update = <K extends keyof LeadProfile>(field: K, value: LeadProfile[K]) => {
+    setProfile((prev) => ({ ...prev, [field]: value }));
+    if (state === 'saved') setState('ready');
+    if (fieldErrors[field]) setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const toggleIntent = (intent: CoachIntent) =>
+    update(
+      'coach_intents',
+      profile.coach_intents.includes(intent)
+        ? profile.coach_intents.filter((x) => x !== intent)
+        : [...profile.coach_intents, intent],
+    );
+
+  const onSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    // Same per-field rules the function applies.
+    const local = validateProfileUpdate(profile);
+    if (!local.ok) {
+      setFieldErrors(local.field_errors);
+      return;
+    }
+
+    setState('saving');
+    try {
+      const res = await invokeWaitlistFn<ProfileRequest, ProfileResponse>(COACH_WAITLIST_PROFILE_FN, {
+        token,
+        action: 'save',
+        profile: local.value,
+      });
+      if (res?.ok) {
+        setProfile(res.profile);
+        setState('saved');
+      } else if (res?.error === 'invalid_body' && res.field_errors) {
+        setFieldErrors(res.field_errors);
+        setState('ready');
+      } else {
+        applyError(res);
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Waitlist profile error', err);
+      setState('error');
+    }
+  };
+
+  const notice: Partial<Record<ProfileState, { title: string; body: string }>> = {
+    loading: { title: 'Loading your profile…', body: 'One moment.' },
+    expired: {
+      title: 'This link has expired.',
+      body: `Reply to your welcome email or write to ${SUPPORT_EMAIL} and we’ll send a fresh one.`,
+    },
+    invalid: {
+      title: 'This link isn’t valid.',
+      body: 'Make sure you opened the full link from your welcome email.',
+    },
+    error: {
+      title: 'Something went wrong.',
+      body: `Please refresh and try again. If it keeps happening, email ${SUPPORT_EMAIL}.`,
+    },
+  };
+  const showForm = state === 'ready' || state === 'saving' || state === 'saved';
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
+      <header className="safe-pt border-b border-black/10 bg-white/90">
+        <Container>
+          <div className="flex h-16 items-center">
+            <BrandLockup href="/" />
+          </div>
+        </Container>
+      </header>
+
+      <main className="flex-1" id="main">
+        <Container>
+          <div className="max-w-xl py-16 sm:py-24" aria-live="polite">
+            <Kicker>Coach beta</Kicker>
+            {showForm ? (
+              <>
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">Tell us how you coach.</h1>
+                <p className="mt-3 text-sm text-neutral-700">
+                  For <span className="font-semibold text-neutral-900">{email}</span>. We use this to tune your first
+                  draft week — every field is optional.
+                </p>
+
+                <form onSubmit={onSubmit} className="mt-8 space-y-4" noValidate>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <label className="block">
+                      <span className="text-xs font-semibold text-neutral-700">
+                        Name <span className="text-neutral-500">(or brand)</span>
+                      </span>
+                      <input
+                        name="name"
+                        autoComplete="name"
+                        value={profile.name ?? ''}
+                        onChange={(e) => update('name', e.target.value)}
+                        className={PROFILE_INPUT_CLASS}
+                        placeholder="Alex, Ava Strength, ..."
+                      />
+                      <FieldErrorText field="name" errors={fieldErrors} />
+                    </label>
+
+                    <label className="block">
+                      <span className="text-xs font-semibold text-neutral-700">Primary focus</span>
+                      <select
+                        name="focus"
+                        value={profile.primary_focus ?? ''}
+                        onChange={(e) => update('primary_focus', (e.target.value || null) as LeadProfile['primary_focus'])}
+                        className={PROFILE_INPUT_CLASS}
+                      >
+                        <option value="">—</option>
+                        <option value="strength">Gen strength / hypertrophy</option>
+                        <option value="powerlifting">Powerlifting</option>
+                        <option value="olympic">Olympic weightlifting</option>
+                        <option value="sport">Sport‑specific</option>
+                        <option value="rehab">Return‑to‑sport / rehab</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <FieldErrorText field="primary_focus" errors={fieldErrors} />
+                    </label>
+                  </div>
+
+                  <div className="block">
+                    <span className="text-xs font-semibold text-neutral-700">What do you want most from Lungeable?</span>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {ALLOWED_COACH_INTENTS.map((label) => (
+                        <label
+                          key={label}
+                          className="flex items-center gap-2 rounded-full border border-black/10 bg-[#f5f5f7] px-3 py-2 text-xs text-neutral-900"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={profile.coach_intents.includes(label)}
+                            onChange={() => toggleIntent(label)}
+                            className="accent-black"
+                          />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FieldErrorText field="coach_intents" errors={fieldErrors} />
+                  </div>
+
+                  <label className="block">
+                    <span className="text-xs font-semibold text-neutral-700">
+                      Where do you coach now? <span className="text-neutral-500">(links or handle)</span>
+                    </span>
+                    <input
+                      name="presence"
+                      value={profile.presence ?? ''}
+                      onChange={(e) => update('presence', e.target.value)}
+                      className={PROFILE_INPUT_CLASS}
+                      placeholder="@yourhandle, Sheets, TrueCoach, Trainerize, ..."
+                    />
+                    <FieldErrorText field="presence" errors={fieldErrors} />
+                  </label>
+
+                  <label className="block">
+                    <span className="text-xs font-semibold text-neutral-700">Anything else we should know?</span>
+                    <textarea
+                      name="notes"
+                      rows={4}
+                      value={profile.notes ?? ''}
+                      onChange={(e) => update('notes', e.target.value)}
+                      className={PROFILE_INPUT_CLASS}
+                      placeholder="What’s hardest about programming or managing your roster right now?"
+                    />
+                    <FieldErrorText field="notes" errors={fieldErrors} />
+                  </label>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <PrimaryButton type="submit" disabled={state === 'saving'}>
+                      {state === 'saving' ? 'Saving...' : 'Save profile'}
+                    </PrimaryButton>
+                    {state === 'saved' ? (
+                      <p className="animate-toast-pop text-sm text-neutral-700" role="status">
+                        Saved — thanks. We’ll use this for your first week.
+                      </p>
+                    ) : null}
+                  </div>
+                </form>
+              </>
+            ) : (
+              <>
+                <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">{notice[state]?.title}</h1>
+                <p className="mt-3 text-sm text-neutral-700">{notice[state]?.body}</p>
+              </>
+            )}
+
+            <div className="mt-6">
+              <SecondaryLink href="/">← Back to lungeable.com</SecondaryLink>
+            </div>
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
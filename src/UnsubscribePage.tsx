@@ -0,0 +1,94 @@
+// src/UnsubscribePage.tsx
+//
+// /unsubscribe — link in every coach-facing email.
+import { useMemo, useState } from 'react';
+import { SUPABASE_CONFIGURED } from './supabaseClient';
+import { COACH_WAITLIST_UNSUBSCRIBE_FN, SUPPORT_EMAIL, invokeWaitlistFn } from './site';
+import { BrandLockup, Container, Kicker, PrimaryButton, SecondaryLink } from './ui';
+import type { UnsubscribeResponse } from '../supabase/functions/_shared/signupSchema.ts';
+
+type UnsubscribeState = 'ready' | 'working' | 'done' | 'already' | 'expired' | 'invalid' | 'error';
+
+export default function UnsubscribePage() {
+  const token = useMemo(() => new URLSearchParams(window.location.search).get('token') || '', []);
+  const [state, setState] = useState<UnsubscribeState>(token ? 'ready' : 'invalid');
+
+  // A button, not an automatic POST on load: mail scanners open these links too.
+  const onUnsubscribe = async () => {
+    if (!SUPABASE_CONFIGURED) {
+      setState('error');
+      return;
+    }
+
+    setState('working');
+    try {
+      const res = await invokeWaitlistFn<{ token: string }, UnsubscribeResponse>(COACH_WAITLIST_UNSUBSCRIBE_FN, {
+        token,
+      });
+      if (res?.ok) setState(res.alreadyUnsubscribed ? 'already' : 'done');
+      else if (res?.error === 'expired_token') setState('expired');
+      else if (res?.error === 'invalid_token' || res?.error === 'missing_token') setState('invalid');
+      else setState('error');
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Waitlist unsubscribe error', err);
+      setState('error');
+    }
+  };
+
+  const copy: Record<UnsubscribeState, { title: string; body: string }> = {
+    ready: {
+      title: 'Unsubscribe from Lungeable emails?',
+      body: 'You’ll stop getting waitlist and launch emails. Your spot on the list stays.',
+    },
+    working: { title: 'Unsubscribing…', body: 'One moment.' },
+    done: {
+      title: 'You’re unsubscribed.',
+      body: 'No more emails from us. Changed your mind? Reply to any of our emails or sign up again.',
+    },
+    already: { title: 'You’re already unsubscribed.', body: 'Nothing else to do here.' },
+    expired: {
+      title: 'This link has expired.',
+      body: `Email ${SUPPORT_EMAIL} from the same address and we’ll take you off the list.`,
+    },
+    invalid: {
+      title: 'This link isn’t valid.',
+      body: `Make sure you opened the full link from our email, or write to ${SUPPORT_EMAIL}.`,
+    },
+    error: {
+      title: 'Something went wrong.',
+      body: `Please refresh and try again. If it keeps happening, email ${SUPPORT_EMAIL}.`,
+    },
+  };
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 flex flex-col">
+      <header className="safe-pt border-b border-black/10 bg-white/90">
+        <Container>
+          <div className="flex h-16 items-center">
+            <BrandLockup href="/" />
+          </div>
+        </Container>
+      </header>
+
+      <main className="flex-1" id="main">
+        <Container>
+          <div className="max-w-xl py-16 sm:py-24" aria-live="polite">
+            <Kicker>Email preferences</Kicker>
+            <h1 className="mt-3 text-2xl font-semibold tracking-tight sm:text-3xl">{copy[state].title}</h1>
+            <p className="mt-3 text-sm text-neutral-700">{copy[state].body}</p>
+
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              {state === 'ready' || state === 'working' ? (
+                <PrimaryButton onClick={onUnsubscribe} disabled={state === 'working'}>
+                  {state === 'working' ? 'Unsubscribing...' : 'Unsubscribe'}
+                </PrimaryButton>
+              ) : null}
+              <SecondaryLink href="/">← Back to lungeable.com</SecondaryLink>
+            </div>
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
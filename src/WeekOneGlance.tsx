@@ -1,13 +1,16 @@
 // src/WeekOneGlance.tsx
 import { useEffect, useMemo, useState } from 'react';
 
-type Goal = 'build' | 'lean' | 'recomp' | 'sport';
+export type Goal = 'build' | 'lean' | 'recomp' | 'sport';
 
 export default function WeekOneGlance({
   seedGoal,
   seedMinutes,
   seedEquipment,
   onJoin,
+  onGoalChange,
+  onMinutesChange,
+  onEquipmentChange,
   trialDays: trialDaysProp = 14,
   trialStarterClients: trialStarterClientsProp = 3,
 }: {
@@ -15,6 +18,10 @@ export default function WeekOneGlance({
   seedMinutes?: number;
   seedEquipment?: string[];
   onJoin: () => void;
+  /** Fired on the visitor's own changes only, not when a seed prop updates the state. */
+  onGoalChange?: (goal: Goal) => void;
+  onMinutesChange?: (minutes: number) => void;
+  onEquipmentChange?: (key: string, selected: boolean) => void;
   trialDays?: number;
   trialStarterClients?: number;
 }) {
@@ -47,6 +54,18 @@ export default function WeekOneGlance({
 
   function toggleEq(k: string) {
     setEquipment((prev) => (prev.includes(k) ? prev.filter((x) => x !== k) : [...prev, k]));
+    onEquipmentChange?.(k, !equipment.includes(k));
+  }
+
+  function pickGoal(g: Goal) {
+    setGoal(g);
+    onGoalChange?.(g);
+  }
+
+  function pickMinutes(m: number) {
+    if (m === minutes) return;
+    setMinutes(m);
+    onMinutesChange?.(m);
   }
 
   const summary = useMemo(
@@ -107,7 +126,7 @@ export default function WeekOneGlance({
           <select
             className="mt-1 w-full rounded-xl bg-white/5 px-3 py-2 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/25"
             value={goal}
-            onChange={(e) => setGoal(e.currentTarget.value as Goal)}
+            onChange={(e) => pickGoal(e.currentTarget.value as Goal)}
           >
             <option value="build">Build muscle</option>
             <option value="lean">Get lean</option>
@@ -125,7 +144,7 @@ export default function WeekOneGlance({
                 <button
                   key={m}
                   type="button"
-                  onClick={() => setMinutes(m)}
+                  onClick={() => pickMinutes(m)}
                   aria-pressed={selected}
                   className={`min-h-[44px] rounded-full border px-3 py-2 text-sm transition-colors ${
                     selected
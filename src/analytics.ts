@@ -0,0 +1,104 @@
+// src/analytics.ts
+//
+// Typed analytics events. Every event the site sends is listed in AnalyticsEvents with
+// its props, so a misspelled name or a missing prop is a type error instead of a silent
+// gap in the dashboard. In Plausible, add each name as a custom event goal.
+//
+// Backend (VITE_ANALYTICS): "plausible" (default in production builds; window.plausible
+// comes from the loader in index.html), "console" (default under `vite dev`) or "off".
+//
+// Every event also carries the visitor's experiment variants as exp_<id> props
+// (./experiments.ts), so any goal can be split by variant.
+
+import type { DMKey } from './DMSimulator';
+import type { Goal } from './WeekOneGlance';
+
+/** Where on the page a CTA was clicked. */
+export type CtaLocation =
+  | 'announcement'
+  | 'header'
+  | 'hero'
+  | 'how_it_works'
+  | 'week_one_glance'
+  | 'weekly_reports'
+  | 'pocket_coach'
+  | 'coach_desk'
+  | 'pricing'
+  | 'join'
+  | 'mobile_bar';
+
+/** The interactive demo a DM scenario was played in. */
+export type DemoLocation = 'how_it_works' | 'pocket_coach';
+
+/** Progress in the Calendly embed on /demo, from its postMessage events (minus "calendly."). */
+export type DemoBookingStep = 'profile_page_viewed' | 'event_type_viewed' | 'date_and_time_selected' | 'event_scheduled';
+
+export type SignupFailureReason = 'invalid_fields' | 'rate_limited' | 'verification' | 'server' | 'network';
+
+type SignupProps = { mode: string; source: string };
+
+export type AnalyticsEvents = {
+  'CTA Click': { cta: 'start_trial'; location: CtaLocation };
+  'Demo Click': { location: CtaLocation };
+  'DM Scenario Played': { scenario: DMKey; location: DemoLocation };
+  'Demo Booking Step': { step: DemoBookingStep };
+  /** recorded: coach-demo-booking stored it (false when Supabase is off or the call failed). */
+  'Demo Booked': { recorded: boolean };
+  'Week One Goal Changed': { goal: Goal };
+  'Week One Minutes Changed': { minutes: number };
+  'Week One Equipment Changed': { equipment: string; selected: boolean };
+  'FAQ Opened': { question: string };
+  'Signup Submitted': SignupProps;
+  'Signup Succeeded': SignupProps & { already_on_list: boolean; confirmation_sent: boolean };
+  'Signup Failed': SignupProps & { reason: SignupFailureReason };
+  // Batched by ./sectionAnalytics.ts; section is a Band id.
+  'Section Seen': { section: string; first_seen_s: number };
+  'Section Dwell': { section: string; dwell_s: number };
+  'Scroll Depth': { max_percent: number };
+  'Experiment Viewed': { experiment: string; variant: string };
+};
+
+export type AnalyticsEvent = keyof AnalyticsEvents;
+
+type EventProps = Record<string, string | number | boolean>;
+
+type Backend = (event: string, props: EventProps) => void;
+
+declare global {
+  interface Window {
+    /** Plausible's script (or the queueing stub index.html installs until it loads). */
+    plausible?: (event: string, options?: { props?: EventProps }) => void;
+  }
+}
+
+const BACKENDS: Record<'plausible' | 'console' | 'off', Backend> = {
+  plausible: (event, props) => window.plausible?.(event, { props }),
+  // eslint-disable-next-line no-console
+  console: (event, props) => console.info('[analytics]', event, props),
+  off: () => {},
+};
+
+function pickBackend(): Backend {
+  const name = (import.meta.env.VITE_ANALYTICS || '').trim().toLowerCase();
+  if (name === 'plausible' || name === 'console' || name === 'off') return BACKENDS[name];
+  return import.meta.env.DEV ? BACKENDS.console : BACKENDS.plausible;
+}
+
+const backend = pickBackend();
+
+let globalProps: EventProps = {};
+
+/** Props merged into every event from now on (event props win on a clash). */
+export function setGlobalProps(props: EventProps): void {
+  globalProps = { ...globalProps, ...props };
+}
+
+/** Fire-and-forget; analytics never breaks the page. */
+export function track<E extends AnalyticsEvent>(event: E, props: AnalyticsEvents[E]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    backend(event, { ...globalProps, ...(props as EventProps) });
+  } catch {
+    // ignore
+  }
+}
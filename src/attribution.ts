@@ -0,0 +1,110 @@
+// src/attribution.ts
+//
+// First-touch / last-touch attribution that survives across visits.
+//
+// Every page load is a touch: its UTMs, ad click IDs, the referring site and the path
+// it landed on. The first touch is stored once and kept. The last touch is replaced by
+// each visit with a campaign signal (UTMs, a click ID or another site's referrer), so a
+// coach who found us on LinkedIn and comes back days later by typing the URL still
+// signs up as a LinkedIn lead. Both go out with the signup as first_touch / last_touch.
+//
+// Kept in localStorage only; nothing leaves the browser until the form is sent.
+
+import {
+  CLICK_ID_PARAMS,
+  normalizeAttributionTouch,
+  type AttributionTouch,
+} from '../supabase/functions/_shared/signupSchema.ts';
+
+const STORAGE_KEY = 'ln_attribution';
+
+const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'utm_id'];
+
+export type Attribution = { first_touch: AttributionTouch | null; last_touch: AttributionTouch | null };
+
+export function getUtmFromUrl(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  const params = new URLSearchParams(window.location.search);
+  const utm: Record<string, string> = {};
+  for (const k of UTM_KEYS) {
+    const v = params.get(k);
+    if (v) utm[k] = v;
+  }
+  return utm;
+}
+
+const bareHost = (host: string) => host.toLowerCase().replace(/^www\./, '');
+
+/** The referring site, or null for direct visits and clicks between our own pages. */
+function referrerDomain(): string | null {
+  if (!document.referrer) return null;
+  try {
+    const host = bareHost(new URL(document.referrer).hostname);
+    return host && host !== bareHost(window.location.hostname) ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+function currentTouch(): AttributionTouch {
+  const params = new URLSearchParams(window.location.search);
+  const clickIds: AttributionTouch['click_ids'] = {};
+  for (const k of CLICK_ID_PARAMS) {
+    const v = params.get(k);
+    if (v) clickIds[k] = v;
+  }
+
+  return {
+    utm: getUtmFromUrl(),
+    click_ids: clickIds,
+    referrer_domain: referrerDomain(),
+    landing_path: window.location.pathname || '/',
+    at: new Date().toISOString(),
+  };
+}
+
+function hasCampaignSignal(touch: AttributionTouch): boolean {
+  return Object.keys(touch.utm).length > 0 || Object.keys(touch.click_ids).length > 0 || touch.referrer_domain !== null;
+}
+
+function readStored(): Attribution {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Partial<Attribution> | null;
+    return {
+      first_touch: normalizeAttributionTouch(raw?.first_touch),
+      last_touch: normalizeAttributionTouch(raw?.last_touch),
+    };
+  } catch {
+    return { first_touch: null, last_touch: null };
+  }
+}
+
+let captured: Attribution | null = null;
+
+/**
+ * Record this page load. Runs once, from main.tsx, before the first render;
+ * later calls return the same result.
+ */
+export function captureAttribution(): Attribution {
+  if (captured) return captured;
+  if (typeof window === 'undefined') return { first_touch: null, last_touch: null };
+
+  const touch = currentTouch();
+  const stored = readStored();
+  captured = {
+    first_touch: stored.first_touch ?? touch,
+    last_touch: hasCampaignSignal(touch) || !stored.last_touch ? touch : stored.last_touch,
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(captured));
+  } catch {
+    // Storage blocked (private mode, quota): this visit still counts, just not the next one.
+  }
+  return captured;
+}
+
+/** Both touches, for the signup payload. */
+export function getAttribution(): Attribution {
+  return captureAttribution();
+}
@@ -0,0 +1,119 @@
+// src/experiments.ts
+//
+// The browser side of the A/B experiments defined in
+// supabase/functions/_shared/experiments.ts.
+//
+// Each visitor is assigned one variant per experiment on their first page load,
+// weighted, and keeps it through a first-party cookie (ln_exp, 180 days) so the copy
+// doesn't change between visits. Assignments go out with the signup (`experiments`)
+// and as exp_<id> props on every analytics event; useVariant() also sends
+// "Experiment Viewed" the first time a page renders the experiment.
+//
+// Preview a variant with ?exp_<id>=<variant>, e.g. /?exp_hero_headline=sunday. A
+// preview only changes what this page load renders: it isn't written to the cookie,
+// the previewed experiment is left out of the signup's `experiments` and the exp_<id>
+// props, and every event carries exp_preview: true so previews can be filtered out.
+
+import { useEffect } from 'react';
+import { setGlobalProps, track } from './analytics';
+import {
+  EXPERIMENTS,
+  EXPERIMENT_IDS,
+  isVariantOf,
+  pickVariant,
+  type ExperimentAssignments,
+  type ExperimentId,
+  type VariantOf,
+} from '../supabase/functions/_shared/experiments.ts';
+
+const COOKIE_NAME = 'ln_exp';
+const COOKIE_MAX_AGE_S = 180 * 24 * 60 * 60;
+
+function readCookie(): URLSearchParams {
+  const prefix = `${COOKIE_NAME}=`;
+  const raw = document.cookie
+    .split(';')
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(prefix));
+  try {
+    return new URLSearchParams(raw ? decodeURIComponent(raw.slice(prefix.length)) : '');
+  } catch {
+    return new URLSearchParams();
+  }
+}
+
+function writeCookie(assignments: ExperimentAssignments) {
+  const value = encodeURIComponent(new URLSearchParams(assignments as Record<string, string>).toString());
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${COOKIE_NAME}=${value}; Max-Age=${COOKIE_MAX_AGE_S}; Path=/; SameSite=Lax${secure}`;
+}
+
+let assigned: ExperimentAssignments | null = null;
+let previewed: ExperimentAssignments = {};
+
+/**
+ * Assign (or restore) every experiment's variant. Runs once, from main.tsx, before
+ * the first render; later calls return the same result. The result leaves out
+ * experiments previewed with ?exp_<id>=.
+ */
+export function assignExperiments(): ExperimentAssignments {
+  if (assigned) return assigned;
+  if (typeof window === 'undefined') return {};
+
+  const stored = readCookie();
+  const query = new URLSearchParams(window.location.search);
+  const kept: Record<string, string> = {};
+  const previews: Record<string, string> = {};
+  for (const id of EXPERIMENT_IDS) {
+    const preview = query.get(`exp_${id}`);
+    if (isVariantOf(id, preview)) previews[id] = preview;
+
+    // A stored variant is kept even at weight 0; only removing it reassigns.
+    const prev = stored.get(id);
+    const variant = isVariantOf(id, prev) ? prev : pickVariant(id, Math.random());
+    if (variant) kept[id] = variant;
+  }
+  previewed = previews as ExperimentAssignments;
+
+  try {
+    // The real assignment is stored even while previewing, so the next visit gets it back.
+    writeCookie(kept as ExperimentAssignments);
+  } catch {
+    // Cookies blocked: the visitor still gets a variant, just a fresh one next visit.
+  }
+
+  assigned = Object.fromEntries(Object.entries(kept).filter(([id]) => !(id in previews))) as ExperimentAssignments;
+  setGlobalProps({
+    ...Object.fromEntries(Object.entries(assigned).map(([id, v]) => [`exp_${id}`, v])),
+    ...(Object.keys(previews).length ? { exp_preview: true } : {}),
+  });
+  return assigned;
+}
+
+/** All real assignments (previews left out), for the signup payload. */
+export function getExperimentAssignments(): ExperimentAssignments {
+  return assignExperiments();
+}
+
+const viewed = new Set<ExperimentId>();
+
+/**
+ * This visitor's variant of an experiment. Falls back to the first variant
+ * when none is assigned (every weight 0, or no window).
+ */
+export function useVariant<E extends ExperimentId>(experiment: E): VariantOf<E> {
+  const assignments = assignExperiments();
+  const isPreview = experiment in previewed;
+  const variant = (previewed[experiment] ??
+    assignments[experiment] ??
+    EXPERIMENTS[experiment].variants[0].id) as VariantOf<E>;
+
+  useEffect(() => {
+    // A preview isn't an exposure.
+    if (isPreview || viewed.has(experiment)) return;
+    viewed.add(experiment);
+    track('Experiment Viewed', { experiment, variant });
+  }, [experiment, variant, isPreview]);
+
+  return variant;
+}
@@ -0,0 +1,59 @@
+// src/fieldErrors.ts
+//
+// Copy for the per-field error codes the signup and profile functions return
+// (SignupFieldErrors in supabase/functions/_shared/signupSchema.ts).
+
+import type { SignupField, SignupFieldError, SignupFieldErrors } from '../supabase/functions/_shared/signupSchema.ts';
+
+const SIGNUP_FIELD_LABELS: Record<SignupField, string> = {
+  schema_version: 'Form version',
+  email: 'Email',
+  name: 'Name',
+  primary_focus: 'Primary focus',
+  client_count: 'Client count',
+  coach_intents: 'Goals',
+  presence: 'Where you coach',
+  notes: 'Notes',
+  source: 'Source',
+  site_version: 'Site version',
+  utm: 'Campaign info',
+  first_touch: 'Campaign info',
+  last_touch: 'Campaign info',
+  experiments: 'Campaign info',
+  user_agent: 'Browser info',
+  referer: 'Referrer',
+  turnstile_token: 'Verification',
+  marketing_consent: 'Email updates',
+  email_preference: 'Email preference',
+  consent_text_version: 'Consent wording',
+  consent_at: 'Consent time',
+};
+
+export function describeFieldError(field: SignupField, code: SignupFieldError): string {
+  if (field === 'email') {
+    if (code === 'required') return 'Please enter your email.';
+    if (code === 'disposable_email') return 'Please use a permanent email — temporary inboxes can’t receive trial access.';
+    if (code === 'likely_typo') return 'Double-check the spelling of your email.';
+    return 'Please enter a valid email.';
+  }
+  if (code === 'unsupported_version') return 'This page is out of date. Please refresh and try again.';
+
+  const label = SIGNUP_FIELD_LABELS[field];
+  switch (code) {
+    case 'too_long':
+      return `${label} is too long.`;
+    case 'too_many':
+      return `${label} has too many values.`;
+    case 'invalid_option':
+      return `Please pick a valid ${label.toLowerCase()}.`;
+    default:
+      return `${label} looks invalid.`;
+  }
+}
+
+export function summarizeFieldErrors(errors: SignupFieldErrors): string {
+  const entries = Object.entries(errors) as [SignupField, SignupFieldError][];
+  if (entries.length === 0) return 'Please check the form and try again.';
+  if (entries.length === 1) return describeFieldError(entries[0][0], entries[0][1]);
+  return 'Please fix the highlighted fields and try again.';
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { captureAttribution } from './attribution';
+import { assignExperiments } from './experiments';
 import './index.css';
 import './App.css';
 
@@ -59,6 +61,19 @@ function installGlobalErrorHooks() {
 }
 installGlobalErrorHooks();
 
+/* -----------------------------------------------------------------------------
+   Attribution: record this visit once, before the first render (src/attribution.ts)
+----------------------------------------------------------------------------- */
+
+captureAttribution();
+
+/* -----------------------------------------------------------------------------
+   Experiments: assign (or restore) A/B variants before the first render, so the
+   first paint already shows this visitor's copy (src/experiments.ts)
+----------------------------------------------------------------------------- */
+
+assignExperiments();
+
 /* -----------------------------------------------------------------------------
    Crash screen component used by the ErrorBoundary
 ----------------------------------------------------------------------------- */
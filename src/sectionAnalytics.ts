@@ -0,0 +1,136 @@
+// src/sectionAnalytics.ts
+//
+// How far coaches read. Every Band with an id is watched with an IntersectionObserver
+// (the same approach as useScrollSteps in App.tsx) and the page's max scroll depth is
+// kept alongside. Per page view we report:
+// - "Section Seen"   once per section: seconds from page load until it was first in view
+// - "Section Dwell"  seconds the section was in view since the last report
+// - "Scroll Depth"   the deepest point reached, in 10% steps, whenever it grew
+//
+// Nothing is sent while reading. Events are batched and sent when the tab is hidden
+// (visibilitychange) or the page is left (pagehide), so a coach who switches tabs and
+// comes back is reported in two batches that add up. Visitors with Do Not Track on
+// are not tracked at all.
+
+import { useEffect } from 'react';
+import { track } from './analytics';
+
+/** Attribute Band puts on its <section> when it has an id. */
+export const SECTION_ATTR = 'data-band-id';
+
+/** A section counts as "in view" once it fills this share of the viewport (or of itself, if shorter). */
+const IN_VIEW_SHARE = 0.5;
+
+const THRESHOLDS = [0, 0.1, 0.25, 0.5, 0.75, 1];
+
+function doNotTrack(): boolean {
+  const w = window as Window & { doNotTrack?: string };
+  return navigator.doNotTrack === '1' || w.doNotTrack === '1';
+}
+
+function scrollDepthPercent(): number {
+  const doc = document.documentElement;
+  const scrollable = Math.max(doc.scrollHeight, 1);
+  const pct = ((window.scrollY + window.innerHeight) / scrollable) * 100;
+  return Math.min(100, Math.floor(Math.ceil(pct) / 10) * 10);
+}
+
+const toSeconds = (ms: number) => Math.round(ms / 1000);
+
+/**
+ * Track section visibility and scroll depth on the landing page. Call it
+ * unconditionally; `enabled` is false on the other routes.
+ */
+export function useSectionAnalytics(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    if (typeof window === 'undefined' || !('IntersectionObserver' in window)) return;
+    if (doNotTrack()) return;
+
+    const firstSeenAt = new Map<string, number>();
+    const reportedSeen = new Set<string>();
+    const inView = new Set<string>();
+    const pendingDwell = new Map<string, number>();
+    let pageVisible = document.visibilityState === 'visible';
+    let lastTick = performance.now();
+    let maxDepth = scrollDepthPercent();
+    let reportedDepth = 0;
+
+    // Credit the time since the last tick to whatever was in view, while the tab was showing.
+    const bank = () => {
+      const now = performance.now();
+      if (pageVisible) {
+        for (const id of inView) pendingDwell.set(id, (pendingDwell.get(id) ?? 0) + (now - lastTick));
+      }
+      lastTick = now;
+    };
+
+    const flush = () => {
+      bank();
+      for (const [id, at] of firstSeenAt) {
+        if (reportedSeen.has(id)) continue;
+        reportedSeen.add(id);
+        track('Section Seen', { section: id, first_seen_s: toSeconds(at) });
+      }
+      for (const [id, ms] of pendingDwell) {
+        const seconds = toSeconds(ms);
+        // Sub-second remainders stay pending rather than being reported as 0.
+        if (seconds < 1) continue;
+        pendingDwell.set(id, ms - seconds * 1000);
+        track('Section Dwell', { section: id, dwell_s: seconds });
+      }
+      if (maxDepth > reportedDepth) {
+        reportedDepth = maxDepth;
+        track('Scroll Depth', { max_percent: maxDepth });
+      }
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        bank();
+        const viewport = window.innerHeight;
+        for (const entry of entries) {
+          const id = (entry.target as HTMLElement).getAttribute(SECTION_ATTR);
+          if (!id) continue;
+          const needed = Math.min(entry.boundingClientRect.height, viewport) * IN_VIEW_SHARE;
+          if (entry.isIntersecting && entry.intersectionRect.height >= needed) {
+            inView.add(id);
+            if (!firstSeenAt.has(id)) firstSeenAt.set(id, performance.now());
+          } else {
+            inView.delete(id);
+          }
+        }
+      },
+      { threshold: THRESHOLDS }
+    );
+    document.querySelectorAll<HTMLElement>(`[${SECTION_ATTR}]`).forEach((el) => observer.observe(el));
+
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) return;
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        maxDepth = Math.max(maxDepth, scrollDepthPercent());
+      });
+    };
+
+    const onVisibilityChange = () => {
+      bank();
+      pageVisible = document.visibilityState === 'visible';
+      if (!pageVisible) flush();
+    };
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      flush();
+      observer.disconnect();
+      if (frame) window.cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,61 @@
+// src/site.ts
+//
+// Routes, config and helpers shared by App.tsx and the page modules (ConfirmPage,
+// ProfilePage, UnsubscribePage, MyDataPage, AdminPage).
+
+import { supabase } from './supabaseClient';
+
+export const DEMO_ROUTE = '/demo';
+export const CONFIRM_ROUTE = '/confirm';
+export const PROFILE_ROUTE = '/profile';
+export const UNSUBSCRIBE_ROUTE = '/unsubscribe';
+export const MY_DATA_ROUTE = '/my-data';
+export const ADMIN_ROUTE = '/admin';
+
+export const SUPPORT_EMAIL = (() => {
+  const v = String(import.meta.env.VITE_SUPPORT_EMAIL || '').trim();
+  return v || 'support@lungeable.com';
+})();
+
+export const COACH_WAITLIST_SIGNUP_FN = (
+  import.meta.env.VITE_COACH_WAITLIST_SIGNUP_FN || 'coach-waitlist-signup'
+).trim();
+export const COACH_WAITLIST_CONFIRM_FN = (
+  import.meta.env.VITE_COACH_WAITLIST_CONFIRM_FN || 'coach-waitlist-confirm'
+).trim();
+export const COACH_WAITLIST_PROFILE_FN = (
+  import.meta.env.VITE_COACH_WAITLIST_PROFILE_FN || 'coach-waitlist-profile'
+).trim();
+export const COACH_WAITLIST_UNSUBSCRIBE_FN = (
+  import.meta.env.VITE_COACH_WAITLIST_UNSUBSCRIBE_FN || 'coach-waitlist-unsubscribe'
+).trim();
+export const COACH_WAITLIST_DATA_FN = (import.meta.env.VITE_COACH_WAITLIST_DATA_FN || 'coach-waitlist-data').trim();
+export const COACH_WAITLIST_EXPORT_FN = (import.meta.env.VITE_COACH_WAITLIST_EXPORT_FN || 'coach-waitlist-export').trim();
+export const COACH_DEMO_BOOKING_FN = (import.meta.env.VITE_COACH_DEMO_BOOKING_FN || 'coach-demo-booking').trim();
+
+export const ASSET_BASE = (import.meta.env.BASE_URL || '/').replace(/\/?$/, '/');
+
+export const PROFILE_INPUT_CLASS =
+  'mt-1 w-full rounded-2xl border border-black/10 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-black/40';
+
+/** Invoke a waitlist function and return its JSON body, 2xx or not (null if there is none). */
+export async function invokeWaitlistFn<Req, Res>(fn: string, body: Req): Promise<Res | null> {
+  const { data, error: fnError } = await supabase.functions.invoke(fn, { body });
+  if (!fnError) return data as Res | null;
+
+  // Non-2xx responses arrive as an error; the JSON body is on `context`.
+  const ctx = (fnError as { context?: Response }).context;
+  const res = ctx ? ((await ctx.clone().json().catch(() => null)) as Res | null) : null;
+  // eslint-disable-next-line no-console
+  if (!res) console.error(`Waitlist ${fn} error`, fnError);
+  return res;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,5 @@
 // src/supabaseClient.ts
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -19,5 +19,28 @@ export const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '', {
   auth: {
     // No auth/session handling needed for this public waitlist form
     persistSession: false,
+    // The /admin magic-link redirect belongs to the admin client below.
+    detectSessionInUrl: false,
   },
 });
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Client for the /admin dashboard: a persisted Supabase Auth session (magic link,
+ * PKCE). Created on first use so landing-page visitors never start an auth client.
+ * What a session can read is decided by RLS (see the admin_dashboard migration).
+ */
+export function getAdminSupabase(): SupabaseClient {
+  if (!adminClient) {
+    adminClient = createClient(supabaseUrl || '', supabaseAnonKey || '', {
+      auth: {
+        persistSession: true,
+        storageKey: 'lungeable-admin-auth',
+        detectSessionInUrl: true,
+        flowType: 'pkce',
+      },
+    });
+  }
+  return adminClient;
+}
@@ -0,0 +1,94 @@
+// src/ui.tsx
+//
+// Layout primitives shared by the landing page (App.tsx) and the page modules.
+import React, { useState } from 'react';
+import { describeFieldError } from './fieldErrors';
+import { ASSET_BASE } from './site';
+import type { SignupField, SignupFieldErrors } from '../supabase/functions/_shared/signupSchema.ts';
+
+const LOGO_SVG_SRC = `${ASSET_BASE}logo.svg`;
+const LOGO_PNG_SRC = `${ASSET_BASE}${encodeURI('Lungeable Logo.png')}`;
+
+export function Container({ children }: { children: React.ReactNode }) {
+  return <div className="mx-auto max-w-6xl px-4 sm:px-6 lg:px-8">{children}</div>;
+}
+
+export function Kicker({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-neutral-500">
+      {children}
+    </p>
+  );
+}
+
+export function PrimaryButton({
+  children,
+  onClick,
+  className = '',
+  type = 'button',
+  disabled = false,
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  className?: string;
+  type?: 'button' | 'submit';
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type={type}
+      onClick={onClick}
+      disabled={disabled}
+      className={`inline-flex min-h-[44px] items-center justify-center rounded-full bg-black px-6 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-neutral-900 disabled:cursor-not-allowed disabled:bg-neutral-500 disabled:hover:bg-neutral-500 ${className}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function SecondaryLink({ href, children }: { href: string; children: React.ReactNode }) {
+  return (
+    <a href={href} className="text-sm font-semibold text-neutral-700 hover:text-black">
+      {children}
+    </a>
+  );
+}
+
+function BrandMark({ className = '' }: { className?: string }) {
+  // Prefer SVG if it exists, fall back to your public/Lungeable Logo.png automatically.
+  const [src, setSrc] = useState(LOGO_SVG_SRC);
+
+  return (
+    <img
+      src={src}
+      onError={() => {
+        // Avoid infinite loops if both assets are missing.
+        if (src !== LOGO_PNG_SRC) setSrc(LOGO_PNG_SRC);
+      }}
+      alt="Lungeable"
+      className={`h-8 w-8 rounded-xl border border-black/10 bg-white p-1 ${className}`}
+    />
+  );
+}
+
+export function BrandLockup({ href }: { href: string }) {
+  return (
+    <a href={href} className="flex items-center gap-2">
+      <BrandMark />
+      <div className="leading-tight">
+        <p className="text-sm font-semibold">Lungeable</p>
+        <p className="text-xs text-neutral-500">Adaptive training OS</p>
+      </div>
+    </a>
+  );
+}
+
+export function FieldErrorText({ field, errors }: { field: SignupField; errors: SignupFieldErrors }) {
+  const code = errors[field];
+  if (!code) return null;
+  return (
+    <span className="mt-1 block text-[11px] text-rose-600">
+      {describeFieldError(field, code)}
+    </span>
+  );
+}
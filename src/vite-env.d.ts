@@ -10,9 +10,18 @@ interface ImportMetaEnv {
   readonly VITE_TRIAL_STARTER_CLIENTS?: string;
   readonly VITE_SUPPORT_EMAIL?: string;
 
+  // Analytics backend (src/analytics.ts): plausible | console | off
+  readonly VITE_ANALYTICS?: string;
+
   // Cloudflare Turnstile / Edge Function
   readonly VITE_TURNSTILE_SITE_KEY?: string;
   readonly VITE_COACH_WAITLIST_SIGNUP_FN?: string;
+  readonly VITE_COACH_WAITLIST_CONFIRM_FN?: string;
+  readonly VITE_COACH_WAITLIST_PROFILE_FN?: string;
+  readonly VITE_COACH_WAITLIST_UNSUBSCRIBE_FN?: string;
+  readonly VITE_COACH_WAITLIST_DATA_FN?: string;
+  readonly VITE_COACH_WAITLIST_EXPORT_FN?: string;
+  readonly VITE_COACH_DEMO_BOOKING_FN?: string;
 
   // Supabase (public anon key; never expose service role keys in the client)
   readonly VITE_SUPABASE_URL?: string;
@@ -0,0 +1,34 @@
+// supabase/functions/_shared/channels/discord.ts
+//
+// Discord webhook (https://discord.com/developers/docs/resources/webhook#execute-webhook).
+// Env: DISCORD_WEBHOOK_URL
+
+import { leadFields, leadHeadline } from "./lead.ts";
+import { postJson } from "./post.ts";
+import type { LeadSummary, NotificationChannel } from "./types.ts";
+
+// Embed field values are markdown; neutralize formatting characters from signup input.
+function escapeDiscord(s: string): string {
+  return s.replace(/([\\*_`~|>[\]()])/g, "\\$1");
+}
+
+export function formatDiscordMessage(lead: LeadSummary): Record<string, unknown> {
+  return {
+    // Signup input must never be able to ping @everyone / roles / users.
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: `${lead.highValue ? "⭐ " : ""}${leadHeadline(lead)}`,
+        color: lead.highValue ? 0xf5a623 : 0x111111,
+        fields: leadFields(lead).map(([name, value]) => ({ name, value: escapeDiscord(value).slice(0, 1024), inline: true })),
+      },
+    ],
+  };
+}
+
+export function createDiscordChannel(opts: { webhookUrl: string; timeoutMs?: number; fetch?: typeof fetch }): NotificationChannel {
+  return {
+    name: "discord",
+    notify: (lead) => postJson("discord", opts.webhookUrl, formatDiscordMessage(lead), { timeoutMs: opts.timeoutMs, fetch: opts.fetch }),
+  };
+}
@@ -0,0 +1,45 @@
+// supabase/functions/_shared/channels/index.ts
+//
+// Chat / webhook channels that run alongside the team email. Each one is enabled
+// independently by setting its URL:
+// - SLACK_WEBHOOK_URL    Slack incoming webhook
+// - DISCORD_WEBHOOK_URL  Discord webhook
+// - LEAD_WEBHOOK_URL     generic JSON webhook (+ optional LEAD_WEBHOOK_SECRET)
+// CHANNEL_TIMEOUT_MS (default 8000) caps each call.
+
+import { getEnv, type EnvReader } from "../env.ts";
+import { createDiscordChannel } from "./discord.ts";
+import { createSlackChannel } from "./slack.ts";
+import type { ChannelResult, LeadSummary, NotificationChannel } from "./types.ts";
+import { createWebhookChannel } from "./webhook.ts";
+
+export type { ChannelResult, LeadSummary, NotificationChannel } from "./types.ts";
+export { extractLeadSummary } from "./lead.ts";
+
+export function getEnabledChannels(env: EnvReader = getEnv, fetchImpl?: typeof fetch): NotificationChannel[] {
+  const timeoutMs = Number.parseInt(env("CHANNEL_TIMEOUT_MS") || "", 10) || undefined;
+  const channels: NotificationChannel[] = [];
+
+  const slack = (env("SLACK_WEBHOOK_URL") || "").trim();
+  if (slack) channels.push(createSlackChannel({ webhookUrl: slack, timeoutMs, fetch: fetchImpl }));
+
+  const discord = (env("DISCORD_WEBHOOK_URL") || "").trim();
+  if (discord) channels.push(createDiscordChannel({ webhookUrl: discord, timeoutMs, fetch: fetchImpl }));
+
+  const webhook = (env("LEAD_WEBHOOK_URL") || "").trim();
+  if (webhook) {
+    channels.push(
+      createWebhookChannel({ url: webhook, secret: env("LEAD_WEBHOOK_SECRET")?.trim() || undefined, timeoutMs, fetch: fetchImpl }),
+    );
+  }
+
+  return channels;
+}
+
+/** Notify every channel concurrently; one slow or failing channel never blocks the others. */
+export async function fanOut(channels: NotificationChannel[], lead: LeadSummary): Promise<ChannelResult[]> {
+  const settled = await Promise.allSettled(channels.map((c) => c.notify(lead)));
+  return settled.map((s, i) =>
+    s.status === "fulfilled" ? s.value : { channel: channels[i].name, ok: false, error: String(s.reason) },
+  );
+}
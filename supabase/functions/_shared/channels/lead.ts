@@ -0,0 +1,37 @@
+// supabase/functions/_shared/channels/lead.ts
+//
+// The one place that turns a leads_coach_waitlist row into what channels show.
+
+import { isHighValueLead } from "../digestConfig.ts";
+import type { LeadSummary } from "./types.ts";
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+export function extractLeadSummary(record: Record<string, unknown>): LeadSummary {
+  return {
+    email: str(record.email),
+    name: str(record.name),
+    primaryFocus: str(record.primary_focus),
+    clientCount: str(record.client_count),
+    source: str(record.source),
+    highValue: isHighValueLead(record),
+  };
+}
+
+/** Label/value pairs in display order; empty values are dropped. */
+export function leadFields(lead: LeadSummary): [string, string][] {
+  const rows: [string, string][] = [
+    ["Email", lead.email],
+    ["Name", lead.name],
+    ["Primary focus", lead.primaryFocus],
+    ["Client count", lead.clientCount],
+    ["Source", lead.source],
+  ];
+  return rows.filter(([, v]) => v.length > 0);
+}
+
+export function leadHeadline(lead: LeadSummary): string {
+  return `${lead.highValue ? "High-value coach" : "New coach"} confirmed on the waitlist`;
+}
@@ -0,0 +1,34 @@
+// supabase/functions/_shared/channels/post.ts
+//
+// POST a JSON body to a webhook URL and turn the outcome into a ChannelResult.
+
+import { fetchWithTimeout } from "../email/http.ts";
+import type { ChannelResult } from "./types.ts";
+
+export async function postJson(
+  channel: string,
+  url: string,
+  body: unknown,
+  opts: { timeoutMs?: number; headers?: Record<string, string>; fetch?: typeof fetch } = {},
+): Promise<ChannelResult> {
+  try {
+    const r = await fetchWithTimeout(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(opts.headers || {}) },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      },
+      opts.timeoutMs ?? 8_000,
+      opts.fetch,
+    );
+
+    if (!r.ok) {
+      return { channel, ok: false, status: r.status, error: (await r.text().catch(() => "")).slice(0, 500) };
+    }
+    return { channel, ok: true, status: r.status };
+  } catch (e) {
+    const aborted = e instanceof DOMException && e.name === "AbortError";
+    return { channel, ok: false, error: aborted ? "timeout" : String(e) };
+  }
+}
@@ -0,0 +1,37 @@
+// supabase/functions/_shared/channels/slack.ts
+//
+// Slack incoming webhook (https://api.slack.com/messaging/webhooks).
+// Env: SLACK_WEBHOOK_URL
+
+import { leadFields, leadHeadline } from "./lead.ts";
+import { postJson } from "./post.ts";
+import type { LeadSummary, NotificationChannel } from "./types.ts";
+
+// Slack mrkdwn: only &, < and > are control characters (<!channel>, <url|label>…).
+function escapeSlack(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function formatSlackMessage(lead: LeadSummary): Record<string, unknown> {
+  const headline = leadHeadline(lead);
+  return {
+    text: `${headline}: ${escapeSlack(lead.email)}`,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: `${lead.highValue ? "⭐ " : ""}${headline}` } },
+      {
+        type: "section",
+        fields: leadFields(lead).map(([label, value]) => ({
+          type: "mrkdwn",
+          text: `*${label}*\n${escapeSlack(value)}`,
+        })),
+      },
+    ],
+  };
+}
+
+export function createSlackChannel(opts: { webhookUrl: string; timeoutMs?: number; fetch?: typeof fetch }): NotificationChannel {
+  return {
+    name: "slack",
+    notify: (lead) => postJson("slack", opts.webhookUrl, formatSlackMessage(lead), { timeoutMs: opts.timeoutMs, fetch: opts.fetch }),
+  };
+}
@@ -0,0 +1,24 @@
+// supabase/functions/_shared/channels/types.ts
+//
+// Chat / webhook notification channels (Slack, Discord, generic JSON webhook).
+// Every channel formats the same LeadSummary, so they all say the same thing.
+
+export type LeadSummary = {
+  email: string;
+  name: string;
+  primaryFocus: string;
+  clientCount: string;
+  source: string;
+  /** Flagged by ../digestConfig.ts (e.g. 50+ clients). */
+  highValue: boolean;
+};
+
+export type ChannelResult =
+  | { channel: string; ok: true; status: number }
+  | { channel: string; ok: false; status?: number; error: string };
+
+export interface NotificationChannel {
+  readonly name: string;
+  /** Never throws; failures come back as { ok: false }. */
+  notify(lead: LeadSummary): Promise<ChannelResult>;
+}
@@ -0,0 +1,45 @@
+// supabase/functions/_shared/channels/webhook.ts
+//
+// Generic JSON webhook (Zapier, Make, n8n, your own endpoint…).
+// Env: LEAD_WEBHOOK_URL, optional LEAD_WEBHOOK_SECRET
+//
+// With a secret, each request carries
+//   x-lungeable-signature: sha256=<hex HMAC-SHA256 of the raw body>
+// so the receiver can check it came from us.
+
+import { postJson } from "./post.ts";
+import type { LeadSummary, NotificationChannel } from "./types.ts";
+
+export function formatWebhookPayload(lead: LeadSummary, nowMs = Date.now()): Record<string, unknown> {
+  return {
+    event: "coach_waitlist.confirmed",
+    sent_at: new Date(nowMs).toISOString(),
+    lead: {
+      email: lead.email,
+      name: lead.name || null,
+      primary_focus: lead.primaryFocus || null,
+      client_count: lead.clientCount || null,
+      source: lead.source || null,
+      high_value: lead.highValue,
+    },
+  };
+}
+
+async function hmacHex(secret: string, body: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = new Uint8Array(await crypto.subtle.sign("HMAC", key, enc.encode(body)));
+  return Array.from(sig, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function createWebhookChannel(opts: { url: string; secret?: string; timeoutMs?: number; fetch?: typeof fetch }): NotificationChannel {
+  return {
+    name: "webhook",
+    async notify(lead) {
+      const body = JSON.stringify(formatWebhookPayload(lead));
+      const headers: Record<string, string> = {};
+      if (opts.secret) headers["x-lungeable-signature"] = `sha256=${await hmacHex(opts.secret, body)}`;
+      return postJson("webhook", opts.url, body, { timeoutMs: opts.timeoutMs, headers, fetch: opts.fetch });
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// supabase/functions/_shared/crm/hubspot.ts
+//
+// HubSpot contacts (https://developers.hubspot.com/docs/api/crm/contacts), through the
+// batch upsert endpoint with idProperty "email": a lead who is already a contact is
+// updated in place, never duplicated. Erasure goes through the GDPR delete endpoint,
+// which removes the contact permanently rather than archiving it.
+// Env: HUBSPOT_ACCESS_TOKEN (private app token with crm.objects.contacts.write)
+
+import { fetchWithTimeout } from "../email/http.ts";
+import type { CrmDeleteResult, CrmProvider, CrmUpsertResult } from "./types.ts";
+
+export const HUBSPOT_API_BASE_URL = "https://api.hubapi.com";
+export const HUBSPOT_UPSERT_PATH = "/crm/v3/objects/contacts/batch/upsert";
+export const HUBSPOT_GDPR_DELETE_PATH = "/crm/v3/objects/contacts/gdpr-delete";
+
+type UpsertResponse = {
+  results?: { id?: string | number }[];
+  // 207 Multi-Status: the batch went through but this input didn't.
+  errors?: { message?: string }[];
+};
+
+export function createHubSpotProvider(opts: {
+  accessToken: string;
+  /** Another API host, e.g. a local mock server. */
+  baseUrl?: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}): CrmProvider {
+  const base = (opts.baseUrl || HUBSPOT_API_BASE_URL).replace(/\/+$/, "");
+  const url = `${base}${HUBSPOT_UPSERT_PATH}`;
+
+  return {
+    name: "hubspot",
+    async upsertContact(email, properties): Promise<CrmUpsertResult> {
+      const body = { inputs: [{ idProperty: "email", id: email, properties: { ...properties, email } }] };
+
+      try {
+        const r = await fetchWithTimeout(
+          url,
+          {
+            method: "POST",
+            headers: { Authorization: `Bearer ${opts.accessToken}`, "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          },
+          opts.timeoutMs ?? 8_000,
+          opts.fetch,
+        );
+
+        if (!r.ok) {
+          return { provider: "hubspot", ok: false, status: r.status, error: (await r.text().catch(() => "")).slice(0, 500) };
+        }
+
+        const response = (await r.json().catch(() => ({}))) as UpsertResponse;
+        const id = response.results?.[0]?.id;
+        if (id === undefined || id === null || id === "") {
+          const error = response.errors?.[0]?.message || "no contact id in response";
+          return { provider: "hubspot", ok: false, status: r.status, error: error.slice(0, 500) };
+        }
+        return { provider: "hubspot", ok: true, status: r.status, contactId: String(id) };
+      } catch (e) {
+        const aborted = e instanceof DOMException && e.name === "AbortError";
+        return { provider: "hubspot", ok: false, error: aborted ? "timeout" : String(e) };
+      }
+    },
+
+    async deleteContact(ref): Promise<CrmDeleteResult> {
+      // Without idProperty, objectId is HubSpot's own contact id.
+      const body = "contactId" in ref ? { objectId: ref.contactId } : { objectId: ref.email, idProperty: "email" };
+
+      try {
+        const r = await fetchWithTimeout(
+          `${base}${HUBSPOT_GDPR_DELETE_PATH}`,
+          {
+            method: "POST",
+            headers: { Authorization: `Bearer ${opts.accessToken}`, "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          },
+          opts.timeoutMs ?? 8_000,
+          opts.fetch,
+        );
+
+        // 404: never synced, or already deleted in HubSpot.
+        if (r.ok || r.status === 404) {
+          await r.body?.cancel();
+          return { provider: "hubspot", ok: true, status: r.status };
+        }
+        return { provider: "hubspot", ok: false, status: r.status, error: (await r.text().catch(() => "")).slice(0, 500) };
+      } catch (e) {
+        const aborted = e instanceof DOMException && e.name === "AbortError";
+        return { provider: "hubspot", ok: false, error: aborted ? "timeout" : String(e) };
+      }
+    },
+  };
+}
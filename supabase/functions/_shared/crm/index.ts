@@ -0,0 +1,238 @@
+// supabase/functions/_shared/crm/index.ts
+//
+// CRM sync for leads: each lead becomes (or updates) a contact in the team's CRM, with
+// the properties from ./mapping.ts. Pick a CRM with CRM_PROVIDER:
+// - hubspot  HUBSPOT_ACCESS_TOKEN
+// Unset (or "none") = off. CRM_API_BASE_URL points the provider at another host, e.g.
+// the local mock in ../../tests/mockHubSpot.ts; CRM_TIMEOUT_MS (default 8000) caps
+// the call.
+//
+// Only confirmed leads who allow marketing email are synced. The outcome of every
+// attempt is stored per lead in public.lead_crm_sync. Erasure deletes the contact;
+// a deletion the CRM refuses is queued in public.crm_deletions and retried.
+
+import { getEnv, mustGetEnv, type EnvReader } from "../env.ts";
+import type { createAdminClient } from "../supabaseAdmin.ts";
+import { createHubSpotProvider } from "./hubspot.ts";
+import { getCrmFieldMap, mapLeadProperties } from "./mapping.ts";
+import type { CrmContactRef, CrmProvider } from "./types.ts";
+
+export type { CrmContactRef, CrmDeleteResult, CrmProperties, CrmProvider, CrmUpsertResult } from "./types.ts";
+export { CRM_LEAD_FIELDS, DEFAULT_CRM_FIELD_MAP, getCrmFieldMap, mapLeadProperties } from "./mapping.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export const CRM_SYNC_TABLE = "lead_crm_sync";
+export const CRM_DELETIONS_TABLE = "crm_deletions";
+
+/** Queued deletions stop being retried after this many attempts (and wait for a person). */
+export const MAX_CRM_DELETE_ATTEMPTS = 8;
+
+export type CrmProviderName = "hubspot";
+
+const PROVIDER_NAMES: readonly CrmProviderName[] = ["hubspot"];
+
+/** The configured provider, or null when CRM sync is off. Throws on unknown names / missing credentials. */
+export function getCrmProvider(env: EnvReader = getEnv, fetchImpl?: typeof fetch): CrmProvider | null {
+  const name = (env("CRM_PROVIDER") || "").trim().toLowerCase();
+  if (!name || name === "none") return null;
+  if (!(PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown CRM_PROVIDER: ${name} (expected one of ${PROVIDER_NAMES.join(", ")})`);
+  }
+
+  const timeoutMs = Number.parseInt(env("CRM_TIMEOUT_MS") || "", 10) || undefined;
+  const baseUrl = env("CRM_API_BASE_URL")?.trim() || undefined;
+
+  return createHubSpotProvider({
+    accessToken: mustGetEnv("HUBSPOT_ACCESS_TOKEN", env).trim(),
+    baseUrl,
+    timeoutMs,
+    fetch: fetchImpl,
+  });
+}
+
+export type CrmSyncDeps = {
+  env: EnvReader;
+  /** Only called when a provider is configured. */
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; synced_at / updated_at. */
+  now: () => number;
+};
+
+export type CrmSyncResult = {
+  synced: boolean;
+  skipped?: "disabled" | "no_email" | "unsubscribed" | "no_consent";
+  provider?: string;
+  contactId?: string;
+  status?: number;
+  error?: string;
+  /** Whether the outcome made it into lead_crm_sync. */
+  tracked?: boolean;
+};
+
+/**
+ * Upsert the lead's contact and record the outcome in lead_crm_sync.
+ * Never throws: a CRM outage must not cost the lead its notifications.
+ */
+export async function syncLeadToCrm(record: Record<string, unknown>, deps: CrmSyncDeps): Promise<CrmSyncResult> {
+  let provider: CrmProvider | null;
+  try {
+    provider = getCrmProvider(deps.env, deps.fetch);
+  } catch (e) {
+    console.error("[crm] Misconfigured", { error: String(e) });
+    return { synced: false, error: String(e) };
+  }
+  if (!provider) return { synced: false, skipped: "disabled" };
+
+  const email = typeof record.email === "string" ? record.email.trim() : "";
+  if (!email) return { synced: false, skipped: "no_email", provider: provider.name };
+  // The CRM is for marketing follow-up: not for leads who opted out of it.
+  if (record.unsubscribed_at) return { synced: false, skipped: "unsubscribed", provider: provider.name };
+  if (record.marketing_consent === false) return { synced: false, skipped: "no_consent", provider: provider.name };
+
+  const r = await provider.upsertContact(email, mapLeadProperties(record, getCrmFieldMap(deps.env)));
+  const result: CrmSyncResult = r.ok
+    ? { synced: true, provider: r.provider, contactId: r.contactId, status: r.status }
+    : { synced: false, provider: r.provider, status: r.status, error: r.error };
+
+  const leadId = typeof record.id === "string" ? record.id.trim() : "";
+  if (!leadId) return { ...result, tracked: false };
+
+  const at = new Date(deps.now()).toISOString();
+  const row: Record<string, unknown> = r.ok
+    ? {
+      lead_id: leadId,
+      provider: r.provider,
+      contact_id: r.contactId,
+      status: "synced",
+      last_http_status: r.status,
+      last_error: null,
+      synced_at: at,
+      updated_at: at,
+    }
+    // contact_id / synced_at are left alone, so an earlier successful sync stays on record.
+    : { lead_id: leadId, provider: r.provider, status: "failed", last_http_status: r.status ?? null, last_error: r.error, updated_at: at };
+
+  try {
+    const admin = await deps.createAdminClient();
+    const { error } = await admin.from(CRM_SYNC_TABLE).upsert(row, { onConflict: "lead_id" });
+    if (error) {
+      console.error("[crm] Sync state write failed", { leadId, error });
+      return { ...result, tracked: false };
+    }
+  } catch (e) {
+    console.error("[crm] Sync state error", { leadId, error: String(e) });
+    return { ...result, tracked: false };
+  }
+
+  return { ...result, tracked: true };
+}
+
+export type CrmEraseResult = {
+  erased: boolean;
+  skipped?: "disabled";
+  provider?: string;
+  status?: number;
+  error?: string;
+  /** Whether a failed deletion made it into crm_deletions for a retry. */
+  queued?: boolean;
+};
+
+/**
+ * Delete an erased lead's CRM contact. Call it before the lead row goes: the contact
+ * id is read from lead_crm_sync, which cascades with the lead. A failure is queued in
+ * crm_deletions by contact id (no email kept) for retryCrmDeletions.
+ * Never throws.
+ */
+export async function eraseCrmContact(
+  lead: { id: string; email: string },
+  deps: CrmSyncDeps,
+): Promise<CrmEraseResult> {
+  let provider: CrmProvider | null;
+  try {
+    provider = getCrmProvider(deps.env, deps.fetch);
+  } catch (e) {
+    console.error("[crm] Misconfigured", { error: String(e) });
+    return { erased: false, error: String(e) };
+  }
+  if (!provider) return { erased: false, skipped: "disabled" };
+
+  try {
+    const admin = await deps.createAdminClient();
+    const { data: state, error: stateErr } = await admin
+      .from(CRM_SYNC_TABLE)
+      .select("contact_id")
+      .eq("lead_id", lead.id)
+      .maybeSingle();
+    // Without the recorded id the email still finds the contact.
+    if (stateErr) console.error("[crm] Sync state read failed", { leadId: lead.id, error: stateErr });
+    const contactId = (state as { contact_id?: string | null } | null)?.contact_id ?? null;
+
+    const ref: CrmContactRef = contactId ? { contactId } : { email: lead.email };
+    const r = await provider.deleteContact(ref);
+    if (r.ok) return { erased: true, provider: r.provider, status: r.status };
+
+    // No contact id means no sync ever succeeded, so there is nothing to come back for.
+    if (!contactId) return { erased: false, provider: r.provider, status: r.status, error: r.error, queued: false };
+
+    const at = new Date(deps.now()).toISOString();
+    const { error } = await admin.from(CRM_DELETIONS_TABLE).upsert(
+      { provider: r.provider, contact_id: contactId, attempts: 1, last_error: r.error, updated_at: at },
+      { onConflict: "provider,contact_id" },
+    );
+    if (error) console.error("[crm] Deletion queue write failed", { leadId: lead.id, error });
+    return { erased: false, provider: r.provider, status: r.status, error: r.error, queued: !error };
+  } catch (e) {
+    console.error("[crm] Erase error", { leadId: lead.id, error: String(e) });
+    return { erased: false, error: String(e) };
+  }
+}
+
+/**
+ * Retry queued contact deletions (oldest first). Done rows are removed; failed ones
+ * count an attempt. Never throws.
+ */
+export async function retryCrmDeletions(
+  deps: CrmSyncDeps,
+  limit = 20,
+): Promise<{ skipped?: "disabled"; deleted: number; failed: number; error?: string }> {
+  let provider: CrmProvider | null;
+  try {
+    provider = getCrmProvider(deps.env, deps.fetch);
+  } catch (e) {
+    return { deleted: 0, failed: 0, error: String(e) };
+  }
+  if (!provider) return { skipped: "disabled", deleted: 0, failed: 0 };
+
+  try {
+    const admin = await deps.createAdminClient();
+    const { data, error } = await admin
+      .from(CRM_DELETIONS_TABLE)
+      .select("id, contact_id, attempts")
+      .eq("provider", provider.name)
+      .lt("attempts", MAX_CRM_DELETE_ATTEMPTS)
+      .order("updated_at", { ascending: true })
+      .limit(limit);
+    if (error) return { deleted: 0, failed: 0, error: String(error.message ?? error) };
+
+    let deleted = 0;
+    let failed = 0;
+    for (const row of (data ?? []) as { id: string; contact_id: string; attempts: number }[]) {
+      const r = await provider.deleteContact({ contactId: row.contact_id });
+      if (r.ok) {
+        await admin.from(CRM_DELETIONS_TABLE).delete().eq("id", row.id);
+        deleted++;
+      } else {
+        await admin
+          .from(CRM_DELETIONS_TABLE)
+          .update({ attempts: row.attempts + 1, last_error: r.error, updated_at: new Date(deps.now()).toISOString() })
+          .eq("id", row.id);
+        failed++;
+      }
+    }
+    return { deleted, failed };
+  } catch (e) {
+    return { deleted: 0, failed: 0, error: String(e) };
+  }
+}
@@ -0,0 +1,111 @@
+// supabase/functions/_shared/crm/mapping.ts
+//
+// Which lead fields land in which CRM contact properties.
+//
+// The defaults write HubSpot's own firstname/lastname plus custom contact properties
+// prefixed lungeable_ (create them once under Settings → Properties). CRM_FIELD_MAP
+// changes entries as comma-separated lead_field=property pairs; an empty property
+// stops sending that field:
+//   CRM_FIELD_MAP="score=hubspotscore_custom,utm_term=,utm_content="
+
+import { getEnv, type EnvReader } from "../env.ts";
+import type { CrmProperties } from "./types.ts";
+
+export const CRM_LEAD_FIELDS = [
+  "first_name",
+  "last_name",
+  "client_count",
+  "primary_focus",
+  "coach_intents",
+  "score",
+  "source",
+  "status",
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+] as const;
+
+export type CrmLeadField = (typeof CRM_LEAD_FIELDS)[number];
+
+export type CrmFieldMap = Partial<Record<CrmLeadField, string>>;
+
+export const DEFAULT_CRM_FIELD_MAP: Readonly<Record<CrmLeadField, string>> = {
+  first_name: "firstname",
+  last_name: "lastname",
+  client_count: "lungeable_client_count",
+  primary_focus: "lungeable_primary_focus",
+  coach_intents: "lungeable_coach_intents",
+  score: "lungeable_lead_score",
+  source: "lungeable_signup_source",
+  status: "lungeable_waitlist_status",
+  utm_source: "lungeable_utm_source",
+  utm_medium: "lungeable_utm_medium",
+  utm_campaign: "lungeable_utm_campaign",
+  utm_term: "lungeable_utm_term",
+  utm_content: "lungeable_utm_content",
+};
+
+function isLeadField(v: string): v is CrmLeadField {
+  return (CRM_LEAD_FIELDS as readonly string[]).includes(v);
+}
+
+export function getCrmFieldMap(env: EnvReader = getEnv): CrmFieldMap {
+  const map: CrmFieldMap = { ...DEFAULT_CRM_FIELD_MAP };
+
+  for (const entry of (env("CRM_FIELD_MAP") || "").split(",")) {
+    if (!entry.trim()) continue;
+    const eq = entry.indexOf("=");
+    const field = (eq === -1 ? entry : entry.slice(0, eq)).trim();
+    if (eq === -1 || !isLeadField(field)) {
+      console.warn("[crm] Ignoring CRM_FIELD_MAP entry", { entry: entry.trim() });
+      continue;
+    }
+    const property = entry.slice(eq + 1).trim();
+    if (property) map[field] = property;
+    else delete map[field];
+  }
+
+  return map;
+}
+
+function str(v: unknown): string {
+  if (typeof v === "string") return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return "";
+}
+
+/** Every mappable field of a leads_coach_waitlist row, as the text a CRM property takes. */
+export function leadCrmValues(record: Record<string, unknown>): Record<CrmLeadField, string> {
+  const [firstName = "", ...rest] = str(record.name).split(/\s+/);
+  const utm = record.utm && typeof record.utm === "object" ? (record.utm as Record<string, unknown>) : {};
+  const intents = Array.isArray(record.coach_intents) ? record.coach_intents.map(str).filter(Boolean) : [];
+
+  return {
+    first_name: firstName,
+    last_name: rest.join(" "),
+    client_count: str(record.client_count),
+    primary_focus: str(record.primary_focus),
+    // HubSpot's separator for multiple checkbox values.
+    coach_intents: intents.join(";"),
+    score: str(record.score),
+    source: str(record.source),
+    status: str(record.status),
+    utm_source: str(utm.utm_source),
+    utm_medium: str(utm.utm_medium),
+    utm_campaign: str(utm.utm_campaign),
+    utm_term: str(utm.utm_term),
+    utm_content: str(utm.utm_content),
+  };
+}
+
+export function mapLeadProperties(record: Record<string, unknown>, map: CrmFieldMap): CrmProperties {
+  const values = leadCrmValues(record);
+  const properties: CrmProperties = {};
+  for (const field of CRM_LEAD_FIELDS) {
+    const property = map[field];
+    if (property && values[field]) properties[property] = values[field];
+  }
+  return properties;
+}
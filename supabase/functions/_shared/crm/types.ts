@@ -0,0 +1,26 @@
+// supabase/functions/_shared/crm/types.ts
+//
+// CRM connectors. A provider upserts one contact, keyed by email, with properties
+// already mapped from the lead row (./mapping.ts), and deletes it again on erasure.
+
+/** CRM property name → value. Empty values are never sent, so CRM-side edits survive. */
+export type CrmProperties = Record<string, string>;
+
+export type CrmUpsertResult =
+  | { provider: string; ok: true; status: number; contactId: string }
+  | { provider: string; ok: false; status?: number; error: string };
+
+export type CrmDeleteResult =
+  | { provider: string; ok: true; status: number }
+  | { provider: string; ok: false; status?: number; error: string };
+
+/** Which contact to delete: the CRM's own id when a sync recorded it, else the email. */
+export type CrmContactRef = { contactId: string } | { email: string };
+
+export interface CrmProvider {
+  readonly name: string;
+  /** Never throws; failures come back as { ok: false }. */
+  upsertContact(email: string, properties: CrmProperties): Promise<CrmUpsertResult>;
+  /** Never throws. A contact that doesn't exist (any more) counts as deleted. */
+  deleteContact(ref: CrmContactRef): Promise<CrmDeleteResult>;
+}
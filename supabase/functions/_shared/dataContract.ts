@@ -0,0 +1,45 @@
+// supabase/functions/_shared/dataContract.ts
+//
+// The data export / deletion contract (/my-data ↔ coach-waitlist-data). Imported by
+// both the React app and the Edge Function, so like ./signupSchema.ts it stays
+// dependency-free.
+
+export type DataRequestKind = "export" | "delete";
+
+/**
+ * coach-waitlist-data request (/my-data route). "request" emails a verification link
+ * for `kind` to `email`; "export" / "delete" redeem that link's token.
+ */
+export type DataRequest =
+  | { action: "request"; kind: DataRequestKind; email: string }
+  | { action: "export"; token: string }
+  | { action: "delete"; token: string };
+
+export type DataErrorCode =
+  | "invalid_json"
+  | "invalid_body"
+  | "invalid_email"
+  | "missing_token"
+  | "invalid_token"
+  | "expired_token"
+  | "rate_limited"
+  | "rate_limit_unavailable"
+  | "db_select_failed"
+  | "db_delete_failed"
+  | "server_misconfigured";
+
+export type DataResponse =
+  /** "request": always the same answer, whether or not the email is on the list. */
+  | { ok: true; action: "request" }
+  | {
+      ok: true;
+      action: "export";
+      /** null when there's nothing stored for this email. */
+      lead: Record<string, unknown> | null;
+      profile_changes: Record<string, unknown>[];
+      consents: Record<string, unknown>[];
+      /** Demo calls booked with this email, linked to the lead or not. */
+      demo_bookings: Record<string, unknown>[];
+    }
+  | { ok: true; action: "delete"; deleted: boolean }
+  | { ok: false; error: DataErrorCode; reset_at?: string };
@@ -0,0 +1,77 @@
+// supabase/functions/_shared/demoBookingContract.ts
+//
+// The demo booking contract (/demo ↔ coach-demo-booking) and its validator. Imported
+// by both the React app and the Edge Function, so like ./signupSchema.ts it stays
+// dependency-free.
+
+import { normalizeExperimentAssignments, type ExperimentAssignments } from "./experiments.ts";
+import { clippedStringMap, clippedText, SIGNUP_LIMITS } from "./signupSchema.ts";
+
+/**
+ * coach-demo-booking request, sent by /demo when the Calendly embed reports a
+ * booking (calendly.event_scheduled). Calendly's message only carries the two API
+ * URIs; the function looks the invitee up with Calendly for the email.
+ */
+export type DemoBookingRequest = {
+  event_uri: string;
+  invitee_uri: string;
+  utm?: Record<string, string>;
+  site_version?: string;
+  experiments?: ExperimentAssignments;
+};
+
+export type ValidatedDemoBooking = {
+  event_uri: string;
+  invitee_uri: string;
+  utm: Record<string, string>;
+  site_version: string | null;
+  experiments: ExperimentAssignments;
+};
+
+export type DemoBookingErrorCode =
+  | "invalid_json"
+  | "invalid_body"
+  | "rate_limited"
+  | "rate_limit_unavailable"
+  | "booking_not_found"
+  | "calendly_lookup_failed"
+  | "db_write_failed";
+
+export type DemoBookingResponse =
+  | { ok: true; linked: boolean }
+  | { ok: false; error: DemoBookingErrorCode; field?: keyof DemoBookingRequest; reset_at?: string };
+
+// Only Calendly API URIs: the function fetches them with our token.
+const CALENDLY_EVENT_URI_RE = /^https:\/\/api\.calendly\.com\/scheduled_events\/[A-Za-z0-9-]{1,64}$/;
+const CALENDLY_INVITEE_PATH_RE = /^\/invitees\/[A-Za-z0-9-]{1,64}$/;
+
+/**
+ * Validate a coach-demo-booking request. The URIs must be Calendly API URIs with
+ * the invitee under the event; utm / site_version / experiments are passive
+ * metadata and, as on the signup, clipped or dropped rather than rejected.
+ */
+export function validateDemoBooking(
+  input: unknown,
+): { ok: true; value: ValidatedDemoBooking } | { ok: false; field: keyof DemoBookingRequest } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { ok: false, field: "event_uri" };
+  const body = input as Record<string, unknown>;
+
+  const eventUri = typeof body.event_uri === "string" ? body.event_uri.trim() : "";
+  if (!CALENDLY_EVENT_URI_RE.test(eventUri)) return { ok: false, field: "event_uri" };
+
+  const inviteeUri = typeof body.invitee_uri === "string" ? body.invitee_uri.trim() : "";
+  if (!inviteeUri.startsWith(eventUri) || !CALENDLY_INVITEE_PATH_RE.test(inviteeUri.slice(eventUri.length))) {
+    return { ok: false, field: "invitee_uri" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      event_uri: eventUri,
+      invitee_uri: inviteeUri,
+      utm: clippedStringMap(body.utm, null),
+      site_version: clippedText(body.site_version, SIGNUP_LIMITS.site_version),
+      experiments: normalizeExperimentAssignments(body.experiments),
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// supabase/functions/_shared/digestConfig.ts
+//
+// How the team hears about confirmed leads. Shared by notify-coach-waitlist
+// (per-lead webhook) and send-waitlist-digest (scheduled summary).
+//
+// WAITLIST_NOTIFY_MODE:
+// - instant (default)  one team email per confirmed lead (original behaviour)
+// - digest             team alerts are batched into send-waitlist-digest; only
+//                      high-value leads still get an instant alert
+//
+// A lead is high-value if either matches:
+// - DIGEST_INSTANT_CLIENT_COUNTS: comma-separated client_count values (default "50+";
+//   set it to empty to disable)
+// - DIGEST_INSTANT_MIN_SCORE: lead score at or above this (unset = disabled;
+//   see ./leadScore.ts)
+
+import { getEnv, type EnvReader } from "./env.ts";
+
+export type NotifyMode = "instant" | "digest";
+
+export function getNotifyMode(env: EnvReader = getEnv): NotifyMode {
+  return (env("WAITLIST_NOTIFY_MODE") || "instant").trim().toLowerCase() === "digest" ? "digest" : "instant";
+}
+
+function instantClientCounts(env: EnvReader): string[] {
+  const v = env("DIGEST_INSTANT_CLIENT_COUNTS");
+  return (v === undefined ? "50+" : v)
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** High-value leads skip the digest and alert the team right away. */
+export function isHighValueLead(record: Record<string, unknown>, env: EnvReader = getEnv): boolean {
+  const clientCount = typeof record.client_count === "string" ? record.client_count.trim() : "";
+  if (clientCount && instantClientCounts(env).includes(clientCount)) return true;
+
+  const minScore = Number.parseInt(env("DIGEST_INSTANT_MIN_SCORE") || "", 10);
+  return Number.isFinite(minScore) && typeof record.score === "number" && record.score >= minScore;
+}
+
+/** Should this confirmed lead trigger a team email right now? */
+export function shouldAlertInstantly(record: Record<string, unknown>, env: EnvReader = getEnv): boolean {
+  return getNotifyMode(env) === "instant" || isHighValueLead(record, env);
+}
@@ -0,0 +1,77 @@
+// supabase/functions/_shared/disposableDomains.ts
+//
+// Bundled list of disposable / throwaway email domains, rejected at signup.
+// Shared by the React form and coach-waitlist-signup (see ./emailValidation.ts).
+//
+// Updating: this is a curated subset of the community-maintained list at
+// https://github.com/disposable-email-domains/disposable-email-domains
+// (disposable_email_blocklist.conf). Add domains here — lowercase, one per line,
+// kept sorted — and redeploy both the site and the function. For an urgent block
+// without a site deploy, the function also reads EXTRA_DISPOSABLE_DOMAINS
+// (comma-separated).
+//
+// Subdomains are matched too: "foo.mailinator.com" is blocked by "mailinator.com".
+
+export const DISPOSABLE_DOMAINS: readonly string[] = [
+  "0-mail.com",
+  "10minutemail.com",
+  "10minutemail.net",
+  "20minutemail.com",
+  "33mail.com",
+  "anonbox.net",
+  "burnermail.io",
+  "byom.de",
+  "chacuo.net",
+  "discard.email",
+  "dispostable.com",
+  "dropmail.me",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "fakemail.net",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.biz",
+  "guerrillamail.com",
+  "guerrillamail.de",
+  "guerrillamail.info",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "guerrillamailblock.com",
+  "harakirimail.com",
+  "inboxbear.com",
+  "incognitomail.org",
+  "jetable.org",
+  "mail-temp.com",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailinator.net",
+  "mailnesia.com",
+  "mailpoof.com",
+  "mintemail.com",
+  "mohmal.com",
+  "moakt.com",
+  "mytemp.email",
+  "nada.email",
+  "sharklasers.com",
+  "spam4.me",
+  "spambog.com",
+  "spamgourmet.com",
+  "tempail.com",
+  "tempinbox.com",
+  "tempmail.com",
+  "tempmail.dev",
+  "tempmail.net",
+  "tempmailo.com",
+  "temp-mail.io",
+  "temp-mail.org",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "trashmail.de",
+  "trashmail.net",
+  "wegwerfmail.de",
+  "yopmail.com",
+  "yopmail.fr",
+  "yopmail.net",
+];
@@ -0,0 +1,19 @@
+// supabase/functions/_shared/email/http.ts
+//
+// fetch() with a hard timeout, shared by the HTTP-API providers.
+// fetchImpl is injectable so handler tests can stub the network.
+
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  fetchImpl: typeof fetch = fetch,
+): Promise<Response> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetchImpl(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(t);
+  }
+}
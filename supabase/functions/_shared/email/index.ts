@@ -0,0 +1,64 @@
+// supabase/functions/_shared/email/index.ts
+//
+// Email provider selection. Pick a vendor with EMAIL_PROVIDER:
+// - resend   (default) RESEND_API_KEY
+// - postmark           POSTMARK_SERVER_TOKEN, POSTMARK_MESSAGE_STREAM
+// - smtp               SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+// - console            logs only (local dev)
+// - file               writes JSON into EMAIL_SINK_DIR (local dev / tests)
+
+import { getEnv, mustGetEnv, type EnvReader } from "../env.ts";
+import { createPostmarkProvider } from "./postmark.ts";
+import { createResendProvider } from "./resend.ts";
+import { createSinkProvider } from "./sink.ts";
+import { createSmtpProvider } from "./smtp.ts";
+import type { EmailProvider } from "./types.ts";
+
+export type { EmailMessage, EmailProvider, SendResult } from "./types.ts";
+export { getTeamRecipients, parseEmailList } from "./recipients.ts";
+
+export type EmailProviderName = "resend" | "postmark" | "smtp" | "console" | "file";
+
+const PROVIDER_NAMES: readonly EmailProviderName[] = ["resend", "postmark", "smtp", "console", "file"];
+
+export function getEmailProviderName(env: EnvReader = getEnv): EmailProviderName {
+  const v = (env("EMAIL_PROVIDER") || "resend").trim().toLowerCase();
+  if (!(PROVIDER_NAMES as readonly string[]).includes(v)) {
+    throw new Error(`Unknown EMAIL_PROVIDER: ${v} (expected one of ${PROVIDER_NAMES.join(", ")})`);
+  }
+  return v as EmailProviderName;
+}
+
+/**
+ * Build the configured provider. Throws on missing credentials so misconfiguration
+ * surfaces as a 500 with a clear log line rather than silently dropping mail.
+ * `fetchImpl` is used by the HTTP-API providers (resend, postmark).
+ */
+export function getEmailProvider(env: EnvReader = getEnv, fetchImpl?: typeof fetch): EmailProvider {
+  const name = getEmailProviderName(env);
+
+  switch (name) {
+    case "postmark":
+      return createPostmarkProvider({
+        serverToken: mustGetEnv("POSTMARK_SERVER_TOKEN", env),
+        messageStream: env("POSTMARK_MESSAGE_STREAM"),
+        fetch: fetchImpl,
+      });
+    case "smtp": {
+      const port = Number.parseInt(env("SMTP_PORT") || "587", 10);
+      return createSmtpProvider({
+        hostname: mustGetEnv("SMTP_HOST", env),
+        port: Number.isFinite(port) ? port : 587,
+        username: env("SMTP_USER"),
+        password: env("SMTP_PASS"),
+        secure: (env("SMTP_SECURE") || "").trim().toLowerCase() === "true",
+      });
+    }
+    case "console":
+    case "file":
+      return createSinkProvider({ mode: name, dir: env("EMAIL_SINK_DIR") });
+    case "resend":
+    default:
+      return createResendProvider({ apiKey: mustGetEnv("RESEND_API_KEY", env), fetch: fetchImpl });
+  }
+}
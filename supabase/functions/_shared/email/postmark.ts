@@ -0,0 +1,58 @@
+// supabase/functions/_shared/email/postmark.ts
+//
+// Postmark provider (https://postmarkapp.com/developer/api/email-api).
+// Env: POSTMARK_SERVER_TOKEN, optional POSTMARK_MESSAGE_STREAM (default "outbound")
+
+import { fetchWithTimeout } from "./http.ts";
+import type { EmailMessage, EmailProvider, SendResult } from "./types.ts";
+
+export function createPostmarkProvider(opts: {
+  serverToken: string;
+  messageStream?: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}): EmailProvider {
+  return {
+    name: "postmark",
+    async send(message: EmailMessage): Promise<SendResult> {
+      const body: Record<string, unknown> = {
+        From: message.from,
+        To: message.to.join(","),
+        Subject: message.subject,
+        TextBody: message.text,
+        HtmlBody: message.html,
+        MessageStream: opts.messageStream || "outbound",
+      };
+      if (message.bcc?.length) body.Bcc = message.bcc.join(",");
+      if (message.headers) {
+        body.Headers = Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value }));
+      }
+
+      try {
+        const r = await fetchWithTimeout(
+          "https://api.postmarkapp.com/email",
+          {
+            method: "POST",
+            headers: {
+              Accept: "application/json",
+              "Content-Type": "application/json",
+              "X-Postmark-Server-Token": opts.serverToken,
+            },
+            body: JSON.stringify(body),
+          },
+          opts.timeoutMs ?? 12_000,
+          opts.fetch,
+        );
+
+        if (!r.ok) {
+          return { ok: false, provider: "postmark", status: r.status, error: await r.text().catch(() => "") };
+        }
+
+        const response = (await r.json().catch(() => ({}))) as { MessageID?: string };
+        return { ok: true, provider: "postmark", id: response.MessageID, response };
+      } catch (e) {
+        return { ok: false, provider: "postmark", error: String(e) };
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// supabase/functions/_shared/email/recipients.ts
+//
+// Team inbox for internal emails (lead alerts, digests).
+// Env: WAITLIST_NOTIFY_TO, WAITLIST_NOTIFY_BCC (comma-separated supported)
+
+import { getEnv, type EnvReader } from "../env.ts";
+
+export function parseEmailList(input: string): string[] {
+  const parts = input
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  // Deduplicate case-insensitively
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const e of parts) {
+    const key = e.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(e);
+  }
+  return out;
+}
+
+export function getTeamRecipients(env: EnvReader = getEnv): { to: string[]; bcc: string[] } {
+  return {
+    to: parseEmailList(env("WAITLIST_NOTIFY_TO") || "xuru@lungeable.com"),
+    bcc: parseEmailList(env("WAITLIST_NOTIFY_BCC") || "xrventuresllc@gmail.com"),
+  };
+}
@@ -0,0 +1,48 @@
+// supabase/functions/_shared/email/resend.ts
+//
+// Resend provider (https://resend.com/docs/api-reference/emails/send-email).
+// Env: RESEND_API_KEY
+
+import { fetchWithTimeout } from "./http.ts";
+import type { EmailMessage, EmailProvider, SendResult } from "./types.ts";
+
+export function createResendProvider(opts: { apiKey: string; timeoutMs?: number; fetch?: typeof fetch }): EmailProvider {
+  return {
+    name: "resend",
+    async send(message: EmailMessage): Promise<SendResult> {
+      const body: Record<string, unknown> = {
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      };
+      if (message.bcc?.length) body.bcc = message.bcc;
+      if (message.headers && Object.keys(message.headers).length) body.headers = message.headers;
+
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${opts.apiKey}`,
+        "Content-Type": "application/json",
+      };
+      if (message.idempotencyKey) headers["Idempotency-Key"] = message.idempotencyKey;
+
+      try {
+        const r = await fetchWithTimeout(
+          "https://api.resend.com/emails",
+          { method: "POST", headers, body: JSON.stringify(body) },
+          opts.timeoutMs ?? 12_000,
+          opts.fetch,
+        );
+
+        if (!r.ok) {
+          return { ok: false, provider: "resend", status: r.status, error: await r.text().catch(() => "") };
+        }
+
+        const response = (await r.json().catch(() => ({}))) as { id?: string };
+        return { ok: true, provider: "resend", id: response.id, response };
+      } catch (e) {
+        return { ok: false, provider: "resend", error: String(e) };
+      }
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// supabase/functions/_shared/email/sink.ts
+//
+// Local "sink" provider: never talks to a vendor. Lets the functions run end-to-end
+// in local dev and tests without a live API key.
+//
+// - mode "console": logs a summary of each message
+// - mode "file": also writes each message as JSON into EMAIL_SINK_DIR (default ./.email-sink)
+//
+// Every sent message is kept in `outbox` so tests can assert on it.
+
+import type { EmailMessage, EmailProvider, SendResult } from "./types.ts";
+
+type DenoFs = {
+  mkdir(path: string, opts?: { recursive?: boolean }): Promise<void>;
+  writeTextFile(path: string, data: string): Promise<void>;
+};
+
+export type SinkProvider = EmailProvider & { readonly outbox: EmailMessage[] };
+
+export function createSinkProvider(opts: { mode: "console" | "file"; dir?: string }): SinkProvider {
+  const outbox: EmailMessage[] = [];
+  let seq = 0;
+
+  return {
+    name: opts.mode,
+    outbox,
+    async send(message: EmailMessage): Promise<SendResult> {
+      outbox.push(message);
+      seq += 1;
+      const id = `${opts.mode}-${Date.now()}-${seq}`;
+
+      console.log("[email-sink] message", {
+        id,
+        to: message.to,
+        bccCount: message.bcc?.length ?? 0,
+        subject: message.subject,
+      });
+
+      if (opts.mode === "file") {
+        const fs = (globalThis as unknown as { Deno?: DenoFs }).Deno;
+        if (!fs) return { ok: false, provider: "file", error: "file sink requires the Deno runtime" };
+
+        const dir = opts.dir || ".email-sink";
+        try {
+          await fs.mkdir(dir, { recursive: true });
+          await fs.writeTextFile(`${dir}/${id}.json`, JSON.stringify(message, null, 2));
+        } catch (e) {
+          return { ok: false, provider: "file", error: String(e) };
+        }
+      }
+
+      return { ok: true, provider: opts.mode, id };
+    },
+  };
+}
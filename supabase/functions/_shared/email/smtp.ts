@@ -0,0 +1,72 @@
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// supabase/functions/_shared/email/smtp.ts
+//
+// SMTP provider (any relay: SES SMTP, Mailgun, Gmail workspace, local MailHog/Inbucket).
+// Env: SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASS, SMTP_SECURE ("true" = implicit TLS)
+//
+// Uses denomailer via a dynamic URL import (same reason as the supabase-js import:
+// keeps local TS happy without the Deno extension).
+
+import type { EmailMessage, EmailProvider, SendResult } from "./types.ts";
+
+type SmtpOptions = {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  secure: boolean;
+};
+
+let _SMTPClient: null | (new (config: any) => any) = null;
+
+async function getSmtpClientClass(): Promise<new (config: any) => any> {
+  if (_SMTPClient) return _SMTPClient;
+
+  // @ts-ignore - Deno URL imports are valid in Supabase Edge Functions; VS Code TS can't resolve them locally.
+  const mod = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
+
+  _SMTPClient = (mod as any).SMTPClient;
+  return _SMTPClient!;
+}
+
+export function createSmtpProvider(opts: SmtpOptions): EmailProvider {
+  return {
+    name: "smtp",
+    async send(message: EmailMessage): Promise<SendResult> {
+      let client: any = null;
+      try {
+        const SMTPClient = await getSmtpClientClass();
+        client = new SMTPClient({
+          connection: {
+            hostname: opts.hostname,
+            port: opts.port,
+            tls: opts.secure,
+            auth: opts.username ? { username: opts.username, password: opts.password ?? "" } : undefined,
+          },
+        });
+
+        await client.send({
+          from: message.from,
+          to: message.to,
+          bcc: message.bcc?.length ? message.bcc : undefined,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+          headers: message.headers,
+        });
+
+        return { ok: true, provider: "smtp" };
+      } catch (e) {
+        return { ok: false, provider: "smtp", error: String(e) };
+      } finally {
+        try {
+          await client?.close();
+        } catch {
+          // ignore
+        }
+      }
+    },
+  };
+}
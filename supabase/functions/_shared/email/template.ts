@@ -0,0 +1,190 @@
+// supabase/functions/_shared/email/template.ts
+//
+// Safe templating for emails we render from lead data (i.e. untrusted input).
+//
+// Two layers:
+// - `html` tagged template: every interpolation is HTML-escaped unless it is
+//   already SafeHtml (output of `html` itself or an explicit `raw()`).
+// - EmailDocument: a small block model (heading / paragraph / fields / table / code)
+//   rendered by BOTH renderHtml() and renderText(), so the HTML and plain-text
+//   variants can't drift apart.
+//
+// Rules of thumb:
+// - Never build email HTML with plain template strings — use `html` or a document.
+// - Links go through safeHref(): only http(s) and mailto survive.
+
+export type SafeHtml = { readonly __html: string };
+
+export type RenderedEmail = { subject: string; text: string; html: string };
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function isSafeHtml(v: unknown): v is SafeHtml {
+  return !!v && typeof v === "object" && typeof (v as SafeHtml).__html === "string";
+}
+
+/** Mark trusted, static markup as safe. Never pass user data here. */
+export function raw(markup: string): SafeHtml {
+  return { __html: markup };
+}
+
+function renderValue(v: unknown): string {
+  if (v === null || v === undefined || v === false) return "";
+  if (isSafeHtml(v)) return v.__html;
+  if (Array.isArray(v)) return v.map(renderValue).join("");
+  return escapeHtml(String(v));
+}
+
+/** Auto-escaping HTML template: html`<b>${name}</b>` */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let out = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    out += renderValue(values[i]) + strings[i + 1];
+  }
+  return { __html: out };
+}
+
+/** Only http(s) and mailto links are allowed through; anything else becomes "#". */
+export function safeHref(url: string): string {
+  const u = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(u) ? u : "#";
+}
+
+export function mailtoHref(email: string): string {
+  // encodeURI keeps "@" and "+" readable but neutralizes quotes/spaces/angle brackets.
+  return `mailto:${encodeURI(email.trim())}`;
+}
+
+/** Collapse CR/LF so a value can't forge extra lines (plain text, subjects). */
+export function singleLine(s: string): string {
+  return s.replace(/[\r\n]+/g, " ").trim();
+}
+
+/* -------------------------------------------------------------------------- */
+/* Document model                                                              */
+/* -------------------------------------------------------------------------- */
+
+export type EmailField = { label: string; value: string; href?: string };
+
+export type EmailBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; items: string[] }
+  | { type: "button"; label: string; href: string }
+  /** A paragraph ending in an inline link: "<text> <label>". */
+  | { type: "link"; text?: string; label: string; href: string }
+  | { type: "fields"; rows: EmailField[] }
+  | { type: "table"; title: string; rows: [string, string][]; empty?: string }
+  | { type: "code"; title: string; text: string };
+
+export type EmailDocument = {
+  /** Top heading (also the <title>). */
+  title: string;
+  /** Hidden inbox preview line. */
+  preheader?: string;
+  blocks: EmailBlock[];
+  footer?: string;
+  /** Coach-facing emails: an "Unsubscribe" link under the footer (../unsubscribe.ts). */
+  unsubscribeUrl?: string;
+};
+
+const FONT = "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial";
+const BUTTON_STYLE =
+  "display:inline-block; background:#000; color:#fff; padding:10px 18px; border-radius:999px; text-decoration:none; font-weight:600;";
+
+function renderBlockHtml(block: EmailBlock): SafeHtml {
+  switch (block.type) {
+    case "heading":
+      return html`<h3 style="margin:24px 0 8px; font-size:15px;">${block.text}</h3>`;
+    case "paragraph":
+      return html`<p style="margin:8px 0; line-height:1.5;">${block.text}</p>`;
+    case "list":
+      return html`<ul style="margin:8px 0; padding-left:18px; line-height:1.5;">${block.items.map((i) => html`<li>${i}</li>`)}</ul>`;
+    case "button":
+      return html`<p style="margin:16px 0;"><a href="${safeHref(block.href)}" style="${raw(BUTTON_STYLE)}">${block.label}</a></p>`;
+    case "link":
+      return html`<p style="margin:8px 0; line-height:1.5;">${block.text ? `${block.text} ` : ""}<a href="${safeHref(block.href)}" style="color:#111;">${block.label}</a></p>`;
+    case "fields":
+      return html`<table role="presentation" cellpadding="0" cellspacing="0" style="border-collapse:collapse; width:100%;">${block.rows.map(
+        (r) =>
+          html`<tr><td style="padding:4px 12px 4px 0; color:#555; white-space:nowrap; vertical-align:top;"><b>${r.label}</b></td><td style="padding:4px 0; word-break:break-word;">${
+            r.href ? html`<a href="${safeHref(r.href)}" style="color:#111;">${r.value}</a>` : r.value
+          }</td></tr>`,
+      )}</table>`;
+    case "table":
+      return html`<h3 style="margin:24px 0 8px; font-size:15px;">${block.title}</h3>${
+        block.rows.length
+          ? html`<table cellpadding="0" cellspacing="0" style="border-collapse:collapse; width:100%; font-size:13px;">${block.rows.map(
+              ([k, v]) =>
+                html`<tr><td style="border:1px solid #e5e5e5; padding:6px 8px; background:#f6f6f6; font-family:ui-monospace, Menlo, monospace;">${k}</td><td style="border:1px solid #e5e5e5; padding:6px 8px; word-break:break-word;">${v}</td></tr>`,
+            )}</table>`
+          : html`<p style="margin:8px 0; color:#777;">${block.empty ?? "(none)"}</p>`
+      }`;
+    case "code":
+      return html`<h3 style="margin:24px 0 8px; font-size:15px;">${block.title}</h3><pre style="white-space:pre-wrap; background:#f6f6f6; padding:12px; border-radius:8px; font-size:12px;">${block.text}</pre>`;
+  }
+}
+
+export function renderHtml(doc: EmailDocument): string {
+  const page = html`<!doctype html>
+<html>
+<head><meta charset="utf-8" /><title>${doc.title}</title></head>
+<body style="margin:0; padding:0; background:#f5f5f7;">
+${doc.preheader ? html`<div style="display:none; max-height:0; overflow:hidden;">${doc.preheader}</div>` : ""}
+<div style="font-family:${raw(FONT)}; color:#111; max-width:640px; margin:0 auto; padding:24px;">
+  <div style="font-size:13px; font-weight:700; letter-spacing:0.08em; text-transform:uppercase; color:#555;">Lungeable</div>
+  <div style="background:#fff; border:1px solid #e5e5e5; border-radius:16px; padding:24px; margin-top:12px;">
+    <h2 style="margin:0 0 16px; font-size:20px;">${doc.title}</h2>
+    ${doc.blocks.map(renderBlockHtml)}
+  </div>
+  ${doc.footer ? html`<p style="font-size:12px; color:#777; margin-top:16px;">${doc.footer}</p>` : ""}${
+    doc.unsubscribeUrl
+      ? html`<p style="font-size:12px; color:#777; margin-top:8px;"><a href="${safeHref(doc.unsubscribeUrl)}" style="color:#777;">Unsubscribe</a> from Lungeable emails.</p>`
+      : ""
+  }
+</div>
+</body>
+</html>`;
+  return page.__html;
+}
+
+function renderBlockText(block: EmailBlock): string {
+  switch (block.type) {
+    case "heading":
+      return singleLine(block.text);
+    case "paragraph":
+      return block.text;
+    case "list":
+      return block.items.map((i) => `- ${singleLine(i)}`).join("\n");
+    case "button":
+      return `${singleLine(block.label)}:\n${block.href}`;
+    case "link":
+      return `${block.text ? `${block.text} ` : ""}${singleLine(block.label)}:\n${block.href}`;
+    case "fields":
+      return block.rows.map((r) => `${singleLine(r.label)}: ${singleLine(r.value)}`).join("\n");
+    case "table":
+      return block.rows.length
+        ? `${singleLine(block.title)}:\n${block.rows.map(([k, v]) => `  ${singleLine(k)}: ${singleLine(v)}`).join("\n")}`
+        : `${singleLine(block.title)}: ${block.empty ?? "(none)"}`;
+    case "code":
+      return `${singleLine(block.title)}:\n${block.text}`;
+  }
+}
+
+export function renderText(doc: EmailDocument): string {
+  const parts = [singleLine(doc.title), ...doc.blocks.map(renderBlockText)];
+  const footer = [doc.footer, doc.unsubscribeUrl && `Unsubscribe from Lungeable emails: ${doc.unsubscribeUrl}`];
+  if (footer.some(Boolean)) parts.push(`--\n${footer.filter(Boolean).join("\n")}`);
+  return `${parts.join("\n\n")}\n`;
+}
+
+export function renderEmail(doc: EmailDocument): { html: string; text: string } {
+  return { html: renderHtml(doc), text: renderText(doc) };
+}
@@ -0,0 +1,27 @@
+// supabase/functions/_shared/email/types.ts
+//
+// Provider-agnostic email contract. Functions build an EmailMessage and hand it to
+// whichever EmailProvider getEmailProvider() picked from env (see ./index.ts).
+
+export type EmailMessage = {
+  from: string;
+  to: string[];
+  bcc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra MIME headers (e.g. List-Unsubscribe). Providers that can't set them ignore them. */
+  headers?: Record<string, string>;
+  /** De-duplicates retries where the provider supports it (Resend); ignored elsewhere. */
+  idempotencyKey?: string;
+};
+
+export type SendResult =
+  | { ok: true; provider: string; id?: string; response?: unknown }
+  | { ok: false; provider: string; status?: number; error: string };
+
+export interface EmailProvider {
+  readonly name: string;
+  /** Never throws for delivery failures; returns { ok: false } instead. */
+  send(message: EmailMessage): Promise<SendResult>;
+}
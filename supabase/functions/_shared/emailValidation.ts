@@ -0,0 +1,143 @@
+// supabase/functions/_shared/emailValidation.ts
+//
+// Email checks beyond "looks like an address", shared by the React form and
+// coach-waitlist-signup (via ./signupSchema.ts):
+// - syntax (the original single regex)
+// - disposable domains (./disposableDomains.ts, + optional extras from the caller)
+// - likely typos of popular providers ("gmial.com", "gmail.co") → did_you_mean
+// - a normalized form for duplicate detection (plus-addressing, Gmail dots)
+//
+// Dependency-free for the same reason as signupSchema.ts.
+//
+// No MX/DNS lookups: they'd need a resolver the browser doesn't have, slow down
+// every signup, and the double opt-in email already proves the inbox exists.
+
+import { DISPOSABLE_DOMAINS } from "./disposableDomains.ts";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Max length per RFC 5321 (also SIGNUP_LIMITS.email). */
+const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * Providers coaches actually use. An exact match is never "corrected"; anything
+ * one edit away from one of these is treated as a typo.
+ */
+const POPULAR_DOMAINS: readonly string[] = [
+  "aol.com",
+  "comcast.net",
+  "fastmail.com",
+  "gmail.com",
+  "gmx.com",
+  "googlemail.com",
+  "hey.com",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "icloud.com",
+  "live.com",
+  "mac.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "yahoo.co.uk",
+  "yahoo.com",
+  "ymail.com",
+];
+
+// Below this length a single edit turns too many real domains into "typos".
+const MIN_TYPO_DOMAIN_LENGTH = 6;
+
+export type EmailCheck =
+  | { ok: true; email: string; normalized: string; suggestion?: string }
+  | { ok: false; reason: "invalid_email" | "disposable_email"; suggestion?: string };
+
+export function isValidEmail(email: string): boolean {
+  return email.length <= MAX_EMAIL_LENGTH && EMAIL_RE.test(email);
+}
+
+function splitEmail(email: string): { local: string; domain: string } {
+  const at = email.lastIndexOf("@");
+  return { local: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+/** Exact or parent-domain match ("x.mailinator.com" → "mailinator.com"). */
+export function isDisposableDomain(domain: string, extra: readonly string[] = []): boolean {
+  const d = domain.trim().toLowerCase();
+  return [...DISPOSABLE_DOMAINS, ...extra].some((x) => {
+    const blocked = x.trim().toLowerCase();
+    return !!blocked && (d === blocked || d.endsWith(`.${blocked}`));
+  });
+}
+
+/** Optimal string alignment distance (Levenshtein + adjacent transpositions). */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * "coach@gmial.com" → "coach@gmail.com"; null when the domain looks fine.
+ * Deliberately conservative (one edit, popular providers only): a wrong
+ * suggestion is worse than none.
+ */
+export function suggestEmail(email: string): string | null {
+  const e = email.trim().toLowerCase();
+  if (!isValidEmail(e)) return null;
+
+  const { local, domain } = splitEmail(e);
+  if (domain.length < MIN_TYPO_DOMAIN_LENGTH || POPULAR_DOMAINS.includes(domain)) return null;
+
+  for (const candidate of POPULAR_DOMAINS) {
+    if (editDistance(domain, candidate) === 1) return `${local}@${candidate}`;
+  }
+  return null;
+}
+
+/**
+ * Canonical mailbox for duplicate detection (never for sending):
+ * lowercase, "+tag" dropped, and for Gmail dots removed + googlemail → gmail.
+ * "Coach.Name+waitlist@GoogleMail.com" → "coachname@gmail.com"
+ */
+export function normalizeEmailForDedup(email: string): string {
+  const e = email.trim().toLowerCase();
+  if (!e.includes("@")) return e;
+
+  const parts = splitEmail(e);
+  let local = parts.local;
+  let domain = parts.domain;
+
+  const plus = local.indexOf("+");
+  if (plus > 0) local = local.slice(0, plus);
+
+  if (domain === "googlemail.com") domain = "gmail.com";
+  if (domain === "gmail.com") local = local.replace(/\./g, "");
+
+  return `${local}@${domain}`;
+}
+
+/** All checks in one pass; `email` is the trimmed, lowercased address. */
+export function checkEmail(raw: string, opts: { extraDisposableDomains?: readonly string[] } = {}): EmailCheck {
+  const email = raw.trim().toLowerCase();
+  if (!isValidEmail(email)) return { ok: false, reason: "invalid_email" };
+
+  const suggestion = suggestEmail(email) ?? undefined;
+  if (isDisposableDomain(splitEmail(email).domain, opts.extraDisposableDomains)) {
+    return { ok: false, reason: "disposable_email", suggestion };
+  }
+
+  return { ok: true, email, normalized: normalizeEmailForDedup(email), suggestion };
+}
@@ -0,0 +1,40 @@
+// supabase/functions/_shared/env.ts
+//
+// Runtime + env helpers shared by the Edge Functions.
+//
+// NOTE: Like the function entrypoints, this avoids direct references to the
+// `Deno` global so TS/VSCode doesn't underline it when the Deno extension isn't active.
+
+export type DenoRuntime = {
+  env: { get(name: string): string | undefined };
+  serve: (handler: (req: Request) => Response | Promise<Response>) => void;
+};
+
+export const deno = (globalThis as unknown as { Deno?: DenoRuntime }).Deno;
+
+/**
+ * Env lookup. Config helpers take one (defaulting to getEnv) so handlers can be
+ * driven by a plain object in tests; see envFrom().
+ */
+export type EnvReader = (name: string) => string | undefined;
+
+export function getEnv(name: string): string | undefined {
+  // Primary: Deno (Supabase Edge Functions)
+  const v = deno?.env?.get?.(name);
+  if (v !== undefined) return v;
+
+  // Secondary fallback (helps local tooling/tests, if any)
+  const p = (globalThis as unknown as { process?: { env?: Record<string, string | undefined> } }).process;
+  return p?.env?.[name];
+}
+
+export function mustGetEnv(name: string, env: EnvReader = getEnv): string {
+  const v = env(name);
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+/** EnvReader over a fixed map, e.g. envFrom({ RESEND_API_KEY: "test" }). */
+export function envFrom(values: Record<string, string | undefined>): EnvReader {
+  return (name) => values[name];
+}
@@ -0,0 +1,75 @@
+// supabase/functions/_shared/experiments.ts
+//
+// A/B experiments on the landing page. The browser (src/experiments.ts) assigns each
+// visitor one variant per experiment, weighted, keeps it in a first-party cookie, and
+// sends the assignments with the signup; the signup function stores only pairs that
+// are defined here, so the table never fills with stale or made-up variants.
+//
+// To run a new experiment: add it below, render its variants with
+// useVariant("<id>") in src/App.tsx, and compare "Signup Succeeded" by the
+// exp_<id> prop in analytics (or the experiments column on leads). Set a variant's
+// weight to 0 to stop assigning it; visitors who already have it keep it until the
+// variant is removed.
+
+export type ExperimentVariant = { id: string; weight: number };
+export type ExperimentDefinition = { variants: readonly ExperimentVariant[] };
+
+export const EXPERIMENTS = {
+  /** Hero h1: the speed promise vs. the Sunday-programming pain. */
+  hero_headline: {
+    variants: [
+      { id: "control", weight: 1 },
+      { id: "sunday", weight: 1 },
+    ],
+  },
+  /** Founding price as a flat monthly fee vs. per client (pricing band + announcement bar). */
+  price_framing: {
+    variants: [
+      { id: "control", weight: 1 },
+      { id: "per_client", weight: 1 },
+    ],
+  },
+} as const satisfies Record<string, ExperimentDefinition>;
+
+export type ExperimentId = keyof typeof EXPERIMENTS;
+export type VariantOf<E extends ExperimentId> = (typeof EXPERIMENTS)[E]["variants"][number]["id"];
+export type ExperimentAssignments = { [E in ExperimentId]?: VariantOf<E> };
+
+export const EXPERIMENT_IDS = Object.keys(EXPERIMENTS) as ExperimentId[];
+
+export function isExperimentId(id: string): id is ExperimentId {
+  return Object.prototype.hasOwnProperty.call(EXPERIMENTS, id);
+}
+
+/** Whether the variant is still defined (assignable or not). */
+export function isVariantOf<E extends ExperimentId>(experiment: E, variant: unknown): variant is VariantOf<E> {
+  return EXPERIMENTS[experiment].variants.some((v: ExperimentVariant) => v.id === variant);
+}
+
+/** Weighted pick; `random` is in [0, 1). Null when every weight is 0. */
+export function pickVariant<E extends ExperimentId>(experiment: E, random: number): VariantOf<E> | null {
+  const variants: readonly ExperimentVariant[] = EXPERIMENTS[experiment].variants;
+  const total = variants.reduce((sum, v) => sum + Math.max(v.weight, 0), 0);
+  if (total <= 0) return null;
+
+  let point = random * total;
+  for (const v of variants) {
+    point -= Math.max(v.weight, 0);
+    if (point < 0) return v.id as VariantOf<E>;
+  }
+  // Float rounding at the very top of the range.
+  return ([...variants].reverse().find((v) => v.weight > 0)?.id ?? null) as VariantOf<E> | null;
+}
+
+/**
+ * Assignments are passive metadata, like the attribution touches: unknown
+ * experiments and variants are dropped, never a reason to reject the signup.
+ */
+export function normalizeExperimentAssignments(raw: unknown): ExperimentAssignments {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (isExperimentId(k) && isVariantOf(k, v)) out[k] = v;
+  }
+  return out as ExperimentAssignments;
+}
@@ -0,0 +1,63 @@
+// supabase/functions/_shared/exportContract.ts
+//
+// The lead export contract (/admin "Export" ↔ coach-waitlist-export). Imported by
+// both the React app and the Edge Function, so like ./signupSchema.ts it stays
+// dependency-free.
+
+/**
+ * Columns coach-waitlist-export can emit, in output order. In CSV, "utm" expands to
+ * one column per UTM key (utm_source, utm_medium, ...), coach_intents is joined with
+ * "; " and the other JSON columns are written as JSON text. NDJSON keeps every value
+ * as stored: utm, coach_intents, the attribution touches and experiments stay
+ * structured.
+ */
+export const EXPORT_COLUMNS = [
+  "id",
+  "created_at",
+  "email",
+  "name",
+  "status",
+  "confirmed_at",
+  "source",
+  "site_version",
+  "primary_focus",
+  "client_count",
+  "coach_intents",
+  "presence",
+  "notes",
+  "score",
+  "marketing_consent",
+  "email_preference",
+  "unsubscribed_at",
+  "utm",
+  "first_touch",
+  "last_touch",
+  "experiments",
+  "referer",
+  "user_agent",
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+export type ExportFormat = "csv" | "ndjson";
+
+/**
+ * coach-waitlist-export request (/admin). `from` / `to` are ISO timestamps on
+ * created_at (`to` exclusive); no `columns` means all of them.
+ */
+export type ExportRequest = {
+  format?: ExportFormat;
+  from?: string;
+  to?: string;
+  source?: string;
+  columns?: ExportColumn[];
+};
+
+export type ExportErrorCode =
+  | "invalid_json"
+  | "invalid_body"
+  | "unauthorized"
+  | "forbidden"
+  | "db_select_failed";
+
+/** Errors only: a successful export is the file itself (text/csv or application/x-ndjson). */
+export type ExportErrorResponse = { ok: false; error: ExportErrorCode; field?: keyof ExportRequest };
@@ -0,0 +1,162 @@
+// supabase/functions/_shared/http.ts
+//
+// Browser-facing response helpers (CORS-aware) for functions called from the site.
+// Only allowed origins are ever reflected (don’t leak CORS to random sites).
+//
+// ALLOWED_ORIGINS (optional): comma-separated origins that replace the defaults below.
+// An entry may use one "*" inside the first host label for preview deployments:
+//
+//   ALLOWED_ORIGINS="https://lungeable.com,https://www.lungeable.com,https://*-xrventures.vercel.app"
+//
+// "*" matches letters, digits and "-" only (never a ".", so it can't span labels),
+// scheme and port must match exactly, and the fixed part has to be at least
+// "name.tld" ("https://*.com" is ignored). Pick a suffix only your own deployments
+// can produce. Entries that don't parse are logged and ignored.
+//
+// A refused origin gets no Access-Control-* headers, only X-CORS-Reason saying why
+// (visible in the browser's network panel; it never echoes the allowlist).
+
+import { getEnv, type EnvReader } from "./env.ts";
+
+const DEFAULT_ALLOWED_ORIGINS: readonly string[] = [
+  "https://lungeable.com",
+  "https://www.lungeable.com",
+  "http://localhost:5173", // vite dev
+  "http://localhost:4173", // vite preview
+];
+
+export const CORS_REASON_HEADER = "X-CORS-Reason";
+
+export type OriginRefusal = "null_origin" | "malformed_origin" | "not_allowlisted";
+
+/** Result of checking a request's Origin header; pass it to json()/text()/corsPreflight(). */
+export type CorsCheck =
+  | { origin: undefined; allowed: true } // no Origin header (server-to-server, curl)
+  | { origin: string; allowed: true }
+  | { origin: string; allowed: false; reason: OriginRefusal };
+
+type OriginRule = { exact: string } | { pattern: RegExp };
+
+// Serialized origin as browsers send it: lowercase scheme + host, optional port, nothing else.
+const ORIGIN_RE = /^(https?):\/\/([a-z0-9.-]+)(:\d{1,5})?$/;
+
+const REFUSAL_TEXT: Record<OriginRefusal, string> = {
+  null_origin: "null_origin; sandboxed or file:// pages can't call this endpoint",
+  malformed_origin: "malformed_origin; expected scheme://host[:port]",
+  not_allowlisted: "not_allowlisted; add it to ALLOWED_ORIGINS",
+};
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** "https://*-xrventures.vercel.app" → rule; null when the entry isn't a valid origin/pattern. */
+export function parseOriginRule(raw: string): OriginRule | null {
+  const m = raw.trim().toLowerCase().replace(/\/+$/, "").match(/^(https?):\/\/([a-z0-9.*-]+)(:\d{1,5})?$/);
+  if (!m) return null;
+
+  const [, scheme, host, port = ""] = m;
+  if (!host.includes("*")) return { exact: `${scheme}://${host}${port}` };
+
+  const [first, ...rest] = host.split(".");
+  const wildcards = first.split("*").length - 1;
+  if (wildcards !== 1 || rest.length < 2 || rest.some((label) => !label || label.includes("*"))) return null;
+
+  const label = first.split("*").map(escapeRegExp).join("[a-z0-9-]+");
+  return { pattern: new RegExp(`^${scheme}://${label}${escapeRegExp(`.${rest.join(".")}${port}`)}$`) };
+}
+
+let cached: { raw: string | undefined; rules: OriginRule[] } | null = null;
+
+function getOriginRules(env: EnvReader): OriginRule[] {
+  const raw = env("ALLOWED_ORIGINS");
+  if (cached && cached.raw === raw) return cached.rules;
+
+  const entries = raw?.trim() ? raw.split(",").filter((s) => s.trim()) : DEFAULT_ALLOWED_ORIGINS;
+  const rules: OriginRule[] = [];
+  for (const entry of entries) {
+    const rule = parseOriginRule(entry);
+    if (rule) rules.push(rule);
+    else console.error(`[http] Ignoring invalid ALLOWED_ORIGINS entry: ${entry.trim()}`);
+  }
+
+  cached = { raw, rules };
+  return rules;
+}
+
+export function checkOrigin(origin: string | null | undefined, env: EnvReader = getEnv): CorsCheck {
+  if (origin === null || origin === undefined || origin === "") return { origin: undefined, allowed: true };
+  if (origin === "null") return { origin, allowed: false, reason: "null_origin" };
+  if (!ORIGIN_RE.test(origin)) return { origin, allowed: false, reason: "malformed_origin" };
+
+  const ok = getOriginRules(env).some((rule) => ("exact" in rule ? rule.exact === origin : rule.pattern.test(origin)));
+  return ok ? { origin, allowed: true } : { origin, allowed: false, reason: "not_allowlisted" };
+}
+
+export function getClientIp(headers: Headers): string | null {
+  // Best-effort. Different CDNs use different headers.
+  const xff = headers.get("x-forwarded-for");
+  if (xff) return xff.split(",")[0].trim();
+
+  const real = headers.get("x-real-ip");
+  if (real) return real.trim();
+
+  const cf = headers.get("cf-connecting-ip");
+  if (cf) return cf.trim();
+
+  return null;
+}
+
+function corsHeaders(cors?: CorsCheck): Record<string, string> {
+  if (!cors?.origin) return {};
+  if (!cors.allowed) return { [CORS_REASON_HEADER]: REFUSAL_TEXT[cors.reason], "Vary": "Origin" };
+  return {
+    "Access-Control-Allow-Origin": cors.origin,
+    "Vary": "Origin",
+  };
+}
+
+export function json(body: unknown, status = 200, cors?: CorsCheck): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders(cors),
+    },
+  });
+}
+
+export function text(body: string, status = 200, cors?: CorsCheck): Response {
+  return new Response(body, { status, headers: corsHeaders(cors) });
+}
+
+/** A file response (e.g. a streamed export). The browser may read the suggested name. */
+export function download(
+  body: BodyInit,
+  contentType: string,
+  filename: string,
+  cors?: CorsCheck,
+): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+      "Access-Control-Expose-Headers": "Content-Disposition",
+      ...corsHeaders(cors),
+    },
+  });
+}
+
+export function corsPreflight(cors: CorsCheck, methods = "POST,OPTIONS"): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Methods": methods,
+      "Access-Control-Allow-Headers": "content-type, authorization, apikey, x-client-info",
+      "Access-Control-Max-Age": "86400",
+      ...corsHeaders(cors),
+    },
+  });
+}
@@ -0,0 +1,142 @@
+// supabase/functions/_shared/leadScore.ts
+//
+// Deterministic lead scoring for the coach waitlist: "who do we onboard first?"
+// Computed once by coach-waitlist-signup and stored with the insert as
+// `score` (int) + `score_reasons` (text[]), so the notification email, digest and
+// dashboard can sort by it without re-deriving anything.
+//
+// Same input + same weights → same score. No clocks, no randomness, no network.
+//
+// Weights can be tuned without a deploy via LEAD_SCORE_WEIGHTS (JSON, merged over
+// the defaults per section), e.g.
+//   LEAD_SCORE_WEIGHTS='{"clientCount":{"50+":50},"presence":{"everfit":20}}'
+
+import type { ValidatedSignup } from "./signupSchema.ts";
+
+export type LeadScoreWeights = {
+  /** Points by client_count option. */
+  clientCount: Record<string, number>;
+  /** Points per selected coach intent (summed). */
+  intents: Record<string, number>;
+  /** Points by primary_focus option. */
+  primaryFocus: Record<string, number>;
+  /**
+   * Keyword → points, matched case-insensitively against `presence`
+   * ("Where do you coach today?"). Only the best match counts, so listing
+   * several tools doesn't stack.
+   */
+  presence: Record<string, number>;
+  /** Flat bonuses for a more complete profile. */
+  extras: { name: number; notes: number; utm: number };
+};
+
+export type LeadScore = {
+  score: number;
+  /** Human-readable, e.g. "client_count 25-50 (+30)". Ordered by contribution. */
+  reasons: string[];
+};
+
+export type ScorableLead = Pick<
+  ValidatedSignup,
+  "client_count" | "coach_intents" | "primary_focus" | "presence" | "name" | "notes" | "utm"
+>;
+
+export const DEFAULT_LEAD_SCORE_WEIGHTS: LeadScoreWeights = {
+  clientCount: { "0-10": 5, "10-25": 15, "25-50": 30, "50+": 40 },
+  intents: {
+    "Scale my roster": 15,
+    "Save time": 8,
+    "Safer progression": 5,
+    "Better client experience": 5,
+    Other: 0,
+  },
+  primaryFocus: { strength: 5, powerlifting: 8, olympic: 8, sport: 6, rehab: 4, other: 0 },
+  // Coaches already running a paid platform or a spreadsheet system are the
+  // easiest switches: they have a process and a roster to bring.
+  presence: {
+    truecoach: 15,
+    trainerize: 15,
+    everfit: 15,
+    trainheroic: 15,
+    "my pt hub": 12,
+    sheets: 12,
+    spreadsheet: 12,
+    excel: 12,
+    instagram: 4,
+  },
+  extras: { name: 2, notes: 3, utm: 2 },
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function numberMap(v: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!isRecord(v)) return out;
+  for (const [k, n] of Object.entries(v)) {
+    if (typeof n === "number" && Number.isFinite(n)) out[k] = n;
+  }
+  return out;
+}
+
+/**
+ * Merge an override (e.g. parsed LEAD_SCORE_WEIGHTS) over the defaults.
+ * Unknown sections and non-numeric values are ignored.
+ */
+export function mergeLeadScoreWeights(override: unknown, base = DEFAULT_LEAD_SCORE_WEIGHTS): LeadScoreWeights {
+  if (!isRecord(override)) return base;
+  return {
+    clientCount: { ...base.clientCount, ...numberMap(override.clientCount) },
+    intents: { ...base.intents, ...numberMap(override.intents) },
+    primaryFocus: { ...base.primaryFocus, ...numberMap(override.primaryFocus) },
+    presence: { ...base.presence, ...numberMap(override.presence) },
+    extras: { ...base.extras, ...numberMap(override.extras) },
+  };
+}
+
+/** Parse LEAD_SCORE_WEIGHTS; a malformed value falls back to the defaults. */
+export function parseLeadScoreWeights(raw: string | undefined): LeadScoreWeights {
+  if (!raw?.trim()) return DEFAULT_LEAD_SCORE_WEIGHTS;
+  try {
+    return mergeLeadScoreWeights(JSON.parse(raw));
+  } catch {
+    console.error("[leadScore] LEAD_SCORE_WEIGHTS is not valid JSON; using defaults");
+    return DEFAULT_LEAD_SCORE_WEIGHTS;
+  }
+}
+
+export function scoreLead(lead: ScorableLead, weights: LeadScoreWeights = DEFAULT_LEAD_SCORE_WEIGHTS): LeadScore {
+  const parts: [string, number][] = [];
+  const add = (reason: string, points: number | undefined) => {
+    if (points) parts.push([reason, points]);
+  };
+
+  if (lead.client_count) add(`client_count ${lead.client_count}`, weights.clientCount[lead.client_count]);
+
+  for (const intent of lead.coach_intents) add(`intent "${intent}"`, weights.intents[intent]);
+
+  if (lead.primary_focus) add(`focus ${lead.primary_focus}`, weights.primaryFocus[lead.primary_focus]);
+
+  const presence = (lead.presence || "").toLowerCase();
+  if (presence) {
+    let best: [string, number] | null = null;
+    for (const [keyword, points] of Object.entries(weights.presence)) {
+      if (!presence.includes(keyword.toLowerCase())) continue;
+      // Highest points wins; ties go to the alphabetically first keyword (stable).
+      if (!best || points > best[1] || (points === best[1] && keyword < best[0])) best = [keyword, points];
+    }
+    if (best) add(`coaches on ${best[0]}`, best[1]);
+  }
+
+  if (lead.name) add("name provided", weights.extras.name);
+  if (lead.notes) add("left notes", weights.extras.notes);
+  if (Object.keys(lead.utm).length) add("campaign-attributed", weights.extras.utm);
+
+  parts.sort(([ra, a], [rb, b]) => b - a || ra.localeCompare(rb));
+
+  return {
+    score: parts.reduce((sum, [, n]) => sum + n, 0),
+    reasons: parts.map(([reason, n]) => `${reason} (${n > 0 ? "+" : ""}${n})`),
+  };
+}
@@ -0,0 +1,147 @@
+// supabase/functions/_shared/outbox.ts
+//
+// Retry queue ("outbox") for notification emails that failed to send.
+//
+// notify-coach-waitlist parks a failed send here instead of losing it; the scheduled
+// retry-notification-outbox function re-sends due rows with exponential backoff.
+// Rows that keep failing (or fail permanently, e.g. a 4xx from the provider) end up
+// with status 'dead' — the dead-letter state — where they can be listed and replayed.
+//
+// Requires a table in SQL:
+//
+//   create table public.notification_outbox (
+//     id uuid primary key default gen_random_uuid(),
+//     kind text not null,                        -- 'lead_alert' | 'welcome' | 'digest'
+//     lead_id text,
+//     message jsonb not null,                    -- EmailMessage, re-sent as-is
+//     status text not null default 'pending',    -- 'pending' | 'sent' | 'dead'
+//     attempts int not null default 0,
+//     last_error text,
+//     last_status int,
+//     next_attempt_at timestamptz not null default now(),
+//     sent_at timestamptz,
+//     created_at timestamptz not null default now(),
+//     updated_at timestamptz not null default now()
+//   );
+//   create index on public.notification_outbox (status, next_attempt_at);
+//
+// Optional env:
+// - OUTBOX_MAX_ATTEMPTS      (default 8; attempts before a row goes 'dead')
+// - OUTBOX_BASE_DELAY_SEC    (default 60; first retry delay, doubled per attempt)
+// - OUTBOX_MAX_DELAY_SEC     (default 21600 = 6h; backoff cap)
+
+import type { EmailMessage, SendResult } from "./email/index.ts";
+import { getEnv, type EnvReader } from "./env.ts";
+import type { createAdminClient } from "./supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export const OUTBOX_TABLE = "notification_outbox";
+
+export type OutboxKind = "lead_alert" | "welcome" | "digest";
+export type OutboxStatus = "pending" | "sent" | "dead";
+
+export type OutboxRow = {
+  id: string;
+  kind: OutboxKind;
+  lead_id: string | null;
+  message: EmailMessage;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  last_status: number | null;
+  next_attempt_at: string;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type OutboxPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+// Provider error bodies can be large HTML pages; keep the row readable.
+const MAX_ERROR_LENGTH = 1000;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const n = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function getOutboxPolicy(env: EnvReader = getEnv): OutboxPolicy {
+  return {
+    maxAttempts: parsePositiveInt(env("OUTBOX_MAX_ATTEMPTS"), 8),
+    baseDelayMs: parsePositiveInt(env("OUTBOX_BASE_DELAY_SEC"), 60) * 1000,
+    maxDelayMs: parsePositiveInt(env("OUTBOX_MAX_DELAY_SEC"), 6 * 60 * 60) * 1000,
+  };
+}
+
+/** Delay before the next try after `attempts` failed attempts: base, 2×base, 4×base… capped. */
+export function backoffDelayMs(attempts: number, policy: OutboxPolicy): number {
+  const exp = Math.max(0, attempts - 1);
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.min(exp, 30));
+}
+
+/**
+ * A 4xx (other than timeout / rate limit) means the message itself is rejected
+ * (bad sender, invalid recipient…) and re-sending it won't help.
+ * No status at all = network error / timeout → worth retrying.
+ */
+export function isPermanentFailure(status: number | undefined): boolean {
+  if (!status) return false;
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/**
+ * Row fields to write after a failed attempt (`attempts` already includes it).
+ */
+export function failureUpdate(
+  attempts: number,
+  result: Extract<SendResult, { ok: false }>,
+  policy: OutboxPolicy,
+  nowMs = Date.now(),
+): Pick<OutboxRow, "status" | "attempts" | "last_error" | "last_status" | "next_attempt_at" | "updated_at"> {
+  const dead = isPermanentFailure(result.status) || attempts >= policy.maxAttempts;
+  return {
+    status: dead ? "dead" : "pending",
+    attempts,
+    last_error: `${result.provider}: ${result.error}`.slice(0, MAX_ERROR_LENGTH),
+    last_status: result.status ?? null,
+    next_attempt_at: new Date(nowMs + (dead ? 0 : backoffDelayMs(attempts, policy))).toISOString(),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
+
+/**
+ * Park a send that just failed (attempt #1) in the outbox.
+ * Never throws: a missing table or DB outage is reported as { queued: false }.
+ */
+export async function enqueueFailedSend(
+  admin: AdminClient,
+  input: {
+    kind: OutboxKind;
+    leadId?: string;
+    message: EmailMessage;
+    result: Extract<SendResult, { ok: false }>;
+  },
+  policy: OutboxPolicy = getOutboxPolicy(),
+  nowMs = Date.now(),
+): Promise<{ queued: true; id: string; status: OutboxStatus } | { queued: false; error: string }> {
+  try {
+    const update = failureUpdate(1, input.result, policy, nowMs);
+    const { data, error } = await admin
+      .from(OUTBOX_TABLE)
+      .insert({ kind: input.kind, lead_id: input.leadId || null, message: input.message, ...update })
+      .select("id")
+      .single();
+
+    if (error || !data?.id) {
+      return { queued: false, error: String(error?.message || "insert returned no id") };
+    }
+    return { queued: true, id: String(data.id), status: update.status };
+  } catch (e) {
+    return { queued: false, error: String(e) };
+  }
+}
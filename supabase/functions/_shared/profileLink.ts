@@ -0,0 +1,33 @@
+// supabase/functions/_shared/profileLink.ts
+//
+// "Complete your profile" links: the welcome email (notify-coach-waitlist) carries
+// one, the site's /profile route opens it, coach-waitlist-profile verifies it.
+//
+// Env:
+// - WAITLIST_TOKEN_SECRET (shared with the confirmation links; purpose keeps them apart)
+// - WAITLIST_PROFILE_TTL_DAYS (optional; default 30)
+
+import type { EnvReader } from "./env.ts";
+import { signToken } from "./signedToken.ts";
+
+export const PROFILE_ROUTE = "/profile";
+
+export function profileTtlSeconds(env: EnvReader): number {
+  const days = Number.parseInt(env("WAITLIST_PROFILE_TTL_DAYS") || "", 10);
+  return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 3600;
+}
+
+/** Signed /profile URL for `email`; null when WAITLIST_TOKEN_SECRET isn't set. */
+export async function buildProfileUrl(email: string, env: EnvReader, nowMs: number): Promise<string | null> {
+  const secret = env("WAITLIST_TOKEN_SECRET");
+  if (!secret) return null;
+
+  const token = await signToken(
+    { sub: email.trim().toLowerCase(), purpose: "profile", ttlSeconds: profileTtlSeconds(env) },
+    secret,
+    nowMs,
+  );
+  const u = new URL(PROFILE_ROUTE, (env("SITE_URL") || "https://lungeable.com").trim());
+  u.searchParams.set("token", token);
+  return u.toString();
+}
@@ -0,0 +1,175 @@
+// supabase/functions/_shared/rateLimit/index.ts
+//
+// Signup rate limiting with pluggable backends. Configure with env:
+//
+// RATE_LIMIT_BACKENDS  comma-separated chain, tried in order (default "rpc,memory"):
+// - rpc     Postgres RPC waitlist_rate_limit_allow (./rpc.ts)
+// - table   token bucket in public.rate_limit_buckets (./table.ts)
+// - memory  per-isolate sliding window (./memory.ts; needs no SQL)
+// A backend that errors (e.g. RPC not migrated yet) falls through to the next one.
+// Keys idle for a day are purged from both tables by the hourly purge-rate-limits
+// pg_cron job (migrations/20261019000300_rate_limits.sql).
+//
+// Rules, "<limit>/<window seconds>", or "off":
+// - RATE_LIMIT_IP      (default 10/3600)  per client IP
+// - RATE_LIMIT_EMAIL   (default 5/3600)   per normalized email (stops confirmation-email bombing)
+// - RATE_LIMIT_SUBNET  (default 30/3600)  per IPv4 /24 (IPv6 /64)
+//
+// Data export / deletion link requests (coach-waitlist-data) count separately, under
+// their own keys, so a coach who just signed up can still ask for their data:
+// RATE_LIMIT_DATA_IP, RATE_LIMIT_DATA_EMAIL, RATE_LIMIT_DATA_SUBNET (same defaults).
+//
+// RATE_LIMIT_FAIL_MODE  "open" (default) lets signups through when every backend
+//                       is down; "closed" rejects them with 503.
+
+import { getEnv, type EnvReader } from "../env.ts";
+import type { createAdminClient } from "../supabaseAdmin.ts";
+import { sharedMemoryBackend } from "./memory.ts";
+import { createRpcBackend } from "./rpc.ts";
+import { createTableBackend } from "./table.ts";
+import type { RateLimitBackend, RateLimitRule, RateLimitScope } from "./types.ts";
+
+export type { RateLimitBackend, RateLimitDecision, RateLimitRule, RateLimitScope } from "./types.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type RateLimitFailMode = "open" | "closed";
+
+/** Which budget a request spends: the signup form's, or the data-request form's. */
+export type RateLimitFlow = "signup" | "data";
+
+export type RateLimitConfig = {
+  backends: string[];
+  rules: RateLimitRule[];
+  failMode: RateLimitFailMode;
+  /** Prepended to every key; defaults to the signup's. */
+  keyPrefix?: string;
+};
+
+export type RateLimitResult =
+  | { allowed: true; backend?: string; degraded?: boolean }
+  | { allowed: false; reason: "limited"; scope: RateLimitScope; resetAt: string; backend: string }
+  | { allowed: false; reason: "unavailable" };
+
+const KEY_PREFIX: Record<RateLimitFlow, string> = {
+  signup: "coach_waitlist",
+  data: "coach_waitlist_data",
+};
+
+const DEFAULT_RULES: Record<RateLimitScope, string> = {
+  ip: "10/3600",
+  email: "5/3600",
+  subnet: "30/3600",
+};
+
+const ENV_BY_SCOPE: Record<RateLimitFlow, Record<RateLimitScope, string>> = {
+  signup: { ip: "RATE_LIMIT_IP", email: "RATE_LIMIT_EMAIL", subnet: "RATE_LIMIT_SUBNET" },
+  data: { ip: "RATE_LIMIT_DATA_IP", email: "RATE_LIMIT_DATA_EMAIL", subnet: "RATE_LIMIT_DATA_SUBNET" },
+};
+
+/** "10/3600" → rule; "off", "0", "" or garbage → null (scope disabled). */
+export function parseRule(scope: RateLimitScope, raw: string): RateLimitRule | null {
+  const m = raw.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!m) return null;
+  const limit = Number(m[1]);
+  const windowSeconds = Number(m[2]);
+  return limit > 0 && windowSeconds > 0 ? { scope, limit, windowSeconds } : null;
+}
+
+export function getRateLimitConfig(env: EnvReader = getEnv, flow: RateLimitFlow = "signup"): RateLimitConfig {
+  const scopes = Object.keys(DEFAULT_RULES) as RateLimitScope[];
+  return {
+    backends: (env("RATE_LIMIT_BACKENDS") || "rpc,memory")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean),
+    rules: scopes
+      .map((scope) => parseRule(scope, env(ENV_BY_SCOPE[flow][scope]) ?? DEFAULT_RULES[scope]))
+      .filter((r): r is RateLimitRule => r !== null),
+    failMode: (env("RATE_LIMIT_FAIL_MODE") || "open").trim().toLowerCase() === "closed" ? "closed" : "open",
+    keyPrefix: KEY_PREFIX[flow],
+  };
+}
+
+function expandIpv6(ip: string): string[] | null {
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+  const h = halves[0] ? halves[0].split(":") : [];
+  const t = halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - h.length - t.length;
+  if (halves.length === 2 && missing < 1) return null;
+  const groups = [...h, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...t];
+  return groups.length === 8 ? groups.map((g) => g.toLowerCase().replace(/^0+(?=.)/, "")) : null;
+}
+
+/** "203.0.113.7" → "203.0.113.0/24"; IPv6 → its /64. Null for anything unparseable. */
+export function subnetOf(ip: string): string | null {
+  // IPv4-mapped IPv6 ("::ffff:203.0.113.7") counts as the IPv4 address.
+  const v4 = ip.match(/^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/i);
+  if (v4) return `${v4[1]}.${v4[2]}.${v4[3]}.0/24`;
+
+  if (ip.includes(":")) {
+    const groups = expandIpv6(ip);
+    return groups ? `${groups.slice(0, 4).join(":")}::/64` : null;
+  }
+  return null;
+}
+
+function buildBackends(names: string[], admin: AdminClient): RateLimitBackend[] {
+  const out: RateLimitBackend[] = [];
+  for (const name of names) {
+    if (name === "rpc") out.push(createRpcBackend(admin));
+    else if (name === "table") out.push(createTableBackend(admin));
+    else if (name === "memory") out.push(sharedMemoryBackend);
+    else console.error(`[rateLimit] Unknown backend in RATE_LIMIT_BACKENDS: ${name}`);
+  }
+  return out;
+}
+
+/**
+ * Check (and count) one signup attempt against every configured rule.
+ * The first rule that says no wins.
+ */
+export async function checkRateLimits(
+  admin: AdminClient,
+  subject: { ip: string | null; email: string },
+  config: RateLimitConfig = getRateLimitConfig(),
+  nowMs = Date.now(),
+): Promise<RateLimitResult> {
+  const prefix = config.keyPrefix ?? KEY_PREFIX.signup;
+  const keys: Record<RateLimitScope, string | null> = {
+    ip: subject.ip ? `${prefix}:ip:${subject.ip}` : null,
+    email: subject.email ? `${prefix}:email:${subject.email}` : null,
+    subnet: subject.ip && subnetOf(subject.ip) ? `${prefix}:subnet:${subnetOf(subject.ip)}` : null,
+  };
+
+  const backends = buildBackends(config.backends, admin);
+  let degraded = false;
+  let used: string | undefined;
+
+  for (const rule of config.rules) {
+    const key = keys[rule.scope];
+    if (!key) continue;
+
+    let decided = false;
+    for (const backend of backends) {
+      try {
+        const d = await backend.hit(key, rule, nowMs);
+        decided = true;
+        used = backend.name;
+        if (!d.allowed) return { allowed: false, reason: "limited", scope: rule.scope, resetAt: d.resetAt, backend: backend.name };
+        break;
+      } catch (e) {
+        degraded = true;
+        console.error(`[rateLimit] backend ${backend.name} failed; trying next`, String(e));
+      }
+    }
+
+    if (!decided) {
+      if (config.failMode === "closed") return { allowed: false, reason: "unavailable" };
+      console.error("[rateLimit] all backends failed (fail-open)", { scope: rule.scope });
+    }
+  }
+
+  return { allowed: true, backend: used, degraded };
+}
@@ -0,0 +1,40 @@
+// supabase/functions/_shared/rateLimit/memory.ts
+//
+// In-memory sliding window, per isolate. Needs no SQL at all, so it's the fallback
+// for fresh projects. Limits are approximate: each Edge Function isolate keeps its
+// own counters and they reset on cold start — good against bursts from one client,
+// not a hard global cap.
+
+import type { RateLimitBackend } from "./types.ts";
+
+// Bound memory use under a flood of distinct keys (oldest keys are dropped first).
+const MAX_KEYS = 10_000;
+
+export function createMemoryBackend(): RateLimitBackend {
+  const hits = new Map<string, number[]>();
+
+  return {
+    name: "memory",
+    hit(key, rule, nowMs) {
+      const windowMs = rule.windowSeconds * 1000;
+      const recent = (hits.get(key) || []).filter((t) => t > nowMs - windowMs);
+
+      const allowed = recent.length < rule.limit;
+      if (allowed) recent.push(nowMs);
+
+      // Re-insert so Map order doubles as least-recently-hit order.
+      hits.delete(key);
+      hits.set(key, recent);
+      if (hits.size > MAX_KEYS) {
+        const oldest = hits.keys().next().value;
+        if (oldest !== undefined) hits.delete(oldest);
+      }
+
+      const resetAt = new Date((recent[0] ?? nowMs) + windowMs).toISOString();
+      return Promise.resolve({ allowed, resetAt });
+    },
+  };
+}
+
+/** One per isolate: module state survives across requests served by the same isolate. */
+export const sharedMemoryBackend = createMemoryBackend();
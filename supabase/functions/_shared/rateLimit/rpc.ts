@@ -0,0 +1,32 @@
+// supabase/functions/_shared/rateLimit/rpc.ts
+//
+// Postgres RPC backend: public.waitlist_rate_limit_allow(p_key, p_limit, p_window_seconds)
+// returning { allowed boolean, reset_at timestamptz }. Atomic and shared across
+// isolates — the preferred backend once the SQL migration is applied.
+
+import type { createAdminClient } from "../supabaseAdmin.ts";
+import type { RateLimitBackend } from "./types.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export function createRpcBackend(admin: AdminClient, fn = "waitlist_rate_limit_allow"): RateLimitBackend {
+  return {
+    name: "rpc",
+    async hit(key, rule, nowMs) {
+      const { data, error } = await admin.rpc(fn, {
+        p_key: key,
+        p_limit: rule.limit,
+        p_window_seconds: rule.windowSeconds,
+      });
+      if (error) throw new Error(`rpc ${fn}: ${error.message || error.code || "error"}`);
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row || typeof row.allowed !== "boolean") throw new Error(`rpc ${fn}: unexpected result`);
+
+      return {
+        allowed: row.allowed,
+        resetAt: row.reset_at ? String(row.reset_at) : new Date(nowMs + rule.windowSeconds * 1000).toISOString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+// supabase/functions/_shared/rateLimit/table.ts
+//
+// Token bucket stored in a plain table (no RPC needed, shared across isolates):
+//
+//   create table public.rate_limit_buckets (
+//     key text primary key,
+//     tokens double precision not null,
+//     updated_at timestamptz not null default now()
+//   );
+//
+// Each key holds up to `limit` tokens and refills at limit / windowSeconds per second;
+// a request spends one token. Updates are compare-and-set on updated_at, retried
+// once on a concurrent write, so two isolates can't both spend the last token.
+
+import type { createAdminClient } from "../supabaseAdmin.ts";
+import type { RateLimitBackend, RateLimitDecision, RateLimitRule } from "./types.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+type Bucket = { tokens: number; updated_at: string };
+
+export function refillBucket(bucket: Bucket | null, rule: RateLimitRule, nowMs: number): number {
+  if (!bucket) return rule.limit;
+  const elapsedSec = Math.max(0, (nowMs - Date.parse(bucket.updated_at)) / 1000);
+  return Math.min(rule.limit, bucket.tokens + (elapsedSec * rule.limit) / rule.windowSeconds);
+}
+
+export function createTableBackend(admin: AdminClient, table = "rate_limit_buckets"): RateLimitBackend {
+  async function attempt(key: string, rule: RateLimitRule, nowMs: number): Promise<RateLimitDecision | null> {
+    const { data: bucket, error: selErr } = await admin
+      .from(table)
+      .select("tokens, updated_at")
+      .eq("key", key)
+      .maybeSingle();
+    if (selErr) throw new Error(`table ${table}: ${selErr.message || selErr.code || "select error"}`);
+
+    const available = refillBucket(bucket as Bucket | null, rule, nowMs);
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    const refillPerMs = rule.limit / (rule.windowSeconds * 1000);
+    const resetAt = new Date(nowMs + (allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs))).toISOString();
+    const updatedAt = new Date(nowMs).toISOString();
+
+    if (!bucket) {
+      const { error } = await admin.from(table).insert({ key, tokens, updated_at: updatedAt });
+      if (error?.code === "23505") return null; // another isolate created it first
+      if (error) throw new Error(`table ${table}: ${error.message || error.code || "insert error"}`);
+      return { allowed, resetAt };
+    }
+
+    const { data: updated, error } = await admin
+      .from(table)
+      .update({ tokens, updated_at: updatedAt })
+      .eq("key", key)
+      .eq("updated_at", (bucket as Bucket).updated_at)
+      .select("key");
+    if (error) throw new Error(`table ${table}: ${error.message || error.code || "update error"}`);
+    return updated?.length ? { allowed, resetAt } : null;
+  }
+
+  return {
+    name: "table",
+    async hit(key, rule, nowMs) {
+      for (let i = 0; i < 2; i++) {
+        const decision = await attempt(key, rule, nowMs);
+        if (decision) return decision;
+      }
+      throw new Error(`table ${table}: write contention`);
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// supabase/functions/_shared/rateLimit/types.ts
+//
+// Backend-agnostic rate-limit contract. coach-waitlist-signup asks checkRateLimits()
+// (./index.ts), which walks the configured backend chain.
+
+export type RateLimitScope = "ip" | "email" | "subnet";
+
+export type RateLimitRule = {
+  scope: RateLimitScope;
+  /** Max requests per window. */
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  /** When the caller can try again (ISO). */
+  resetAt: string;
+};
+
+export interface RateLimitBackend {
+  readonly name: string;
+  /**
+   * Count one hit against `key` and decide. Throws when the backend itself is
+   * unavailable (missing RPC/table, DB down) so the chain can fall through.
+   */
+  hit(key: string, rule: RateLimitRule, nowMs: number): Promise<RateLimitDecision>;
+}
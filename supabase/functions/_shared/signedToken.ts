@@ -0,0 +1,104 @@
+// supabase/functions/_shared/signedToken.ts
+//
+// Stateless, signed, expiring tokens for links we email to coaches
+// ("confirm your email", "complete your profile", unsubscribe, data export/delete).
+// Nothing is stored server-side: the token carries the lead email + purpose + expiry,
+// and an HMAC-SHA256 signature over them.
+//
+// Format: base64url(JSON payload) + "." + base64url(HMAC(payload))
+//
+// Secret: WAITLIST_TOKEN_SECRET (set via `npx supabase secrets set ...`).
+// Rotating the secret invalidates every outstanding link.
+
+export type TokenPurpose = "confirm" | "profile" | "unsubscribe" | "data_export" | "data_delete";
+
+export type TokenPayload = {
+  sub: string; // lead email (lowercased)
+  purpose: TokenPurpose;
+  exp: number; // unix seconds
+};
+
+export type TokenVerifyResult =
+  | { ok: true; payload: TokenPayload }
+  | { ok: false; reason: "malformed" | "bad_signature" | "expired" | "wrong_purpose" };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/") + "===".slice((s.length + 3) % 4);
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export async function signToken(
+  input: { sub: string; purpose: TokenPurpose; ttlSeconds: number },
+  secret: string,
+  nowMs = Date.now(),
+): Promise<string> {
+  const payload: TokenPayload = {
+    sub: input.sub,
+    purpose: input.purpose,
+    exp: Math.floor(nowMs / 1000) + input.ttlSeconds,
+  };
+
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+export async function verifyToken(
+  token: string,
+  secret: string,
+  purpose: TokenPurpose,
+  nowMs = Date.now(),
+): Promise<TokenVerifyResult> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return { ok: false, reason: "malformed" };
+
+  const [body, sig] = parts;
+
+  let sigBytes: Uint8Array;
+  try {
+    sigBytes = fromBase64Url(sig);
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+
+  // crypto.subtle.verify compares in constant time.
+  const valid = await crypto.subtle.verify("HMAC", await hmacKey(secret), sigBytes, encoder.encode(body));
+  if (!valid) return { ok: false, reason: "bad_signature" };
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(decoder.decode(fromBase64Url(body))) as TokenPayload;
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+
+  if (typeof payload?.sub !== "string" || typeof payload?.exp !== "number") {
+    return { ok: false, reason: "malformed" };
+  }
+  if (payload.purpose !== purpose) return { ok: false, reason: "wrong_purpose" };
+  if (payload.exp * 1000 < nowMs) return { ok: false, reason: "expired" };
+
+  return { ok: true, payload };
+}
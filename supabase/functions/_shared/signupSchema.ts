@@ -0,0 +1,566 @@
+// supabase/functions/_shared/signupSchema.ts
+//
+// Single source of truth for the coach waitlist signup contract.
+// Imported by BOTH:
+// - the React app (src/App.tsx → CoachSignupForm) to build + pre-validate the payload
+// - the coach-waitlist-signup Edge Function (Deno) to validate what actually arrives
+// Also holds the follow-up profile contract (/profile ↔ coach-waitlist-profile).
+// Other functions' contracts sit next to it (./exportContract.ts, ./dataContract.ts,
+// ./demoBookingContract.ts).
+//
+// Keep this file dependency-free (no Deno/DOM globals, no URL imports) so it
+// type-checks and runs in both environments.
+//
+// Versioning:
+// - Clients send `schema_version`. Missing means a pre-versioning client (treated as v1).
+// - Bump SIGNUP_SCHEMA_VERSION when the wire shape changes incompatibly, and keep
+//   accepting the previous version in the function until old bundles are gone.
+
+import { checkEmail } from "./emailValidation.ts";
+import { normalizeExperimentAssignments, type ExperimentAssignments } from "./experiments.ts";
+
+export { isValidEmail, normalizeEmailForDedup, suggestEmail } from "./emailValidation.ts";
+export { normalizeExperimentAssignments, type ExperimentAssignments } from "./experiments.ts";
+
+export const SIGNUP_SCHEMA_VERSION = 1;
+export const SUPPORTED_SIGNUP_SCHEMA_VERSIONS: readonly number[] = [1];
+
+// Must match the CHECK constraint on leads_coach_waitlist.coach_intents.
+export const ALLOWED_COACH_INTENTS = [
+  "Save time",
+  "Safer progression",
+  "Scale my roster",
+  "Better client experience",
+  "Other",
+] as const;
+
+export const CLIENT_COUNT_OPTIONS = ["0-10", "10-25", "25-50", "50+"] as const;
+
+/**
+ * Marketing-consent wording, by version. The form shows the current version's text
+ * verbatim and sends the version; the function stores the text it maps to in
+ * lead_consents. Never edit a published entry — add a new version instead.
+ */
+export const MARKETING_CONSENT_TEXTS: Readonly<Record<string, string>> = {
+  "2026-10-19":
+    "Email me Lungeable product news and launch updates. Low-volume, high-signal; unsubscribe anytime.",
+};
+
+export const MARKETING_CONSENT_TEXT_VERSION = "2026-10-19";
+
+/** What a consenting coach wants to hear about. Must match leads_coach_waitlist.email_preference. */
+export const EMAIL_PREFERENCE_OPTIONS = ["beta_access", "product_updates"] as const;
+
+export const PRIMARY_FOCUS_OPTIONS = [
+  "strength",
+  "powerlifting",
+  "olympic",
+  "sport",
+  "rehab",
+  "other",
+] as const;
+
+/** Ad click IDs kept with each attribution touch. */
+export const CLICK_ID_PARAMS = ["gclid", "fbclid", "li_fat_id"] as const;
+
+export type CoachIntent = (typeof ALLOWED_COACH_INTENTS)[number];
+export type ClientCount = (typeof CLIENT_COUNT_OPTIONS)[number];
+export type PrimaryFocus = (typeof PRIMARY_FOCUS_OPTIONS)[number];
+export type EmailPreference = (typeof EMAIL_PREFERENCE_OPTIONS)[number];
+export type ClickIdParam = (typeof CLICK_ID_PARAMS)[number];
+
+/**
+ * One visit as the browser recorded it (src/attribution.ts). A signup carries two:
+ * the coach's first visit, and the latest one that had a campaign signal (UTMs, a
+ * click ID or another site's referrer).
+ */
+export type AttributionTouch = {
+  utm: Record<string, string>;
+  click_ids: Partial<Record<ClickIdParam, string>>;
+  /** Referring site's host without "www.", null for direct visits and our own pages. */
+  referrer_domain: string | null;
+  landing_path: string;
+  /** ISO timestamp, browser clock. */
+  at: string;
+};
+
+export const SIGNUP_LIMITS = {
+  email: 254,
+  name: 120,
+  presence: 300,
+  notes: 2000,
+  source: 64,
+  site_version: 120,
+  user_agent: 512,
+  referer: 1024,
+  utm_keys: 12,
+  utm_value: 200,
+  click_id: 512,
+  referrer_domain: 253,
+  landing_path: 512,
+  consent_text_version: 32,
+  turnstile_token: 2048,
+} as const;
+
+/**
+ * Wire shape POSTed by the browser.
+ * Field names are snake_case to match the leads_coach_waitlist columns.
+ */
+export type SignupBody = {
+  schema_version?: number;
+
+  email: string;
+  name?: string | null;
+  primary_focus?: PrimaryFocus | null;
+  client_count?: ClientCount | null;
+  coach_intents?: CoachIntent[];
+  presence?: string | null;
+  notes?: string | null;
+  source?: string;
+  site_version?: string;
+  utm?: Record<string, string>;
+  user_agent?: string | null;
+  referer?: string | null;
+  first_touch?: AttributionTouch | null;
+  last_touch?: AttributionTouch | null;
+  /** A/B variants this visitor saw (see ./experiments.ts). */
+  experiments?: ExperimentAssignments;
+
+  /** The coach saw our did_you_mean suggestion and kept the address as typed. */
+  email_typo_ack?: boolean;
+
+  // Consent (see MARKETING_CONSENT_TEXTS). Absent on pre-consent clients.
+  marketing_consent?: boolean;
+  email_preference?: EmailPreference | null;
+  /** Version of the wording shown next to the checkbox, ticked or not. */
+  consent_text_version?: string | null;
+  /** ISO timestamp of the decision, browser clock. */
+  consent_at?: string | null;
+
+  // Anti-spam:
+  company?: string | null; // honeypot (should be empty)
+  turnstile_token?: string | null; // Cloudflare Turnstile token
+};
+
+/** Normalized, validated signup (what the function inserts). */
+export type ValidatedSignup = {
+  schema_version: number;
+  email: string;
+  /** Dedup key (see normalizeEmailForDedup); stored as email_normalized. */
+  email_normalized: string;
+  name: string | null;
+  primary_focus: PrimaryFocus | null;
+  client_count: ClientCount | null;
+  coach_intents: CoachIntent[];
+  presence: string | null;
+  notes: string | null;
+  source: string | null;
+  site_version: string | null;
+  utm: Record<string, string>;
+  user_agent: string | null;
+  referer: string | null;
+  first_touch: AttributionTouch | null;
+  last_touch: AttributionTouch | null;
+  experiments: ExperimentAssignments;
+  marketing_consent: boolean;
+  email_preference: EmailPreference | null;
+  consent_text_version: string | null;
+  consent_at: string | null;
+  company: string;
+  turnstile_token: string;
+};
+
+export type SignupFieldError =
+  | "required"
+  | "invalid_type"
+  | "invalid_email"
+  | "disposable_email"
+  | "likely_typo"
+  | "invalid_option"
+  | "too_long"
+  | "too_many"
+  | "unsupported_version";
+
+export type SignupField = Exclude<keyof SignupBody, "company" | "email_typo_ack">;
+export type SignupFieldErrors = Partial<Record<SignupField, SignupFieldError>>;
+
+export type SignupErrorCode =
+  | "invalid_json"
+  | "invalid_body"
+  | "missing_turnstile_token"
+  | "turnstile_failed"
+  | "rate_limited"
+  | "rate_limit_unavailable"
+  | "db_insert_failed";
+
+export type SignupErrorResponse = {
+  ok: false;
+  error: SignupErrorCode;
+  field_errors?: SignupFieldErrors;
+  /** Suggested correction for a likely email typo ("coach@gmial.com" → "coach@gmail.com"). */
+  did_you_mean?: string;
+  details?: string[];
+  reset_at?: string;
+};
+
+export type SignupSuccessResponse = {
+  ok: true;
+  alreadyOnList?: boolean;
+  dropped?: boolean;
+  /** Double opt-in: whether a "confirm your email" link went out. */
+  confirmationSent?: boolean;
+};
+
+export type SignupResponse = SignupSuccessResponse | SignupErrorResponse;
+
+/** coach-waitlist-confirm response (double opt-in, /confirm route). */
+export type ConfirmResponse =
+  | { ok: true; alreadyConfirmed: boolean }
+  | {
+      ok: false;
+      error:
+        | "invalid_json"
+        | "missing_token"
+        | "invalid_token"
+        | "expired_token"
+        | "not_found"
+        | "db_update_failed"
+        | "server_misconfigured";
+    };
+
+/** Fields a coach can add or change later through the signed /profile link. */
+export const PROFILE_FIELDS = ["name", "primary_focus", "coach_intents", "presence", "notes"] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+export type LeadProfile = Pick<ValidatedSignup, ProfileField>;
+
+/**
+ * coach-waitlist-profile request. "load" returns the current profile; "save" merges
+ * `profile` into the lead: only keys present are changed, null/"" clears a field.
+ */
+export type ProfileRequest =
+  | { token: string; action?: "load" }
+  | { token: string; action: "save"; profile: Partial<Pick<SignupBody, ProfileField>> };
+
+export type ProfileErrorCode =
+  | "invalid_json"
+  | "missing_token"
+  | "invalid_token"
+  | "expired_token"
+  | "not_found"
+  | "invalid_body"
+  | "db_select_failed"
+  | "db_update_failed"
+  | "server_misconfigured";
+
+export type ProfileResponse =
+  | { ok: true; email: string; profile: LeadProfile; changed?: ProfileField[] }
+  | { ok: false; error: ProfileErrorCode; field_errors?: SignupFieldErrors };
+
+/** coach-waitlist-unsubscribe response (/unsubscribe route; one-click POSTs get plain text). */
+export type UnsubscribeResponse =
+  | { ok: true; alreadyUnsubscribed: boolean }
+  | {
+      ok: false;
+      error: "invalid_json" | "missing_token" | "invalid_token" | "expired_token" | "db_update_failed" | "server_misconfigured";
+    };
+
+export type SignupValidationResult =
+  | { ok: true; value: ValidatedSignup }
+  | { ok: false; field_errors: SignupFieldErrors; did_you_mean?: string };
+
+export type SignupValidationOptions = {
+  /** Server-side extras on top of the bundled disposable list (EXTRA_DISPOSABLE_DOMAINS). */
+  extraDisposableDomains?: readonly string[];
+};
+
+const SOURCE_RE = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function isSignupErrorResponse(v: unknown): v is SignupErrorResponse {
+  return !!v && typeof v === "object" && (v as { ok?: unknown }).ok === false;
+}
+
+/**
+ * Honeypot value (checked before validation so bots get a silent "ok" even
+ * when the rest of their payload is garbage).
+ */
+export function readHoneypot(input: unknown): string {
+  if (!input || typeof input !== "object") return "";
+  const body = input as Record<string, unknown>;
+  const raw = body.company ?? body.honeypot;
+  return typeof raw === "string" ? raw.trim() : "";
+}
+
+function isOneOf<T extends string>(options: readonly T[], v: string): v is T {
+  return (options as readonly string[]).includes(v);
+}
+
+/**
+ * Optional free-text field: undefined/null/"" → null, otherwise a trimmed string
+ * no longer than `max`.
+ */
+function optionalText(
+  input: Record<string, unknown>,
+  field: SignupField,
+  max: number,
+  errors: SignupFieldErrors,
+): string | null {
+  const raw = input[field];
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== "string") {
+    errors[field] = "invalid_type";
+    return null;
+  }
+  const v = raw.trim();
+  if (!v) return null;
+  if (v.length > max) {
+    errors[field] = "too_long";
+    return null;
+  }
+  return v;
+}
+
+/**
+ * Passive metadata (UA/referer) is never typed by the coach, so we truncate
+ * instead of rejecting the whole signup. Also used by ./demoBookingContract.ts.
+ */
+export function clippedText(raw: unknown, max: number): string | null {
+  if (typeof raw !== "string") return null;
+  const v = raw.trim();
+  return v ? v.slice(0, max) : null;
+}
+
+function optionalEnum<T extends string>(
+  input: Record<string, unknown>,
+  field: SignupField,
+  options: readonly T[],
+  errors: SignupFieldErrors,
+): T | null {
+  const raw = input[field];
+  if (raw === undefined || raw === null || raw === "") return null;
+  if (typeof raw !== "string") {
+    errors[field] = "invalid_type";
+    return null;
+  }
+  if (!isOneOf(options, raw)) {
+    errors[field] = "invalid_option";
+    return null;
+  }
+  return raw;
+}
+
+function validateIntents(raw: unknown, errors: SignupFieldErrors): CoachIntent[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.coach_intents = "invalid_type";
+    return [];
+  }
+  if (raw.length > ALLOWED_COACH_INTENTS.length) {
+    errors.coach_intents = "too_many";
+    return [];
+  }
+
+  const out: CoachIntent[] = [];
+  for (const x of raw) {
+    if (typeof x !== "string" || !isOneOf(ALLOWED_COACH_INTENTS, x)) {
+      errors.coach_intents = "invalid_option";
+      return [];
+    }
+    if (!out.includes(x)) out.push(x);
+  }
+  return out;
+}
+
+/**
+ * A string → string map, clipped rather than rejected: UTMs and click IDs come from
+ * the landing URL, not from anything the coach typed or can fix in the form.
+ * Also used by ./demoBookingContract.ts.
+ */
+export function clippedStringMap(raw: unknown, keys: readonly string[] | null): Record<string, string> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (Object.keys(out).length >= SIGNUP_LIMITS.utm_keys) break;
+    if (keys ? !keys.includes(k) : k.length > 64) continue;
+    const value = clippedText(v, keys ? SIGNUP_LIMITS.click_id : SIGNUP_LIMITS.utm_value);
+    if (value) out[k] = value;
+  }
+  return out;
+}
+
+/**
+ * Attribution touches are passive metadata, like UA/referer, and come out of the
+ * visitor's localStorage: malformed parts are dropped and long values clipped, never
+ * a reason to reject the signup. Also used by src/attribution.ts on what it reads back.
+ */
+export function normalizeAttributionTouch(raw: unknown): AttributionTouch | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const t = raw as Record<string, unknown>;
+
+  const at = typeof t.at === "string" ? Date.parse(t.at) : Number.NaN;
+  if (Number.isNaN(at)) return null;
+
+  const path = clippedText(t.landing_path, SIGNUP_LIMITS.landing_path);
+  return {
+    utm: clippedStringMap(t.utm, null),
+    click_ids: clippedStringMap(t.click_ids, CLICK_ID_PARAMS),
+    referrer_domain: clippedText(t.referrer_domain, SIGNUP_LIMITS.referrer_domain)?.toLowerCase() ?? null,
+    landing_path: path?.startsWith("/") ? path : "/",
+    at: new Date(at).toISOString(),
+  };
+}
+
+/**
+ * Consent fields travel together: a "yes" is only meaningful with the wording it
+ * answered, so marketing_consent: true needs a known consent_text_version.
+ */
+function validateConsent(
+  body: Record<string, unknown>,
+  errors: SignupFieldErrors,
+): Pick<ValidatedSignup, "marketing_consent" | "email_preference" | "consent_text_version" | "consent_at"> {
+  const raw = body.marketing_consent;
+  if (raw !== undefined && raw !== null && typeof raw !== "boolean") errors.marketing_consent = "invalid_type";
+  const consent = raw === true;
+
+  const version = optionalText(body, "consent_text_version", SIGNUP_LIMITS.consent_text_version, errors);
+  if (version && !Object.prototype.hasOwnProperty.call(MARKETING_CONSENT_TEXTS, version)) {
+    errors.consent_text_version = "invalid_option";
+  }
+  if (consent && !version && !errors.consent_text_version) errors.consent_text_version = "required";
+
+  let consentAt: string | null = null;
+  const at = body.consent_at;
+  if (at !== undefined && at !== null && at !== "") {
+    const ms = typeof at === "string" ? Date.parse(at) : Number.NaN;
+    if (Number.isNaN(ms)) errors.consent_at = "invalid_type";
+    else consentAt = new Date(ms).toISOString();
+  }
+
+  return {
+    marketing_consent: consent,
+    // A preference without consent means nothing; don't store one.
+    email_preference: consent ? optionalEnum(body, "email_preference", EMAIL_PREFERENCE_OPTIONS, errors) : null,
+    consent_text_version: version,
+    consent_at: consentAt,
+  };
+}
+
+function validateVersion(raw: unknown, errors: SignupFieldErrors): number {
+  if (raw === undefined || raw === null) return 1;
+  if (typeof raw !== "number" || !Number.isInteger(raw)) {
+    errors.schema_version = "invalid_type";
+    return 1;
+  }
+  if (!SUPPORTED_SIGNUP_SCHEMA_VERSIONS.includes(raw)) {
+    errors.schema_version = "unsupported_version";
+  }
+  return raw;
+}
+
+/**
+ * Validate + normalize an untrusted signup body.
+ * Runs in the browser (before submit) and in the Edge Function (authoritative).
+ *
+ * Pre-contract clients sent `turnstileToken` / `honeypot`; those aliases are
+ * still read so cached bundles keep working during rollout.
+ */
+export function validateSignupBody(input: unknown, opts: SignupValidationOptions = {}): SignupValidationResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, field_errors: { email: "required" } };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: SignupFieldErrors = {};
+
+  const schemaVersion = validateVersion(body.schema_version, errors);
+
+  let email = "";
+  let emailNormalized = "";
+  let didYouMean: string | undefined;
+  if (typeof body.email !== "string" || !body.email.trim()) {
+    errors.email = "required";
+  } else {
+    const check = checkEmail(body.email, { extraDisposableDomains: opts.extraDisposableDomains });
+    didYouMean = check.suggestion;
+    if (!check.ok) {
+      errors.email = check.reason;
+    } else if (check.suggestion && body.email_typo_ack !== true) {
+      // Blocking until the coach either takes the suggestion or confirms their spelling.
+      errors.email = "likely_typo";
+    } else {
+      email = check.email;
+      emailNormalized = check.normalized;
+    }
+  }
+
+  const name = optionalText(body, "name", SIGNUP_LIMITS.name, errors);
+  const primaryFocus = optionalEnum(body, "primary_focus", PRIMARY_FOCUS_OPTIONS, errors);
+  const clientCount = optionalEnum(body, "client_count", CLIENT_COUNT_OPTIONS, errors);
+  const coachIntents = validateIntents(body.coach_intents, errors);
+  const presence = optionalText(body, "presence", SIGNUP_LIMITS.presence, errors);
+  const notes = optionalText(body, "notes", SIGNUP_LIMITS.notes, errors);
+  const siteVersion = optionalText(body, "site_version", SIGNUP_LIMITS.site_version, errors);
+  const utm = clippedStringMap(body.utm, null);
+  const consent = validateConsent(body, errors);
+
+  const source = optionalText(body, "source", SIGNUP_LIMITS.source, errors);
+  if (source && !SOURCE_RE.test(source)) errors.source = "invalid_option";
+
+  const turnstileRaw = body.turnstile_token ?? body.turnstileToken;
+  const turnstileToken = typeof turnstileRaw === "string" ? turnstileRaw.trim() : "";
+  if (turnstileToken.length > SIGNUP_LIMITS.turnstile_token) errors.turnstile_token = "too_long";
+
+  if (Object.keys(errors).length > 0) {
+    return didYouMean ? { ok: false, field_errors: errors, did_you_mean: didYouMean } : { ok: false, field_errors: errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      schema_version: schemaVersion,
+      email,
+      email_normalized: emailNormalized,
+      name,
+      primary_focus: primaryFocus,
+      client_count: clientCount,
+      coach_intents: coachIntents,
+      presence,
+      notes,
+      source,
+      site_version: siteVersion,
+      utm,
+      user_agent: clippedText(body.user_agent, SIGNUP_LIMITS.user_agent),
+      referer: clippedText(body.referer, SIGNUP_LIMITS.referer),
+      first_touch: normalizeAttributionTouch(body.first_touch),
+      last_touch: normalizeAttributionTouch(body.last_touch),
+      experiments: normalizeExperimentAssignments(body.experiments),
+      ...consent,
+      company: readHoneypot(body),
+      turnstile_token: turnstileToken,
+    },
+  };
+}
+
+/**
+ * Validate a partial profile update (the `profile` of a "save" ProfileRequest).
+ * Same per-field rules as the signup; keys that aren't present stay untouched.
+ */
+export function validateProfileUpdate(
+  input: unknown,
+): { ok: true; value: Partial<LeadProfile> } | { ok: false; field_errors: SignupFieldErrors } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, field_errors: { name: "invalid_type" } };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: SignupFieldErrors = {};
+  const value: Partial<LeadProfile> = {};
+
+  if ("name" in body) value.name = optionalText(body, "name", SIGNUP_LIMITS.name, errors);
+  if ("primary_focus" in body) value.primary_focus = optionalEnum(body, "primary_focus", PRIMARY_FOCUS_OPTIONS, errors);
+  if ("coach_intents" in body) value.coach_intents = validateIntents(body.coach_intents, errors);
+  if ("presence" in body) value.presence = optionalText(body, "presence", SIGNUP_LIMITS.presence, errors);
+  if ("notes" in body) value.notes = optionalText(body, "notes", SIGNUP_LIMITS.notes, errors);
+
+  return Object.keys(errors).length > 0 ? { ok: false, field_errors: errors } : { ok: true, value };
+}
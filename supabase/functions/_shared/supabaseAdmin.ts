@@ -0,0 +1,30 @@
+/* eslint-disable import/no-unresolved */
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// supabase/functions/_shared/supabaseAdmin.ts
+//
+// Service-role Supabase client for Edge Functions (server-side only!).
+// Bypasses RLS — never expose the key or this client's results blindly.
+
+import { mustGetEnv } from "./env.ts";
+
+// Cache the createClient function (dynamic import avoids local TS “URL import” issues)
+let _createClient: null | ((...args: any[]) => any) = null;
+
+async function getCreateClient(): Promise<(...args: any[]) => any> {
+  if (_createClient) return _createClient;
+
+  // @ts-ignore - Deno URL imports are valid in Supabase Edge Functions; VS Code TS can't resolve them locally.
+  const mod = await import("https://esm.sh/@supabase/supabase-js@2");
+
+  _createClient = (mod as any).createClient;
+  return _createClient!;
+}
+
+export async function createAdminClient(): Promise<any> {
+  const supabaseUrl = mustGetEnv("SUPABASE_URL");
+  const serviceKey = mustGetEnv("SUPABASE_SERVICE_ROLE_KEY");
+  const createClient = await getCreateClient();
+  return createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+}
@@ -0,0 +1,47 @@
+// supabase/functions/_shared/teamAuth.ts
+//
+// Team-only endpoints (the /admin dashboard's calls): the caller sends its Supabase
+// Auth access token (supabase.functions.invoke does this for a signed-in client) and
+// must be in public.admin_team_members — the same allowlist the RLS policies use
+// (supabase/migrations/20261019001200_admin_dashboard.sql).
+
+import type { createAdminClient } from "./supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export const TEAM_MEMBERS_TABLE = "admin_team_members";
+
+export type TeamAuthResult =
+  | { ok: true; email: string }
+  | { ok: false; status: 401 | 403 | 500; error: "unauthorized" | "forbidden" | "db_select_failed" };
+
+function bearerToken(headers: Headers): string | null {
+  const m = (headers.get("authorization") || "").match(/^Bearer\s+(\S+)$/i);
+  return m ? m[1] : null;
+}
+
+/**
+ * Resolve the request's user through Supabase Auth (which checks the token's
+ * signature and expiry) and look their email up in the allowlist.
+ */
+export async function requireTeamMember(admin: AdminClient, headers: Headers): Promise<TeamAuthResult> {
+  const jwt = bearerToken(headers);
+  if (!jwt) return { ok: false, status: 401, error: "unauthorized" };
+
+  const { data: auth, error: authErr } = await admin.auth.getUser(jwt);
+  const email = typeof auth?.user?.email === "string" ? auth.user.email.trim().toLowerCase() : "";
+  // The anon key is a JWT too, but it has no user behind it.
+  if (authErr || !email) return { ok: false, status: 401, error: "unauthorized" };
+
+  const { data: member, error } = await admin
+    .from(TEAM_MEMBERS_TABLE)
+    .select("email")
+    .eq("email", email)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error("[teamAuth] allowlist lookup error", { error });
+    return { ok: false, status: 500, error: "db_select_failed" };
+  }
+  return member ? { ok: true, email } : { ok: false, status: 403, error: "forbidden" };
+}
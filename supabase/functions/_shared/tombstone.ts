@@ -0,0 +1,66 @@
+// supabase/functions/_shared/tombstone.ts
+//
+// Erasure tombstones: when a coach deletes their data (coach-waitlist-data), the lead
+// row goes and a tombstone takes its place. It only stops the erased record from
+// coming back through a late webhook (no alert, welcome or CRM sync for a lead created
+// before the erasure); a fresh signup for the same mailbox goes through the normal
+// double opt-in and its confirmation clears the tombstone. Only SHA-256(normalized
+// email) is stored — enough to recognise the address, not to recover it.
+//
+// Table: public.lead_tombstones (supabase/migrations/20261019001000_unsubscribe_and_erasure.sql)
+
+import { normalizeEmailForDedup } from "./emailValidation.ts";
+import type { createAdminClient } from "./supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export const TOMBSTONES_TABLE = "lead_tombstones";
+
+/** Hex SHA-256 of the dedup-normalized email ("Coach+x@GoogleMail.com" → hash of "coach@gmail.com"). */
+export async function hashEmail(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeEmailForDedup(email)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * True when `email` was erased after a record created at `recordCreatedAt` (ISO), i.e.
+ * that record is the erased one. Without a timestamp, true whenever a tombstone exists.
+ * A failed lookup is logged and reads as false.
+ */
+export async function isTombstoned(admin: AdminClient, email: string, recordCreatedAt?: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from(TOMBSTONES_TABLE)
+    .select("email_hash, created_at")
+    .eq("email_hash", await hashEmail(email))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[tombstone] lookup failed", { error });
+    return false;
+  }
+  if (!data) return false;
+
+  const erasedAt = Date.parse(String((data as { created_at?: unknown }).created_at ?? ""));
+  const createdAt = Date.parse(recordCreatedAt ?? "");
+  return Number.isNaN(erasedAt) || Number.isNaN(createdAt) || createdAt <= erasedAt;
+}
+
+export async function recordTombstone(
+  admin: AdminClient,
+  email: string,
+  requestId: string,
+): Promise<{ ok: boolean; error?: unknown }> {
+  const { error } = await admin
+    .from(TOMBSTONES_TABLE)
+    .upsert({ email_hash: await hashEmail(email), reason: "erasure_request", request_id: requestId }, {
+      onConflict: "email_hash",
+    });
+  return error ? { ok: false, error } : { ok: true };
+}
+
+/** The coach signed up again and confirmed: the address is theirs to use again. */
+export async function clearTombstone(admin: AdminClient, email: string): Promise<{ ok: boolean; error?: unknown }> {
+  const { error } = await admin.from(TOMBSTONES_TABLE).delete().eq("email_hash", await hashEmail(email));
+  return error ? { ok: false, error } : { ok: true };
+}
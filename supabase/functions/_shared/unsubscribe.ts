@@ -0,0 +1,80 @@
+// supabase/functions/_shared/unsubscribe.ts
+//
+// Unsubscribe links for every coach-facing email (confirmation, welcome, data
+// requests). Two URLs carry the same signed token (purpose "unsubscribe"):
+// - pageUrl:     the site's /unsubscribe route, linked in the email body; it asks
+//                before POSTing, so link scanners that GET it change nothing
+// - oneClickUrl: coach-waitlist-unsubscribe itself, advertised in the RFC 8058
+//                List-Unsubscribe / List-Unsubscribe-Post headers so mail clients
+//                can unsubscribe with a single POST
+//
+// Env:
+// - WAITLIST_TOKEN_SECRET (no secret → no links, no headers)
+// - FUNCTIONS_PUBLIC_URL (optional; default SUPABASE_URL + "/functions/v1")
+// - WAITLIST_UNSUBSCRIBE_TTL_DAYS (optional; default 365)
+
+import type { EmailMessage } from "./email/index.ts";
+import type { EnvReader } from "./env.ts";
+import { signToken } from "./signedToken.ts";
+
+export const UNSUBSCRIBE_ROUTE = "/unsubscribe";
+export const UNSUBSCRIBE_FUNCTION = "coach-waitlist-unsubscribe";
+
+export type UnsubscribeLinks = {
+  pageUrl: string;
+  /** Absent when there's no public functions URL; the headers are skipped then. */
+  oneClickUrl?: string;
+  headers: Record<string, string>;
+};
+
+export function unsubscribeTtlSeconds(env: EnvReader): number {
+  const days = Number.parseInt(env("WAITLIST_UNSUBSCRIBE_TTL_DAYS") || "", 10);
+  return (Number.isFinite(days) && days > 0 ? days : 365) * 24 * 3600;
+}
+
+function functionsBaseUrl(env: EnvReader): string | null {
+  const explicit = (env("FUNCTIONS_PUBLIC_URL") || "").trim();
+  if (explicit) return explicit.replace(/\/+$/, "");
+  const supabaseUrl = (env("SUPABASE_URL") || "").trim();
+  return supabaseUrl ? `${supabaseUrl.replace(/\/+$/, "")}/functions/v1` : null;
+}
+
+/** Signed unsubscribe URLs + headers for `email`; null when WAITLIST_TOKEN_SECRET isn't set. */
+export async function buildUnsubscribeLinks(
+  email: string,
+  env: EnvReader,
+  nowMs: number,
+): Promise<UnsubscribeLinks | null> {
+  const secret = env("WAITLIST_TOKEN_SECRET");
+  if (!secret) return null;
+
+  const token = await signToken(
+    { sub: email.trim().toLowerCase(), purpose: "unsubscribe", ttlSeconds: unsubscribeTtlSeconds(env) },
+    secret,
+    nowMs,
+  );
+
+  const page = new URL(UNSUBSCRIBE_ROUTE, (env("SITE_URL") || "https://lungeable.com").trim());
+  page.searchParams.set("token", token);
+
+  const base = functionsBaseUrl(env);
+  if (!base) return { pageUrl: page.toString(), headers: {} };
+
+  const oneClick = new URL(`${base}/${UNSUBSCRIBE_FUNCTION}`);
+  oneClick.searchParams.set("token", token);
+
+  return {
+    pageUrl: page.toString(),
+    oneClickUrl: oneClick.toString(),
+    headers: {
+      "List-Unsubscribe": `<${oneClick.toString()}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+/** `message` with the List-Unsubscribe headers merged in (unchanged when `links` is null). */
+export function withUnsubscribeHeaders(message: EmailMessage, links: UnsubscribeLinks | null): EmailMessage {
+  if (!links || !Object.keys(links.headers).length) return message;
+  return { ...message, headers: { ...message.headers, ...links.headers } };
+}
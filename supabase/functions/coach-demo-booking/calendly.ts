@@ -0,0 +1,61 @@
+// supabase/functions/coach-demo-booking/calendly.ts
+//
+// Calendly API v2 lookups (https://developer.calendly.com/api-docs): the invitee (for
+// the email the browser never sees) and the scheduled event (for when it is).
+// A separate seam like ../coach-waitlist-signup/turnstile.ts; the handler passes its
+// fetch, so tests script Calendly's answers.
+// Env: CALENDLY_API_TOKEN (personal access token of the account that owns the event)
+
+import { fetchWithTimeout } from "../_shared/email/http.ts";
+
+export type CalendlyInvitee = {
+  uri: string;
+  email: string;
+  name: string | null;
+  /** "active" | "canceled" */
+  status: string;
+  /** URI of the scheduled event. */
+  event: string;
+  created_at: string;
+  /** UTMs Calendly got from the embed URL, null when absent. */
+  tracking: Record<string, string | null> | null;
+};
+
+export type CalendlyEvent = {
+  uri: string;
+  name: string | null;
+  start_time: string;
+  status: string;
+};
+
+export type CalendlyLookup<T> = { ok: true; resource: T } | { ok: false; status?: number; error: string };
+
+export type CalendlyClient = {
+  getInvitee(uri: string): Promise<CalendlyLookup<CalendlyInvitee>>;
+  getEvent(uri: string): Promise<CalendlyLookup<CalendlyEvent>>;
+};
+
+export function createCalendlyClient(opts: { token: string; timeoutMs?: number; fetch?: typeof fetch }): CalendlyClient {
+  async function get<T>(uri: string): Promise<CalendlyLookup<T>> {
+    try {
+      const r = await fetchWithTimeout(
+        uri,
+        { headers: { Authorization: `Bearer ${opts.token}`, "Content-Type": "application/json" } },
+        opts.timeoutMs ?? 8_000,
+        opts.fetch,
+      );
+      if (!r.ok) return { ok: false, status: r.status, error: (await r.text().catch(() => "")).slice(0, 500) };
+
+      const body = (await r.json().catch(() => null)) as { resource?: T } | null;
+      return body?.resource ? { ok: true, resource: body.resource } : { ok: false, status: r.status, error: "no resource in response" };
+    } catch (e) {
+      const aborted = e instanceof DOMException && e.name === "AbortError";
+      return { ok: false, error: aborted ? "timeout" : String(e) };
+    }
+  }
+
+  return {
+    getInvitee: (uri) => get<CalendlyInvitee>(uri),
+    getEvent: (uri) => get<CalendlyEvent>(uri),
+  };
+}
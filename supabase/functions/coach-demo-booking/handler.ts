@@ -0,0 +1,166 @@
+// supabase/functions/coach-demo-booking/handler.ts
+//
+// The demo-booking handler, separated from the Deno.serve entrypoint (./index.ts)
+// like the waitlist functions: env, the Supabase client, fetch (Calendly's API) and
+// the clock come in through DemoBookingDeps. See ../tests/ for usage.
+
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, getClientIp, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import { checkRateLimits, getRateLimitConfig } from "../_shared/rateLimit/index.ts";
+import { validateDemoBooking, type DemoBookingResponse } from "../_shared/demoBookingContract.ts";
+import { normalizeEmailForDedup } from "../_shared/emailValidation.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { isTombstoned } from "../_shared/tombstone.ts";
+import { createCalendlyClient, type CalendlyInvitee } from "./calendly.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export const BOOKINGS_TABLE = "demo_bookings";
+
+export type DemoBookingDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; rate-limit windows and updated_at. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): DemoBookingDeps {
+  return { env: getEnv, createAdminClient, fetch, now: Date.now };
+}
+
+function json(body: DemoBookingResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+/** The UTMs Calendly recorded from the embed URL, for bookings whose page sent none. */
+function trackingUtm(invitee: CalendlyInvitee): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(invitee.tracking ?? {})) {
+    if (k.startsWith("utm_") && typeof v === "string" && v) out[k] = v;
+  }
+  return out;
+}
+
+export async function handle(req: Request, deps: DemoBookingDeps): Promise<Response> {
+  const { env } = deps;
+
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  let raw: unknown = null;
+  try {
+    raw = await req.json();
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  const validation = validateDemoBooking(raw);
+  if (!validation.ok) {
+    return json({ ok: false, error: "invalid_body", field: validation.field }, 400, cors);
+  }
+  const body = validation.value;
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+
+  // Checked before the rate limit: without it no booking can be verified, so every
+  // report gets the same structured error rather than a thrown one.
+  const calendlyToken = (env("CALENDLY_API_TOKEN") || "").trim();
+  if (!calendlyToken) {
+    console.error("[coach-demo-booking] CALENDLY_API_TOKEN is not set", { requestId });
+    return json({ ok: false, error: "calendly_lookup_failed" }, 500, cors);
+  }
+
+  const admin = await deps.createAdminClient();
+
+  // Per IP, with the signup's limits: every request costs two calls on our Calendly token.
+  const rl = await checkRateLimits(admin, { ip: getClientIp(req.headers), email: "" }, getRateLimitConfig(env), deps.now());
+  if (!rl.allowed) {
+    if (rl.reason === "unavailable") {
+      return json({ ok: false, error: "rate_limit_unavailable" }, 503, cors);
+    }
+    return json({ ok: false, error: "rate_limited", reset_at: rl.resetAt }, 429, cors);
+  }
+
+  // Nothing from the page is trusted for who booked: Calendly is asked directly, so a
+  // forged message can't plant a booking (or an email) that didn't happen.
+  const calendly = createCalendlyClient({
+    token: calendlyToken,
+    timeoutMs: Number.parseInt(env("CALENDLY_TIMEOUT_MS") || "", 10) || undefined,
+    fetch: deps.fetch,
+  });
+  const [invitee, event] = await Promise.all([calendly.getInvitee(body.invitee_uri), calendly.getEvent(body.event_uri)]);
+
+  if (!invitee.ok || !event.ok) {
+    const failed = !invitee.ok ? invitee : (event as Extract<typeof event, { ok: false }>);
+    if (failed.status === 404) return json({ ok: false, error: "booking_not_found" }, 404, cors);
+    console.error("[coach-demo-booking] Calendly lookup failed", { requestId, status: failed.status, error: failed.error });
+    return json({ ok: false, error: "calendly_lookup_failed" }, 502, cors);
+  }
+  if (invitee.resource.event !== body.event_uri) {
+    return json({ ok: false, error: "booking_not_found" }, 404, cors);
+  }
+
+  const email = invitee.resource.email.trim().toLowerCase();
+  const emailNormalized = normalizeEmailForDedup(email);
+
+  // A booking made before its booker erased their data (coach-waitlist-data), reported
+  // again by a reload of the confirmation screen, must not be stored again.
+  if (await isTombstoned(admin, emailNormalized, invitee.resource.created_at)) {
+    console.warn("[coach-demo-booking] erased booker, not stored", { requestId });
+    return json({ ok: true, linked: false }, 200, cors);
+  }
+
+  // Same dedup key as the signup, so "coach+demo@gmail.com" finds "coach@gmail.com".
+  // A lookup error only costs the link, not the booking.
+  const { data: lead, error: leadErr } = await admin
+    .from("leads_coach_waitlist")
+    .select("id")
+    .eq("email_normalized", emailNormalized)
+    .limit(1)
+    .maybeSingle();
+  if (leadErr) {
+    console.error("[coach-demo-booking] lead lookup error", { requestId, error: leadErr });
+  }
+  const leadId = (lead as { id?: string } | null)?.id ?? null;
+
+  // Upsert on the invitee: the page can report the same booking twice (a reload of
+  // Calendly's confirmation screen), and a repeat refreshes status and lead link.
+  const { error: upsertErr } = await admin.from(BOOKINGS_TABLE).upsert(
+    {
+      invitee_uri: body.invitee_uri,
+      event_uri: body.event_uri,
+      invitee_email: email,
+      invitee_email_normalized: emailNormalized,
+      invitee_name: invitee.resource.name || null,
+      lead_id: leadId,
+      status: invitee.resource.status,
+      event_name: event.resource.name || null,
+      starts_at: event.resource.start_time,
+      booked_at: invitee.resource.created_at,
+      utm: Object.keys(body.utm).length ? body.utm : trackingUtm(invitee.resource),
+      site_version: body.site_version,
+      experiments: body.experiments,
+      updated_at: new Date(deps.now()).toISOString(),
+    },
+    { onConflict: "invitee_uri" },
+  );
+  if (upsertErr) {
+    console.error("[coach-demo-booking] upsert error", { requestId, error: upsertErr });
+    return json({ ok: false, error: "db_write_failed" }, 500, cors);
+  }
+
+  console.log("[coach-demo-booking] recorded", { requestId, linked: leadId !== null });
+  return json({ ok: true, linked: leadId !== null }, 200, cors);
+}
@@ -0,0 +1,39 @@
+// supabase/functions/coach-demo-booking/index.ts
+//
+// Records demo bookings made in the Calendly embed on /demo. When Calendly posts
+// calendly.event_scheduled to the page, the page sends:
+// - { event_uri, invitee_uri, utm?, site_version?, experiments? } → { ok: true, linked }
+// The function looks the invitee and event up with Calendly's API (./calendly.ts),
+// upserts public.demo_bookings (email, event, start time, UTMs, site_version) and links
+// the booking to the waitlist lead with the same normalized email, if there is one.
+// Contract: DemoBookingRequest / DemoBookingResponse in ../_shared/demoBookingContract.ts.
+//
+// Security model:
+// - config.toml sets verify_jwt = false (the public /demo page has no session)
+// - CORS restricts browser origins (ALLOWED_ORIGINS, see ../_shared/http.ts)
+// - Only api.calendly.com URIs are accepted, and who booked comes from Calendly, not
+//   the request; a booking that Calendly doesn't know is a 404
+// - Per-IP rate limit, the signup's RATE_LIMIT_IP / RATE_LIMIT_SUBNET (../_shared/rateLimit)
+// - A booking older than its booker's erasure (../_shared/tombstone.ts) isn't stored
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - CALENDLY_API_TOKEN
+// Optional: CALENDLY_TIMEOUT_MS (default 8000)
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-demo-booking] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,116 @@
+// supabase/functions/coach-waitlist-confirm/handler.ts
+//
+// The confirmation request handler, separated from the Deno.serve entrypoint
+// (./index.ts) like coach-waitlist-profile: env, the Supabase client and the clock
+// come in through ConfirmDeps. See ../tests/ for usage.
+
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import { normalizeEmailForDedup, type ConfirmResponse } from "../_shared/signupSchema.ts";
+import { verifyToken } from "../_shared/signedToken.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { clearTombstone } from "../_shared/tombstone.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type ConfirmDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  /** Epoch ms; token expiry and confirmed_at. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, wall clock. */
+export function defaultDeps(): ConfirmDeps {
+  return { env: getEnv, createAdminClient, now: Date.now };
+}
+
+const LEADS_TABLE = "leads_coach_waitlist";
+
+function json(body: ConfirmResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+export async function handle(req: Request, deps: ConfirmDeps): Promise<Response> {
+  const { env } = deps;
+
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  // Read up front: a deploy without it answers every request with the same JSON error.
+  const tokenSecret = env("WAITLIST_TOKEN_SECRET");
+  if (!tokenSecret) {
+    console.error("[coach-waitlist-confirm] WAITLIST_TOKEN_SECRET is not set");
+    return json({ ok: false, error: "server_misconfigured" }, 500, cors);
+  }
+
+  let raw: { token?: unknown } | null = null;
+  try {
+    raw = (await req.json()) as { token?: unknown };
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  const token = typeof raw?.token === "string" ? raw.token.trim() : "";
+  if (!token) {
+    return json({ ok: false, error: "missing_token" }, 400, cors);
+  }
+
+  const verified = await verifyToken(token, tokenSecret, "confirm", deps.now());
+  if (!verified.ok) {
+    return json({ ok: false, error: verified.reason === "expired" ? "expired_token" : "invalid_token" }, 400, cors);
+  }
+
+  // The token carries the address as typed; the row is found by the dedup key, like
+  // the signup's own duplicate check.
+  const emailNormalized = normalizeEmailForDedup(verified.payload.sub);
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+  const admin = await deps.createAdminClient();
+
+  // Only pending → confirmed counts as a transition (keeps the notify trigger to one alert).
+  const { data: updated, error: updErr } = await admin
+    .from(LEADS_TABLE)
+    .update({ status: "confirmed", confirmed_at: new Date(deps.now()).toISOString() })
+    .eq("email_normalized", emailNormalized)
+    .eq("status", "pending")
+    .select("id");
+
+  if (updErr) {
+    console.error("[coach-waitlist-confirm] update error", { requestId, error: updErr });
+    return json({ ok: false, error: "db_update_failed" }, 500, cors);
+  }
+
+  if (Array.isArray(updated) && updated.length > 0) {
+    // A coach who erased their data and signed up again has now opted back in.
+    // Best-effort: a leftover tombstone only holds back records older than it.
+    const cleared = await clearTombstone(admin, emailNormalized);
+    if (!cleared.ok) {
+      console.error("[coach-waitlist-confirm] tombstone delete error", { requestId, error: cleared.error });
+    }
+    return json({ ok: true, alreadyConfirmed: false }, 200, cors);
+  }
+
+  // Nothing pending: either already confirmed (link clicked twice) or the lead is gone.
+  const { data: existing } = await admin
+    .from(LEADS_TABLE)
+    .select("status")
+    .eq("email_normalized", emailNormalized)
+    .maybeSingle();
+
+  if (!existing) {
+    return json({ ok: false, error: "not_found" }, 404, cors);
+  }
+
+  return json({ ok: true, alreadyConfirmed: true }, 200, cors);
+}
@@ -0,0 +1,33 @@
+// supabase/functions/coach-waitlist-confirm/index.ts
+//
+// Double opt-in confirmation endpoint for the coach waitlist.
+// The site's /confirm route POSTs { token } here; we verify the signed, expiring
+// token issued by coach-waitlist-signup and move the lead from 'pending' → 'confirmed'.
+//
+// That UPDATE is what fires the notify-coach-waitlist webhook (team alert).
+//
+// Security model:
+// - config.toml sets verify_jwt = false
+// - CORS restricts allowed origins (browser protection; ALLOWED_ORIGINS, see ../_shared/http.ts)
+// - Token is HMAC-signed with WAITLIST_TOKEN_SECRET (see ../_shared/signedToken.ts)
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_TOKEN_SECRET
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-waitlist-confirm] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,369 @@
+// supabase/functions/coach-waitlist-data/handler.ts
+//
+// The data export / deletion handler, separated from the Deno.serve entrypoint
+// (./index.ts) like coach-waitlist-signup: env, the Supabase client, fetch (email
+// provider) and the clock come in through DataDeps. See ../tests/ for usage.
+
+import { eraseCrmContact } from "../_shared/crm/index.ts";
+import { getEmailProvider } from "../_shared/email/index.ts";
+import { isValidEmail, normalizeEmailForDedup } from "../_shared/emailValidation.ts";
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, getClientIp, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import { OUTBOX_TABLE } from "../_shared/outbox.ts";
+import { checkRateLimits, getRateLimitConfig } from "../_shared/rateLimit/index.ts";
+import type { DataRequestKind, DataResponse } from "../_shared/dataContract.ts";
+import { signToken, verifyToken } from "../_shared/signedToken.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { recordTombstone } from "../_shared/tombstone.ts";
+import { buildUnsubscribeLinks, withUnsubscribeHeaders } from "../_shared/unsubscribe.ts";
+import { buildDataRequestEmail } from "./verificationEmail.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type DataDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; rate-limit windows and link expiry. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): DataDeps {
+  return { env: getEnv, createAdminClient, fetch, now: Date.now };
+}
+
+const LEADS_TABLE = "leads_coach_waitlist";
+const CHANGES_TABLE = "lead_profile_changes";
+const CONSENTS_TABLE = "lead_consents";
+const BOOKINGS_TABLE = "demo_bookings";
+export const DATA_ROUTE = "/my-data";
+
+// Short-lived on purpose: the delete link is destructive.
+const DATA_LINK_TTL_SECONDS = 60 * 60;
+
+const PURPOSE = { export: "data_export", delete: "data_delete" } as const;
+
+type RawDataRequest = { action?: unknown; kind?: unknown; email?: unknown; token?: unknown };
+
+function json(body: DataResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+/**
+ * Email the verification link, if there's anything stored for `email`. Never throws
+ * and never tells the caller what happened: the response is the same either way.
+ */
+async function sendVerificationLink(
+  deps: DataDeps,
+  admin: AdminClient,
+  kind: DataRequestKind,
+  email: string,
+  tokenSecret: string,
+  requestId: string,
+): Promise<void> {
+  const { env } = deps;
+  try {
+    const emailNormalized = normalizeEmailForDedup(email);
+    const [lead, booking] = await Promise.all([
+      admin.from(LEADS_TABLE).select("id").eq("email_normalized", emailNormalized).limit(1).maybeSingle(),
+      admin.from(BOOKINGS_TABLE).select("id").eq("invitee_email_normalized", emailNormalized).limit(1).maybeSingle(),
+    ]);
+    const error = lead.error ?? booking.error;
+    if (error) {
+      console.error("[coach-waitlist-data] select error", { requestId, error });
+      return;
+    }
+    if (!lead.data && !booking.data) {
+      console.log("[coach-waitlist-data] no lead for request", { requestId, kind });
+      return;
+    }
+
+    const from = (env("WAITLIST_CONFIRM_FROM") || env("WAITLIST_NOTIFY_FROM") || "").trim();
+    if (!from) {
+      console.error("[coach-waitlist-data] verification email not configured", { requestId });
+      return;
+    }
+
+    const nowMs = deps.now();
+    const token = await signToken(
+      { sub: email, purpose: PURPOSE[kind], ttlSeconds: DATA_LINK_TTL_SECONDS },
+      tokenSecret,
+      nowMs,
+    );
+    const url = new URL(DATA_ROUTE, (env("SITE_URL") || "https://lungeable.com").trim());
+    url.searchParams.set("kind", kind);
+    url.searchParams.set("token", token);
+
+    const unsubscribe = await buildUnsubscribeLinks(email, env, nowMs);
+    const { subject, text, html } = buildDataRequestEmail(kind, url.toString(), {
+      ttlMinutes: DATA_LINK_TTL_SECONDS / 60,
+      supportEmail: (env("SUPPORT_EMAIL") || "support@lungeable.com").trim(),
+      unsubscribeUrl: unsubscribe?.pageUrl,
+    });
+
+    const r = await getEmailProvider(env, deps.fetch).send(
+      withUnsubscribeHeaders({ from, to: [email], subject, text, html, idempotencyKey: requestId }, unsubscribe),
+    );
+    if (!r.ok) {
+      console.error("[coach-waitlist-data] verification email failed", {
+        requestId,
+        provider: r.provider,
+        status: r.status,
+        error: r.error,
+      });
+    }
+  } catch (e) {
+    console.error("[coach-waitlist-data] verification email error", { requestId, error: String(e) });
+  }
+}
+
+const ERASED = "[erased]";
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `value` (an EmailMessage) with every occurrence of the addresses replaced, at any depth. */
+function redact(value: unknown, patterns: RegExp[]): unknown {
+  if (typeof value === "string") return patterns.reduce((s, re) => s.replace(re, ERASED), value);
+  if (Array.isArray(value)) return value.map((v) => redact(v, patterns));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, patterns)]));
+  }
+  return value;
+}
+
+/**
+ * Remove the address from notification_outbox, whatever the row's status. The lead's
+ * own rows (team alert, welcome) go, as does any other single-lead row naming it; a
+ * digest also lists other leads, so it stays with the address blanked out.
+ * Returns the first error, or null.
+ */
+async function scrubOutbox(
+  admin: AdminClient,
+  leadId: string | null,
+  addresses: string[],
+  nowIso: string,
+): Promise<unknown | null> {
+  if (leadId) {
+    const { error } = await admin.from(OUTBOX_TABLE).delete().eq("lead_id", leadId);
+    if (error) return error;
+  }
+
+  const unique = [...new Set(addresses.map((a) => a.toLowerCase()))];
+  const patterns = unique.map((a) => new RegExp(escapeRegExp(a), "gi"));
+  for (const address of unique) {
+    const { data: rows, error } = await admin
+      .from(OUTBOX_TABLE)
+      .select("id, kind, message")
+      .ilike("message->>text", `%${address.replace(/[\\%_]/g, "\\$&")}%`);
+    if (error) return error;
+
+    for (const row of (rows ?? []) as { id: string; kind: string; message: unknown }[]) {
+      const write = row.kind === "digest"
+        ? admin.from(OUTBOX_TABLE).update({ message: redact(row.message, patterns), updated_at: nowIso })
+        : admin.from(OUTBOX_TABLE).delete();
+      const { error: writeErr } = await write.eq("id", row.id);
+      if (writeErr) return writeErr;
+    }
+  }
+  return null;
+}
+
+export async function handle(req: Request, deps: DataDeps): Promise<Response> {
+  const { env } = deps;
+
+  // Same allowlist as the signup form (ALLOWED_ORIGINS, see ../_shared/http.ts)
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  // Read up front: a deploy without it answers every request with the same JSON error.
+  const tokenSecret = env("WAITLIST_TOKEN_SECRET");
+  if (!tokenSecret) {
+    console.error("[coach-waitlist-data] WAITLIST_TOKEN_SECRET is not set");
+    return json({ ok: false, error: "server_misconfigured" }, 500, cors);
+  }
+
+  let raw: RawDataRequest | null = null;
+  try {
+    raw = (await req.json()) as RawDataRequest | null;
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+  const action = raw?.action;
+
+  // ---- Step 1: ask for a link ----
+  if (action === "request") {
+    const kind = raw?.kind;
+    if (kind !== "export" && kind !== "delete") {
+      return json({ ok: false, error: "invalid_body" }, 400, cors);
+    }
+    const email = typeof raw?.email === "string" ? raw.email.trim().toLowerCase() : "";
+    if (!isValidEmail(email)) {
+      return json({ ok: false, error: "invalid_email" }, 400, cors);
+    }
+
+    const admin = await deps.createAdminClient();
+
+    // Limited like the signup, so this can't be used to flood someone's inbox, but on
+    // its own keys: a data request doesn't spend the signup's budget, nor the reverse.
+    const rl = await checkRateLimits(
+      admin,
+      { ip: getClientIp(req.headers), email },
+      getRateLimitConfig(env, "data"),
+      deps.now(),
+    );
+    if (!rl.allowed) {
+      if (rl.reason === "unavailable") {
+        return json({ ok: false, error: "rate_limit_unavailable" }, 503, cors);
+      }
+      return json({ ok: false, error: "rate_limited", reset_at: rl.resetAt }, 429, cors);
+    }
+
+    await sendVerificationLink(deps, admin, kind, email, tokenSecret, requestId);
+    return json({ ok: true, action: "request" }, 200, cors);
+  }
+
+  if (action !== "export" && action !== "delete") {
+    return json({ ok: false, error: "invalid_body" }, 400, cors);
+  }
+
+  // ---- Step 2: redeem the link ----
+  const token = typeof raw?.token === "string" ? raw.token.trim() : "";
+  if (!token) {
+    return json({ ok: false, error: "missing_token" }, 400, cors);
+  }
+
+  // The purpose pins the action: an export link can't delete.
+  const verified = await verifyToken(token, tokenSecret, PURPOSE[action], deps.now());
+  if (!verified.ok) {
+    return json({ ok: false, error: verified.reason === "expired" ? "expired_token" : "invalid_token" }, 400, cors);
+  }
+
+  const email = verified.payload.sub;
+  const admin = await deps.createAdminClient();
+
+  // Found by the dedup key like the signup, so "alex+x@gmail.com" reaches "alex@gmail.com".
+  const emailNormalized = normalizeEmailForDedup(email);
+  const { data: lead, error: selErr } = await admin
+    .from(LEADS_TABLE)
+    .select("*")
+    .eq("email_normalized", emailNormalized)
+    .limit(1)
+    .maybeSingle();
+
+  if (selErr) {
+    console.error("[coach-waitlist-data] select error", { requestId, error: selErr });
+    return json({ ok: false, error: "db_select_failed" }, 500, cors);
+  }
+
+  if (action === "export") {
+    // Bookings go by email: one made before the signup isn't linked to the lead.
+    const none = Promise.resolve({ data: [], error: null });
+    const [changes, consents, bookings] = await Promise.all([
+      lead
+        ? admin
+          .from(CHANGES_TABLE)
+          .select("changes, source, created_at")
+          .eq("lead_id", lead.id)
+          .order("created_at", { ascending: true })
+        : none,
+      lead
+        ? admin
+          .from(CONSENTS_TABLE)
+          .select("marketing_consent, email_preference, consent_text_version, consent_text, consented_at, recorded_at, source")
+          .eq("lead_id", lead.id)
+          .order("recorded_at", { ascending: true })
+        : none,
+      admin
+        .from(BOOKINGS_TABLE)
+        .select("*")
+        .eq("invitee_email_normalized", emailNormalized)
+        .order("created_at", { ascending: true }),
+    ]);
+    const selectErr = changes.error ?? consents.error ?? bookings.error;
+    if (selectErr) {
+      console.error("[coach-waitlist-data] history select error", { requestId, error: selectErr });
+      return json({ ok: false, error: "db_select_failed" }, 500, cors);
+    }
+
+    console.log("[coach-waitlist-data] exported", { requestId, leadId: lead?.id ?? null });
+    return json(
+      {
+        ok: true,
+        action,
+        lead: lead ?? null,
+        profile_changes: changes.data ?? [],
+        consents: consents.data ?? [],
+        demo_bookings: bookings.data ?? [],
+      },
+      200,
+      cors,
+    );
+  }
+
+  // ---- Delete ----
+  // Outbox rows still hold the address (and parked ones would re-email it on retry).
+  const outboxErr = await scrubOutbox(
+    admin,
+    lead ? String(lead.id) : null,
+    [email, lead?.email].filter((a): a is string => typeof a === "string" && a !== ""),
+    new Date(deps.now()).toISOString(),
+  );
+  if (outboxErr) {
+    console.error("[coach-waitlist-data] outbox scrub error", { requestId, leadId: lead?.id, error: outboxErr });
+    return json({ ok: false, error: "db_delete_failed" }, 500, cors);
+  }
+
+  // By email too: a booking made before the signup isn't linked to the lead (linked ones
+  // would cascade with it).
+  const { data: bookings, error: bookingsErr } = await admin
+    .from(BOOKINGS_TABLE)
+    .delete()
+    .eq("invitee_email_normalized", emailNormalized)
+    .select("id");
+  if (bookingsErr) {
+    console.error("[coach-waitlist-data] demo bookings delete error", { requestId, error: bookingsErr });
+    return json({ ok: false, error: "db_delete_failed" }, 500, cors);
+  }
+
+  if (lead) {
+    // Before the row: the contact id lives in lead_crm_sync, which cascades with it.
+    // A refused deletion is queued and retried, never left to a person to remember.
+    const crm = await eraseCrmContact({ id: String(lead.id), email: String(lead.email) }, deps);
+    if (!crm.erased && !crm.skipped) {
+      console.error("[coach-waitlist-data] CRM contact delete failed", { requestId, leadId: lead.id, ...crm });
+    }
+
+    // lead_profile_changes, lead_consents and lead_crm_sync go with it (on delete cascade).
+    const { error: delErr } = await admin.from(LEADS_TABLE).delete().eq("id", lead.id);
+    if (delErr) {
+      console.error("[coach-waitlist-data] delete error", { requestId, leadId: lead.id, error: delErr });
+      return json({ ok: false, error: "db_delete_failed" }, 500, cors);
+    }
+  }
+
+  // Tombstone even when nothing was stored: the owner of this address opted out.
+  const tomb = await recordTombstone(admin, email, requestId);
+  if (!tomb.ok) {
+    console.error("[coach-waitlist-data] tombstone insert error", { requestId, error: tomb.error });
+  }
+
+  const deleted = Boolean(lead) || (Array.isArray(bookings) && bookings.length > 0);
+  console.log("[coach-waitlist-data] erased", { requestId, deleted });
+  return json({ ok: true, action, deleted }, 200, cors);
+}
@@ -0,0 +1,46 @@
+// supabase/functions/coach-waitlist-data/index.ts
+//
+// Email-verified "request my data" / "delete my data" endpoint (GDPR access and
+// erasure). The site's /my-data route POSTs here:
+// - { action: "request", kind: "export" | "delete", email }
+//     → if anything is stored for the email, send it a one-hour link
+//       (/my-data?kind=&token=); the answer is identical either way, so this can't
+//       probe who signed up
+// - { action: "export", token } → the lead row, its profile history and consent records,
+//       and demo bookings made with the address (linked to the lead or not)
+// - { action: "delete", token } → delete the lead (history and consents cascade), the
+//       address's demo bookings and its CRM contact (../_shared/crm), drop its outbox
+//       sends and blank the address out of parked digests, and record a tombstone
+//       (../_shared/tombstone.ts) so a late webhook can't bring the erased lead back;
+//       a new signup later is a new opt-in
+// Contract: DataRequest / DataResponse in ../_shared/dataContract.ts.
+//
+// Security model:
+// - config.toml sets verify_jwt = false
+// - CORS restricts allowed origins (browser protection; ALLOWED_ORIGINS, see ../_shared/http.ts)
+// - Link requests are rate limited like signups, on their own keys and RATE_LIMIT_DATA_*
+//   rules (../_shared/rateLimit)
+// - Tokens are HMAC-signed with WAITLIST_TOKEN_SECRET; the purpose ("data_export" /
+//   "data_delete") pins what a link can do
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_TOKEN_SECRET
+// - EMAIL_PROVIDER + its credentials, WAITLIST_CONFIRM_FROM or WAITLIST_NOTIFY_FROM
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-waitlist-data] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,47 @@
+// supabase/functions/coach-waitlist-data/verificationEmail.ts
+//
+// "Confirm it's you" email for a data export / deletion request. The link points at
+// the site's /my-data route, which redeems the token against coach-waitlist-data.
+
+import type { DataRequestKind } from "../_shared/dataContract.ts";
+import { renderEmail, type RenderedEmail } from "../_shared/email/template.ts";
+
+const COPY: Record<DataRequestKind, { subject: string; title: string; intro: string; cta: string }> = {
+  export: {
+    subject: "Your Lungeable data export link",
+    title: "Download your data",
+    intro: "Someone (hopefully you) asked for a copy of the data Lungeable holds for this email address.",
+    cta: "Download my data",
+  },
+  delete: {
+    subject: "Confirm deleting your Lungeable data",
+    title: "Delete your data",
+    intro: "Someone (hopefully you) asked us to delete everything Lungeable holds for this email address.",
+    cta: "Delete my data",
+  },
+};
+
+export function buildDataRequestEmail(
+  kind: DataRequestKind,
+  url: string,
+  opts: { ttlMinutes: number; supportEmail: string; unsubscribeUrl?: string },
+): RenderedEmail {
+  const { subject, title, intro, cta } = COPY[kind];
+  return {
+    subject,
+    ...renderEmail({
+      title,
+      preheader: intro,
+      blocks: [
+        { type: "paragraph", text: intro },
+        { type: "button", label: cta, href: url },
+        {
+          type: "paragraph",
+          text: `This link expires in ${opts.ttlMinutes} minutes. If you didn't ask for this, ignore this email — nothing happens until the link is used.`,
+        },
+      ],
+      footer: `Questions: ${opts.supportEmail}`,
+      unsubscribeUrl: opts.unsubscribeUrl,
+    }),
+  };
+}
@@ -0,0 +1,67 @@
+// supabase/functions/coach-waitlist-export/format.ts
+//
+// Row encoding for the lead export: CSV (RFC 4180, CRLF line endings) flattens a
+// leads_coach_waitlist row into the selected columns (utm → one column per key);
+// NDJSON writes the selected columns as stored, one JSON object per line.
+
+import type { ExportColumn } from "../_shared/exportContract.ts";
+
+/** Always emitted when "utm" is selected, so the CSV header is stable for CRM mappings. */
+export const STANDARD_UTM_KEYS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content", "utm_id"];
+
+export type FlatValue = string | number | boolean | null;
+
+/** The standard UTM keys first, then any other keys seen in the exported rows (sorted). */
+export function utmKeysFor(seen: Iterable<string>): string[] {
+  const extra = new Set<string>();
+  for (const k of seen) if (!STANDARD_UTM_KEYS.includes(k)) extra.add(k);
+  return [...STANDARD_UTM_KEYS, ...[...extra].sort()];
+}
+
+/** "utm_source" stays; a non-UTM key like "ref" becomes "utm_ref" so it can't shadow a lead column. */
+function utmColumnName(key: string): string {
+  return key.startsWith("utm_") ? key : `utm_${key}`;
+}
+
+export function headerFor(columns: readonly ExportColumn[], utmKeys: readonly string[]): string[] {
+  return columns.flatMap((c) => (c === "utm" ? utmKeys.map(utmColumnName) : [c]));
+}
+
+function flatValue(v: unknown): FlatValue {
+  if (v === null || v === undefined) return null;
+  if (Array.isArray(v)) return v.map(String).join("; ");
+  if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") return v;
+  return JSON.stringify(v);
+}
+
+/** The row's values in CSV header order. */
+export function flattenLead(
+  row: Record<string, unknown>,
+  columns: readonly ExportColumn[],
+  utmKeys: readonly string[],
+): FlatValue[] {
+  return columns.flatMap((c) => {
+    if (c !== "utm") return [flatValue(row[c])];
+    const utm = row.utm && typeof row.utm === "object" ? (row.utm as Record<string, unknown>) : {};
+    return utmKeys.map((k) => flatValue(utm[k]));
+  });
+}
+
+// Spreadsheet apps evaluate a cell starting with one of these as a formula (CSV injection).
+const FORMULA_START_RE = /^[=+\-@\t\r]/;
+
+export function csvCell(v: FlatValue): string {
+  if (v === null) return "";
+  let s = String(v);
+  if (typeof v === "string" && FORMULA_START_RE.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function csvLine(values: readonly FlatValue[]): string {
+  return `${values.map(csvCell).join(",")}\r\n`;
+}
+
+/** The selected columns with their values as stored: utm, coach_intents and the JSON columns keep their structure. */
+export function ndjsonLine(row: Record<string, unknown>, columns: readonly ExportColumn[]): string {
+  return `${JSON.stringify(Object.fromEntries(columns.map((c) => [c, row[c] ?? null])))}\n`;
+}
@@ -0,0 +1,226 @@
+// supabase/functions/coach-waitlist-export/handler.ts
+//
+// The lead export handler, separated from the Deno.serve entrypoint (./index.ts)
+// like coach-waitlist-signup: env, the Supabase client and the clock come in
+// through ExportDeps. See ../tests/ for usage.
+
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, download, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import {
+  EXPORT_COLUMNS,
+  type ExportColumn,
+  type ExportErrorResponse,
+  type ExportFormat,
+  type ExportRequest,
+} from "../_shared/exportContract.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireTeamMember } from "../_shared/teamAuth.ts";
+import { csvLine, flattenLead, headerFor, ndjsonLine, utmKeysFor } from "./format.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type ExportDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  /** Epoch ms; the download's file name. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, wall clock. */
+export function defaultDeps(): ExportDeps {
+  return { env: getEnv, createAdminClient, now: Date.now };
+}
+
+const LEADS_TABLE = "leads_coach_waitlist";
+
+// PostgREST's default max rows per request.
+export const EXPORT_PAGE_SIZE = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Untrusted body; checked field by field in parseRequest.
+type RawExportRequest = { format?: unknown; from?: unknown; to?: unknown; source?: unknown; columns?: unknown };
+
+type ParsedExport = {
+  format: ExportFormat;
+  from: string | null;
+  to: string | null;
+  source: string | null;
+  columns: ExportColumn[];
+};
+
+function json(body: ExportErrorResponse, status: number, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+function parseTimestamp(v: unknown): string | null | undefined {
+  if (v === undefined || v === null || v === "") return null;
+  const ms = typeof v === "string" ? Date.parse(v) : Number.NaN;
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/** The validated request, or the name of the first field that's wrong. */
+function parseRequest(raw: RawExportRequest): ParsedExport | { field: keyof ExportRequest } {
+  const format = raw.format ?? "csv";
+  if (format !== "csv" && format !== "ndjson") return { field: "format" };
+
+  const from = parseTimestamp(raw.from);
+  if (from === undefined) return { field: "from" };
+  const to = parseTimestamp(raw.to);
+  if (to === undefined) return { field: "to" };
+
+  let source: string | null = null;
+  if (raw.source !== undefined && raw.source !== null && raw.source !== "") {
+    if (typeof raw.source !== "string" || raw.source.length > 64) return { field: "source" };
+    source = raw.source.trim();
+  }
+
+  let columns: ExportColumn[] = [...EXPORT_COLUMNS];
+  if (raw.columns !== undefined) {
+    const picked = raw.columns;
+    if (!Array.isArray(picked) || picked.length === 0) return { field: "columns" };
+    if (picked.some((c) => !(EXPORT_COLUMNS as readonly unknown[]).includes(c))) return { field: "columns" };
+    // Output order is always EXPORT_COLUMNS order, whatever order they were ticked in.
+    columns = EXPORT_COLUMNS.filter((c) => picked.includes(c));
+  }
+
+  return { format, from, to, source, columns };
+}
+
+function selectPage(admin: AdminClient, select: string, req: ParsedExport, offset: number) {
+  let q = admin.from(LEADS_TABLE).select(select);
+  if (req.from) q = q.gte("created_at", req.from);
+  if (req.to) q = q.lt("created_at", req.to);
+  if (req.source) q = q.eq("source", req.source);
+  return q
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+}
+
+type Page = { rows: Record<string, unknown>[]; error: unknown };
+
+async function fetchPage(admin: AdminClient, select: string, req: ParsedExport, offset: number): Promise<Page> {
+  const { data, error } = await selectPage(admin, select, req, offset);
+  return { rows: Array.isArray(data) ? (data as Record<string, unknown>[]) : [], error };
+}
+
+/** Every UTM key used in the range, so the CSV header can be written before the first row. */
+async function collectUtmKeys(admin: AdminClient, req: ParsedExport): Promise<{ keys: string[] } | { error: unknown }> {
+  const seen = new Set<string>();
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const page = await fetchPage(admin, "utm", req, offset);
+    if (page.error) return { error: page.error };
+    for (const row of page.rows) {
+      if (row.utm && typeof row.utm === "object") for (const k of Object.keys(row.utm)) seen.add(k);
+    }
+    if (page.rows.length < EXPORT_PAGE_SIZE) return { keys: utmKeysFor(seen) };
+  }
+}
+
+export async function handle(req: Request, deps: ExportDeps): Promise<Response> {
+  const { env } = deps;
+
+  // Same allowlist as the signup form (ALLOWED_ORIGINS, see ../_shared/http.ts)
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  let raw: RawExportRequest | null = null;
+  try {
+    raw = (await req.json()) as RawExportRequest | null;
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  const parsed = parseRequest(raw ?? {});
+  if ("field" in parsed) {
+    return json({ ok: false, error: "invalid_body", field: parsed.field }, 400, cors);
+  }
+
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+  const admin = await deps.createAdminClient();
+
+  const auth = await requireTeamMember(admin, req.headers);
+  if (!auth.ok) {
+    return json({ ok: false, error: auth.error }, auth.status, cors);
+  }
+
+  // Only CSV spreads utm over columns; NDJSON keeps it an object.
+  let utmKeys: string[] = [];
+  if (parsed.format === "csv" && parsed.columns.includes("utm")) {
+    const collected = await collectUtmKeys(admin, parsed);
+    if ("error" in collected) {
+      console.error("[coach-waitlist-export] utm scan error", { requestId, error: collected.error });
+      return json({ ok: false, error: "db_select_failed" }, 500, cors);
+    }
+    utmKeys = collected.keys;
+  }
+
+  // Fetch the first page up front so a failing query is still a clean 500, not a cut-off file.
+  const select = parsed.columns.join(", ");
+  const first = await fetchPage(admin, select, parsed, 0);
+  if (first.error) {
+    console.error("[coach-waitlist-export] select error", { requestId, error: first.error });
+    return json({ ok: false, error: "db_select_failed" }, 500, cors);
+  }
+
+  const header = headerFor(parsed.columns, utmKeys);
+  const encode = (row: Record<string, unknown>) =>
+    parsed.format === "csv" ? csvLine(flattenLead(row, parsed.columns, utmKeys)) : ndjsonLine(row, parsed.columns);
+
+  console.log("[coach-waitlist-export] export started", {
+    requestId,
+    by: auth.email,
+    format: parsed.format,
+    columns: parsed.columns.length,
+    from: parsed.from,
+    to: parsed.to,
+    source: parsed.source,
+  });
+
+  // One page per pull: memory stays at a page however many leads there are.
+  const encoder = new TextEncoder();
+  let page = first;
+  let offset = 0;
+  let rowCount = 0;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (parsed.format === "csv") controller.enqueue(encoder.encode(csvLine(header)));
+    },
+    async pull(controller) {
+      controller.enqueue(encoder.encode(page.rows.map(encode).join("")));
+      rowCount += page.rows.length;
+
+      if (page.rows.length < EXPORT_PAGE_SIZE) {
+        console.log("[coach-waitlist-export] export finished", { requestId, rows: rowCount });
+        controller.close();
+        return;
+      }
+
+      offset += EXPORT_PAGE_SIZE;
+      page = await fetchPage(admin, select, parsed, offset);
+      if (page.error) {
+        // Headers are gone already; aborting the stream is the only signal left.
+        console.error("[coach-waitlist-export] select error mid-stream", { requestId, offset, error: page.error });
+        controller.error(new Error("db_select_failed"));
+      }
+    },
+  });
+
+  const day = new Date(deps.now()).toISOString().slice(0, 10);
+  return download(body, CONTENT_TYPES[parsed.format], `lungeable-leads-${day}.${parsed.format}`, cors);
+}
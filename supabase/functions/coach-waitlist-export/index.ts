@@ -0,0 +1,37 @@
+// supabase/functions/coach-waitlist-export/index.ts
+//
+// Lead export for the team (the /admin dashboard's "Export" button). Streams
+// public.leads_coach_waitlist as CSV or NDJSON:
+// - { format?: "csv" | "ndjson", from?, to?, source?, columns?: ExportColumn[] }
+//     → the file (Content-Disposition: attachment), oldest lead first
+// `from` / `to` bound created_at (`to` exclusive); `columns` picks from EXPORT_COLUMNS.
+// In CSV "utm" becomes one column per key (utm_source, utm_medium, ...) and cells that
+// would run as spreadsheet formulas are prefixed with "'" (RFC 4180, ./format.ts);
+// NDJSON keeps utm, coach_intents and the other JSON columns structured.
+// Contract: ExportRequest / ExportErrorResponse in ../_shared/exportContract.ts.
+//
+// Security model:
+// - config.toml sets verify_jwt = false; the handler checks the caller itself
+// - Authorization: Bearer <Supabase Auth access token> of a user whose email is in
+//   public.admin_team_members (../_shared/teamAuth.ts), else 401 / 403
+// - CORS restricts allowed origins (browser protection; ALLOWED_ORIGINS, see ../_shared/http.ts)
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-waitlist-export] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,168 @@
+// supabase/functions/coach-waitlist-profile/handler.ts
+//
+// The profile request handler, separated from the Deno.serve entrypoint (./index.ts)
+// like coach-waitlist-signup: env, the Supabase client and the clock come in
+// through ProfileDeps. See ../tests/ for usage.
+
+import { normalizeEmailForDedup } from "../_shared/emailValidation.ts";
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import {
+  PROFILE_FIELDS,
+  validateProfileUpdate,
+  type LeadProfile,
+  type ProfileField,
+  type ProfileResponse,
+} from "../_shared/signupSchema.ts";
+import { verifyToken } from "../_shared/signedToken.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type ProfileDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  /** Epoch ms; token expiry and profile_updated_at. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, wall clock. */
+export function defaultDeps(): ProfileDeps {
+  return { env: getEnv, createAdminClient, now: Date.now };
+}
+
+const LEADS_TABLE = "leads_coach_waitlist";
+const CHANGES_TABLE = "lead_profile_changes";
+
+// Untrusted body; `profile` is checked by validateProfileUpdate.
+type RawProfileRequest = { token?: unknown; action?: unknown; profile?: unknown };
+
+type ProfileChanges = Partial<Record<ProfileField, { from: unknown; to: unknown }>>;
+
+function json(body: ProfileResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+function toProfile(row: Record<string, unknown>): LeadProfile {
+  const str = (v: unknown) => (typeof v === "string" && v ? v : null);
+  return {
+    name: str(row.name),
+    primary_focus: str(row.primary_focus) as LeadProfile["primary_focus"],
+    coach_intents: (Array.isArray(row.coach_intents) ? row.coach_intents : []) as LeadProfile["coach_intents"],
+    presence: str(row.presence),
+    notes: str(row.notes),
+  };
+}
+
+/** Field-by-field diff; only keys present in `update` are compared. */
+function diffProfile(current: LeadProfile, update: Partial<LeadProfile>): ProfileChanges {
+  const changes: ProfileChanges = {};
+  for (const field of PROFILE_FIELDS) {
+    if (!(field in update)) continue;
+    const from = current[field];
+    const to = update[field];
+    if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) changes[field] = { from, to };
+  }
+  return changes;
+}
+
+export async function handle(req: Request, deps: ProfileDeps): Promise<Response> {
+  const { env } = deps;
+
+  // Same allowlist as the signup form (ALLOWED_ORIGINS, see ../_shared/http.ts)
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  // Read up front: a deploy without it answers every request with the same JSON error.
+  const tokenSecret = env("WAITLIST_TOKEN_SECRET");
+  if (!tokenSecret) {
+    console.error("[coach-waitlist-profile] WAITLIST_TOKEN_SECRET is not set");
+    return json({ ok: false, error: "server_misconfigured" }, 500, cors);
+  }
+
+  let raw: RawProfileRequest | null = null;
+  try {
+    raw = (await req.json()) as RawProfileRequest | null;
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  const token = typeof raw?.token === "string" ? raw.token.trim() : "";
+  if (!token) {
+    return json({ ok: false, error: "missing_token" }, 400, cors);
+  }
+
+  const verified = await verifyToken(token, tokenSecret, "profile", deps.now());
+  if (!verified.ok) {
+    return json({ ok: false, error: verified.reason === "expired" ? "expired_token" : "invalid_token" }, 400, cors);
+  }
+
+  const email = verified.payload.sub;
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+  const admin = await deps.createAdminClient();
+
+  // Found by the dedup key like the signup, so "alex+x@gmail.com" reaches "alex@gmail.com".
+  const { data: lead, error: selErr } = await admin
+    .from(LEADS_TABLE)
+    .select(`id, email, ${PROFILE_FIELDS.join(", ")}`)
+    .eq("email_normalized", normalizeEmailForDedup(email))
+    .limit(1)
+    .maybeSingle();
+
+  if (selErr) {
+    console.error("[coach-waitlist-profile] select error", { requestId, error: selErr });
+    return json({ ok: false, error: "db_select_failed" }, 500, cors);
+  }
+  if (!lead) {
+    return json({ ok: false, error: "not_found" }, 404, cors);
+  }
+
+  const current = toProfile(lead);
+
+  if (raw?.action !== "save") {
+    return json({ ok: true, email, profile: current }, 200, cors);
+  }
+
+  const validation = validateProfileUpdate(raw.profile);
+  if (!validation.ok) {
+    return json({ ok: false, error: "invalid_body", field_errors: validation.field_errors }, 400, cors);
+  }
+
+  const changes = diffProfile(current, validation.value);
+  const changed = Object.keys(changes) as ProfileField[];
+  if (!changed.length) {
+    return json({ ok: true, email, profile: current, changed }, 200, cors);
+  }
+
+  const patch: Record<string, unknown> = { profile_updated_at: new Date(deps.now()).toISOString() };
+  for (const field of changed) patch[field] = validation.value[field];
+
+  const { error: updErr } = await admin.from(LEADS_TABLE).update(patch).eq("id", lead.id);
+  if (updErr) {
+    console.error("[coach-waitlist-profile] update error", { requestId, error: updErr });
+    return json({ ok: false, error: "db_update_failed" }, 500, cors);
+  }
+
+  // Audit trail: one row per save. The update already went through, so a failure
+  // here is logged loudly rather than reported to the coach.
+  const { error: auditErr } = await admin
+    .from(CHANGES_TABLE)
+    .insert({ lead_id: lead.id, changes, source: "profile_link", request_id: requestId });
+  if (auditErr) {
+    console.error("[coach-waitlist-profile] audit insert error", { requestId, leadId: lead.id, changes, error: auditErr });
+  }
+
+  console.log("[coach-waitlist-profile] profile updated", { requestId, leadId: lead.id, changed });
+  return json({ ok: true, email, profile: { ...current, ...validation.value }, changed }, 200, cors);
+}
@@ -0,0 +1,37 @@
+// supabase/functions/coach-waitlist-profile/index.ts
+//
+// "Complete your profile" endpoint for the coach waitlist.
+// The welcome email links to the site's /profile route with a signed, expiring
+// token (../_shared/profileLink.ts); that page POSTs here to:
+// - { token, action: "load" }              → current name / focus / goals / presence / notes
+// - { token, action: "save", profile: {} } → merge the changes into the lead
+// Every save that changes something is recorded in public.lead_profile_changes
+// ({ field: { from, to } }) and stamps profile_updated_at.
+// Contract: ProfileRequest / ProfileResponse in ../_shared/signupSchema.ts.
+//
+// Security model:
+// - config.toml sets verify_jwt = false
+// - CORS restricts allowed origins (browser protection; ALLOWED_ORIGINS, see ../_shared/http.ts)
+// - Token is HMAC-signed with WAITLIST_TOKEN_SECRET, purpose "profile" (a confirm
+//   link can't be replayed here), and only ever touches the lead it was issued for
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_TOKEN_SECRET
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-waitlist-profile] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,107 @@
+// supabase/functions/coach-waitlist-signup/confirmation.ts
+//
+// Double opt-in: builds + sends the "confirm your email" message for a pending lead.
+// The link points at the site's /confirm route, which calls coach-waitlist-confirm.
+//
+// Env:
+// - WAITLIST_TOKEN_SECRET (required for confirmation links)
+// - EMAIL_PROVIDER + its credentials (see ../_shared/email/index.ts)
+// - WAITLIST_CONFIRM_FROM (optional; falls back to WAITLIST_NOTIFY_FROM)
+// - SITE_URL (optional; default https://lungeable.com)
+// - WAITLIST_CONFIRM_TTL_HOURS (optional; default 72)
+//
+// Like every coach-facing email it carries List-Unsubscribe headers and an
+// unsubscribe link (../_shared/unsubscribe.ts).
+
+import type { EnvReader } from "../_shared/env.ts";
+import { getEmailProvider } from "../_shared/email/index.ts";
+import { renderEmail, type RenderedEmail } from "../_shared/email/template.ts";
+import { signToken } from "../_shared/signedToken.ts";
+import { buildUnsubscribeLinks, withUnsubscribeHeaders } from "../_shared/unsubscribe.ts";
+
+/** Injected by the handler (./handler.ts) so tests control env, network and clock. */
+export type ConfirmationContext = {
+  env: EnvReader;
+  fetch: typeof fetch;
+  nowMs: number;
+};
+
+export type ConfirmationResult =
+  | { sent: true }
+  | { sent: false; reason: "not_configured" | "send_failed" };
+
+function parseTtlSeconds(env: EnvReader): number {
+  const hours = Number.parseInt(env("WAITLIST_CONFIRM_TTL_HOURS") || "", 10);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * 3600;
+}
+
+function buildConfirmUrl(siteUrl: string, token: string): string {
+  const u = new URL("/confirm", siteUrl);
+  u.searchParams.set("token", token);
+  return u.toString();
+}
+
+function buildConfirmEmail(confirmUrl: string, ttlHours: number, unsubscribeUrl?: string): RenderedEmail {
+  return {
+    subject: "Confirm your email for Lungeable coach access",
+    ...renderEmail({
+      title: "Confirm your email",
+      preheader: "One click to get trial access + setup details.",
+      blocks: [
+        { type: "paragraph", text: "Thanks for signing up for the Lungeable coach beta." },
+        { type: "paragraph", text: "Confirm your email to get trial access + setup details:" },
+        { type: "button", label: "Confirm my email", href: confirmUrl },
+        { type: "paragraph", text: `This link expires in ${ttlHours} hours. If you didn't sign up, ignore this email.` },
+      ],
+      unsubscribeUrl,
+    }),
+  };
+}
+
+/**
+ * Issue a signed, expiring token for `email` and email the confirmation link.
+ * Never throws: a failed send leaves the lead pending (they can sign up again to resend).
+ */
+export async function sendConfirmationEmail(
+  email: string,
+  requestId: string,
+  ctx: ConfirmationContext,
+): Promise<ConfirmationResult> {
+  const { env } = ctx;
+  const secret = env("WAITLIST_TOKEN_SECRET");
+  const from = (env("WAITLIST_CONFIRM_FROM") || env("WAITLIST_NOTIFY_FROM") || "").trim();
+
+  if (!secret || !from) {
+    console.error("[coach-waitlist-signup] confirmation email not configured", { requestId });
+    return { sent: false, reason: "not_configured" };
+  }
+
+  try {
+    const ttlSeconds = parseTtlSeconds(env);
+    const token = await signToken({ sub: email, purpose: "confirm", ttlSeconds }, secret, ctx.nowMs);
+    const siteUrl = (env("SITE_URL") || "https://lungeable.com").trim();
+    const unsubscribe = await buildUnsubscribeLinks(email, env, ctx.nowMs);
+    const { subject, text, html } = buildConfirmEmail(
+      buildConfirmUrl(siteUrl, token),
+      ttlSeconds / 3600,
+      unsubscribe?.pageUrl,
+    );
+
+    const r = await getEmailProvider(env, ctx.fetch).send(
+      withUnsubscribeHeaders({ from, to: [email], subject, text, html, idempotencyKey: requestId }, unsubscribe),
+    );
+    if (!r.ok) {
+      console.error("[coach-waitlist-signup] confirmation email failed", {
+        requestId,
+        provider: r.provider,
+        status: r.status,
+        error: r.error,
+      });
+      return { sent: false, reason: "send_failed" };
+    }
+    return { sent: true };
+  } catch (e) {
+    console.error("[coach-waitlist-signup] confirmation email error", { requestId, error: String(e) });
+    return { sent: false, reason: "send_failed" };
+  }
+}
@@ -0,0 +1,233 @@
+// supabase/functions/coach-waitlist-signup/handler.ts
+//
+// The signup request handler, separated from the Deno.serve entrypoint (./index.ts)
+// so it can be imported and driven directly. Everything that touches the outside
+// world comes in through SignupDeps: env, the Supabase client, fetch (email
+// providers), the Turnstile verifier and the clock. See ../tests/ for usage.
+
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, getClientIp, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import {
+  MARKETING_CONSENT_TEXTS,
+  readHoneypot,
+  validateSignupBody,
+  type SignupResponse,
+  type ValidatedSignup,
+} from "../_shared/signupSchema.ts";
+import { parseLeadScoreWeights, scoreLead } from "../_shared/leadScore.ts";
+import { checkRateLimits, getRateLimitConfig } from "../_shared/rateLimit/index.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { sendConfirmationEmail } from "./confirmation.ts";
+import { createTurnstileVerifier, type TurnstileVerifier } from "./turnstile.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type SignupDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  verifyTurnstile: TurnstileVerifier;
+  /** Epoch ms; drives rate-limit windows and confirmation-link expiry. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): SignupDeps {
+  return {
+    env: getEnv,
+    createAdminClient,
+    fetch,
+    verifyTurnstile: createTurnstileVerifier(fetch),
+    now: Date.now,
+  };
+}
+
+function json(body: SignupResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+/**
+ * Append the signup's consent decision to public.lead_consents (immutable audit
+ * trail). Only when the form sent a consent_text_version, i.e. it showed the
+ * checkbox; older bundles have nothing to record. Never throws.
+ */
+async function recordConsent(
+  admin: AdminClient,
+  leadId: string,
+  body: ValidatedSignup,
+  requestId: string,
+): Promise<void> {
+  if (!body.consent_text_version) return;
+
+  const { error } = await admin.from("lead_consents").insert({
+    lead_id: leadId,
+    marketing_consent: body.marketing_consent,
+    email_preference: body.email_preference,
+    consent_text_version: body.consent_text_version,
+    consent_text: MARKETING_CONSENT_TEXTS[body.consent_text_version] ?? null,
+    consented_at: body.consent_at,
+    site_version: body.site_version,
+    source: "signup",
+    user_agent: body.user_agent,
+    request_id: requestId,
+  });
+  if (error) {
+    console.error("[coach-waitlist-signup] consent record insert error", {
+      requestId,
+      leadId,
+      marketingConsent: body.marketing_consent,
+      error,
+    });
+  }
+}
+
+export async function handle(req: Request, deps: SignupDeps): Promise<Response> {
+  const { env } = deps;
+
+  // Allowlist from ALLOWED_ORIGINS (see ../_shared/http.ts)
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  // Browser-origin restriction (helps prevent other websites from using your endpoint in-browser)
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  // Parse JSON
+  let raw: unknown = null;
+  try {
+    raw = await req.json();
+  } catch {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  // Honeypot: if filled, pretend success but do nothing
+  if (readHoneypot(raw).length > 0) {
+    return json({ ok: true, dropped: true }, 200, cors);
+  }
+
+  // Shared contract (see ../_shared/signupSchema.ts); the form renders field_errors inline.
+  const validation = validateSignupBody(raw, {
+    extraDisposableDomains: (env("EXTRA_DISPOSABLE_DOMAINS") || "").split(",").filter((d) => d.trim()),
+  });
+  if (!validation.ok) {
+    return json(
+      { ok: false, error: "invalid_body", field_errors: validation.field_errors, did_you_mean: validation.did_you_mean },
+      400,
+      cors,
+    );
+  }
+  const body = validation.value;
+  const email = body.email;
+
+  // ---- Turnstile verification (optional but recommended) ----
+  // If TURNSTILE_SECRET_KEY is set, we require a token and verify it.
+  const turnstileSecret = env("TURNSTILE_SECRET_KEY");
+  if (turnstileSecret) {
+    const token = body.turnstile_token;
+    if (!token) {
+      return json({ ok: false, error: "missing_turnstile_token" }, 400, cors);
+    }
+
+    const result = await deps.verifyTurnstile({ secret: turnstileSecret, token, ip: getClientIp(req.headers) });
+    if (!result.success) {
+      return json({ ok: false, error: "turnstile_failed", details: result.errorCodes }, 400, cors);
+    }
+  }
+
+  // Create admin client using service role (server-side only!)
+  const admin = await deps.createAdminClient();
+
+  // ---- Rate limit ----
+  // Per IP, per email and per subnet; backends, limits and fail-open/closed come
+  // from env (see ../_shared/rateLimit/index.ts). Without the SQL RPC it falls
+  // back to an in-memory window instead of not limiting at all.
+  const rl = await checkRateLimits(
+    admin,
+    { ip: getClientIp(req.headers), email: body.email_normalized },
+    getRateLimitConfig(env),
+    deps.now(),
+  );
+  if (!rl.allowed) {
+    if (rl.reason === "unavailable") {
+      return json({ ok: false, error: "rate_limit_unavailable" }, 503, cors);
+    }
+    return json({ ok: false, error: "rate_limited", reset_at: rl.resetAt }, 429, cors);
+  }
+
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+
+  const { score, reasons: scoreReasons } = scoreLead(body, parseLeadScoreWeights(env("LEAD_SCORE_WEIGHTS")));
+
+  // Insert (service role bypasses RLS)
+  const payload = {
+    email,
+    email_normalized: body.email_normalized,
+    name: body.name,
+    primary_focus: body.primary_focus,
+    client_count: body.client_count,
+    coach_intents: body.coach_intents,
+    presence: body.presence,
+    notes: body.notes,
+    source: body.source ?? "coach-landing",
+    site_version: body.site_version,
+    utm: body.utm,
+    user_agent: body.user_agent ?? req.headers.get("user-agent"),
+    referer: body.referer ?? req.headers.get("referer"),
+    first_touch: body.first_touch,
+    last_touch: body.last_touch,
+    experiments: body.experiments,
+    status: "pending",
+    marketing_consent: body.marketing_consent,
+    email_preference: body.email_preference,
+    score,
+    score_reasons: scoreReasons,
+  };
+
+  const confirmationCtx = { env, fetch: deps.fetch, nowMs: deps.now() };
+
+  const { data: inserted, error: insErr } = await admin
+    .from("leads_coach_waitlist")
+    .insert(payload)
+    .select("id")
+    .maybeSingle();
+
+  // If email already exists, treat as soft success. Its consent state stays as it
+  // was: this submission isn't verified to come from the address owner.
+  // Unique on email_normalized too, so "coach+x@gmail.com" matches "coach@gmail.com".
+  // Still-pending leads get a fresh confirmation link (e.g. they lost the first email),
+  // sent to the address on file — that's what the confirm token is keyed by.
+  if (insErr?.code === "23505") {
+    const { data: existing } = await admin
+      .from("leads_coach_waitlist")
+      .select("email, status")
+      .eq("email_normalized", body.email_normalized)
+      .limit(1)
+      .maybeSingle();
+
+    if (existing?.status === "pending") {
+      const confirmation = await sendConfirmationEmail(existing.email || email, requestId, confirmationCtx);
+      return json({ ok: true, alreadyOnList: true, confirmationSent: confirmation.sent }, 200, cors);
+    }
+
+    return json({ ok: true, alreadyOnList: true }, 200, cors);
+  }
+
+  if (insErr) {
+    console.error("[coach-waitlist-signup] insert error", insErr);
+    return json({ ok: false, error: "db_insert_failed" }, 500, cors);
+  }
+
+  if (inserted?.id) await recordConsent(admin, String(inserted.id), body, requestId);
+
+  const confirmation = await sendConfirmationEmail(email, requestId, confirmationCtx);
+  return json({ ok: true, alreadyOnList: false, confirmationSent: confirmation.sent }, 200, cors);
+}
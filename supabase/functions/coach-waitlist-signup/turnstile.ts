@@ -0,0 +1,32 @@
+// supabase/functions/coach-waitlist-signup/turnstile.ts
+//
+// Cloudflare Turnstile server-side verification
+// (https://developers.cloudflare.com/turnstile/get-started/server-side-validation/).
+// A separate seam so handler tests can stub pass/fail without faking Cloudflare.
+
+export type TurnstileResult = { success: boolean; errorCodes: string[] };
+
+export type TurnstileVerifier = (input: {
+  secret: string;
+  token: string;
+  ip: string | null;
+}) => Promise<TurnstileResult>;
+
+const SITEVERIFY_URL = "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+export function createTurnstileVerifier(fetchImpl: typeof fetch = fetch): TurnstileVerifier {
+  return async ({ secret, token, ip }) => {
+    const form = new FormData();
+    form.append("secret", secret);
+    form.append("response", token);
+    if (ip) form.append("remoteip", ip);
+
+    const resp = await fetchImpl(SITEVERIFY_URL, { method: "POST", body: form });
+
+    const result = (await resp.json().catch(() => null)) as
+      | { success?: boolean; ["error-codes"]?: string[] }
+      | null;
+
+    return { success: !!result?.success, errorCodes: result?.["error-codes"] ?? [] };
+  };
+}
@@ -0,0 +1,130 @@
+// supabase/functions/coach-waitlist-unsubscribe/handler.ts
+//
+// The unsubscribe request handler, separated from the Deno.serve entrypoint
+// (./index.ts) like coach-waitlist-profile: env, the Supabase client and the clock
+// come in through UnsubscribeDeps. See ../tests/ for usage.
+
+import { normalizeEmailForDedup } from "../_shared/emailValidation.ts";
+import { getEnv, type EnvReader } from "../_shared/env.ts";
+import { checkOrigin, corsPreflight, json as sendJson, text, type CorsCheck } from "../_shared/http.ts";
+import type { UnsubscribeResponse } from "../_shared/signupSchema.ts";
+import { verifyToken } from "../_shared/signedToken.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type UnsubscribeDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  /** Epoch ms; token expiry and unsubscribed_at. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, wall clock. */
+export function defaultDeps(): UnsubscribeDeps {
+  return { env: getEnv, createAdminClient, now: Date.now };
+}
+
+function json(body: UnsubscribeResponse, status = 200, cors?: CorsCheck): Response {
+  return sendJson(body, status, cors);
+}
+
+/**
+ * Where the token came from. RFC 8058 one-click POSTs carry it in the URL we put in
+ * List-Unsubscribe (body "List-Unsubscribe=One-Click"); the /unsubscribe page sends JSON.
+ */
+async function readToken(req: Request): Promise<{ oneClick: boolean; token: string } | null> {
+  const fromUrl = new URL(req.url).searchParams.get("token");
+  if (fromUrl) return { oneClick: true, token: fromUrl.trim() };
+
+  try {
+    const raw = (await req.json()) as { token?: unknown } | null;
+    return { oneClick: false, token: typeof raw?.token === "string" ? raw.token.trim() : "" };
+  } catch {
+    return null;
+  }
+}
+
+export async function handle(req: Request, deps: UnsubscribeDeps): Promise<Response> {
+  const { env } = deps;
+
+  const cors = checkOrigin(req.headers.get("origin"), env);
+
+  if (req.method === "OPTIONS") {
+    return corsPreflight(cors);
+  }
+
+  // Never unsubscribe on GET: scanners and link previews fetch these URLs.
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405, cors);
+  }
+
+  if (!cors.allowed) {
+    return text("Forbidden", 403, cors);
+  }
+
+  // Read up front: a deploy without it answers every request with the same JSON error.
+  const tokenSecret = env("WAITLIST_TOKEN_SECRET");
+  if (!tokenSecret) {
+    console.error("[coach-waitlist-unsubscribe] WAITLIST_TOKEN_SECRET is not set");
+    return json({ ok: false, error: "server_misconfigured" }, 500, cors);
+  }
+
+  const input = await readToken(req);
+  if (!input) {
+    return json({ ok: false, error: "invalid_json" }, 400, cors);
+  }
+
+  // Mail clients only look at the status code, so one-click gets plain text.
+  const reply = (body: UnsubscribeResponse, status = 200) =>
+    input.oneClick ? text(body.ok ? "Unsubscribed" : body.error, status, cors) : json(body, status, cors);
+
+  if (!input.token) {
+    return reply({ ok: false, error: "missing_token" }, 400);
+  }
+
+  const verified = await verifyToken(input.token, tokenSecret, "unsubscribe", deps.now());
+  if (!verified.ok) {
+    return reply({ ok: false, error: verified.reason === "expired" ? "expired_token" : "invalid_token" }, 400);
+  }
+
+  const email = verified.payload.sub;
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+  const admin = await deps.createAdminClient();
+
+  // Only the first unsubscribe stamps the row; repeats (and erased leads) are a no-op.
+  // Matched by the dedup key: a link mailed to "alex+x@gmail.com" reaches "alex@gmail.com".
+  const { data: updated, error: updErr } = await admin
+    .from("leads_coach_waitlist")
+    .update({ unsubscribed_at: new Date(deps.now()).toISOString(), marketing_consent: false })
+    .eq("email_normalized", normalizeEmailForDedup(email))
+    .is("unsubscribed_at", null)
+    .select("id");
+
+  if (updErr) {
+    console.error("[coach-waitlist-unsubscribe] update error", { requestId, error: updErr });
+    return reply({ ok: false, error: "db_update_failed" }, 500);
+  }
+
+  const rows = (Array.isArray(updated) ? updated : []) as { id: string }[];
+  const alreadyUnsubscribed = rows.length === 0;
+
+  // A withdrawal is a consent decision too: append it to the audit trail.
+  if (!alreadyUnsubscribed) {
+    const { error: consentErr } = await admin.from("lead_consents").insert(
+      rows.map((r) => ({
+        lead_id: r.id,
+        marketing_consent: false,
+        consented_at: new Date(deps.now()).toISOString(),
+        source: input.oneClick ? "list_unsubscribe" : "unsubscribe_page",
+        request_id: requestId,
+      })),
+    );
+    if (consentErr) {
+      console.error("[coach-waitlist-unsubscribe] consent record insert error", { requestId, error: consentErr });
+    }
+  }
+
+  console.log("[coach-waitlist-unsubscribe] unsubscribed", { requestId, oneClick: input.oneClick, alreadyUnsubscribed });
+  return reply({ ok: true, alreadyUnsubscribed });
+}
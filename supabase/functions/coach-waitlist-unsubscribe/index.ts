@@ -0,0 +1,36 @@
+// supabase/functions/coach-waitlist-unsubscribe/index.ts
+//
+// Unsubscribe endpoint for coach-facing email. Every such email carries a signed,
+// long-lived token (purpose "unsubscribe", ../_shared/unsubscribe.ts) in two places:
+// - List-Unsubscribe / List-Unsubscribe-Post headers (RFC 8058): the mail client
+//   POSTs "List-Unsubscribe=One-Click" to this function with ?token= in the URL
+// - a link in the body to the site's /unsubscribe route, which POSTs { token } here
+// Either way the lead gets unsubscribed_at (and marketing_consent false, with a
+// withdrawal row in lead_consents); the welcome email and outbox retries skip those leads. GET never unsubscribes (link scanners prefetch GETs).
+//
+// Security model:
+// - config.toml sets verify_jwt = false (mail clients can't send a JWT)
+// - CORS restricts browser origins (ALLOWED_ORIGINS, see ../_shared/http.ts); one-click
+//   POSTs come from mail servers without an Origin header
+// - Token is HMAC-signed with WAITLIST_TOKEN_SECRET and only touches its own lead
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_TOKEN_SECRET
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[coach-waitlist-unsubscribe] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,469 @@
+// supabase/functions/notify-coach-waitlist/handler.ts
+//
+// The webhook handler, separated from the Deno.serve entrypoint (./index.ts) so it
+// can be imported and driven directly. Env, the Supabase client (outbox, CRM sync
+// state), fetch (email providers, chat channels, CRM) and the clock all come in
+// through NotifyDeps.
+// See ../tests/ for usage.
+
+import { extractLeadSummary, fanOut, getEnabledChannels } from "../_shared/channels/index.ts";
+import { syncLeadToCrm, type CrmSyncResult } from "../_shared/crm/index.ts";
+import { getNotifyMode, shouldAlertInstantly } from "../_shared/digestConfig.ts";
+import {
+  getEmailProvider,
+  getTeamRecipients,
+  type EmailMessage,
+  type EmailProvider,
+  type SendResult,
+} from "../_shared/email/index.ts";
+import { getEnv, mustGetEnv, type EnvReader } from "../_shared/env.ts";
+import { enqueueFailedSend, getOutboxPolicy, type OutboxKind } from "../_shared/outbox.ts";
+import { buildProfileUrl } from "../_shared/profileLink.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { isTombstoned } from "../_shared/tombstone.ts";
+import { buildUnsubscribeLinks, withUnsubscribeHeaders } from "../_shared/unsubscribe.ts";
+import { buildLeadNotificationEmail } from "./leadEmail.ts";
+import { buildWelcomeEmail } from "./welcomeEmail.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type NotifyDeps = {
+  env: EnvReader;
+  /** Erasure tombstone lookup, parking a failed send in the outbox, CRM sync state. */
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; health check time and outbox retry scheduling. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): NotifyDeps {
+  return { env: getEnv, createAdminClient, fetch, now: Date.now };
+}
+
+type WebhookPayload = {
+  type?: string; // e.g. "INSERT"
+  schema?: string; // e.g. "public"
+  table?: string; // e.g. "leads_coach_waitlist"
+  record?: Record<string, unknown> | null;
+  old_record?: Record<string, unknown> | null;
+};
+
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-webhook-secret",
+  "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+};
+
+function asText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "string") return v;
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200, extraHeaders?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS,
+      ...(extraHeaders || {}),
+    },
+  });
+}
+
+function textResponse(body: string, status = 200, extraHeaders?: Record<string, string>): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      ...CORS_HEADERS,
+      ...(extraHeaders || {}),
+    },
+  });
+}
+
+async function readJsonSafely(req: Request): Promise<unknown | null> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract a "record" from either:
+ *  A) Standard webhook payload { type, schema, table, record }
+ *  B) Direct record body (some people choose to POST row_to_json(NEW) only)
+ */
+function extractRecordAndMeta(body: unknown): {
+  meta?: { type?: string; schema?: string; table?: string };
+  record: Record<string, unknown> | null;
+  oldRecord?: Record<string, unknown> | null;
+} {
+  if (!body || typeof body !== "object") return { record: null };
+
+  const maybePayload = body as WebhookPayload;
+
+  // Standard webhook shape
+  if (maybePayload.record && typeof maybePayload.record === "object") {
+    return {
+      meta: {
+        type: maybePayload.type,
+        schema: maybePayload.schema,
+        table: maybePayload.table,
+      },
+      record: maybePayload.record as Record<string, unknown>,
+      oldRecord: maybePayload.old_record ?? null,
+    };
+  }
+
+  // Fallback: body itself is the record
+  return { record: body as Record<string, unknown> };
+}
+
+/**
+ * Double opt-in gate: only a confirmed lead is worth a team alert.
+ */
+function isConfirmationEvent(
+  type: string,
+  record: Record<string, unknown>,
+  oldRecord: Record<string, unknown> | null | undefined,
+): boolean {
+  const status = asText(record.status).toLowerCase();
+
+  if (type === "UPDATE") {
+    const oldStatus = asText(oldRecord?.status).toLowerCase();
+    return status === "confirmed" && oldStatus !== "confirmed";
+  }
+
+  // INSERT (or a direct record body with no meta)
+  if (!("status" in record)) return true;
+  return status === "confirmed";
+}
+
+function maskEmail(e: string): string {
+  const s = e.trim();
+  const at = s.indexOf("@");
+  if (at <= 1) return "***";
+  return `${s.slice(0, 1)}***${s.slice(at - 1)}`;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const n = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Park a failed send in the outbox so retry-notification-outbox can re-send it.
+ * Never throws; { queued: false } means the send is lost (outbox unavailable).
+ */
+async function parkFailedSend(
+  deps: NotifyDeps,
+  kind: OutboxKind,
+  record: Record<string, unknown>,
+  message: EmailMessage,
+  result: Extract<SendResult, { ok: false }>,
+  requestId: string,
+): Promise<{ queued: boolean; outboxId?: string }> {
+  try {
+    const admin = await deps.createAdminClient();
+    const q = await enqueueFailedSend(
+      admin,
+      {
+        kind,
+        leadId: asText(record.id).trim() || undefined,
+        message,
+        result,
+      },
+      getOutboxPolicy(deps.env),
+      deps.now(),
+    );
+
+    if (!q.queued) {
+      console.error("[notify-coach-waitlist] Outbox enqueue failed", { requestId, kind, error: q.error });
+      return { queued: false };
+    }
+
+    console.warn("[notify-coach-waitlist] Send parked in outbox", { requestId, kind, outboxId: q.id, status: q.status });
+    return { queued: true, outboxId: q.id };
+  } catch (e) {
+    console.error("[notify-coach-waitlist] Outbox error", { requestId, kind, error: String(e) });
+    return { queued: false };
+  }
+}
+
+/** syncLeadToCrm plus a log line when it failed; the result goes back in the response as `crm`. */
+async function syncCrm(deps: NotifyDeps, record: Record<string, unknown>, requestId: string): Promise<CrmSyncResult> {
+  const crm = await syncLeadToCrm(record, deps);
+  if (!crm.synced && !crm.skipped) console.error("[notify-coach-waitlist] CRM sync failed", { requestId, ...crm });
+  return crm;
+}
+
+/**
+ * Send the coach-facing welcome email (see ./welcomeEmail.ts).
+ * Disabled with WELCOME_EMAIL_ENABLED=false; skipped for leads that unsubscribed.
+ */
+async function sendWelcomeEmail(
+  deps: NotifyDeps,
+  provider: EmailProvider,
+  defaultFrom: string,
+  record: Record<string, unknown>,
+  email: string,
+  requestId: string,
+): Promise<{ sent: boolean; skipped?: string; status?: number; queued?: boolean; outboxId?: string }> {
+  const { env } = deps;
+  if ((env("WELCOME_EMAIL_ENABLED") || "true").trim().toLowerCase() === "false") {
+    return { sent: false, skipped: "disabled" };
+  }
+  if (asText(record.unsubscribed_at).trim()) {
+    return { sent: false, skipped: "unsubscribed" };
+  }
+
+  const unsubscribe = await buildUnsubscribeLinks(email, env, deps.now());
+
+  const { subject, text, html } = buildWelcomeEmail(
+    {
+      email,
+      name: asText(record.name).trim(),
+      primaryFocus: asText(record.primary_focus).trim(),
+      clientCount: asText(record.client_count).trim(),
+    },
+    {
+      trialDays: parsePositiveInt(env("TRIAL_DAYS"), 14),
+      trialStarterClients: parsePositiveInt(env("TRIAL_STARTER_CLIENTS"), 3),
+      siteUrl: (env("SITE_URL") || "https://lungeable.com").trim(),
+      supportEmail: (env("SUPPORT_EMAIL") || "support@lungeable.com").trim(),
+      calendlyUrl: (env("CALENDLY_URL") || "https://calendly.com/xuru-lungeable/30min").trim(),
+      profileUrl: (await buildProfileUrl(email, env, deps.now())) ?? undefined,
+      unsubscribeUrl: unsubscribe?.pageUrl,
+    },
+  );
+
+  const from = (env("WELCOME_EMAIL_FROM") || defaultFrom).trim();
+
+  try {
+    // Keyed by lead (not request) so webhook retries don't send a second welcome.
+    const leadKey = asText(record.id).trim() || email.toLowerCase();
+    const message = withUnsubscribeHeaders(
+      { from, to: [email], subject, text, html, idempotencyKey: `welcome:${leadKey}` },
+      unsubscribe,
+    );
+    const r = await provider.send(message);
+
+    if (!r.ok) {
+      console.error("[notify-coach-waitlist] Welcome email failed", {
+        requestId,
+        provider: r.provider,
+        status: r.status,
+        error: r.error,
+      });
+      const parked = await parkFailedSend(deps, "welcome", record, message, r, requestId);
+      return { sent: false, status: r.status, ...parked };
+    }
+
+    console.log("[notify-coach-waitlist] Welcome email sent", { requestId, email: maskEmail(email) });
+    return { sent: true };
+  } catch (e) {
+    console.error("[notify-coach-waitlist] Welcome email error", { requestId, error: String(e) });
+    return { sent: false };
+  }
+}
+
+export async function handle(req: Request, deps: NotifyDeps): Promise<Response> {
+  const { env } = deps;
+
+  // CORS preflight (a 204 can't carry a body, not even "")
+  if (req.method === "OPTIONS") return new Response(null, { status: 204, headers: CORS_HEADERS });
+
+  // Health check (lets you verify deploy without sending email)
+  // If you visit:
+  //   https://<PROJECT_REF>.supabase.co/functions/v1/notify-coach-waitlist
+  // you should see JSON, not 404.
+  if (req.method === "GET") {
+    return jsonResponse({
+      ok: true,
+      function: "notify-coach-waitlist",
+      time: new Date(deps.now()).toISOString(),
+      note:
+        "GET is a health check only. POST requires x-webhook-secret and a JSON payload.",
+    });
+  }
+
+  if (req.method !== "POST") {
+    return textResponse("Method Not Allowed", 405);
+  }
+
+  const requestId =
+    req.headers.get("x-request-id") ||
+    req.headers.get("cf-ray") ||
+    crypto.randomUUID();
+
+  try {
+    // Shared secret header (your pg_net trigger must send this)
+    const sharedSecret = mustGetEnv("WAITLIST_WEBHOOK_SECRET", env);
+    const incomingSecret = req.headers.get("x-webhook-secret");
+
+    if (!incomingSecret || incomingSecret !== sharedSecret) {
+      console.warn("[notify-coach-waitlist] Unauthorized", { requestId });
+      return textResponse("Unauthorized", 401, { "X-Request-Id": requestId });
+    }
+
+    // Parse JSON
+    const body = await readJsonSafely(req);
+    if (!body) {
+      console.warn("[notify-coach-waitlist] Invalid JSON", { requestId });
+      return textResponse("Bad Request (invalid JSON)", 400, { "X-Request-Id": requestId });
+    }
+
+    const { meta, record, oldRecord } = extractRecordAndMeta(body);
+    if (!record) {
+      console.warn("[notify-coach-waitlist] Missing record", { requestId, meta });
+      return textResponse("Bad Request (missing record)", 400, { "X-Request-Id": requestId });
+    }
+
+    // If meta exists, enforce that we only react to INSERT/UPDATE on the exact table.
+    // (This prevents accidental trigger reuse across tables.)
+    const eventType = (meta?.type || "").toUpperCase();
+    if (meta) {
+      const s = (meta.schema || "").toLowerCase();
+      const tb = (meta.table || "").toLowerCase();
+
+      if (eventType && eventType !== "INSERT" && eventType !== "UPDATE") {
+        return jsonResponse({ ok: true, ignored: "not INSERT/UPDATE" }, 202, { "X-Request-Id": requestId });
+      }
+      if (s && s !== "public") return jsonResponse({ ok: true, ignored: "unexpected schema" }, 202, { "X-Request-Id": requestId });
+      if (tb && tb !== "leads_coach_waitlist") {
+        return jsonResponse({ ok: true, ignored: "unexpected table", table: tb }, 202, { "X-Request-Id": requestId });
+      }
+    }
+
+    if (!isConfirmationEvent(eventType, record, oldRecord)) {
+      return jsonResponse({ ok: true, ignored: "not a confirmation" }, 202, { "X-Request-Id": requestId });
+    }
+
+    // Extract fields
+    const email = asText(record.email).trim();
+    if (!email) return textResponse("Bad Request (missing email)", 400, { "X-Request-Id": requestId });
+
+    // A late event for a lead the coach has since erased (coach-waitlist-data) must not
+    // bring the old record back. A fresh signup for the address postdates the tombstone.
+    if (await isTombstoned(await deps.createAdminClient(), email, asText(record.created_at))) {
+      console.warn("[notify-coach-waitlist] erased lead, not notified", { requestId });
+      return jsonResponse({ ok: true, ignored: "erased" }, 202, { "X-Request-Id": requestId });
+    }
+
+    // CRM contact upsert (../_shared/crm) once the lead has confirmed, skipped for leads
+    // without marketing consent or who unsubscribed. Runs alongside the sends below and
+    // never throws; off unless CRM_PROVIDER is set.
+    const crmSync = syncCrm(deps, record, requestId);
+
+    // Email provider (EMAIL_PROVIDER, default resend)
+    const provider = getEmailProvider(env, deps.fetch);
+    const fromEmail = mustGetEnv("WAITLIST_NOTIFY_FROM", env).trim();
+
+    // Digest mode: the team hears about this lead in the next send-waitlist-digest run
+    // instead. The coach still gets their welcome email right away.
+    if (!shouldAlertInstantly(record, env)) {
+      const [welcome, crm] = await Promise.all([
+        sendWelcomeEmail(deps, provider, fromEmail, record, email, requestId),
+        crmSync,
+      ]);
+      return jsonResponse({ ok: true, requestId, alert: "digest", welcome, crm }, 200, { "X-Request-Id": requestId });
+    }
+
+    // Recipients (comma-separated supported)
+    const { to, bcc } = getTeamRecipients(env);
+
+    // Rendered through the escaping template module: signup fields are untrusted.
+    // In digest mode only high-value leads get here, so flag them in the subject.
+    const subjectPrefix = [
+      (env("WAITLIST_SUBJECT_PREFIX") || "").trim(),
+      getNotifyMode(env) === "digest" ? "[High-value]" : "",
+    ].filter(Boolean).join(" ");
+    const { subject, text, html } = buildLeadNotificationEmail(record, { subjectPrefix });
+
+    console.log("[notify-coach-waitlist] Sending email", {
+      requestId,
+      to,
+      bccCount: bcc.length,
+      email: maskEmail(email),
+    });
+
+    const alertMessage: EmailMessage = {
+      from: fromEmail,
+      to,
+      bcc,
+      subject,
+      text,
+      html,
+      // Optional: some providers support idempotency keys; harmless if ignored.
+      // Stored with the outbox row, so retries reuse the same key.
+      idempotencyKey: requestId,
+    };
+    const [r, channels, crm] = await Promise.all([
+      provider.send(alertMessage),
+      fanOut(getEnabledChannels(env, deps.fetch), extractLeadSummary(record)),
+      crmSync,
+    ]);
+
+    for (const c of channels) {
+      if (!c.ok) console.error("[notify-coach-waitlist] Channel failed", { requestId, ...c });
+    }
+
+    let parkedAlert: { queued: boolean; outboxId?: string } | null = null;
+    if (!r.ok) {
+      console.error("[notify-coach-waitlist] Email send failed", {
+        requestId,
+        provider: r.provider,
+        status: r.status,
+        error: r.error,
+      });
+
+      parkedAlert = await parkFailedSend(deps, "lead_alert", record, alertMessage, r, requestId);
+      if (!parkedAlert.queued) {
+        return jsonResponse(
+          { ok: false, provider: r.provider, status: r.status, response: r.error, channels, crm },
+          502,
+          { "X-Request-Id": requestId },
+        );
+      }
+    } else {
+      console.log("[notify-coach-waitlist] Email sent", { requestId, provider: r.provider, id: r.id });
+    }
+
+    // Coach-facing welcome / trial-access email. Best-effort: the team alert already
+    // went out, so a failure here is reported but doesn't turn the webhook into a 502
+    // (which would make pg_net retry and re-alert the team).
+    const welcome = await sendWelcomeEmail(deps, provider, fromEmail, record, email, requestId);
+
+    if (!r.ok) {
+      // Alert is queued for retry; 202 (not 5xx) so pg_net doesn't re-fire the whole event.
+      return jsonResponse(
+        {
+          ok: false,
+          requestId,
+          provider: r.provider,
+          status: r.status,
+          queued: true,
+          outboxId: parkedAlert?.outboxId,
+          channels,
+          welcome,
+          crm,
+        },
+        202,
+        { "X-Request-Id": requestId },
+      );
+    }
+
+    return jsonResponse({ ok: true, requestId, provider: r.provider, id: r.id, channels, welcome, crm }, 200, { "X-Request-Id": requestId });
+  } catch (e) {
+    console.error("[notify-coach-waitlist] Internal error", { requestId, error: String(e) });
+    return textResponse("Internal Server Error", 500, { "X-Request-Id": requestId });
+  }
+}
@@ -0,0 +1,92 @@
+// supabase/functions/notify-coach-waitlist/leadEmail.ts
+//
+// Internal "new confirmed lead" alert for the team. Every value comes from the
+// signup form, so it is rendered through the escaping template module
+// (../_shared/email/template.ts) — HTML and plain text share one document.
+
+import {
+  mailtoHref,
+  renderEmail,
+  singleLine,
+  type EmailDocument,
+  type EmailField,
+  type RenderedEmail,
+} from "../_shared/email/template.ts";
+
+const NOT_PROVIDED = "(not provided)";
+
+function asText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "string") return v;
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+function field(label: string, v: unknown, href?: (value: string) => string): EmailField {
+  const value = asText(v).trim();
+  if (!value) return { label, value: NOT_PROVIDED };
+  return href ? { label, value, href: href(value) } : { label, value };
+}
+
+function scoreField(record: Record<string, unknown>): EmailField {
+  if (typeof record.score !== "number") return { label: "Score", value: NOT_PROVIDED };
+  const reasons = Array.isArray(record.score_reasons) ? record.score_reasons.map(asText).filter(Boolean) : [];
+  return { label: "Score", value: reasons.length ? `${record.score} — ${reasons.join("; ")}` : String(record.score) };
+}
+
+function utmRows(utm: unknown): [string, string][] {
+  if (!utm || typeof utm !== "object" || Array.isArray(utm)) return [];
+  return Object.entries(utm as Record<string, unknown>)
+    .map(([k, v]) => [k, asText(v)] as [string, string])
+    .filter(([, v]) => v.length > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function buildLeadNotificationDocument(record: Record<string, unknown>): EmailDocument {
+  const email = asText(record.email).trim();
+  const intents = Array.isArray(record.coach_intents) ? record.coach_intents.map(asText).join(", ") : "";
+
+  return {
+    title: "New coach waitlist signup",
+    preheader: `${email} confirmed their email`,
+    blocks: [
+      {
+        type: "fields",
+        rows: [
+          field("Email", email, mailtoHref),
+          scoreField(record),
+          field("Name", record.name),
+          field("Primary focus", record.primary_focus),
+          field("Client count", record.client_count),
+          field("Goals", intents),
+          field("Coaches on", record.presence),
+          field("Source", record.source),
+          field("Site version", record.site_version),
+          field("Confirmed at", record.confirmed_at),
+          field("Created at", record.created_at),
+        ],
+      },
+      ...(asText(record.notes).trim()
+        ? [{ type: "heading", text: "Notes" } as const, { type: "paragraph", text: asText(record.notes).trim() } as const]
+        : []),
+      { type: "table", title: "UTM", rows: utmRows(record.utm), empty: "(no UTM parameters)" },
+      { type: "code", title: "Full record", text: JSON.stringify(record, null, 2) },
+    ],
+    footer: "Sent by notify-coach-waitlist when a lead confirms their email.",
+  };
+}
+
+export function buildLeadNotificationEmail(
+  record: Record<string, unknown>,
+  opts: { subjectPrefix?: string } = {},
+): RenderedEmail {
+  const email = singleLine(asText(record.email));
+  const subjectBase = `New confirmed coach waitlist signup: ${email}`;
+  const subject = opts.subjectPrefix ? `${singleLine(opts.subjectPrefix)} ${subjectBase}` : subjectBase;
+
+  return { subject, ...renderEmail(buildLeadNotificationDocument(record)) };
+}
@@ -0,0 +1,49 @@
+// supabase/functions/notify-coach-waitlist/previewWelcome.ts
+//
+// Local preview for the coach welcome email — renders, never sends.
+//
+//   deno run --allow-write supabase/functions/notify-coach-waitlist/previewWelcome.ts [outDir]
+//
+// Writes one .txt + .html pair per sample lead into outDir (default: ./.email-preview)
+// so you can open the HTML in a browser. Tweak SAMPLES to check edge cases.
+
+import { buildWelcomeEmail, type WelcomeLead, type WelcomeOptions } from "./welcomeEmail.ts";
+
+type DenoFs = {
+  args: string[];
+  mkdir(path: string, opts?: { recursive?: boolean }): Promise<void>;
+  writeTextFile(path: string, data: string): Promise<void>;
+};
+
+const deno = (globalThis as unknown as { Deno?: DenoFs }).Deno;
+
+const OPTIONS: WelcomeOptions = {
+  trialDays: 14,
+  trialStarterClients: 3,
+  siteUrl: "https://lungeable.com",
+  supportEmail: "support@lungeable.com",
+  calendlyUrl: "https://calendly.com/xuru-lungeable/30min",
+  profileUrl: "https://lungeable.com/profile?token=preview",
+  unsubscribeUrl: "https://lungeable.com/unsubscribe?token=preview",
+};
+
+const SAMPLES: Record<string, WelcomeLead> = {
+  "full-profile": { email: "alex@example.com", name: "Alex Rivera", primaryFocus: "powerlifting", clientCount: "25-50" },
+  "email-only": { email: "coach@example.com" },
+  "small-roster": { email: "sam@example.com", name: "Sam", primaryFocus: "rehab", clientCount: "0-10" },
+  "hostile-name": { email: "x@example.com", name: "<script>alert(1)</script>", clientCount: "50+" },
+};
+
+if (!deno) {
+  console.error("[previewWelcome] Run with Deno: deno run --allow-write supabase/functions/notify-coach-waitlist/previewWelcome.ts");
+} else {
+  const outDir = deno.args[0] || ".email-preview";
+  await deno.mkdir(outDir, { recursive: true });
+
+  for (const [key, lead] of Object.entries(SAMPLES)) {
+    const { subject, text, html } = buildWelcomeEmail(lead, OPTIONS);
+    await deno.writeTextFile(`${outDir}/welcome-${key}.txt`, `Subject: ${subject}\n\n${text}`);
+    await deno.writeTextFile(`${outDir}/welcome-${key}.html`, html);
+    console.log(`[previewWelcome] ${key}: ${outDir}/welcome-${key}.{txt,html}`);
+  }
+}
@@ -0,0 +1,107 @@
+// supabase/functions/notify-coach-waitlist/welcomeEmail.ts
+//
+// Coach-facing welcome / trial-access email (plain text + HTML).
+// Sent by notify-coach-waitlist once a lead confirms their email, alongside the
+// internal team alert. This is what backs the form's "We'll email trial access +
+// setup details" promise.
+//
+// Pure module (no env, no network) so it can be previewed locally:
+//   deno run --allow-write supabase/functions/notify-coach-waitlist/previewWelcome.ts
+
+import { renderEmail, type EmailBlock, type RenderedEmail } from "../_shared/email/template.ts";
+
+export type WelcomeLead = {
+  email: string;
+  name?: string;
+  primaryFocus?: string;
+  clientCount?: string;
+};
+
+export type WelcomeOptions = {
+  trialDays: number;
+  trialStarterClients: number;
+  siteUrl: string;
+  supportEmail: string;
+  calendlyUrl: string;
+  /** Signed "complete your profile" link (../_shared/profileLink.ts); omitted when unavailable. */
+  profileUrl?: string;
+  /** The site's /unsubscribe page (../_shared/unsubscribe.ts); omitted when unavailable. */
+  unsubscribeUrl?: string;
+};
+
+// Mirrors the <select name="focus"> options in CoachSignupForm.
+const FOCUS_LABELS: Record<string, string> = {
+  strength: "general strength / hypertrophy",
+  powerlifting: "powerlifting",
+  olympic: "Olympic weightlifting",
+  sport: "sport-specific training",
+  rehab: "return-to-sport / rehab",
+};
+
+function firstName(name?: string): string {
+  const n = (name || "").trim().split(/\s+/)[0] || "";
+  // Brand names ("Ava Strength") are fine; just keep greetings short.
+  return n.length > 40 ? "" : n;
+}
+
+function rosterLine(clientCount: string | undefined, starter: number): string {
+  switch (clientCount) {
+    case "0-10":
+      return `With a smaller roster you can bring everyone over — but starting with ${starter} clients is still the fastest way to see the weekly loop.`;
+    case "25-50":
+    case "50+":
+      return `With a roster your size, most coaches run a ${starter}–10 client pilot first, then expand once Accept-Week feels trustworthy.`;
+    default:
+      return `Start with ${starter} clients. No migration required — keep your current tools running alongside.`;
+  }
+}
+
+export function buildWelcomeEmail(lead: WelcomeLead, opts: WelcomeOptions): RenderedEmail {
+  const greetingName = firstName(lead.name);
+  const greeting = greetingName ? `Hi ${greetingName},` : "Hi there,";
+  const focusLabel = lead.primaryFocus ? FOCUS_LABELS[lead.primaryFocus] : undefined;
+  const focusLine = focusLabel
+    ? `Since you coach ${focusLabel}, we'll tune your first draft week around that.`
+    : "We'll tune your first draft week around how you already program.";
+  const roster = rosterLine(lead.clientCount, opts.trialStarterClients);
+
+  const blocks: EmailBlock[] = [
+    { type: "paragraph", text: greeting },
+    { type: "paragraph", text: "Thanks for confirming — you're in the Lungeable coach beta." },
+    { type: "heading", text: `Your ${opts.trialDays}-day free trial` },
+    {
+      type: "list",
+      items: [
+        roster,
+        focusLine,
+        "Week 1: Lungeable drafts a week with guardrails, you review and Accept-Week.",
+        "Mid-week: clients DM constraints, Pocket Coach proposes safe replans you approve.",
+        "End of week: a Weekly Report drafts next week.",
+      ],
+    },
+  ];
+  if (opts.profileUrl) {
+    blocks.push({
+      type: "link",
+      text: "Two minutes that make your first week fit better —",
+      label: "tell us how you coach",
+      href: opts.profileUrl,
+    });
+  }
+  blocks.push(
+    { type: "button", label: "Get started", href: opts.siteUrl },
+    { type: "link", text: "Prefer a walkthrough?", label: "Book 30 minutes", href: opts.calendlyUrl },
+    { type: "paragraph", text: `Questions? Just reply, or email ${opts.supportEmail}.` },
+    { type: "paragraph", text: "— Xuru, Lungeable" },
+  );
+
+  return {
+    subject: `Your ${opts.trialDays}-day Lungeable trial: setup details`,
+    ...renderEmail({
+      title: "You're in the Lungeable coach beta",
+      preheader: `Your ${opts.trialDays}-day free trial: setup details`,
+      blocks,
+      unsubscribeUrl: opts.unsubscribeUrl,
+    }),
+  };
+}
@@ -0,0 +1,229 @@
+// supabase/functions/retry-notification-outbox/handler.ts
+//
+// The outbox retry handler, separated from the Deno.serve entrypoint (./index.ts)
+// like notify-coach-waitlist: env, the Supabase client, fetch (email providers, CRM)
+// and the clock come in through RetryOutboxDeps. See ../tests/ for usage.
+
+import { retryCrmDeletions } from "../_shared/crm/index.ts";
+import { getEmailProvider } from "../_shared/email/index.ts";
+import { getEnv, mustGetEnv, type EnvReader } from "../_shared/env.ts";
+import { json, text } from "../_shared/http.ts";
+import { failureUpdate, getOutboxPolicy, OUTBOX_TABLE, type OutboxRow } from "../_shared/outbox.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type RetryOutboxDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; which rows are due, backoff scheduling and updated_at. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): RetryOutboxDeps {
+  return { env: getEnv, createAdminClient, fetch, now: Date.now };
+}
+
+type OutboxAction = "retry" | "list_dead" | "replay";
+
+const ACTIONS: readonly OutboxAction[] = ["retry", "list_dead", "replay"];
+
+// notification_outbox.id is a uuid; anything else would make Postgres reject the query.
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const n = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** Why a coach-facing row must not go out any more, or null to send it. */
+async function suppressionReason(admin: AdminClient, row: OutboxRow): Promise<string | null> {
+  if (row.kind !== "welcome" || !row.lead_id) return null;
+
+  const { data: lead, error } = await admin
+    .from("leads_coach_waitlist")
+    .select("unsubscribed_at")
+    .eq("id", row.lead_id)
+    .maybeSingle();
+
+  // A failed lookup shouldn't block the retry; the row is only suppressed on a clear answer.
+  if (error) return null;
+  if (!lead) return "lead_deleted";
+  return lead.unsubscribed_at ? "unsubscribed" : null;
+}
+
+/**
+ * Re-send every due row once. Each row is claimed by bumping `attempts` with a
+ * compare-and-set on the old value, so overlapping cron runs never double-send.
+ */
+async function retryDue(admin: AdminClient, deps: RetryOutboxDeps, requestId: string): Promise<Response> {
+  const policy = getOutboxPolicy(deps.env);
+  const batchSize = parsePositiveInt(deps.env("OUTBOX_BATCH_SIZE"), 20);
+  const nowIso = () => new Date(deps.now()).toISOString();
+
+  const { data: due, error: selErr } = await admin
+    .from(OUTBOX_TABLE)
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", nowIso())
+    .order("next_attempt_at", { ascending: true })
+    .limit(batchSize);
+
+  if (selErr) {
+    console.error("[retry-notification-outbox] select error", { requestId, error: selErr });
+    return json({ ok: false, error: "db_select_failed" }, 500);
+  }
+
+  const rows = (due || []) as OutboxRow[];
+  if (!rows.length) return json({ ok: true, requestId, processed: 0 });
+
+  const provider = getEmailProvider(deps.env, deps.fetch);
+  const results: { id: string; kind: string; outcome: "sent" | "retry" | "dead" | "skipped" | "suppressed" }[] = [];
+
+  for (const row of rows) {
+    const attempts = row.attempts + 1;
+
+    const { data: claimed, error: claimErr } = await admin
+      .from(OUTBOX_TABLE)
+      .update({ attempts, updated_at: nowIso() })
+      .eq("id", row.id)
+      .eq("status", "pending")
+      .eq("attempts", row.attempts)
+      .select("id");
+
+    if (claimErr || !claimed?.length) {
+      results.push({ id: row.id, kind: row.kind, outcome: "skipped" });
+      continue;
+    }
+
+    const suppressed = await suppressionReason(admin, row);
+    if (suppressed) {
+      await admin
+        .from(OUTBOX_TABLE)
+        .update({ status: "dead", last_error: `suppressed: ${suppressed}`, updated_at: nowIso() })
+        .eq("id", row.id);
+      console.log("[retry-notification-outbox] suppressed", { requestId, id: row.id, kind: row.kind, reason: suppressed });
+      results.push({ id: row.id, kind: row.kind, outcome: "suppressed" });
+      continue;
+    }
+
+    const r = await provider.send(row.message);
+
+    if (r.ok) {
+      const sentAt = nowIso();
+      await admin
+        .from(OUTBOX_TABLE)
+        .update({ status: "sent", sent_at: sentAt, updated_at: sentAt, last_error: null, last_status: null })
+        .eq("id", row.id);
+      console.log("[retry-notification-outbox] sent", { requestId, id: row.id, kind: row.kind, attempts });
+      results.push({ id: row.id, kind: row.kind, outcome: "sent" });
+      continue;
+    }
+
+    const update = failureUpdate(attempts, r, policy, deps.now());
+    await admin.from(OUTBOX_TABLE).update(update).eq("id", row.id);
+
+    if (update.status === "dead") {
+      console.error("[retry-notification-outbox] dead letter", {
+        requestId,
+        id: row.id,
+        kind: row.kind,
+        attempts,
+        status: r.status,
+        error: r.error,
+      });
+    }
+    results.push({ id: row.id, kind: row.kind, outcome: update.status === "dead" ? "dead" : "retry" });
+  }
+
+  return json({ ok: true, requestId, provider: provider.name, processed: results.length, results });
+}
+
+async function listDead(admin: AdminClient, limit: number): Promise<Response> {
+  const { data, error } = await admin
+    .from(OUTBOX_TABLE)
+    .select("id, kind, lead_id, attempts, last_error, last_status, created_at, updated_at, subject:message->>subject")
+    .eq("status", "dead")
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[retry-notification-outbox] list error", error);
+    return json({ ok: false, error: "db_select_failed" }, 500);
+  }
+  return json({ ok: true, dead: data || [] });
+}
+
+async function replay(admin: AdminClient, ids: string[], nowIso: string): Promise<Response> {
+  const { data, error } = await admin
+    .from(OUTBOX_TABLE)
+    .update({ status: "pending", attempts: 0, next_attempt_at: nowIso, updated_at: nowIso })
+    .in("id", ids)
+    .eq("status", "dead")
+    .select("id");
+
+  if (error) {
+    console.error("[retry-notification-outbox] replay error", error);
+    return json({ ok: false, error: "db_update_failed" }, 500);
+  }
+  // Replayed rows go out on the next "retry" run (or call retry right after).
+  return json({ ok: true, replayed: (data || []).map((r: { id: string }) => r.id) });
+}
+
+export async function handle(req: Request, deps: RetryOutboxDeps): Promise<Response> {
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405);
+  }
+
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+
+  try {
+    const incomingSecret = req.headers.get("x-webhook-secret");
+    if (!incomingSecret || incomingSecret !== mustGetEnv("WAITLIST_WEBHOOK_SECRET", deps.env)) {
+      console.warn("[retry-notification-outbox] Unauthorized", { requestId });
+      return text("Unauthorized", 401);
+    }
+
+    // Empty body = default "retry" (what the cron job sends).
+    let body: { action?: unknown; ids?: unknown; limit?: unknown } = {};
+    const raw = await req.text();
+    if (raw.trim()) {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        return json({ ok: false, error: "invalid_json" }, 400);
+      }
+    }
+
+    const action = (typeof body.action === "string" ? body.action : "retry") as OutboxAction;
+    if (!ACTIONS.includes(action)) {
+      return json({ ok: false, error: "unknown_action", details: ACTIONS.join(", ") }, 400);
+    }
+
+    const admin = await deps.createAdminClient();
+
+    if (action === "list_dead") {
+      const limit = Math.min(parsePositiveInt(String(body.limit ?? ""), 50), 500);
+      return await listDead(admin, limit);
+    }
+
+    if (action === "replay") {
+      const ids: unknown[] = Array.isArray(body.ids) ? body.ids : [];
+      if (!ids.length) return json({ ok: false, error: "missing_ids" }, 400);
+      if (!ids.every((x): x is string => typeof x === "string" && UUID_RE.test(x))) {
+        return json({ ok: false, error: "invalid_body", details: "ids must be uuids" }, 400);
+      }
+      return await replay(admin, ids, new Date(deps.now()).toISOString());
+    }
+
+    const crm = await retryCrmDeletions({ ...deps, createAdminClient: () => Promise.resolve(admin) });
+    if (crm.error || crm.failed) console.error("[retry-notification-outbox] CRM deletions", { requestId, ...crm });
+
+    return await retryDue(admin, deps, requestId);
+  } catch (e) {
+    console.error("[retry-notification-outbox] Internal error", { requestId, error: String(e) });
+    return text("Internal Server Error", 500);
+  }
+}
@@ -0,0 +1,53 @@
+// supabase/functions/retry-notification-outbox/index.ts
+//
+// Retries notification emails parked in public.notification_outbox
+// (see ../_shared/outbox.ts) and manages the dead-letter state.
+// Expected caller: pg_cron every minute via pg_net (net.http_post), e.g.
+//
+//   select cron.schedule('retry-notification-outbox', '* * * * *', $$
+//     select net.http_post(
+//       url := 'https://<PROJECT_REF>.supabase.co/functions/v1/retry-notification-outbox',
+//       headers := jsonb_build_object('Content-Type', 'application/json',
+//                                     'x-webhook-secret', '<WAITLIST_WEBHOOK_SECRET>'),
+//       body := '{}'::jsonb)
+//   $$);
+//
+// POST body { action }:
+// - "retry" (default)       re-send due 'pending' rows; backoff / dead-letter on failure
+// - "list_dead"             list dead letters (newest first, message body omitted)
+// - "replay", ids: [...]    move dead letters back to 'pending' for an immediate retry; ids are row uuids
+//
+// Parked welcome emails for a lead that has since unsubscribed (or been erased) are
+// not re-sent; they go straight to 'dead' with last_error "suppressed: ...".
+//
+// "retry" also retries CRM contact deletions that an erasure couldn't finish
+// (public.crm_deletions, see ../_shared/crm/index.ts); off unless CRM_PROVIDER is set.
+//
+// Security model:
+// - config.toml sets verify_jwt = false
+// - same shared secret header as notify-coach-waitlist: x-webhook-secret
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_WEBHOOK_SECRET
+// - EMAIL_PROVIDER + its credentials (see ../_shared/email/index.ts)
+//
+// Optional env:
+// - OUTBOX_BATCH_SIZE (default 20), plus the OUTBOX_* backoff settings
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[retry-notification-outbox] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
@@ -0,0 +1,220 @@
+// supabase/functions/send-waitlist-digest/digest.ts
+//
+// Team digest of confirmed coach waitlist leads: totals, breakdowns by source,
+// client_count and UTM campaign, a few conversion hints, and the lead list
+// (highest lead score first; see ../_shared/leadScore.ts).
+// Pure module (no env, no network); rendered through ../_shared/email/template.ts.
+
+import {
+  renderEmail,
+  singleLine,
+  type EmailBlock,
+  type RenderedEmail,
+} from "../_shared/email/template.ts";
+import { CLIENT_COUNT_OPTIONS } from "../_shared/signupSchema.ts";
+
+export type DigestLead = Record<string, unknown>;
+
+export type DigestSummary = {
+  total: number;
+  highValue: number;
+  /** Signups created in the period that still haven't confirmed. */
+  pending: number;
+  bySource: [string, number][];
+  byClientCount: [string, number][];
+  byCampaign: [string, number][];
+  untagged: number;
+  /** Mean lead score over scored leads; null when none are scored (pre-scoring rows). */
+  averageScore: number | null;
+};
+
+export type DigestOptions = {
+  periodStart: string;
+  periodEnd: string;
+  pending: number;
+  isHighValue: (lead: DigestLead) => boolean;
+  subjectPrefix?: string;
+  /** Cap on leads listed individually (totals always cover everything). */
+  maxListed?: number;
+};
+
+const NONE = "(none)";
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function scoreOf(lead: DigestLead): number | null {
+  return typeof lead.score === "number" && Number.isFinite(lead.score) ? lead.score : null;
+}
+
+/** Highest score first; unscored leads last, keeping their original order. */
+export function sortByScore(leads: DigestLead[]): DigestLead[] {
+  return leads
+    .map((lead, i) => ({ lead, i, score: scoreOf(lead) }))
+    .sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity) || a.i - b.i)
+    .map(({ lead }) => lead);
+}
+
+function campaignOf(lead: DigestLead): string {
+  const utm = lead.utm;
+  if (!utm || typeof utm !== "object" || Array.isArray(utm)) return "";
+  return str((utm as Record<string, unknown>).utm_campaign);
+}
+
+function hasUtm(lead: DigestLead): boolean {
+  const utm = lead.utm;
+  return !!utm && typeof utm === "object" && !Array.isArray(utm) && Object.keys(utm).length > 0;
+}
+
+function countBy(leads: DigestLead[], key: (lead: DigestLead) => string): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const lead of leads) {
+    const k = key(lead) || NONE;
+    m.set(k, (m.get(k) || 0) + 1);
+  }
+  return m;
+}
+
+// Most common first; ties alphabetical so the email is stable.
+function sortedCounts(m: Map<string, number>): [string, number][] {
+  return [...m.entries()].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+}
+
+// Roster sizes read best smallest → largest.
+function clientCountOrder(m: Map<string, number>): [string, number][] {
+  const order = [...CLIENT_COUNT_OPTIONS, NONE] as string[];
+  return [...m.entries()].sort(([a], [b]) => order.indexOf(a) - order.indexOf(b));
+}
+
+function average(ns: number[]): number | null {
+  return ns.length ? Math.round(ns.reduce((a, b) => a + b, 0) / ns.length) : null;
+}
+
+export function summarizeLeads(
+  leads: DigestLead[],
+  pending: number,
+  isHighValue: (lead: DigestLead) => boolean,
+): DigestSummary {
+  return {
+    total: leads.length,
+    highValue: leads.filter(isHighValue).length,
+    pending,
+    bySource: sortedCounts(countBy(leads, (l) => str(l.source))),
+    byClientCount: clientCountOrder(countBy(leads, (l) => str(l.client_count))),
+    byCampaign: sortedCounts(countBy(leads, campaignOf)),
+    untagged: leads.filter((l) => !hasUtm(l)).length,
+    averageScore: average(leads.map(scoreOf).filter((n): n is number => n !== null)),
+  };
+}
+
+function pct(n: number, d: number): string {
+  return d ? `${Math.round((n / d) * 100)}%` : "0%";
+}
+
+/** Short, actionable observations. Deliberately simple: counts, not statistics. */
+export function conversionHints(summary: DigestSummary, leads: DigestLead[]): string[] {
+  const hints: string[] = [];
+  const { total } = summary;
+
+  const [top] = sortByScore(leads);
+  if (top && scoreOf(top) !== null && total > 1) {
+    hints.push(`Top-scored lead: ${str(top.email)} (score ${scoreOf(top)}) — start onboarding here.`);
+  }
+
+  if (summary.highValue) {
+    hints.push(`${summary.highValue} high-value lead(s) — prioritize onboarding calls for these.`);
+  }
+
+  if (summary.pending) {
+    hints.push(
+      `${summary.pending} signup(s) from this period haven't confirmed yet ` +
+        `(confirmation rate ~${pct(total, total + summary.pending)}). Check the confirmation email isn't landing in spam.`,
+    );
+  }
+
+  const [topSource] = summary.bySource;
+  if (topSource && total > 1) {
+    hints.push(`Top source: ${topSource[0]} (${topSource[1]} of ${total}, ${pct(topSource[1], total)}).`);
+  }
+
+  // Which campaign brings the bigger rosters (25+ clients)?
+  const bigRoster = leads.filter((l) => ["25-50", "50+"].includes(str(l.client_count)));
+  const [topBigCampaign] = sortedCounts(countBy(bigRoster, campaignOf)).filter(([k]) => k !== NONE);
+  if (topBigCampaign) {
+    hints.push(`Campaign "${topBigCampaign[0]}" brought the most 25+ client rosters (${topBigCampaign[1]}).`);
+  }
+
+  if (summary.untagged) {
+    hints.push(`${summary.untagged} lead(s) arrived without UTM tags — make sure shared links carry utm_campaign.`);
+  }
+
+  return hints;
+}
+
+function countRows(rows: [string, number][], total: number): [string, string][] {
+  return rows.map(([k, n]) => [k, `${n} (${pct(n, total)})`]);
+}
+
+export function buildDigestEmail(leads: DigestLead[], opts: DigestOptions): RenderedEmail {
+  const summary = summarizeLeads(leads, opts.pending, opts.isHighValue);
+  const hints = conversionHints(summary, leads);
+  const maxListed = opts.maxListed ?? 200;
+  const listed = sortByScore(leads).slice(0, maxListed);
+
+  const blocks: EmailBlock[] = [
+    {
+      type: "fields",
+      rows: [
+        { label: "Period", value: `${opts.periodStart} → ${opts.periodEnd}` },
+        { label: "Confirmed leads", value: String(summary.total) },
+        { label: "High-value", value: String(summary.highValue) },
+        { label: "Still unconfirmed", value: String(summary.pending) },
+        { label: "Average score", value: summary.averageScore === null ? "(not scored)" : String(summary.averageScore) },
+      ],
+    },
+  ];
+
+  if (hints.length) {
+    blocks.push({ type: "heading", text: "Hints" });
+    for (const h of hints) blocks.push({ type: "paragraph", text: `• ${h}` });
+  }
+
+  if (summary.total) {
+    blocks.push(
+      { type: "table", title: "By source", rows: countRows(summary.bySource, summary.total) },
+      { type: "table", title: "By client count", rows: countRows(summary.byClientCount, summary.total) },
+      { type: "table", title: "By UTM campaign", rows: countRows(summary.byCampaign, summary.total) },
+      {
+        type: "table",
+        title: leads.length > listed.length ? `Leads (first ${listed.length} of ${leads.length})` : "Leads",
+        rows: listed.map((l) => [
+          `${opts.isHighValue(l) ? "★ " : ""}${str(l.email)}`,
+          [
+            scoreOf(l) === null ? "" : `score ${scoreOf(l)}`,
+            str(l.name),
+            str(l.client_count) && `${str(l.client_count)} clients`,
+            str(l.source),
+            campaignOf(l),
+          ]
+            .filter(Boolean)
+            .join(" · "),
+        ]),
+      },
+    );
+  }
+
+  const subjectBase = `Coach waitlist digest: ${summary.total} new confirmed lead${summary.total === 1 ? "" : "s"}` +
+    (summary.highValue ? ` (${summary.highValue} high-value)` : "");
+  const subject = opts.subjectPrefix ? `${singleLine(opts.subjectPrefix)} ${subjectBase}` : subjectBase;
+
+  return {
+    subject,
+    ...renderEmail({
+      title: "Coach waitlist digest",
+      preheader: subjectBase,
+      blocks,
+      footer: "Sent by send-waitlist-digest. ★ = high-value lead (also alerted instantly).",
+    }),
+  };
+}
@@ -0,0 +1,150 @@
+// supabase/functions/send-waitlist-digest/handler.ts
+//
+// The digest handler, separated from the Deno.serve entrypoint (./index.ts) like
+// notify-coach-waitlist: env, the Supabase client (leads, runs, outbox), fetch (email
+// providers) and the clock come in through DigestDeps. See ../tests/ for usage.
+
+import { isHighValueLead } from "../_shared/digestConfig.ts";
+import { getEmailProvider, getTeamRecipients, type EmailMessage } from "../_shared/email/index.ts";
+import { getEnv, mustGetEnv, type EnvReader } from "../_shared/env.ts";
+import { json, text } from "../_shared/http.ts";
+import { enqueueFailedSend, getOutboxPolicy } from "../_shared/outbox.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { buildDigestEmail, type DigestLead } from "./digest.ts";
+
+type AdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+
+export type DigestDeps = {
+  env: EnvReader;
+  createAdminClient: () => Promise<AdminClient>;
+  fetch: typeof fetch;
+  /** Epoch ms; the period end, the first run's lookback and outbox retry scheduling. */
+  now: () => number;
+};
+
+/** Production wiring: Deno env, service-role client, global fetch, wall clock. */
+export function defaultDeps(): DigestDeps {
+  return { env: getEnv, createAdminClient, fetch, now: Date.now };
+}
+
+export const RUNS_TABLE = "waitlist_digest_runs";
+
+const LEAD_COLUMNS =
+  "id, email, name, primary_focus, client_count, coach_intents, source, utm, score, score_reasons, created_at, confirmed_at";
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const n = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export async function handle(req: Request, deps: DigestDeps): Promise<Response> {
+  const { env } = deps;
+
+  if (req.method !== "POST") {
+    return text("Method Not Allowed", 405);
+  }
+
+  const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+
+  try {
+    const incomingSecret = req.headers.get("x-webhook-secret");
+    if (!incomingSecret || incomingSecret !== mustGetEnv("WAITLIST_WEBHOOK_SECRET", env)) {
+      console.warn("[send-waitlist-digest] Unauthorized", { requestId });
+      return text("Unauthorized", 401);
+    }
+
+    const admin = await deps.createAdminClient();
+    const nowMs = deps.now();
+    const periodEnd = new Date(nowMs).toISOString();
+
+    // Period starts where the previous digest stopped.
+    const { data: lastRun, error: runErr } = await admin
+      .from(RUNS_TABLE)
+      .select("period_end")
+      .order("period_end", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (runErr) {
+      console.error("[send-waitlist-digest] runs select error", { requestId, error: runErr });
+      return json({ ok: false, error: "db_select_failed" }, 500);
+    }
+
+    const lookbackMs = parsePositiveInt(env("DIGEST_LOOKBACK_HOURS"), 24) * 60 * 60 * 1000;
+    const periodStart: string = lastRun?.period_end || new Date(nowMs - lookbackMs).toISOString();
+
+    const { data: leads, error: leadsErr } = await admin
+      .from("leads_coach_waitlist")
+      .select(LEAD_COLUMNS)
+      .eq("status", "confirmed")
+      .gt("confirmed_at", periodStart)
+      .lte("confirmed_at", periodEnd)
+      .order("confirmed_at", { ascending: true });
+
+    if (leadsErr) {
+      console.error("[send-waitlist-digest] leads select error", { requestId, error: leadsErr });
+      return json({ ok: false, error: "db_select_failed" }, 500);
+    }
+
+    // Confirmation-rate hint: signups from the same window that never confirmed.
+    const { count: pending } = await admin
+      .from("leads_coach_waitlist")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "pending")
+      .gt("created_at", periodStart)
+      .lte("created_at", periodEnd);
+
+    const rows = (leads || []) as DigestLead[];
+    const sendEmpty = (env("DIGEST_SEND_EMPTY") || "").trim().toLowerCase() === "true";
+
+    let sent = false;
+    let queued = false;
+
+    if (rows.length || sendEmpty) {
+      const { subject, text: bodyText, html } = buildDigestEmail(rows, {
+        periodStart,
+        periodEnd,
+        pending: pending || 0,
+        isHighValue: (lead) => isHighValueLead(lead, env),
+        subjectPrefix: (env("WAITLIST_SUBJECT_PREFIX") || "").trim(),
+      });
+
+      const message: EmailMessage = {
+        from: mustGetEnv("WAITLIST_NOTIFY_FROM", env).trim(),
+        ...getTeamRecipients(env),
+        subject,
+        text: bodyText,
+        html,
+        idempotencyKey: `digest:${periodEnd}`,
+      };
+
+      const r = await getEmailProvider(env, deps.fetch).send(message);
+      if (r.ok) {
+        sent = true;
+      } else {
+        console.error("[send-waitlist-digest] send failed", { requestId, provider: r.provider, status: r.status, error: r.error });
+        const q = await enqueueFailedSend(admin, { kind: "digest", message, result: r }, getOutboxPolicy(env), nowMs);
+        if (!q.queued) {
+          // Don't record the run: the next one re-covers this period.
+          console.error("[send-waitlist-digest] outbox enqueue failed", { requestId, error: q.error });
+          return json({ ok: false, error: "send_failed", provider: r.provider, status: r.status }, 502);
+        }
+        queued = true;
+      }
+    }
+
+    const { error: insErr } = await admin
+      .from(RUNS_TABLE)
+      .insert({ period_start: periodStart, period_end: periodEnd, lead_count: rows.length, sent: sent || queued });
+
+    if (insErr) {
+      console.error("[send-waitlist-digest] runs insert error", { requestId, error: insErr });
+    }
+
+    console.log("[send-waitlist-digest] done", { requestId, periodStart, periodEnd, leads: rows.length, sent, queued });
+    return json({ ok: true, requestId, periodStart, periodEnd, leads: rows.length, sent, queued });
+  } catch (e) {
+    console.error("[send-waitlist-digest] Internal error", { requestId, error: String(e) });
+    return text("Internal Server Error", 500);
+  }
+}
@@ -0,0 +1,57 @@
+// supabase/functions/send-waitlist-digest/index.ts
+//
+// Scheduled team digest of confirmed coach waitlist leads (see ./digest.ts).
+// Use with WAITLIST_NOTIFY_MODE=digest so notify-coach-waitlist stops sending one
+// email per lead (high-value leads still alert instantly; ../_shared/digestConfig.ts).
+//
+// Expected caller: pg_cron via pg_net, daily or weekly, e.g.
+//
+//   select cron.schedule('send-waitlist-digest', '0 8 * * *', $$
+//     select net.http_post(
+//       url := 'https://<PROJECT_REF>.supabase.co/functions/v1/send-waitlist-digest',
+//       headers := jsonb_build_object('Content-Type', 'application/json',
+//                                     'x-webhook-secret', '<WAITLIST_WEBHOOK_SECRET>'),
+//       body := '{}'::jsonb)
+//   $$);
+//
+// Each run covers leads confirmed since the previous run's period_end, tracked in:
+//
+//   create table public.waitlist_digest_runs (
+//     id uuid primary key default gen_random_uuid(),
+//     period_start timestamptz not null,
+//     period_end timestamptz not null,
+//     lead_count int not null,
+//     sent boolean not null,
+//     created_at timestamptz not null default now()
+//   );
+//
+// Security model:
+// - config.toml sets verify_jwt = false
+// - same shared secret header as notify-coach-waitlist: x-webhook-secret
+//
+// Required env:
+// - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+// - WAITLIST_WEBHOOK_SECRET
+// - WAITLIST_NOTIFY_FROM (+ WAITLIST_NOTIFY_TO / WAITLIST_NOTIFY_BCC)
+// - EMAIL_PROVIDER + its credentials
+//
+// Optional env:
+// - DIGEST_LOOKBACK_HOURS (default 24; first run only, when there's no previous run)
+// - DIGEST_SEND_EMPTY     (default false; send a "0 new leads" digest anyway)
+// - WAITLIST_SUBJECT_PREFIX
+//
+// The handler itself is ./handler.ts (`handle(req, deps)`); this file only wires it
+// to Deno.serve with the production deps.
+
+import { deno } from "../_shared/env.ts";
+import { defaultDeps, handle } from "./handler.ts";
+
+if (!deno?.serve) {
+  console.error(
+    "[send-waitlist-digest] Deno runtime not detected (Deno.serve unavailable). " +
+      "This function must run in Supabase Edge Functions (Deno).",
+  );
+} else {
+  const deps = defaultDeps();
+  deno.serve((req) => handle(req, deps));
+}
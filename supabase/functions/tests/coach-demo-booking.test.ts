@@ -0,0 +1,198 @@
+// supabase/functions/tests/coach-demo-booking.test.ts
+//
+// Handler tests for coach-demo-booking: the /demo page reports a Calendly booking,
+// the function confirms it with a scripted Calendly API and records it, linked to
+// the waitlist lead with the same normalized email.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals } from "jsr:@std/assert@1";
+
+import { handle, type DemoBookingDeps } from "../coach-demo-booking/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import {
+  createFakeFetch,
+  createFakeSupabase,
+  jsonResponse,
+  type FakeQuery,
+  type FakeResult,
+  type FakeRpcCall,
+} from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+
+const EVENT_URI = "https://api.calendly.com/scheduled_events/EVT-1";
+const INVITEE_URI = `${EVENT_URI}/invitees/INV-1`;
+
+const INVITEE = {
+  uri: INVITEE_URI,
+  email: "Coach.Alex+demo@gmail.com",
+  name: "Alex Rivera",
+  status: "active",
+  event: EVENT_URI,
+  created_at: "2026-01-15T11:59:00.000000Z",
+  tracking: { utm_source: "newsletter", utm_medium: null, salesforce_uuid: null },
+};
+
+const EVENT = { uri: EVENT_URI, name: "30 Minute Meeting", start_time: "2026-01-20T16:00:00.000000Z", status: "active" };
+
+type Setup = {
+  query?: (q: FakeQuery) => FakeResult | undefined;
+  rpc?: (call: FakeRpcCall) => FakeResult | undefined;
+  calendly?: (url: string) => Response | undefined;
+};
+
+function setup(opts: Setup = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.query ?? ((q) => (q.table === "leads_coach_waitlist" ? { data: { id: "lead_1" } } : undefined)),
+    rpc: opts.rpc ?? (() => ({ data: { allowed: true, reset_at: new Date(NOW + 3600_000).toISOString() } })),
+  });
+  const calendly = createFakeFetch(({ url }) =>
+    opts.calendly
+      ? opts.calendly(url)
+      : url === INVITEE_URI
+        ? jsonResponse({ resource: INVITEE })
+        : url === EVENT_URI
+          ? jsonResponse({ resource: EVENT })
+          : undefined
+  );
+  const deps: DemoBookingDeps = {
+    env: envFrom({ CALENDLY_API_TOKEN: "cal_test" }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: calendly.fetch,
+    now: () => NOW,
+  };
+  return { deps, supabase, calendly };
+}
+
+function post(body: unknown, origin = SITE): Request {
+  return new Request("http://localhost/functions/v1/coach-demo-booking", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Origin: origin, "x-forwarded-for": "203.0.113.7" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const BOOKING = {
+  event_uri: EVENT_URI,
+  invitee_uri: INVITEE_URI,
+  utm: { utm_source: "linkedin", utm_campaign: "launch" },
+  site_version: "coach-landing-v2-mono:demo",
+  experiments: { hero_headline: "sunday", retired_test: "b" },
+};
+
+Deno.test("a booking is confirmed with Calendly, recorded and linked to the lead", async () => {
+  const { deps, supabase, calendly } = setup();
+  const res = await handle(post(BOOKING), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { ok: true, linked: true });
+  assertEquals(calendly.calls.map((c) => c.url).sort(), [EVENT_URI, INVITEE_URI]);
+
+  const [tombstone, lookup, booking] = supabase.queries;
+  assertEquals(tombstone.table, "lead_tombstones");
+  assertEquals(lookup.filters, [["eq", "email_normalized", "coachalex@gmail.com"]]);
+  assertEquals([booking.table, booking.op], ["demo_bookings", "upsert"]);
+  assertEquals(booking.payload, {
+    invitee_uri: INVITEE_URI,
+    event_uri: EVENT_URI,
+    invitee_email: "coach.alex+demo@gmail.com",
+    invitee_email_normalized: "coachalex@gmail.com",
+    invitee_name: "Alex Rivera",
+    lead_id: "lead_1",
+    status: "active",
+    event_name: "30 Minute Meeting",
+    starts_at: EVENT.start_time,
+    booked_at: INVITEE.created_at,
+    utm: BOOKING.utm,
+    site_version: "coach-landing-v2-mono:demo",
+    experiments: { hero_headline: "sunday" },
+    updated_at: new Date(NOW).toISOString(),
+  });
+});
+
+Deno.test("a booker who isn't on the waitlist is recorded unlinked, with Calendly's UTMs", async () => {
+  const { deps, supabase } = setup({ query: () => undefined });
+  const res = await handle(post({ event_uri: EVENT_URI, invitee_uri: INVITEE_URI }), deps);
+
+  assertEquals(await res.json(), { ok: true, linked: false });
+  const payload = supabase.queries[2].payload as Record<string, unknown>;
+  assertEquals([payload.lead_id, payload.utm], [null, { utm_source: "newsletter" }]);
+});
+
+Deno.test("only Calendly API URIs, with the invitee under the event, are looked up", async () => {
+  const { deps, calendly } = setup();
+  for (const [body, field] of [
+    [{ ...BOOKING, event_uri: "https://evil.example/scheduled_events/EVT-1" }, "event_uri"],
+    [{ ...BOOKING, invitee_uri: "https://api.calendly.com/scheduled_events/EVT-2/invitees/INV-1" }, "invitee_uri"],
+    [{ ...BOOKING, invitee_uri: `${EVENT_URI}/invitees/../../users/me` }, "invitee_uri"],
+  ] as const) {
+    const res = await handle(post(body), deps);
+    assertEquals(res.status, 400);
+    assertEquals(await res.json(), { ok: false, error: "invalid_body", field });
+  }
+  assertEquals(calendly.calls.length, 0);
+});
+
+Deno.test("a booking Calendly doesn't know is a 404 and nothing is written", async () => {
+  const { deps, supabase } = setup({ calendly: () => jsonResponse({ message: "Resource Not Found" }, 404) });
+  const res = await handle(post(BOOKING), deps);
+
+  assertEquals(res.status, 404);
+  assertEquals(await res.json(), { ok: false, error: "booking_not_found" });
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("a booking made before its booker erased their data isn't stored again", async () => {
+  const erasedAt = (at: string) => (q: FakeQuery) =>
+    q.table === "lead_tombstones" ? { data: { email_hash: "x", created_at: at } } : undefined;
+
+  const before = setup({ query: erasedAt("2026-01-15T11:59:30Z") });
+  assertEquals(await (await handle(post(BOOKING), before.deps)).json(), { ok: true, linked: false });
+  assertEquals(before.supabase.queries.some((q) => q.table === "demo_bookings"), false);
+
+  // Booked after the erasure: a new booking, recorded as usual.
+  const after = setup({ query: erasedAt("2026-01-15T11:00:00Z") });
+  await handle(post(BOOKING), after.deps);
+  assertEquals(after.supabase.queries.some((q) => q.table === "demo_bookings"), true);
+});
+
+Deno.test("over the per-IP limit is a 429 before Calendly is called", async () => {
+  const { deps, supabase, calendly } = setup({
+    rpc: () => ({ data: { allowed: false, reset_at: "2026-01-15T13:00:00.000Z" } }),
+  });
+  const res = await handle(post(BOOKING), deps);
+
+  assertEquals(res.status, 429);
+  assertEquals(await res.json(), { ok: false, error: "rate_limited", reset_at: "2026-01-15T13:00:00.000Z" });
+  assertEquals(calendly.calls.length, 0);
+  assertEquals(supabase.rpcs.map((c) => (c.args as { p_key?: string }).p_key?.split(":")[1]), ["ip"]);
+});
+
+Deno.test("a Calendly outage is a 502; a failed write is a 500", async () => {
+  const down = setup({ calendly: () => jsonResponse({ message: "Unavailable" }, 503) });
+  const res = await handle(post(BOOKING), down.deps);
+  assertEquals([res.status, (await res.json()).error], [502, "calendly_lookup_failed"]);
+
+  const failing = setup({
+    query: (q) => (q.table === "demo_bookings" ? { error: { code: "23502", message: "null value" } } : undefined),
+  });
+  const res2 = await handle(post(BOOKING), failing.deps);
+  assertEquals([res2.status, (await res2.json()).error], [500, "db_write_failed"]);
+});
+
+Deno.test("without CALENDLY_API_TOKEN every report is a structured 500, before the rate limit", async () => {
+  const { deps, supabase, calendly } = setup();
+  deps.env = envFrom({});
+  const res = await handle(post(BOOKING), deps);
+
+  assertEquals([res.status, await res.json()], [500, { ok: false, error: "calendly_lookup_failed" }]);
+  assertEquals([supabase.rpcs.length, supabase.queries.length, calendly.calls.length], [0, 0, 0]);
+});
+
+Deno.test("refused origin is 403, GET is 405", async () => {
+  const { deps } = setup();
+  assertEquals((await handle(post(BOOKING, "https://evil.example"), deps)).status, 403);
+  assertEquals((await handle(new Request("http://localhost/functions/v1/coach-demo-booking"), deps)).status, 405);
+});
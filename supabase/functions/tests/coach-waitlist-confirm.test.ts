@@ -0,0 +1,121 @@
+// supabase/functions/tests/coach-waitlist-confirm.test.ts
+//
+// Handler tests for coach-waitlist-confirm: the /confirm page posts the signed link's
+// token and the pending lead (found by its normalized email) becomes confirmed.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals } from "jsr:@std/assert@1";
+
+import { handle, type ConfirmDeps } from "../coach-waitlist-confirm/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { signToken, type TokenPurpose } from "../_shared/signedToken.ts";
+import { hashEmail } from "../_shared/tombstone.ts";
+import { createFakeSupabase, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const SECRET = "test-token-secret";
+
+function setup(opts: { query?: (q: FakeQuery) => FakeResult | undefined } = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.query ?? ((q) => (q.op === "update" ? { data: [{ id: "lead_1" }] } : undefined)),
+  });
+  const deps: ConfirmDeps = {
+    env: envFrom({ WAITLIST_TOKEN_SECRET: SECRET }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    now: () => NOW,
+  };
+  return { deps, supabase };
+}
+
+function token(opts: { purpose?: TokenPurpose; ttlSeconds?: number; sub?: string } = {}) {
+  return signToken(
+    { sub: opts.sub ?? "Coach.Alex+beta@gmail.com", purpose: opts.purpose ?? "confirm", ttlSeconds: opts.ttlSeconds ?? 3600 },
+    SECRET,
+    NOW,
+  );
+}
+
+function post(body: unknown, origin = SITE): Request {
+  return new Request("http://localhost/functions/v1/coach-waitlist-confirm", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", origin },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+Deno.test("a pending lead is confirmed, matched on the normalized email", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ token: await token() }), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { ok: true, alreadyConfirmed: false });
+
+  const [update] = supabase.queries;
+  assertEquals(update.op, "update");
+  assertEquals(update.payload, { status: "confirmed", confirmed_at: new Date(NOW).toISOString() });
+  assertEquals(update.filters, [
+    ["eq", "email_normalized", "coachalex@gmail.com"],
+    ["eq", "status", "pending"],
+  ]);
+});
+
+Deno.test("confirming clears an erasure tombstone for the address; a repeat click doesn't", async () => {
+  const { deps, supabase } = setup();
+  await handle(post({ token: await token() }), deps);
+
+  const cleared = supabase.queries.find((q) => q.table === "lead_tombstones");
+  assertEquals(cleared?.op, "delete");
+  assertEquals(cleared?.filters, [["eq", "email_hash", await hashEmail("coachalex@gmail.com")]]);
+
+  const again = setup({ query: (q) => (q.op === "select" ? { data: { status: "confirmed" } } : { data: [] }) });
+  await handle(post({ token: await token() }), again.deps);
+  assertEquals(again.supabase.queries.some((q) => q.table === "lead_tombstones"), false);
+});
+
+Deno.test("a second click answers alreadyConfirmed; an erased lead is 404", async () => {
+  const confirmed = setup({ query: (q) => (q.op === "select" ? { data: { status: "confirmed" } } : { data: [] }) });
+  assertEquals(await (await handle(post({ token: await token() }), confirmed.deps)).json(), {
+    ok: true,
+    alreadyConfirmed: true,
+  });
+
+  const gone = setup({ query: (q) => (q.op === "update" ? { data: [] } : undefined) });
+  const res = await handle(post({ token: await token() }), gone.deps);
+  assertEquals([res.status, (await res.json()).error], [404, "not_found"]);
+});
+
+Deno.test("rejects missing, wrong-purpose and expired tokens without touching the table", async () => {
+  const { deps, supabase } = setup();
+
+  const missing = await handle(post({}), deps);
+  assertEquals([missing.status, (await missing.json()).error], [400, "missing_token"]);
+
+  const profile = await handle(post({ token: await token({ purpose: "profile" }) }), deps);
+  assertEquals((await profile.json()).error, "invalid_token");
+
+  const expired = await handle(post({ token: await token({ ttlSeconds: -1 }) }), deps);
+  assertEquals((await expired.json()).error, "expired_token");
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("refused origin is 403, bad JSON is 400, an update error is 500", async () => {
+  const { deps } = setup();
+  assertEquals((await handle(post({ token: "x" }, "https://evil.example"), deps)).status, 403);
+  assertEquals((await (await handle(post("{nope"), deps)).json()).error, "invalid_json");
+
+  const failing = setup({ query: () => ({ error: { message: "boom" } }) });
+  const res = await handle(post({ token: await token() }), failing.deps);
+  assertEquals([res.status, (await res.json()).error], [500, "db_update_failed"]);
+});
+
+Deno.test("without WAITLIST_TOKEN_SECRET the answer is a JSON 500, not a thrown error", async () => {
+  const { deps, supabase } = setup();
+  deps.env = envFrom({});
+  const res = await handle(post({ token: await token() }), deps);
+
+  assertEquals([res.status, await res.json()], [500, { ok: false, error: "server_misconfigured" }]);
+  assertEquals(supabase.queries.length, 0);
+});
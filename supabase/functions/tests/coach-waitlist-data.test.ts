@@ -0,0 +1,250 @@
+// supabase/functions/tests/coach-waitlist-data.test.ts
+//
+// Handler tests for coach-waitlist-data: the emailed verification link, export,
+// and deletion with its tombstone.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { handle, type DataDeps } from "../coach-waitlist-data/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { signToken, type TokenPurpose } from "../_shared/signedToken.ts";
+import { hashEmail } from "../_shared/tombstone.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const SECRET = "test-token-secret";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const BASE_ENV: Record<string, string> = {
+  RATE_LIMIT_BACKENDS: "rpc",
+  EMAIL_PROVIDER: "resend",
+  RESEND_API_KEY: "re_test",
+  WAITLIST_TOKEN_SECRET: SECRET,
+  WAITLIST_CONFIRM_FROM: "Lungeable <hello@lungeable.com>",
+  SITE_URL: SITE,
+  SUPABASE_URL: "https://ref.supabase.co",
+};
+
+const LEAD = { id: "7b0c4a52-0000-4000-8000-000000000001", email: "alex@example.com", name: "Alex Rivera" };
+const BOOKING = { invitee_email_normalized: "alex@example.com", lead_id: null, starts_at: "2026-01-20T16:00:00Z" };
+
+function setup(opts: { lead?: Record<string, unknown> | null; query?: (q: FakeQuery) => FakeResult | undefined } = {}) {
+  const lead = opts.lead === undefined ? LEAD : opts.lead;
+  const supabase = createFakeSupabase({
+    query:
+      opts.query ??
+      ((q) => {
+        if (q.table === "leads_coach_waitlist" && q.op === "select") return { data: lead };
+        if (q.table === "lead_profile_changes") return { data: [{ changes: { notes: { from: null, to: "hi" } } }] };
+        if (q.table === "lead_consents") return { data: [{ marketing_consent: true, source: "signup" }] };
+        if (q.table === "demo_bookings" && q.op === "select") return { data: lead ? [BOOKING] : null };
+      }),
+    rpc: () => ({ data: { allowed: true, reset_at: new Date(NOW + 3600_000).toISOString() } }),
+  });
+  const net = createFakeFetch((call) => (call.url === RESEND_URL ? jsonResponse({ id: "email_1" }) : undefined));
+
+  const deps: DataDeps = {
+    env: envFrom(BASE_ENV),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: net.fetch,
+    now: () => NOW,
+  };
+  return { deps, supabase, net };
+}
+
+function token(purpose: TokenPurpose, ttlSeconds = 3600) {
+  return signToken({ sub: "alex@example.com", purpose, ttlSeconds }, SECRET, NOW);
+}
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/functions/v1/coach-waitlist-data", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Origin: SITE, "x-request-id": "req-1" },
+    body: JSON.stringify(body),
+  });
+}
+
+Deno.test("request emails a verification link for the chosen kind", async () => {
+  const { deps, net } = setup();
+  const res = await handle(post({ action: "request", kind: "delete", email: " Alex@Example.com " }), deps);
+
+  assertEquals(await res.json(), { ok: true, action: "request" });
+
+  const [send] = net.calls;
+  const message = send.body as { to: string[]; text: string; html: string; headers: Record<string, string> };
+  assertEquals(message.to, ["alex@example.com"]);
+  assertStringIncludes(message.text, `${SITE}/my-data?kind=delete&token=`);
+  // Rendered through the shared template, so the link's "&" is escaped in the href.
+  assertStringIncludes(message.html, `href="${SITE}/my-data?kind=delete&amp;token=`);
+  assertEquals(message.headers["List-Unsubscribe-Post"], "List-Unsubscribe=One-Click");
+});
+
+Deno.test("requests count under their own rate-limit keys, not the signup's", async () => {
+  const { deps, supabase } = setup();
+  deps.env = envFrom({ ...BASE_ENV, RATE_LIMIT_DATA_EMAIL: "2/600" });
+  await handle(post({ action: "request", kind: "export", email: "alex@example.com" }), deps);
+
+  // No client IP in these requests, so only the email rule applies.
+  assertEquals(supabase.rpcs.map((c) => [c.args.p_key, c.args.p_limit]), [["coach_waitlist_data:email:alex@example.com", 2]]);
+});
+
+Deno.test("request for an unknown email answers the same and sends nothing", async () => {
+  const { deps, net } = setup({ lead: null });
+  const res = await handle(post({ action: "request", kind: "export", email: "nobody@example.com" }), deps);
+
+  assertEquals([res.status, await res.json()], [200, { ok: true, action: "request" }]);
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("request validates kind and email", async () => {
+  const { deps } = setup();
+  const badKind = await handle(post({ action: "request", kind: "everything", email: "alex@example.com" }), deps);
+  assertEquals((await badKind.json()).error, "invalid_body");
+
+  const badEmail = await handle(post({ action: "request", kind: "export", email: "alex@" }), deps);
+  assertEquals((await badEmail.json()).error, "invalid_email");
+});
+
+Deno.test("export returns the lead row, its profile history and consent records", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ action: "export", token: await token("data_export") }), deps);
+
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals(body.lead, LEAD);
+  assertEquals(body.profile_changes.length, 1);
+  assertEquals(body.consents, [{ marketing_consent: true, source: "signup" }]);
+  assertEquals(body.demo_bookings, [BOOKING]);
+  assertEquals(supabase.queries.every((q) => q.op === "select"), true);
+  assertEquals(supabase.queries[0].filters, [["eq", "email_normalized", "alex@example.com"]]);
+});
+
+Deno.test("an export link can't delete, and expired links are refused", async () => {
+  const { deps, supabase } = setup();
+
+  const wrong = await handle(post({ action: "delete", token: await token("data_export") }), deps);
+  assertEquals([wrong.status, (await wrong.json()).error], [400, "invalid_token"]);
+
+  const expired = await handle(post({ action: "export", token: await token("data_export", -1) }), deps);
+  assertEquals((await expired.json()).error, "expired_token");
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("delete removes parked sends and the lead, then records a tombstone", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ action: "delete", token: await token("data_delete") }), deps);
+
+  assertEquals(await res.json(), { ok: true, action: "delete", deleted: true });
+
+  const writes = supabase.queries.filter((q) => q.op !== "select");
+  assertEquals(
+    writes.map((q) => [q.table, q.op]),
+    [
+      ["notification_outbox", "delete"],
+      ["demo_bookings", "delete"],
+      ["leads_coach_waitlist", "delete"],
+      ["lead_tombstones", "upsert"],
+    ],
+  );
+  assertEquals(writes[0].filters, [["eq", "lead_id", LEAD.id]]);
+  assertEquals(writes[1].filters, [["eq", "invitee_email_normalized", "alex@example.com"]]);
+  assertEquals(writes[2].filters, [["eq", "id", LEAD.id]]);
+
+  const tombstone = writes[3].payload as { email_hash: string; request_id: string };
+  assertEquals(tombstone.email_hash, await hashEmail("alex@example.com"));
+  assertEquals(tombstone.request_id, "req-1");
+  assert(!JSON.stringify(tombstone).includes("alex@"));
+});
+
+Deno.test("delete drops single-lead outbox rows naming the address and blanks it out of digests", async () => {
+  const digest = {
+    id: "outbox_digest",
+    kind: "digest",
+    message: { to: ["team@lungeable.com"], subject: "2 new leads", text: "ALEX@example.com\nsam@example.com", html: "<p>alex@example.com</p>" },
+  };
+  const { deps, supabase } = setup({
+    query: (q) => {
+      if (q.table === "leads_coach_waitlist" && q.op === "select") return { data: { ...LEAD, email: "alex+wl@example.com" } };
+      if (q.table === "notification_outbox" && q.op === "select") {
+        const address = String(q.filters[0][2]);
+        if (address === "%alex@example.com%") return { data: [digest, { id: "outbox_alert", kind: "lead_alert", message: {} }] };
+        if (address === "%alex+wl@example.com%") return { data: [] };
+      }
+    },
+  });
+  const res = await handle(post({ action: "delete", token: await token("data_delete") }), deps);
+  assertEquals((await res.json()).deleted, true);
+
+  const outbox = supabase.queries.filter((q) => q.table === "notification_outbox");
+  assertEquals(
+    outbox.map((q) => [q.op, q.filters]),
+    [
+      ["delete", [["eq", "lead_id", LEAD.id]]],
+      ["select", [["ilike", "message->>text", "%alex@example.com%"]]],
+      ["update", [["eq", "id", "outbox_digest"]]],
+      ["delete", [["eq", "id", "outbox_alert"]]],
+      ["select", [["ilike", "message->>text", "%alex+wl@example.com%"]]],
+    ],
+  );
+  assertEquals((outbox[2].payload as { message: unknown }).message, {
+    to: ["team@lungeable.com"],
+    subject: "2 new leads",
+    text: "[erased]\nsam@example.com",
+    html: "<p>[erased]</p>",
+  });
+});
+
+Deno.test("delete with nothing stored still tombstones the address", async () => {
+  const { deps, supabase } = setup({ lead: null });
+  const res = await handle(post({ action: "delete", token: await token("data_delete") }), deps);
+
+  assertEquals(await res.json(), { ok: true, action: "delete", deleted: false });
+  assertEquals(
+    supabase.queries.filter((q) => q.op !== "select").map((q) => q.table),
+    ["demo_bookings", "lead_tombstones"],
+  );
+});
+
+Deno.test("a booker who never signed up can request, export and delete their bookings", async () => {
+  const { deps, supabase, net } = setup({
+    query: (q) => (q.table === "demo_bookings" ? { data: q.op === "select" ? [BOOKING] : [{ id: "booking_1" }] } : undefined),
+  });
+
+  await handle(post({ action: "request", kind: "export", email: "alex@example.com" }), deps);
+  assertEquals(net.calls.length, 1);
+
+  const exported = await (await handle(post({ action: "export", token: await token("data_export") }), deps)).json();
+  assertEquals([exported.lead, exported.demo_bookings], [null, [BOOKING]]);
+
+  const erased = await handle(post({ action: "delete", token: await token("data_delete") }), deps);
+  assertEquals(await erased.json(), { ok: true, action: "delete", deleted: true });
+  assertEquals(supabase.queries.some((q) => q.table === "leads_coach_waitlist" && q.op === "delete"), false);
+});
+
+Deno.test("a failed lead delete is a 500 and leaves no tombstone", async () => {
+  const { deps, supabase } = setup({
+    query: (q) => {
+      if (q.table === "leads_coach_waitlist" && q.op === "select") return { data: LEAD };
+      if (q.table === "leads_coach_waitlist" && q.op === "delete") return { error: { message: "boom" } };
+    },
+  });
+  const res = await handle(post({ action: "delete", token: await token("data_delete") }), deps);
+
+  assertEquals([res.status, (await res.json()).error], [500, "db_delete_failed"]);
+  assertEquals(supabase.queries.some((q) => q.table === "lead_tombstones"), false);
+});
+
+Deno.test("without WAITLIST_TOKEN_SECRET every action answers server_misconfigured", async () => {
+  const { deps, supabase, net } = setup();
+  deps.env = envFrom({ ...BASE_ENV, WAITLIST_TOKEN_SECRET: undefined });
+
+  for (const body of [{ action: "request", kind: "export", email: "alex@example.com" }, { action: "export", token: "x" }]) {
+    const res = await handle(post(body), deps);
+    assertEquals([res.status, await res.json()], [500, { ok: false, error: "server_misconfigured" }]);
+  }
+  assertEquals([supabase.queries.length, net.calls.length], [0, 0]);
+});
@@ -0,0 +1,213 @@
+// supabase/functions/tests/coach-waitlist-export.test.ts
+//
+// Handler tests for coach-waitlist-export: team-only access, CSV escaping, UTM
+// flattening, column selection, filters and paging.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { EXPORT_PAGE_SIZE, handle, type ExportDeps } from "../coach-waitlist-export/handler.ts";
+import { csvCell } from "../coach-waitlist-export/format.ts";
+import { envFrom } from "../_shared/env.ts";
+import { createFakeSupabase, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const TEAM_JWT = "team-jwt";
+
+// Access token → the signed-in user's email (only the first is on the team list).
+const USERS: Record<string, string> = { [TEAM_JWT]: "Team@Lungeable.com", "outsider-jwt": "x@example.com" };
+
+const LEADS = [
+  {
+    id: "lead_1",
+    created_at: "2026-01-10T09:00:00.000Z",
+    email: "alex@example.com",
+    name: "Alex Rivera",
+    client_count: "25-50",
+    coach_intents: ["Scale my roster", "Save time"],
+    notes: 'Moving 30 clients, "ASAP",\nthen the rest',
+    source: "coach-trial",
+    utm: { utm_source: "linkedin", utm_campaign: "launch", ref: "podcast" },
+  },
+  {
+    id: "lead_2",
+    created_at: "2026-01-11T09:00:00.000Z",
+    email: "sam@example.com",
+    name: null,
+    client_count: "0-10",
+    coach_intents: [],
+    notes: "=HYPERLINK(\"http://evil.example\")",
+    source: "coach-demo",
+    utm: {},
+  },
+];
+
+function setup(opts: { rows?: Record<string, unknown>[]; query?: (q: FakeQuery) => FakeResult | undefined } = {}) {
+  const rows = opts.rows ?? LEADS;
+  const supabase = createFakeSupabase({
+    auth: (jwt) => (jwt in USERS ? { data: { user: { email: USERS[jwt] } } } : { error: { message: "invalid JWT" } }),
+    query:
+      opts.query ??
+      ((q) => {
+        if (q.table === "admin_team_members") {
+          return { data: q.filters[0][2] === "team@lungeable.com" ? { email: "team@lungeable.com" } : null };
+        }
+        if (q.table === "leads_coach_waitlist") {
+          const [from, to] = q.range ?? [0, rows.length];
+          return { data: rows.slice(from, to + 1) };
+        }
+      }),
+  });
+  const deps: ExportDeps = {
+    env: envFrom({}),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    now: () => NOW,
+  };
+  return { deps, supabase };
+}
+
+function post(body: unknown, jwt: string | null = TEAM_JWT): Request {
+  const headers: Record<string, string> = { "Content-Type": "application/json", Origin: SITE };
+  if (jwt) headers.Authorization = `Bearer ${jwt}`;
+  return new Request("http://localhost/functions/v1/coach-waitlist-export", {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+}
+
+Deno.test("CSV export flattens utm into columns and escapes notes", async () => {
+  const { deps } = setup();
+  const res = await handle(post({ columns: ["email", "coach_intents", "notes", "utm"] }), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Content-Type"), "text/csv; charset=utf-8");
+  assertEquals(res.headers.get("Content-Disposition"), 'attachment; filename="lungeable-leads-2026-01-15.csv"');
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), SITE);
+
+  const lines = (await res.text()).split("\r\n");
+  assertEquals(
+    lines[0],
+    "email,coach_intents,notes,utm_source,utm_medium,utm_campaign,utm_term,utm_content,utm_id,utm_ref",
+  );
+  // The quoted note spans two physical lines: "...,\nthen the rest".
+  assertEquals(
+    lines[1],
+    'alex@example.com,Scale my roster; Save time,"Moving 30 clients, ""ASAP"",\nthen the rest",linkedin,,launch,,,,podcast',
+  );
+  assertEquals(lines[2], `sam@example.com,,"'=HYPERLINK(""http://evil.example"")",,,,,,,`);
+  assertEquals(lines[3], "");
+});
+
+Deno.test("NDJSON export keeps utm, coach_intents and JSON columns structured", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ format: "ndjson", columns: ["email", "coach_intents", "utm"] }), deps);
+
+  assertEquals(res.headers.get("Content-Type"), "application/x-ndjson; charset=utf-8");
+  const lines = (await res.text()).trimEnd().split("\n").map((l) => JSON.parse(l));
+  assertEquals(lines.length, 2);
+  assertEquals(lines[0], {
+    email: "alex@example.com",
+    coach_intents: ["Scale my roster", "Save time"],
+    utm: { utm_source: "linkedin", utm_campaign: "launch", ref: "podcast" },
+  });
+  assertEquals([lines[1].coach_intents, lines[1].utm], [[], {}]);
+
+  // No utm column scan: the keys don't decide the shape here.
+  assertEquals(supabase.queries.filter((q) => q.table === "leads_coach_waitlist").map((q) => q.columns), [
+    "email, coach_intents, utm",
+  ]);
+});
+
+Deno.test("date range and source filter the query; columns keep their canonical order", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(
+    post({
+      from: "2026-01-01T00:00:00Z",
+      to: "2026-02-01T00:00:00Z",
+      source: "coach-trial",
+      columns: ["notes", "email"],
+    }),
+    deps,
+  );
+
+  assertEquals((await res.text()).split("\r\n")[0], "email,notes");
+
+  const select = supabase.queries.find((q) => q.table === "leads_coach_waitlist");
+  assertEquals(select?.columns, "email, notes");
+  assertEquals(select?.filters, [
+    ["gte", "created_at", "2026-01-01T00:00:00.000Z"],
+    ["lt", "created_at", "2026-02-01T00:00:00.000Z"],
+    ["eq", "source", "coach-trial"],
+  ]);
+});
+
+Deno.test("pages through large exports", async () => {
+  const rows = Array.from({ length: EXPORT_PAGE_SIZE + 5 }, (_, i) => ({ id: `lead_${i}`, email: `c${i}@example.com` }));
+  const { deps, supabase } = setup({ rows });
+  const res = await handle(post({ columns: ["email"] }), deps);
+
+  const lines = (await res.text()).trimEnd().split("\r\n");
+  assertEquals(lines.length, 1 + rows.length);
+  assertEquals(lines[lines.length - 1], `c${rows.length - 1}@example.com`);
+  assertEquals(
+    supabase.queries.filter((q) => q.table === "leads_coach_waitlist").map((q) => q.range),
+    [
+      [0, EXPORT_PAGE_SIZE - 1],
+      [EXPORT_PAGE_SIZE, 2 * EXPORT_PAGE_SIZE - 1],
+    ],
+  );
+});
+
+Deno.test("no session is a 401, a session off the team list is a 403", async () => {
+  const { deps, supabase } = setup();
+
+  const anonymous = await handle(post({}, null), deps);
+  assertEquals([anonymous.status, await anonymous.json()], [401, { ok: false, error: "unauthorized" }]);
+
+  const badJwt = await handle(post({}, "forged"), deps);
+  assertEquals(badJwt.status, 401);
+
+  const outsider = await handle(post({}, "outsider-jwt"), deps);
+  assertEquals([outsider.status, (await outsider.json()).error], [403, "forbidden"]);
+
+  assertEquals(supabase.queries.some((q) => q.table === "leads_coach_waitlist"), false);
+});
+
+Deno.test("unknown columns and bad dates are rejected before touching the database", async () => {
+  const { deps, supabase } = setup();
+
+  const columns = await handle(post({ columns: ["email", "password"] }), deps);
+  assertEquals([columns.status, await columns.json()], [400, { ok: false, error: "invalid_body", field: "columns" }]);
+
+  const from = await handle(post({ from: "last tuesday" }), deps);
+  assertEquals((await from.json()).field, "from");
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("a failing query is a 500 JSON error, not a truncated file", async () => {
+  const { deps } = setup({
+    query: (q) => {
+      if (q.table === "admin_team_members") return { data: { email: "team@lungeable.com" } };
+      return { error: { message: "boom" } };
+    },
+  });
+  const res = await handle(post({ columns: ["email"] }), deps);
+
+  assertEquals(res.status, 500);
+  assertStringIncludes(res.headers.get("Content-Type") || "", "application/json");
+  assertEquals((await res.json()).error, "db_select_failed");
+});
+
+Deno.test("csvCell quotes only when needed", () => {
+  assertEquals(csvCell("plain"), "plain");
+  assertEquals(csvCell(null), "");
+  assertEquals(csvCell(42), "42");
+  assertEquals(csvCell(-3), "-3");
+  assertEquals(csvCell("a,b"), '"a,b"');
+  assertEquals(csvCell("-1 rep"), "'-1 rep");
+  assertEquals(csvCell("line\r\nbreak"), '"line\r\nbreak"');
+});
@@ -0,0 +1,191 @@
+// supabase/functions/tests/coach-waitlist-profile.test.ts
+//
+// Handler tests for coach-waitlist-profile: signed-link verification, loading the
+// lead, and merging a save into the row with an audit entry in lead_profile_changes.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+
+import { handle, type ProfileDeps } from "../coach-waitlist-profile/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { buildProfileUrl } from "../_shared/profileLink.ts";
+import { signToken } from "../_shared/signedToken.ts";
+import { createFakeSupabase, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const SECRET = "test-token-secret";
+
+const BASE_ENV: Record<string, string> = {
+  WAITLIST_TOKEN_SECRET: SECRET,
+  SITE_URL: SITE,
+};
+
+const LEAD = {
+  id: "7b0c4a52-0000-4000-8000-000000000001",
+  email: "alex@example.com",
+  name: "Alex Rivera",
+  primary_focus: "powerlifting",
+  coach_intents: ["Save time"],
+  presence: null,
+  notes: null,
+};
+
+function setup(opts: { query?: (q: FakeQuery) => FakeResult | undefined } = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.query ?? ((q) => (q.op === "select" ? { data: LEAD } : undefined)),
+  });
+
+  const deps: ProfileDeps = {
+    env: envFrom(BASE_ENV),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    now: () => NOW,
+  };
+
+  return { deps, supabase };
+}
+
+function token(opts: { purpose?: "confirm" | "profile"; ttlSeconds?: number; sub?: string } = {}) {
+  return signToken(
+    { sub: opts.sub ?? LEAD.email, purpose: opts.purpose ?? "profile", ttlSeconds: opts.ttlSeconds ?? 3600 },
+    SECRET,
+    NOW,
+  );
+}
+
+function post(body: unknown, origin: string | null = SITE): Request {
+  const headers: Record<string, string> = { "Content-Type": "application/json", "x-request-id": "req-1" };
+  if (origin) headers.origin = origin;
+  return new Request("http://localhost/functions/v1/coach-waitlist-profile", {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+}
+
+Deno.test("welcome-email link carries a token the function accepts", async () => {
+  const url = await buildProfileUrl("Alex@Example.com", envFrom(BASE_ENV), NOW);
+  assert(url?.startsWith(`${SITE}/profile?token=`));
+
+  const { deps } = setup();
+  const res = await handle(post({ token: new URL(url!).searchParams.get("token"), action: "load" }), deps);
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), {
+    ok: true,
+    email: "alex@example.com",
+    profile: {
+      name: "Alex Rivera",
+      primary_focus: "powerlifting",
+      coach_intents: ["Save time"],
+      presence: null,
+      notes: null,
+    },
+  });
+
+  assertEquals(await buildProfileUrl("alex@example.com", envFrom({}), NOW), null);
+});
+
+Deno.test("the lead is found by its dedup key, so a plus-address link still loads it", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ token: await token({ sub: "Alex+coach@Example.com" }), action: "load" }), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(supabase.queries[0].filters, [["eq", "email_normalized", "alex@example.com"]]);
+});
+
+Deno.test("rejects missing, confirm-purpose and expired tokens", async () => {
+  const { deps, supabase } = setup();
+
+  const missing = await handle(post({ action: "load" }), deps);
+  assertEquals([missing.status, (await missing.json()).error], [400, "missing_token"]);
+
+  // A confirmation link can't be replayed against the profile endpoint.
+  const confirm = await handle(post({ token: await token({ purpose: "confirm" }), action: "load" }), deps);
+  assertEquals((await confirm.json()).error, "invalid_token");
+
+  const expired = await handle(post({ token: await token({ ttlSeconds: -1 }), action: "load" }), deps);
+  assertEquals((await expired.json()).error, "expired_token");
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("unknown lead is 404, refused origin is 403", async () => {
+  const { deps } = setup({ query: () => ({ data: null }) });
+  const res = await handle(post({ token: await token(), action: "load" }), deps);
+  assertEquals([res.status, (await res.json()).error], [404, "not_found"]);
+
+  const forbidden = await handle(post({ token: await token() }, "https://evil.example"), deps);
+  assertEquals(forbidden.status, 403);
+});
+
+Deno.test("save merges only changed fields and records an audit row", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(
+    post({
+      token: await token(),
+      action: "save",
+      profile: { name: "Alex Rivera", presence: "@alexlifts", notes: "20 online clients" },
+    }),
+    deps,
+  );
+
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals(body.changed, ["presence", "notes"]);
+  assertEquals(body.profile.presence, "@alexlifts");
+  assertEquals(body.profile.primary_focus, "powerlifting");
+
+  const update = supabase.queries.find((q) => q.op === "update")!;
+  assertEquals(update.table, "leads_coach_waitlist");
+  assertEquals(update.filters, [["eq", "id", LEAD.id]]);
+  assertEquals(update.payload, {
+    profile_updated_at: new Date(NOW).toISOString(),
+    presence: "@alexlifts",
+    notes: "20 online clients",
+  });
+
+  const audit = supabase.queries.find((q) => q.op === "insert")!;
+  assertEquals(audit.table, "lead_profile_changes");
+  assertEquals(audit.payload, {
+    lead_id: LEAD.id,
+    changes: {
+      presence: { from: null, to: "@alexlifts" },
+      notes: { from: null, to: "20 online clients" },
+    },
+    source: "profile_link",
+    request_id: "req-1",
+  });
+});
+
+Deno.test("save with no differences writes nothing", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ token: await token(), action: "save", profile: { name: "Alex Rivera" } }), deps);
+
+  assertEquals((await res.json()).changed, []);
+  assertEquals(supabase.queries.map((q) => q.op), ["select"]);
+});
+
+Deno.test("invalid fields come back as field_errors", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(
+    post({ token: await token(), action: "save", profile: { primary_focus: "crossfit", coach_intents: ["nope"] } }),
+    deps,
+  );
+
+  assertEquals(res.status, 400);
+  const body = await res.json();
+  assertEquals(body.error, "invalid_body");
+  assert(body.field_errors.primary_focus);
+  assert(body.field_errors.coach_intents);
+  assertEquals(supabase.queries.map((q) => q.op), ["select"]);
+});
+
+Deno.test("without WAITLIST_TOKEN_SECRET the answer is a JSON 500, not a thrown error", async () => {
+  const { deps, supabase } = setup();
+  deps.env = envFrom({ SITE_URL: SITE });
+  const res = await handle(post({ token: await token(), action: "load" }), deps);
+
+  assertEquals([res.status, await res.json()], [500, { ok: false, error: "server_misconfigured" }]);
+  assertEquals(supabase.queries.length, 0);
+});
@@ -0,0 +1,441 @@
+// supabase/functions/tests/coach-waitlist-signup.test.ts
+//
+// Handler tests for coach-waitlist-signup, driven through `handle(req, deps)` with a
+// fake Supabase client, a scripted fetch (Resend) and a stubbed Turnstile verifier.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { handle, type SignupDeps } from "../coach-waitlist-signup/handler.ts";
+import type { TurnstileVerifier } from "../coach-waitlist-signup/turnstile.ts";
+import { envFrom } from "../_shared/env.ts";
+import { pickVariant } from "../_shared/experiments.ts";
+import { MARKETING_CONSENT_TEXT_VERSION, MARKETING_CONSENT_TEXTS } from "../_shared/signupSchema.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery, type FakeRpcCall } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const BASE_ENV: Record<string, string> = {
+  RATE_LIMIT_BACKENDS: "rpc",
+  EMAIL_PROVIDER: "resend",
+  RESEND_API_KEY: "re_test",
+  WAITLIST_TOKEN_SECRET: "test-token-secret",
+  WAITLIST_CONFIRM_FROM: "Lungeable <hello@lungeable.com>",
+  SITE_URL: SITE,
+};
+
+type Setup = {
+  env?: Record<string, string | undefined>;
+  query?: (q: FakeQuery) => { data?: unknown; error?: { code?: string; message?: string } | null } | undefined;
+  rpc?: (call: FakeRpcCall) => { data?: unknown; error?: { code?: string; message?: string } | null } | undefined;
+  resendStatus?: number;
+  turnstile?: TurnstileVerifier;
+};
+
+function setup(opts: Setup = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.query,
+    rpc: opts.rpc ?? (() => ({ data: { allowed: true, reset_at: new Date(NOW + 3600_000).toISOString() } })),
+  });
+  const net = createFakeFetch((call) => {
+    if (call.url === RESEND_URL) {
+      const status = opts.resendStatus ?? 200;
+      return status === 200 ? jsonResponse({ id: "email_1" }) : jsonResponse({ message: "upstream down" }, status);
+    }
+  });
+  const turnstileCalls: Parameters<TurnstileVerifier>[0][] = [];
+  const turnstile = opts.turnstile ?? (async () => ({ success: true, errorCodes: [] }));
+
+  const deps: SignupDeps = {
+    env: envFrom({ ...BASE_ENV, ...opts.env }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: net.fetch,
+    verifyTurnstile: (input) => {
+      turnstileCalls.push(input);
+      return turnstile(input);
+    },
+    now: () => NOW,
+  };
+
+  return { deps, supabase, net, turnstileCalls };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request("http://localhost/functions/v1/coach-waitlist-signup", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Origin: SITE, "x-forwarded-for": "203.0.113.7", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const SIGNUP = {
+  email: "Coach.Alex+beta@gmail.com",
+  name: "Alex Rivera",
+  client_count: "25-50",
+  coach_intents: ["Scale my roster"],
+  source: "coach-trial",
+};
+
+Deno.test("OPTIONS preflight reflects an allowed origin", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(
+    new Request("http://localhost/", { method: "OPTIONS", headers: { Origin: SITE } }),
+    deps,
+  );
+
+  assertEquals(res.status, 204);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), SITE);
+  assertStringIncludes(res.headers.get("Access-Control-Allow-Methods") || "", "POST");
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("OPTIONS preflight from an unknown origin gets no CORS headers", async () => {
+  const { deps } = setup();
+  const res = await handle(
+    new Request("http://localhost/", { method: "OPTIONS", headers: { Origin: "https://evil.example" } }),
+    deps,
+  );
+
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), null);
+});
+
+Deno.test("POST from a disallowed origin is rejected before touching the database", async () => {
+  const { deps, supabase, net } = setup();
+  const res = await handle(post(SIGNUP, { Origin: "https://evil.example" }), deps);
+
+  assertEquals(res.status, 403);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), null);
+  assertStringIncludes(res.headers.get("X-CORS-Reason") || "", "not_allowlisted");
+  assertEquals(supabase.queries.length, 0);
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("preview deployments are allowed through an ALLOWED_ORIGINS pattern", async () => {
+  const preview = "https://crunch-asu-landing-git-main-xrventures.vercel.app";
+  const { deps } = setup({ env: { ALLOWED_ORIGINS: `${SITE},https://*-xrventures.vercel.app` } });
+
+  const pre = await handle(new Request("http://localhost/", { method: "OPTIONS", headers: { Origin: preview } }), deps);
+  assertEquals(pre.headers.get("Access-Control-Allow-Origin"), preview);
+
+  const res = await handle(post(SIGNUP, { Origin: preview }), deps);
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), preview);
+});
+
+Deno.test("non-POST methods get 405", async () => {
+  const { deps } = setup();
+  const res = await handle(new Request("http://localhost/", { method: "GET", headers: { Origin: SITE } }), deps);
+  assertEquals(res.status, 405);
+});
+
+Deno.test("invalid JSON is a 400", async () => {
+  const { deps } = setup();
+  const res = await handle(post("{not json"), deps);
+
+  assertEquals(res.status, 400);
+  assertEquals((await res.json()).error, "invalid_json");
+});
+
+Deno.test("a filled honeypot is silently dropped", async () => {
+  const { deps, supabase, net, turnstileCalls } = setup({ env: { TURNSTILE_SECRET_KEY: "ts_secret" } });
+  const res = await handle(post({ ...SIGNUP, company: "Spam Inc" }), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { ok: true, dropped: true });
+  assertEquals(supabase.queries.length, 0);
+  assertEquals(supabase.rpcs.length, 0);
+  assertEquals(net.calls.length, 0);
+  assertEquals(turnstileCalls.length, 0);
+});
+
+Deno.test("Turnstile: missing token is rejected when a secret is configured", async () => {
+  const { deps, turnstileCalls } = setup({ env: { TURNSTILE_SECRET_KEY: "ts_secret" } });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(res.status, 400);
+  assertEquals((await res.json()).error, "missing_turnstile_token");
+  assertEquals(turnstileCalls.length, 0);
+});
+
+Deno.test("Turnstile: a failed verification blocks the signup", async () => {
+  const { deps, supabase } = setup({
+    env: { TURNSTILE_SECRET_KEY: "ts_secret" },
+    turnstile: async () => ({ success: false, errorCodes: ["invalid-input-response"] }),
+  });
+  const res = await handle(post({ ...SIGNUP, turnstile_token: "bad" }), deps);
+
+  assertEquals(res.status, 400);
+  assertEquals(await res.json(), { ok: false, error: "turnstile_failed", details: ["invalid-input-response"] });
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("Turnstile: a passing verification inserts a pending lead and sends the confirmation", async () => {
+  const { deps, supabase, net, turnstileCalls } = setup({ env: { TURNSTILE_SECRET_KEY: "ts_secret" } });
+  const res = await handle(post({ ...SIGNUP, turnstile_token: "good" }), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), SITE);
+  assertEquals(await res.json(), { ok: true, alreadyOnList: false, confirmationSent: true });
+
+  assertEquals(turnstileCalls, [{ secret: "ts_secret", token: "good", ip: "203.0.113.7" }]);
+
+  const [insert] = supabase.queries;
+  assertEquals(insert.op, "insert");
+  const row = insert.payload as Record<string, unknown>;
+  assertEquals(row.email, "coach.alex+beta@gmail.com");
+  assertEquals(row.email_normalized, "coachalex@gmail.com");
+  assertEquals(row.status, "pending");
+  assertEquals(typeof row.score, "number");
+
+  const [send] = net.calls;
+  assertEquals(send.url, RESEND_URL);
+  const message = send.body as { to: string[]; text: string };
+  assertEquals(message.to, ["coach.alex+beta@gmail.com"]);
+  assertStringIncludes(message.text, `${SITE}/confirm?token=`);
+});
+
+Deno.test("duplicate email (23505) is a soft success and re-sends the link to a pending lead", async () => {
+  const { deps, supabase, net } = setup({
+    query: (q) => {
+      if (q.op === "insert") return { error: { code: "23505", message: "duplicate key" } };
+      return { data: { email: "coachalex@gmail.com", status: "pending" } };
+    },
+  });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { ok: true, alreadyOnList: true, confirmationSent: true });
+
+  const lookup = supabase.queries[1];
+  assertEquals(lookup.op, "select");
+  assertEquals(lookup.filters, [["eq", "email_normalized", "coachalex@gmail.com"]]);
+
+  // Sent to the address on file, not the variant just typed.
+  assertEquals((net.calls[0].body as { to: string[] }).to, ["coachalex@gmail.com"]);
+});
+
+Deno.test("duplicate email of an already-confirmed lead sends nothing", async () => {
+  const { deps, net } = setup({
+    query: (q) =>
+      q.op === "insert"
+        ? { error: { code: "23505" } }
+        : { data: { email: "coachalex@gmail.com", status: "confirmed" } },
+  });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(await res.json(), { ok: true, alreadyOnList: true });
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("other insert errors are a 500", async () => {
+  const { deps } = setup({ query: () => ({ error: { code: "42P01", message: "relation does not exist" } }) });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(res.status, 500);
+  assertEquals((await res.json()).error, "db_insert_failed");
+});
+
+Deno.test("rate limited signups get 429 with reset_at and are not inserted", async () => {
+  const resetAt = "2026-01-15T13:00:00.000Z";
+  const { deps, supabase } = setup({ rpc: () => ({ data: [{ allowed: false, reset_at: resetAt }] }) });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(res.status, 429);
+  assertEquals(await res.json(), { ok: false, error: "rate_limited", reset_at: resetAt });
+  assertEquals(supabase.queries.length, 0);
+  assertEquals(supabase.rpcs[0].args.p_key, "coach_waitlist:ip:203.0.113.7");
+});
+
+Deno.test("rate limiter outage: fail-closed returns 503, fail-open lets the signup through", async () => {
+  const down = () => ({ error: { message: "function waitlist_rate_limit_allow does not exist" } });
+
+  const closed = setup({ rpc: down, env: { RATE_LIMIT_FAIL_MODE: "closed" } });
+  const r1 = await handle(post(SIGNUP), closed.deps);
+  assertEquals(r1.status, 503);
+  assertEquals((await r1.json()).error, "rate_limit_unavailable");
+
+  const open = setup({ rpc: down });
+  const r2 = await handle(post(SIGNUP), open.deps);
+  assertEquals(r2.status, 200);
+  assertEquals(open.supabase.queries[0].op, "insert");
+});
+
+Deno.test("Resend failure keeps the signup but reports confirmationSent: false", async () => {
+  const { deps, supabase, net } = setup({ resendStatus: 500 });
+  const res = await handle(post(SIGNUP), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { ok: true, alreadyOnList: false, confirmationSent: false });
+  assertEquals(supabase.queries[0].op, "insert");
+  assert(net.calls.some((c) => c.url === RESEND_URL));
+});
+
+Deno.test("confirmation email carries RFC 8058 List-Unsubscribe headers and a body link", async () => {
+  const { deps, net } = setup({ env: { SUPABASE_URL: "https://ref.supabase.co" } });
+  await handle(post(SIGNUP), deps);
+
+  const message = net.calls[0].body as { text: string; headers: Record<string, string> };
+  assertStringIncludes(message.headers["List-Unsubscribe"], "<https://ref.supabase.co/functions/v1/coach-waitlist-unsubscribe?token=");
+  assertEquals(message.headers["List-Unsubscribe-Post"], "List-Unsubscribe=One-Click");
+  assertStringIncludes(message.text, `${SITE}/unsubscribe?token=`);
+});
+
+Deno.test("confirmation email HTML comes from the shared template, links in escaped hrefs", async () => {
+  const { deps, net } = setup({ env: { SUPABASE_URL: "https://ref.supabase.co" } });
+  await handle(post(SIGNUP), deps);
+
+  const message = net.calls[0].body as { html: string };
+  assertStringIncludes(message.html, `<a href="${SITE}/confirm?token=`);
+  assertStringIncludes(message.html, `<a href="${SITE}/unsubscribe?token=`);
+  assertStringIncludes(message.html, "<title>Confirm your email</title>");
+});
+
+/** The lead insert answers with its id (`.select("id")`), which the consent row points at. */
+const insertedLead = (q: FakeQuery) =>
+  q.op === "insert" && q.table === "leads_coach_waitlist" ? { data: { id: "lead_1" } } : undefined;
+
+Deno.test("marketing consent is stored on the lead and snapshotted into lead_consents", async () => {
+  const { deps, supabase } = setup({ query: insertedLead });
+  const res = await handle(
+    post({
+      ...SIGNUP,
+      site_version: "coach-landing-v2-mono:apply:full",
+      marketing_consent: true,
+      email_preference: "product_updates",
+      consent_text_version: MARKETING_CONSENT_TEXT_VERSION,
+      consent_at: "2026-01-15T11:59:30.000Z",
+    }),
+    deps,
+  );
+
+  assertEquals(res.status, 200);
+
+  const lead = supabase.queries[0].payload as Record<string, unknown>;
+  assertEquals([lead.marketing_consent, lead.email_preference], [true, "product_updates"]);
+
+  const consent = supabase.queries.find((q) => q.table === "lead_consents");
+  assertEquals(consent?.op, "insert");
+  const row = consent?.payload as Record<string, unknown>;
+  assertEquals(row.lead_id, "lead_1");
+  assertEquals(row.consent_text, MARKETING_CONSENT_TEXTS[MARKETING_CONSENT_TEXT_VERSION]);
+  assertEquals(row.consented_at, "2026-01-15T11:59:30.000Z");
+  assertEquals(row.site_version, "coach-landing-v2-mono:apply:full");
+  assertEquals(row.source, "signup");
+});
+
+Deno.test("a declined checkbox is recorded too, without a preference", async () => {
+  const { deps, supabase } = setup({ query: insertedLead });
+  await handle(
+    post({
+      ...SIGNUP,
+      marketing_consent: false,
+      email_preference: "product_updates",
+      consent_text_version: MARKETING_CONSENT_TEXT_VERSION,
+    }),
+    deps,
+  );
+
+  const lead = supabase.queries[0].payload as Record<string, unknown>;
+  assertEquals([lead.marketing_consent, lead.email_preference], [false, null]);
+  const row = supabase.queries.find((q) => q.table === "lead_consents")?.payload as Record<string, unknown>;
+  assertEquals([row.marketing_consent, row.email_preference], [false, null]);
+});
+
+Deno.test("consent needs a known wording version", async () => {
+  const { deps, supabase } = setup();
+
+  const unknown = await handle(post({ ...SIGNUP, marketing_consent: true, consent_text_version: "1999-01-01" }), deps);
+  assertEquals(unknown.status, 400);
+  assertEquals((await unknown.json()).field_errors, { consent_text_version: "invalid_option" });
+
+  const missing = await handle(post({ ...SIGNUP, marketing_consent: true }), deps);
+  assertEquals((await missing.json()).field_errors, { consent_text_version: "required" });
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("first and last attribution touches are stored; junk in them is dropped, not rejected", async () => {
+  const { deps, supabase } = setup({ query: insertedLead });
+  const firstTouch = {
+    utm: { utm_source: "linkedin", utm_campaign: "launch" },
+    click_ids: { li_fat_id: "abc123" },
+    referrer_domain: "linkedin.com",
+    landing_path: "/",
+    at: "2026-01-02T08:00:00.000Z",
+  };
+  const res = await handle(
+    post({
+      ...SIGNUP,
+      first_touch: firstTouch,
+      last_touch: {
+        utm: { utm_source: 42 },
+        click_ids: { gclid: "g".repeat(600), msclkid: "not-kept" },
+        referrer_domain: "News.YCombinator.com",
+        landing_path: "javascript:alert(1)",
+        at: "2026-01-15T11:58:00Z",
+      },
+    }),
+    deps,
+  );
+
+  assertEquals(res.status, 200);
+  const lead = supabase.queries[0].payload as Record<string, unknown>;
+  assertEquals(lead.first_touch, firstTouch);
+  assertEquals(lead.last_touch, {
+    utm: {},
+    click_ids: { gclid: "g".repeat(512) },
+    referrer_domain: "news.ycombinator.com",
+    landing_path: "/",
+    at: "2026-01-15T11:58:00.000Z",
+  });
+
+  const undated = await handle(post({ ...SIGNUP, first_touch: { utm: { utm_source: "x" } }, last_touch: "direct" }), deps);
+  assertEquals(undated.status, 200);
+  const second = supabase.queries.filter((q) => q.op === "insert" && q.table === "leads_coach_waitlist")[1];
+  const payload = second.payload as Record<string, unknown>;
+  assertEquals([payload.first_touch, payload.last_touch], [null, null]);
+});
+
+Deno.test("an oversized UTM map is clipped, never a reason to reject the signup", async () => {
+  const { deps, supabase } = setup({ query: insertedLead });
+  const utm: Record<string, unknown> = { utm_source: "x".repeat(300), utm_medium: 7, ["k".repeat(65)]: "dropped" };
+  for (let i = 0; i < 20; i++) utm[`utm_extra_${i}`] = "v";
+
+  const res = await handle(post({ ...SIGNUP, utm }), deps);
+
+  assertEquals(res.status, 200);
+  const stored = (supabase.queries[0].payload as { utm: Record<string, string> }).utm;
+  assertEquals(stored.utm_source, "x".repeat(200));
+  assertEquals(["utm_medium" in stored, Object.keys(stored).length], [false, 12]);
+});
+
+Deno.test("experiment assignments are stored; unknown experiments and variants are dropped", async () => {
+  const { deps, supabase } = setup({ query: insertedLead });
+  const res = await handle(
+    post({ ...SIGNUP, experiments: { hero_headline: "sunday", price_framing: "free_forever", retired_test: "b" } }),
+    deps,
+  );
+
+  assertEquals(res.status, 200);
+  const lead = supabase.queries[0].payload as Record<string, unknown>;
+  assertEquals(lead.experiments, { hero_headline: "sunday" });
+});
+
+Deno.test("variants are picked by weight", () => {
+  assertEquals([pickVariant("hero_headline", 0), pickVariant("hero_headline", 0.49)], ["control", "control"]);
+  assertEquals([pickVariant("hero_headline", 0.5), pickVariant("hero_headline", 0.999)], ["sunday", "sunday"]);
+});
+
+Deno.test("likely typo comes back as a field error with did_you_mean", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(post({ ...SIGNUP, email: "coach@gmial.com" }), deps);
+
+  assertEquals(res.status, 400);
+  const body = await res.json();
+  assertEquals(body.field_errors, { email: "likely_typo" });
+  assertEquals(body.did_you_mean, "coach@gmail.com");
+  assertEquals(supabase.queries.length, 0);
+});
@@ -0,0 +1,136 @@
+// supabase/functions/tests/coach-waitlist-unsubscribe.test.ts
+//
+// Handler tests for coach-waitlist-unsubscribe: RFC 8058 one-click POSTs from mail
+// clients, the /unsubscribe page's JSON POST, and token checks.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals } from "jsr:@std/assert@1";
+
+import { handle, type UnsubscribeDeps } from "../coach-waitlist-unsubscribe/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { signToken, type TokenPurpose } from "../_shared/signedToken.ts";
+import { buildUnsubscribeLinks } from "../_shared/unsubscribe.ts";
+import { createFakeSupabase, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SITE = "https://lungeable.com";
+const SECRET = "test-token-secret";
+const FN_URL = "https://ref.supabase.co/functions/v1/coach-waitlist-unsubscribe";
+
+const ENV = envFrom({ WAITLIST_TOKEN_SECRET: SECRET, SITE_URL: SITE, SUPABASE_URL: "https://ref.supabase.co" });
+
+function setup(opts: { query?: (q: FakeQuery) => FakeResult | undefined } = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.query ?? ((q) => (q.op === "update" ? { data: [{ id: "lead_1" }] } : undefined)),
+  });
+  const deps: UnsubscribeDeps = {
+    env: ENV,
+    createAdminClient: () => Promise.resolve(supabase.client),
+    now: () => NOW,
+  };
+  return { deps, supabase };
+}
+
+function token(purpose: TokenPurpose = "unsubscribe", ttlSeconds = 3600, sub = "alex@example.com") {
+  return signToken({ sub, purpose, ttlSeconds }, SECRET, NOW);
+}
+
+/** What a mail client sends for List-Unsubscribe-Post (no Origin, form body). */
+function oneClick(url: string): Request {
+  return new Request(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: "List-Unsubscribe=One-Click",
+  });
+}
+
+Deno.test("one-click POST to the List-Unsubscribe URL stamps unsubscribed_at", async () => {
+  const links = await buildUnsubscribeLinks("Alex@Example.com", ENV, NOW);
+  assertEquals(links?.oneClickUrl?.startsWith(`${FN_URL}?token=`), true);
+  assertEquals(links?.headers["List-Unsubscribe"], `<${links?.oneClickUrl}>`);
+
+  const { deps, supabase } = setup();
+  const res = await handle(oneClick(links!.oneClickUrl!), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.text(), "Unsubscribed");
+
+  const [update, consent] = supabase.queries;
+  assertEquals(update.op, "update");
+  assertEquals(update.payload, { unsubscribed_at: new Date(NOW).toISOString(), marketing_consent: false });
+  assertEquals(update.filters, [
+    ["eq", "email_normalized", "alex@example.com"],
+    ["is", "unsubscribed_at", null],
+  ]);
+
+  // The withdrawal lands in the consent audit trail.
+  assertEquals([consent.table, consent.op], ["lead_consents", "insert"]);
+  assertEquals(consent.payload, [
+    {
+      lead_id: "lead_1",
+      marketing_consent: false,
+      consented_at: new Date(NOW).toISOString(),
+      source: "list_unsubscribe",
+      request_id: (consent.payload as { request_id: string }[])[0].request_id,
+    },
+  ]);
+});
+
+Deno.test("the /unsubscribe page posts JSON and hears whether it was already done", async () => {
+  const { deps, supabase } = setup({ query: () => ({ data: [] }) });
+  const res = await handle(
+    new Request(FN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Origin: SITE },
+      body: JSON.stringify({ token: await token() }),
+    }),
+    deps,
+  );
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), SITE);
+  assertEquals(await res.json(), { ok: true, alreadyUnsubscribed: true });
+  assertEquals(supabase.queries.map((q) => q.op), ["update"]);
+});
+
+Deno.test("a link for a plus-address variant unsubscribes the row stored under the base address", async () => {
+  // e.g. the data-request email went to what the requester typed, not what's on file.
+  const { deps, supabase } = setup();
+  const res = await handle(oneClick(`${FN_URL}?token=${await token("unsubscribe", 3600, "Alex+data@gmail.com")}`), deps);
+
+  assertEquals([res.status, await res.text()], [200, "Unsubscribed"]);
+  assertEquals(supabase.queries[0].filters[0], ["eq", "email_normalized", "alex@gmail.com"]);
+});
+
+Deno.test("GET never unsubscribes", async () => {
+  const { deps, supabase } = setup();
+  const res = await handle(new Request(`${FN_URL}?token=${await token()}`), deps);
+
+  assertEquals(res.status, 405);
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("tokens for other purposes, expired or tampered tokens are refused", async () => {
+  const { deps, supabase } = setup();
+
+  const profile = await handle(oneClick(`${FN_URL}?token=${await token("profile")}`), deps);
+  assertEquals([profile.status, await profile.text()], [400, "invalid_token"]);
+
+  const expired = await handle(oneClick(`${FN_URL}?token=${await token("unsubscribe", -1)}`), deps);
+  assertEquals(await expired.text(), "expired_token");
+
+  const tampered = await handle(oneClick(`${FN_URL}?token=${(await token()).slice(0, -2)}xx`), deps);
+  assertEquals(await tampered.text(), "invalid_token");
+
+  assertEquals(supabase.queries.length, 0);
+});
+
+Deno.test("without WAITLIST_TOKEN_SECRET the answer is a 500, not a thrown error", async () => {
+  const { deps, supabase } = setup();
+  deps.env = envFrom({ SITE_URL: SITE });
+  const res = await handle(oneClick(`${FN_URL}?token=${await token()}`), deps);
+
+  assertEquals([res.status, await res.json()], [500, { ok: false, error: "server_misconfigured" }]);
+  assertEquals(supabase.queries.length, 0);
+});
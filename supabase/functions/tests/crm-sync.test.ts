@@ -0,0 +1,238 @@
+// supabase/functions/tests/crm-sync.test.ts
+//
+// CRM sync: the lead → contact property mapping, notify-coach-waitlist upserting
+// contacts into a mock HubSpot on a local port (./mockHubSpot.ts) while recording the
+// outcome in lead_crm_sync, and erasure deleting them again.
+//
+//   deno test --allow-read --allow-env --allow-net supabase/functions/tests/
+
+import { assertEquals } from "jsr:@std/assert@1";
+
+import { eraseCrmContact, getCrmFieldMap, mapLeadProperties, retryCrmDeletions } from "../_shared/crm/index.ts";
+import { envFrom } from "../_shared/env.ts";
+import { handle, type NotifyDeps } from "../notify-coach-waitlist/handler.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery, type FakeResult } from "./fakes.ts";
+import { startMockHubSpot } from "./mockHubSpot.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SECRET = "test-webhook-secret";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const LEAD = {
+  id: "7b0c4a52-0000-4000-8000-000000000001",
+  email: "alex@example.com",
+  name: "Alex de la Rivera",
+  client_count: "25-50",
+  primary_focus: "Strength",
+  coach_intents: ["Scale my roster", "Save time"],
+  score: 72,
+  source: "coach-trial",
+  status: "confirmed",
+  marketing_consent: true,
+  notes: "not for the CRM",
+  utm: { utm_source: "linkedin", utm_campaign: "launch", ref: "podcast" },
+};
+
+function setup(crmEnv: Record<string, string>, query?: (q: FakeQuery) => FakeResult | undefined) {
+  const supabase = createFakeSupabase({ query });
+  // Resend is scripted; everything else (the mock CRM) goes over the real network.
+  const resend = createFakeFetch(() => jsonResponse({ id: "email_1" }));
+  const deps: NotifyDeps = {
+    env: envFrom({
+      WAITLIST_WEBHOOK_SECRET: SECRET,
+      WAITLIST_NOTIFY_FROM: "Lungeable <alerts@lungeable.com>",
+      WAITLIST_NOTIFY_TO: "team@lungeable.com",
+      EMAIL_PROVIDER: "resend",
+      RESEND_API_KEY: "re_test",
+      ...crmEnv,
+    }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: ((input: RequestInfo | URL, init?: RequestInit) =>
+      String(input) === RESEND_URL ? resend.fetch(input, init) : fetch(input, init)) as typeof fetch,
+    now: () => NOW,
+  };
+  return { deps, supabase };
+}
+
+function webhook(type: "INSERT" | "UPDATE", record: Record<string, unknown>): Request {
+  return new Request("http://localhost/functions/v1/notify-coach-waitlist", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-webhook-secret": SECRET },
+    body: JSON.stringify({
+      type,
+      schema: "public",
+      table: "leads_coach_waitlist",
+      record,
+      old_record: type === "UPDATE" ? { ...record, status: "pending" } : null,
+    }),
+  });
+}
+
+Deno.test("default mapping: intents joined for a multi-checkbox, UTMs flattened, blanks left out", () => {
+  assertEquals(mapLeadProperties({ ...LEAD, primary_focus: "  " }, getCrmFieldMap(envFrom({}))), {
+    firstname: "Alex",
+    lastname: "de la Rivera",
+    lungeable_client_count: "25-50",
+    lungeable_coach_intents: "Scale my roster;Save time",
+    lungeable_lead_score: "72",
+    lungeable_signup_source: "coach-trial",
+    lungeable_waitlist_status: "confirmed",
+    lungeable_utm_source: "linkedin",
+    lungeable_utm_campaign: "launch",
+  });
+});
+
+Deno.test("CRM_FIELD_MAP renames and drops fields; unknown lead fields are ignored", () => {
+  const map = getCrmFieldMap(envFrom({ CRM_FIELD_MAP: "score=hs_custom_score, utm_campaign=, notes=lungeable_notes, status" }));
+
+  assertEquals(map.score, "hs_custom_score");
+  assertEquals("utm_campaign" in map, false);
+  assertEquals(map.status, "lungeable_waitlist_status");
+
+  const properties = mapLeadProperties(LEAD, map);
+  assertEquals(properties.hs_custom_score, "72");
+  assertEquals("lungeable_utm_campaign" in properties, false);
+  assertEquals("lungeable_notes" in properties, false);
+});
+
+Deno.test("a confirmed lead is upserted into the mock CRM and its sync state recorded", async () => {
+  const mock = startMockHubSpot();
+  try {
+    const { deps, supabase } = setup({ CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "pat-test", CRM_API_BASE_URL: mock.url });
+
+    // A pending signup isn't a lead for the CRM yet.
+    const pending = await handle(webhook("INSERT", { ...LEAD, status: "pending" }), deps);
+    assertEquals(await pending.json(), { ok: true, ignored: "not a confirmation" });
+    assertEquals(mock.requests.length, 0);
+
+    const res = await handle(webhook("UPDATE", LEAD), deps);
+    assertEquals(res.status, 200);
+    const body = await res.json();
+    assertEquals(body.welcome, { sent: true });
+    assertEquals(body.crm, { synced: true, provider: "hubspot", contactId: "1001", status: 200, tracked: true });
+
+    assertEquals(mock.requests.length, 1);
+    assertEquals(mock.requests[0].path, "/crm/v3/objects/contacts/batch/upsert");
+    assertEquals(mock.requests[0].authorization, "Bearer pat-test");
+    const { inputs } = mock.requests[0].body as { inputs: { idProperty: string; id: string }[] };
+    assertEquals([inputs[0].idProperty, inputs[0].id], ["email", "alex@example.com"]);
+    assertEquals(mock.contacts.get("alex@example.com")?.properties.lungeable_waitlist_status, "confirmed");
+
+    const [state] = supabase.queries.filter((q) => q.table === "lead_crm_sync");
+    assertEquals(state.op, "upsert");
+    assertEquals(state.payload, {
+      lead_id: LEAD.id,
+      provider: "hubspot",
+      contact_id: "1001",
+      status: "synced",
+      last_http_status: 200,
+      last_error: null,
+      synced_at: "2026-01-15T12:00:00.000Z",
+      updated_at: "2026-01-15T12:00:00.000Z",
+    });
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("leads without marketing consent, or unsubscribed, are not synced", async () => {
+  const mock = startMockHubSpot();
+  try {
+    const { deps } = setup({ CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "pat-test", CRM_API_BASE_URL: mock.url });
+
+    const noConsent = await handle(webhook("UPDATE", { ...LEAD, marketing_consent: false }), deps);
+    assertEquals((await noConsent.json()).crm, { synced: false, skipped: "no_consent", provider: "hubspot" });
+
+    const unsubscribed = await handle(webhook("UPDATE", { ...LEAD, unsubscribed_at: "2026-01-15T11:00:00Z" }), deps);
+    assertEquals((await unsubscribed.json()).crm, { synced: false, skipped: "unsubscribed", provider: "hubspot" });
+
+    assertEquals(mock.requests.length, 0);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("a CRM error is recorded as failed and never blocks the alert", async () => {
+  const mock = startMockHubSpot({ failWith: 401 });
+  try {
+    const { deps, supabase } = setup({ CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "expired", CRM_API_BASE_URL: mock.url });
+    const res = await handle(webhook("UPDATE", { ...LEAD, status: "confirmed" }), deps);
+
+    assertEquals(res.status, 200);
+    const body = await res.json();
+    assertEquals([body.ok, body.crm.synced, body.crm.status, body.crm.tracked], [true, false, 401, true]);
+
+    const [state] = supabase.queries.filter((q) => q.table === "lead_crm_sync");
+    const payload = state.payload as Record<string, unknown>;
+    assertEquals([payload.status, payload.last_http_status, "contact_id" in payload], ["failed", 401, false]);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("without CRM_PROVIDER nothing is synced or recorded", async () => {
+  const { deps, supabase } = setup({});
+  const res = await handle(webhook("UPDATE", LEAD), deps);
+
+  assertEquals((await res.json()).crm, { synced: false, skipped: "disabled" });
+  assertEquals(supabase.queries.filter((q) => q.table === "lead_crm_sync").length, 0);
+});
+
+/** lead_crm_sync answers with the contact id a sync recorded. */
+const syncedAs = (contactId: string) => (q: FakeQuery) =>
+  q.table === "lead_crm_sync" && q.op === "select" ? { data: { contact_id: contactId } } : undefined;
+
+Deno.test("erasure deletes the contact by its recorded id", async () => {
+  const mock = startMockHubSpot();
+  try {
+    const crmEnv = { CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "pat-test", CRM_API_BASE_URL: mock.url };
+    await (await handle(webhook("UPDATE", LEAD), setup(crmEnv).deps)).body?.cancel();
+    assertEquals(mock.contacts.size, 1);
+
+    const { deps } = setup(crmEnv, syncedAs("1001"));
+    const r = await eraseCrmContact({ id: LEAD.id, email: LEAD.email }, deps);
+
+    assertEquals(r, { erased: true, provider: "hubspot", status: 204 });
+    assertEquals(mock.requests[1].path, "/crm/v3/objects/contacts/gdpr-delete");
+    assertEquals(mock.requests[1].body, { objectId: "1001" });
+    assertEquals(mock.contacts.size, 0);
+
+    // Already gone (or never synced) counts as done.
+    assertEquals((await eraseCrmContact({ id: LEAD.id, email: LEAD.email }, deps)).erased, true);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("a refused deletion is queued by contact id and retried", async () => {
+  const down = startMockHubSpot({ failWith: 503 });
+  try {
+    const { deps, supabase } = setup(
+      { CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "pat-test", CRM_API_BASE_URL: down.url },
+      syncedAs("1001"),
+    );
+    const r = await eraseCrmContact({ id: LEAD.id, email: LEAD.email }, deps);
+
+    assertEquals([r.erased, r.status, r.queued], [false, 503, true]);
+    const [queued] = supabase.queries.filter((q) => q.table === "crm_deletions");
+    assertEquals(queued.op, "upsert");
+    assertEquals((queued.payload as Record<string, unknown>).contact_id, "1001");
+    assertEquals(JSON.stringify(queued.payload).includes("alex@"), false);
+  } finally {
+    await down.close();
+  }
+
+  const up = startMockHubSpot();
+  try {
+    const { deps, supabase } = setup(
+      { CRM_PROVIDER: "hubspot", HUBSPOT_ACCESS_TOKEN: "pat-test", CRM_API_BASE_URL: up.url },
+      (q) => (q.table === "crm_deletions" && q.op === "select" ? { data: [{ id: "del_1", contact_id: "1001", attempts: 1 }] } : undefined),
+    );
+    assertEquals(await retryCrmDeletions(deps), { deleted: 1, failed: 0 });
+    assertEquals(up.requests[0].body, { objectId: "1001" });
+    const done = supabase.queries.filter((q) => q.table === "crm_deletions" && q.op === "delete");
+    assertEquals(done.map((q) => q.filters), [[["eq", "id", "del_1"]]]);
+  } finally {
+    await up.close();
+  }
+});
@@ -0,0 +1,138 @@
+// supabase/functions/tests/email-template.test.ts
+//
+// Escaping + snapshot tests for the email templating module and the team lead alert.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+//
+// Snapshots are plain golden files in ./__snapshots__ so they're easy to review in a
+// diff. After an intentional template change, regenerate them with:
+//
+//   UPDATE_SNAPSHOTS=1 deno test --allow-read --allow-write --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { escapeHtml, html, mailtoHref, renderEmail, safeHref } from "../_shared/email/template.ts";
+import { buildLeadNotificationEmail } from "../notify-coach-waitlist/leadEmail.ts";
+
+const HOSTILE_RECORD: Record<string, unknown> = {
+  id: "00000000-0000-0000-0000-000000000001",
+  email: "evil\"><script>alert(1)</script>@example.com",
+  name: "<img src=x onerror=alert(1)>",
+  primary_focus: "strength",
+  client_count: "25-50",
+  coach_intents: ["Scale my roster", "<b>Other</b>"],
+  presence: "<a href=\"javascript:alert(1)\">click me</a>",
+  notes: "Line one\nSource: forged-line\n</pre><script>steal()</script>",
+  source: "coach-trial",
+  site_version: "coach-landing-v2-mono:apply:full",
+  utm: {
+    utm_source: "linkedin",
+    utm_campaign: "<script>x</script>",
+    "<b>key</b>": "'single' & \"double\"",
+  },
+  created_at: "2025-01-01T00:00:00.000Z",
+  confirmed_at: "2025-01-01T00:05:00.000Z",
+};
+
+const BENIGN_RECORD: Record<string, unknown> = {
+  email: "alex@example.com",
+  name: "Alex Rivera",
+  client_count: "10-25",
+  source: "coach-demo-fallback",
+  score: 17,
+  score_reasons: ["client_count 10-25 (+15)", "name provided (+2)"],
+  utm: {},
+  created_at: "2025-01-01T00:00:00.000Z",
+};
+
+async function assertMatchesSnapshot(name: string, actual: string): Promise<void> {
+  const path = new URL(`./__snapshots__/${name}`, import.meta.url);
+  if (Deno.env.get("UPDATE_SNAPSHOTS") === "1") {
+    await Deno.writeTextFile(path, actual);
+    return;
+  }
+  assertEquals(actual, await Deno.readTextFile(path), `snapshot mismatch: ${name}`);
+}
+
+Deno.test("escapeHtml escapes all five HTML-significant characters", () => {
+  assertEquals(escapeHtml(`<a href="x" title='y'>&</a>`), "&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;");
+});
+
+Deno.test("html`` escapes interpolations but not nested html``", () => {
+  const inner = html`<i>${"<b>"}</i>`;
+  assertEquals(html`<p>${"<script>"}${inner}</p>`.__html, "<p>&lt;script&gt;<i>&lt;b&gt;</i></p>");
+});
+
+Deno.test("safeHref only allows http(s) and mailto", () => {
+  assertEquals(safeHref("javascript:alert(1)"), "#");
+  assertEquals(safeHref(" data:text/html,hi"), "#");
+  assertEquals(safeHref("https://lungeable.com"), "https://lungeable.com");
+  assertEquals(safeHref("mailto:a@b.com"), "mailto:a@b.com");
+  assertEquals(mailtoHref("a+b@c.com"), "mailto:a+b@c.com");
+});
+
+Deno.test("lead alert: hostile inputs never reach the HTML unescaped", async () => {
+  const { subject, html: body, text } = buildLeadNotificationEmail(HOSTILE_RECORD, { subjectPrefix: "[Waitlist]" });
+
+  assert(!body.includes("<script>"), "raw <script> in HTML");
+  assert(!body.includes("<img"), "raw <img> in HTML");
+  assert(!body.includes("href=\"javascript:"), "javascript: link in HTML");
+  assertStringIncludes(body, "&lt;script&gt;alert(1)&lt;/script&gt;");
+
+  // Plain text: single-line fields can't forge extra "Label: value" lines.
+  assert(!/^Source: forged-line$/m.test(text.split("\nNotes\n")[0]));
+  assert(!subject.includes("\n"));
+
+  await assertMatchesSnapshot("lead-hostile.html", body);
+  await assertMatchesSnapshot("lead-hostile.txt", `Subject: ${subject}\n\n${text}`);
+});
+
+Deno.test("lead alert: benign record renders mailto + empty UTM table", async () => {
+  const { subject, html: body, text } = buildLeadNotificationEmail(BENIGN_RECORD);
+
+  assertStringIncludes(body, `href="mailto:alex@example.com"`);
+  assertStringIncludes(text, "UTM: (no UTM parameters)");
+  assertStringIncludes(text, "Score: 17 — client_count 10-25 (+15); name provided (+2)");
+
+  await assertMatchesSnapshot("lead-benign.html", body);
+  await assertMatchesSnapshot("lead-benign.txt", `Subject: ${subject}\n\n${text}`);
+});
+
+Deno.test("renderEmail builds text and HTML from the same blocks", () => {
+  const { html: body, text } = renderEmail({
+    title: "T",
+    blocks: [{ type: "fields", rows: [{ label: "A", value: "1" }, { label: "B", value: "2" }] }],
+  });
+  for (const label of ["A", "B"]) {
+    assertStringIncludes(body, `<b>${label}</b>`);
+    assertStringIncludes(text, `${label}: `);
+  }
+});
+
+Deno.test("button and unsubscribe links are escaped in HTML and spelled out in text", () => {
+  const href = 'https://lungeable.com/confirm?a=1&b="2"';
+  const { html: body, text } = renderEmail({
+    title: "T",
+    blocks: [{ type: "button", label: "Go", href }, { type: "button", label: "Bad", href: "javascript:alert(1)" }],
+    unsubscribeUrl: "https://lungeable.com/unsubscribe?token=x&y",
+  });
+  assertStringIncludes(body, 'href="https://lungeable.com/confirm?a=1&amp;b=&quot;2&quot;"');
+  assertStringIncludes(body, 'href="#"');
+  assertStringIncludes(body, 'href="https://lungeable.com/unsubscribe?token=x&amp;y"');
+  assertStringIncludes(text, `Go:\n${href}`);
+  assertStringIncludes(text, "--\nUnsubscribe from Lungeable emails: https://lungeable.com/unsubscribe?token=x&y");
+});
+
+Deno.test("list and link blocks escape their text in HTML", () => {
+  const { html: body, text } = renderEmail({
+    title: "T",
+    blocks: [
+      { type: "list", items: ["<b>one</b>", "two"] },
+      { type: "link", text: "Prefer a walkthrough?", label: "Book <30> minutes", href: "https://calendly.com/x?a=1&b=2" },
+    ],
+  });
+  assertStringIncludes(body, "<li>&lt;b&gt;one&lt;/b&gt;</li><li>two</li>");
+  assertStringIncludes(body, 'Prefer a walkthrough? <a href="https://calendly.com/x?a=1&amp;b=2" style="color:#111;">Book &lt;30&gt; minutes</a>');
+  assertStringIncludes(text, "- <b>one</b>\n- two");
+  assertStringIncludes(text, "Prefer a walkthrough? Book <30> minutes:\nhttps://calendly.com/x?a=1&b=2");
+});
@@ -0,0 +1,124 @@
+// supabase/functions/tests/fakes.ts
+//
+// Test doubles for the handler tests: an in-memory stand-in for the supabase-js
+// query builder and a scripted fetch. Not a test file itself (no .test.ts suffix).
+
+export type FakeError = { code?: string; message?: string };
+
+export type FakeResult = { data?: unknown; error?: FakeError | null; count?: number | null };
+
+export type FakeQuery = {
+  table: string;
+  /** First write op wins; a plain read is "select". */
+  op: "select" | "insert" | "update" | "upsert" | "delete";
+  payload?: unknown;
+  /** [method, column, value], e.g. ["eq", "email_normalized", "coach@gmail.com"]. */
+  filters: [string, string, unknown][];
+  /** Columns passed to select(), when given. */
+  columns?: string;
+  /** range(from, to), for paged reads. */
+  range?: [number, number];
+};
+
+export type FakeRpcCall = { fn: string; args: Record<string, unknown> };
+
+type QueryHandler = (q: FakeQuery) => FakeResult | undefined;
+type RpcHandler = (call: FakeRpcCall) => FakeResult | undefined;
+/** Answers auth.getUser(jwt); `data` should look like { user: { email } }. */
+type AuthHandler = (jwt: string) => FakeResult | undefined;
+
+const FILTERS = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "is", "like", "ilike"];
+const MODIFIERS = ["order", "limit", "single", "maybeSingle"];
+
+function settle(r: FakeResult | undefined): { data: unknown; error: FakeError | null; count: number | null } {
+  return { data: r?.data ?? null, error: r?.error ?? null, count: r?.count ?? null };
+}
+
+/**
+ * Just enough of the supabase-js client for the handlers: from(table) chains
+ * (select/insert/update/upsert/delete + filters, awaited at any point), rpc() and
+ * auth.getUser(). Every query and rpc call is recorded for assertions.
+ */
+export function createFakeSupabase(handlers: { query?: QueryHandler; rpc?: RpcHandler; auth?: AuthHandler } = {}) {
+  const queries: FakeQuery[] = [];
+  const rpcs: FakeRpcCall[] = [];
+
+  function builder(table: string) {
+    const q: FakeQuery = { table, op: "select", filters: [] };
+    let wrote = false;
+    const b: Record<string, unknown> = {};
+
+    for (const op of ["insert", "update", "upsert", "delete"] as const) {
+      b[op] = (payload?: unknown) => {
+        if (!wrote) Object.assign(q, { op, payload });
+        wrote = true;
+        return b;
+      };
+    }
+    b.select = (columns?: string) => {
+      if (!wrote && columns !== undefined) q.columns = columns;
+      return b;
+    };
+    b.range = (from: number, to: number) => {
+      q.range = [from, to];
+      return b;
+    };
+    for (const f of FILTERS) {
+      b[f] = (column: string, value: unknown) => {
+        q.filters.push([f, column, value]);
+        return b;
+      };
+    }
+    for (const m of MODIFIERS) b[m] = () => b;
+    b.then = (resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) => {
+      queries.push(q);
+      return Promise.resolve(settle(handlers.query?.(q))).then(resolve, reject);
+    };
+    return b;
+  }
+
+  const client = {
+    from: (table: string) => builder(table),
+    rpc: (fn: string, args: Record<string, unknown> = {}) => {
+      const call = { fn, args };
+      rpcs.push(call);
+      return Promise.resolve(settle(handlers.rpc?.(call)));
+    },
+    auth: {
+      getUser: (jwt: string) => Promise.resolve(settle(handlers.auth?.(jwt))),
+    },
+  };
+
+  return { client, queries, rpcs };
+}
+
+export type FetchCall = { url: string; method: string; body: unknown };
+
+/**
+ * Scripted fetch: `respond` gets each call and returns the Response to hand back
+ * (throw to simulate a network error). Unscripted calls get a 404.
+ */
+export function createFakeFetch(respond: (call: FetchCall) => Response | undefined = () => undefined) {
+  const calls: FetchCall[] = [];
+
+  const fetchImpl = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    let body: unknown = init.body;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // keep the raw string
+      }
+    }
+    const call = { url, method: (init.method || "GET").toUpperCase(), body };
+    calls.push(call);
+    return respond(call) ?? new Response("not found", { status: 404 });
+  };
+
+  return { fetch: fetchImpl as typeof fetch, calls };
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
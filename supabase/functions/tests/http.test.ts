@@ -0,0 +1,90 @@
+// supabase/functions/tests/http.test.ts
+//
+// CORS allowlist matching (../_shared/http.ts): exact origins, "*" preview patterns,
+// and the X-CORS-Reason header on refusals.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+
+import { envFrom } from "../_shared/env.ts";
+import { checkOrigin, CORS_REASON_HEADER, corsPreflight, json, parseOriginRule } from "../_shared/http.ts";
+
+const PREVIEW_ENV = envFrom({
+  ALLOWED_ORIGINS: "https://lungeable.com, https://*-xrventures.vercel.app, http://localhost:4173",
+});
+
+Deno.test("defaults cover production, vite dev and vite preview", () => {
+  const env = envFrom({});
+  for (const origin of ["https://lungeable.com", "https://www.lungeable.com", "http://localhost:5173", "http://localhost:4173"]) {
+    assert(checkOrigin(origin, env).allowed, origin);
+  }
+  assertEquals(checkOrigin("https://coach-abc123-xrventures.vercel.app", env).allowed, false);
+});
+
+Deno.test("no Origin header is allowed (server-to-server) and reflects nothing", () => {
+  assertEquals(checkOrigin(null, PREVIEW_ENV), { origin: undefined, allowed: true });
+  assertEquals(json({ ok: true }, 200, checkOrigin(undefined)).headers.get("Access-Control-Allow-Origin"), null);
+});
+
+Deno.test("wildcard matches Vercel preview deployments", () => {
+  for (const origin of [
+    "https://crunch-asu-landing-git-main-xrventures.vercel.app",
+    "https://crunch-asu-landing-4f9c2k1-xrventures.vercel.app",
+  ]) {
+    assertEquals(checkOrigin(origin, PREVIEW_ENV), { origin, allowed: true });
+  }
+});
+
+Deno.test("wildcard is strict: one label, exact scheme, exact port", () => {
+  for (const origin of [
+    "https://xrventures.vercel.app", // "*" needs at least one character
+    "https://-xrventures.vercel.app.evil.com",
+    "https://evil.com.x-xrventures.vercel.app", // can't span labels
+    "https://a.b-xrventures.vercel.app",
+    "http://preview-xrventures.vercel.app", // scheme
+    "https://preview-xrventures.vercel.app:8443", // port
+    "https://preview-xrventures.vercel.app.evil.com",
+    "https://evil-xrventures.vercel.app/path",
+    "https://lungeable.com.evil.com",
+    "http://localhost:5173", // not in this env's list
+  ]) {
+    assertEquals(checkOrigin(origin, PREVIEW_ENV).allowed, false, origin);
+  }
+});
+
+Deno.test("malformed and null origins are refused with a reason", () => {
+  assertEquals(checkOrigin("null", PREVIEW_ENV), { origin: "null", allowed: false, reason: "null_origin" });
+  for (const origin of ["HTTPS://LUNGEABLE.COM", "https://lungeable.com/", "lungeable.com", "https://user@lungeable.com"]) {
+    assertEquals(checkOrigin(origin, PREVIEW_ENV), { origin, allowed: false, reason: "malformed_origin" }, origin);
+  }
+});
+
+Deno.test("invalid allowlist entries are ignored, never widened", () => {
+  assertEquals(parseOriginRule("*"), null);
+  assertEquals(parseOriginRule("https://*"), null);
+  assertEquals(parseOriginRule("https://*.com"), null);
+  assertEquals(parseOriginRule("https://**.vercel.app"), null);
+  assertEquals(parseOriginRule("https://a.*.vercel.app"), null);
+  assertEquals(parseOriginRule("https://*-x.vercel.app/path"), null);
+  assertEquals(parseOriginRule("https://Lungeable.com/"), { exact: "https://lungeable.com" });
+
+  const env = envFrom({ ALLOWED_ORIGINS: "*,https://lungeable.com" });
+  assertEquals(checkOrigin("https://evil.example", env).allowed, false);
+  assert(checkOrigin("https://lungeable.com", env).allowed);
+});
+
+Deno.test("refused origins get X-CORS-Reason and no Access-Control-Allow-Origin", () => {
+  const refused = checkOrigin("https://evil.example", PREVIEW_ENV);
+  const res = corsPreflight(refused);
+
+  assertEquals(res.status, 204);
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), null);
+  assert(res.headers.get(CORS_REASON_HEADER)?.startsWith("not_allowlisted"));
+  // The reason never leaks the allowlist.
+  assertEquals(res.headers.get(CORS_REASON_HEADER)?.includes("vercel"), false);
+
+  const allowed = corsPreflight(checkOrigin("http://localhost:4173", PREVIEW_ENV));
+  assertEquals(allowed.headers.get("Access-Control-Allow-Origin"), "http://localhost:4173");
+  assertEquals(allowed.headers.get(CORS_REASON_HEADER), null);
+});
@@ -0,0 +1,73 @@
+// supabase/functions/tests/mockHubSpot.ts
+//
+// A local stand-in for HubSpot's contacts batch upsert and GDPR delete, listening on
+// a real port. The CRM tests point CRM_API_BASE_URL at it; it also runs on its own, to
+// try the sync end to end with `npx supabase functions serve` (which runs in Docker,
+// hence the host):
+//
+//   deno run --allow-net supabase/functions/tests/mockHubSpot.ts
+//   # supabase/functions/.env
+//   CRM_PROVIDER="hubspot"
+//   HUBSPOT_ACCESS_TOKEN="local"
+//   CRM_API_BASE_URL="http://host.docker.internal:4010"
+
+import { HUBSPOT_GDPR_DELETE_PATH, HUBSPOT_UPSERT_PATH } from "../_shared/crm/hubspot.ts";
+
+export type MockHubSpotRequest = { method: string; path: string; authorization: string | null; body: unknown };
+
+type UpsertInput = { idProperty?: string; id?: string; properties?: Record<string, string> };
+
+export function startMockHubSpot(opts: { port?: number; failWith?: number } = {}) {
+  const requests: MockHubSpotRequest[] = [];
+  // Keyed by lowercased email, like HubSpot's own email dedupe.
+  const contacts = new Map<string, { id: string; properties: Record<string, string> }>();
+
+  const server = Deno.serve({ hostname: "127.0.0.1", port: opts.port ?? 0, onListen: () => {} }, async (req) => {
+    const path = new URL(req.url).pathname;
+    const body = (await req.json().catch(() => null)) as
+      | { inputs?: UpsertInput[]; objectId?: string; idProperty?: string }
+      | null;
+    requests.push({ method: req.method, path, authorization: req.headers.get("authorization"), body });
+
+    if (opts.failWith) {
+      return Response.json({ status: "error", message: "mock failure", category: "MOCK" }, { status: opts.failWith });
+    }
+    if (req.method === "POST" && path === HUBSPOT_GDPR_DELETE_PATH) {
+      const id = String(body?.objectId ?? "");
+      const key = body?.idProperty === "email"
+        ? id.toLowerCase()
+        : [...contacts].find(([, c]) => c.id === id)?.[0];
+      if (!key || !contacts.delete(key)) {
+        return Response.json({ status: "error", message: "resource not found" }, { status: 404 });
+      }
+      return new Response(null, { status: 204 });
+    }
+    if (req.method !== "POST" || path !== HUBSPOT_UPSERT_PATH) {
+      return Response.json({ status: "error", message: "not found" }, { status: 404 });
+    }
+
+    const results = (body?.inputs ?? []).map((input) => {
+      const email = String(input.id ?? "").toLowerCase();
+      const existing = contacts.get(email);
+      const contact = {
+        id: existing?.id ?? String(1000 + contacts.size + 1),
+        properties: { ...existing?.properties, ...input.properties },
+      };
+      contacts.set(email, contact);
+      return { ...contact, new: !existing };
+    });
+    return Response.json({ status: "COMPLETE", results });
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    contacts,
+    close: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  const mock = startMockHubSpot({ port: 4010 });
+  console.log(`Mock HubSpot on ${mock.url} (POST ${HUBSPOT_UPSERT_PATH}, ${HUBSPOT_GDPR_DELETE_PATH})`);
+}
@@ -0,0 +1,257 @@
+// supabase/functions/tests/notify-coach-waitlist.test.ts
+//
+// Handler tests for notify-coach-waitlist, driven through `handle(req, deps)` with a
+// scripted fetch standing in for Resend and a fake Supabase client for the outbox.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { handle, type NotifyDeps } from "../notify-coach-waitlist/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SECRET = "test-webhook-secret";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const BASE_ENV: Record<string, string> = {
+  WAITLIST_WEBHOOK_SECRET: SECRET,
+  WAITLIST_NOTIFY_FROM: "Lungeable <alerts@lungeable.com>",
+  WAITLIST_NOTIFY_TO: "team@lungeable.com",
+  WAITLIST_NOTIFY_BCC: "",
+  EMAIL_PROVIDER: "resend",
+  RESEND_API_KEY: "re_test",
+};
+
+const CONFIRMED = {
+  id: "7b0c4a52-0000-4000-8000-000000000001",
+  email: "alex@example.com",
+  name: "Alex Rivera",
+  client_count: "10-25",
+  source: "coach-trial",
+  status: "confirmed",
+};
+
+function confirmationEvent(record: Record<string, unknown> = CONFIRMED): Record<string, unknown> {
+  return {
+    type: "UPDATE",
+    schema: "public",
+    table: "leads_coach_waitlist",
+    record,
+    old_record: { ...record, status: "pending" },
+  };
+}
+
+type Setup = {
+  env?: Record<string, string | undefined>;
+  resendStatus?: number;
+  outbox?: (q: FakeQuery) => { data?: unknown; error?: { message?: string } | null } | undefined;
+};
+
+function setup(opts: Setup = {}) {
+  const supabase = createFakeSupabase({
+    query: opts.outbox ?? ((q) => (q.op === "insert" ? { data: { id: `outbox_${(q.payload as { kind: string }).kind}` } } : undefined)),
+  });
+  const net = createFakeFetch((call) => {
+    if (call.url === RESEND_URL) {
+      const status = opts.resendStatus ?? 200;
+      return status === 200 ? jsonResponse({ id: "email_1" }) : jsonResponse({ message: "upstream down" }, status);
+    }
+  });
+
+  const deps: NotifyDeps = {
+    env: envFrom({ ...BASE_ENV, ...opts.env }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: net.fetch,
+    now: () => NOW,
+  };
+
+  return { deps, supabase, net };
+}
+
+function post(body: unknown, secret: string | null = SECRET): Request {
+  const headers: Record<string, string> = { "Content-Type": "application/json", "x-request-id": "req-1" };
+  if (secret !== null) headers["x-webhook-secret"] = secret;
+  return new Request("http://localhost/functions/v1/notify-coach-waitlist", {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+}
+
+function resendMessages(calls: { url: string; body: unknown }[]) {
+  return calls
+    .filter((c) => c.url === RESEND_URL)
+    .map((c) => c.body as { to: string[]; subject: string; text: string; headers?: Record<string, string> });
+}
+
+Deno.test("OPTIONS preflight answers 204 with CORS headers", async () => {
+  const { deps } = setup();
+  const res = await handle(new Request("http://localhost/", { method: "OPTIONS" }), deps);
+
+  assertEquals(res.status, 204);
+  assertStringIncludes(res.headers.get("Access-Control-Allow-Headers") || "", "x-webhook-secret");
+});
+
+Deno.test("GET is a health check stamped with the injected clock", async () => {
+  const { deps, net } = setup();
+  const res = await handle(new Request("http://localhost/"), deps);
+
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals(body.function, "notify-coach-waitlist");
+  assertEquals(body.time, "2026-01-15T12:00:00.000Z");
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("missing or wrong x-webhook-secret is a 401", async () => {
+  const { deps, net } = setup();
+
+  assertEquals((await handle(post(confirmationEvent(), null), deps)).status, 401);
+  assertEquals((await handle(post(confirmationEvent(), "nope"), deps)).status, 401);
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("a fresh pending signup is acknowledged and ignored", async () => {
+  const { deps, net } = setup();
+  const res = await handle(
+    post({ type: "INSERT", schema: "public", table: "leads_coach_waitlist", record: { ...CONFIRMED, status: "pending" } }),
+    deps,
+  );
+
+  assertEquals(res.status, 202);
+  assertEquals((await res.json()).ignored, "not a confirmation");
+  assertEquals(net.calls.length, 0);
+});
+
+Deno.test("confirmation sends the team alert and the welcome email", async () => {
+  const { deps, net, supabase } = setup();
+  const res = await handle(post(confirmationEvent()), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("X-Request-Id"), "req-1");
+  const body = await res.json();
+  assertEquals(body.ok, true);
+  assertEquals(body.welcome, { sent: true });
+  assertEquals(body.channels, []);
+
+  const [alert, welcome] = resendMessages(net.calls);
+  assertEquals(alert.to, ["team@lungeable.com"]);
+  assertStringIncludes(alert.subject, "alex@example.com");
+  assertEquals(welcome.to, ["alex@example.com"]);
+
+  // Nothing failed, so nothing was parked.
+  assertEquals(supabase.queries.filter((q) => q.table === "notification_outbox").length, 0);
+});
+
+Deno.test("a late event for an erased lead is ignored; a signup after the erasure isn't", async () => {
+  const erasure = (q: FakeQuery) =>
+    q.table === "lead_tombstones" ? { data: { email_hash: "x", created_at: "2026-01-10T00:00:00Z" } } : undefined;
+
+  const old = setup({ outbox: erasure });
+  const res = await handle(post(confirmationEvent({ ...CONFIRMED, created_at: "2026-01-01T00:00:00Z" })), old.deps);
+  assertEquals(res.status, 202);
+  assertEquals((await res.json()).ignored, "erased");
+  assertEquals(old.net.calls.length, 0);
+
+  const fresh = setup({ outbox: erasure });
+  await handle(post(confirmationEvent({ ...CONFIRMED, created_at: "2026-01-14T00:00:00Z" })), fresh.deps);
+  assertEquals(resendMessages(fresh.net.calls).length, 2);
+});
+
+Deno.test("welcome email links to /profile when WAITLIST_TOKEN_SECRET is set", async () => {
+  const { deps, net } = setup({ env: { WAITLIST_TOKEN_SECRET: "test-token-secret", SITE_URL: "https://lungeable.com" } });
+  await handle(post(confirmationEvent()), deps);
+
+  const [, welcome] = resendMessages(net.calls);
+  assertStringIncludes(welcome.text, "https://lungeable.com/profile?token=");
+
+  const without = setup();
+  await handle(post(confirmationEvent()), without.deps);
+  assertEquals(resendMessages(without.net.calls)[1].text.includes("/profile?token="), false);
+});
+
+Deno.test("welcome email is unsubscribable; the team alert is not", async () => {
+  const { deps, net } = setup({
+    env: { WAITLIST_TOKEN_SECRET: "test-token-secret", SUPABASE_URL: "https://ref.supabase.co" },
+  });
+  await handle(post(confirmationEvent()), deps);
+
+  const [alert, welcome] = resendMessages(net.calls);
+  assertEquals(alert.headers, undefined);
+  assertEquals(welcome.headers?.["List-Unsubscribe-Post"], "List-Unsubscribe=One-Click");
+  assertStringIncludes(welcome.headers?.["List-Unsubscribe"] || "", "/functions/v1/coach-waitlist-unsubscribe?token=");
+  assertStringIncludes(welcome.text, "/unsubscribe?token=");
+});
+
+Deno.test("an unsubscribed lead gets the team alert but no welcome email", async () => {
+  const { deps, net } = setup();
+  const res = await handle(post(confirmationEvent({ ...CONFIRMED, unsubscribed_at: "2026-01-15T11:00:00Z" })), deps);
+
+  assertEquals((await res.json()).welcome, { sent: false, skipped: "unsubscribed" });
+  assertEquals(resendMessages(net.calls).map((m) => m.to), [["team@lungeable.com"]]);
+});
+
+Deno.test("Resend failure parks both sends in the outbox and answers 202", async () => {
+  const { deps, supabase } = setup({ resendStatus: 500 });
+  const res = await handle(post(confirmationEvent()), deps);
+
+  assertEquals(res.status, 202);
+  const body = await res.json();
+  assertEquals(body.ok, false);
+  assertEquals(body.status, 500);
+  assertEquals(body.queued, true);
+  assertEquals(body.outboxId, "outbox_lead_alert");
+  assertEquals(body.welcome.queued, true);
+
+  const parked = supabase.queries.filter((q) => q.table === "notification_outbox" && q.op === "insert");
+  assertEquals(parked.map((q) => (q.payload as { kind: string }).kind), ["lead_alert", "welcome"]);
+
+  const row = parked[0].payload as { lead_id: string; attempts: number; status: string; next_attempt_at: string };
+  assertEquals(row.lead_id, CONFIRMED.id);
+  assertEquals(row.attempts, 1);
+  assertEquals(row.status, "pending");
+  // Backoff is measured from the injected clock.
+  assert(Date.parse(row.next_attempt_at) > NOW);
+});
+
+Deno.test("Resend failure with the outbox unavailable is a 502", async () => {
+  const { deps } = setup({ resendStatus: 503, outbox: () => ({ error: { message: "relation \"notification_outbox\" does not exist" } }) });
+  const res = await handle(post(confirmationEvent()), deps);
+
+  assertEquals(res.status, 502);
+  const body = await res.json();
+  assertEquals(body.ok, false);
+  assertEquals(body.status, 503);
+});
+
+Deno.test("a permanent Resend rejection is parked as dead, not retried", async () => {
+  const { deps, supabase } = setup({ resendStatus: 422 });
+  const res = await handle(post(confirmationEvent()), deps);
+
+  assertEquals(res.status, 202);
+  const [alert] = supabase.queries.filter((q) => q.op === "insert");
+  assertEquals((alert.payload as { status: string }).status, "dead");
+});
+
+Deno.test("digest mode: a regular lead only gets the welcome email", async () => {
+  const { deps, net } = setup({ env: { WAITLIST_NOTIFY_MODE: "digest" } });
+  const res = await handle(post(confirmationEvent()), deps);
+
+  assertEquals(res.status, 200);
+  assertEquals((await res.json()).alert, "digest");
+
+  const messages = resendMessages(net.calls);
+  assertEquals(messages.length, 1);
+  assertEquals(messages[0].to, ["alex@example.com"]);
+});
+
+Deno.test("digest mode: a high-value lead still alerts instantly, flagged in the subject", async () => {
+  const { deps, net } = setup({ env: { WAITLIST_NOTIFY_MODE: "digest" } });
+  const res = await handle(post(confirmationEvent({ ...CONFIRMED, client_count: "50+" })), deps);
+
+  assertEquals(res.status, 200);
+  const [alert] = resendMessages(net.calls);
+  assertStringIncludes(alert.subject, "[High-value]");
+});
@@ -0,0 +1,133 @@
+// supabase/functions/tests/rate-limit.test.ts
+//
+// Rate limiting (../_shared/rateLimit): subnet keys, token-bucket refill, the table
+// backend's compare-and-set retry, and what the backend chain does when every
+// backend is down (fail-open vs fail-closed).
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert@1";
+
+import { checkRateLimits, subnetOf, type RateLimitConfig, type RateLimitRule } from "../_shared/rateLimit/index.ts";
+import { createTableBackend, refillBucket } from "../_shared/rateLimit/table.ts";
+import { createFakeSupabase, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const RULE: RateLimitRule = { scope: "ip", limit: 10, windowSeconds: 3600 };
+
+Deno.test("subnetOf: IPv4 /24, IPv4-mapped IPv6 as IPv4, IPv6 /64", () => {
+  assertEquals(subnetOf("203.0.113.7"), "203.0.113.0/24");
+  assertEquals(subnetOf("::ffff:203.0.113.7"), "203.0.113.0/24");
+  assertEquals(subnetOf("2001:db8:85a3:8d3:1319:8a2e:370:7348"), "2001:db8:85a3:8d3::/64");
+  // "::" expands to zero groups and leading zeros are dropped, so spellings of one /64 agree.
+  assertEquals(subnetOf("2001:db8::1"), "2001:db8:0:0::/64");
+  assertEquals(subnetOf("2001:0DB8:0000:0000:0000:0000:0000:0001"), "2001:db8:0:0::/64");
+  assertEquals(subnetOf("::1"), "0:0:0:0::/64");
+  assertEquals(subnetOf("1:2:3:4:5:6:7::"), "1:2:3:4::/64");
+});
+
+Deno.test("subnetOf: null for anything that isn't an address", () => {
+  for (const ip of ["", "unknown", "203.0.113", "1::2::3", "1:2:3:4:5:6:7:8:9", "1:2:3:4:5:6:7:8::", "1:2:3"]) {
+    assertEquals(subnetOf(ip), null, ip);
+  }
+});
+
+Deno.test("refillBucket: a new key starts full, refills at limit/window and caps at the limit", () => {
+  assertEquals(refillBucket(null, RULE, NOW), 10);
+
+  const at = (msAgo: number, tokens: number) => ({ tokens, updated_at: new Date(NOW - msAgo).toISOString() });
+  // 10 per hour = one token every 6 minutes.
+  assertEquals(refillBucket(at(6 * 60_000, 2), RULE, NOW), 3);
+  assertEquals(refillBucket(at(3 * 60_000, 0), RULE, NOW), 0.5);
+  assertEquals(refillBucket(at(24 * 3600_000, 1), RULE, NOW), 10);
+  // A bucket stamped in the future (clock skew between isolates) doesn't drain.
+  assertEquals(refillBucket(at(-60_000, 4), RULE, NOW), 4);
+});
+
+/** `buckets` answers the reads in order, the last one repeating; `updates` likewise, then "lost". */
+function tableSetup(opts: { buckets?: FakeResult[]; insert?: FakeResult; updates?: FakeResult[] }) {
+  const buckets = [...(opts.buckets ?? [{ data: null }])];
+  const updates = [...(opts.updates ?? [])];
+  const supabase = createFakeSupabase({
+    query: (q: FakeQuery) => {
+      if (q.op === "select") return buckets.length > 1 ? buckets.shift() : buckets[0];
+      if (q.op === "insert") return opts.insert;
+      if (q.op === "update") return updates.shift() ?? { data: [] };
+      return undefined;
+    },
+  });
+  return { backend: createTableBackend(supabase.client), supabase };
+}
+
+const BUCKET = { data: { tokens: 1, updated_at: new Date(NOW - 1000).toISOString() } };
+
+Deno.test("table backend: the update is a compare-and-set on updated_at, retried once when it loses", async () => {
+  const { backend, supabase } = tableSetup({ buckets: [BUCKET], updates: [{ data: [] }, { data: [{ key: "k" }] }] });
+  const d = await backend.hit("k", RULE, NOW);
+
+  assertEquals(d.allowed, true);
+  const writes = supabase.queries.filter((q) => q.op === "update");
+  assertEquals(writes.length, 2);
+  assertEquals(writes[0].filters, [
+    ["eq", "key", "k"],
+    ["eq", "updated_at", BUCKET.data.updated_at],
+  ]);
+  assertEquals((writes[0].payload as { updated_at: string }).updated_at, new Date(NOW).toISOString());
+});
+
+Deno.test("table backend: losing twice throws so the chain falls through", async () => {
+  const { backend } = tableSetup({ buckets: [BUCKET], updates: [{ data: [] }, { data: [] }] });
+  await assertRejects(() => backend.hit("k", RULE, NOW), Error, "write contention");
+});
+
+Deno.test("table backend: a new key is inserted; losing the insert race retries as an update", async () => {
+  const fresh = tableSetup({});
+  assertEquals((await fresh.backend.hit("k", RULE, NOW)).allowed, true);
+  assertEquals(fresh.supabase.queries[1].payload, { key: "k", tokens: 9, updated_at: new Date(NOW).toISOString() });
+
+  const raced = tableSetup({
+    buckets: [{ data: null }, BUCKET],
+    insert: { error: { code: "23505", message: "duplicate key" } },
+    updates: [{ data: [{ key: "k" }] }],
+  });
+  assertEquals((await raced.backend.hit("k", RULE, NOW)).allowed, true);
+  assertEquals(raced.supabase.queries.map((q) => q.op), ["select", "insert", "select", "update"]);
+});
+
+Deno.test("table backend: an empty bucket denies until the next token is due", async () => {
+  const empty = { data: { tokens: 0, updated_at: new Date(NOW).toISOString() } };
+  const { backend } = tableSetup({ buckets: [empty], updates: [{ data: [{ key: "k" }] }] });
+  const d = await backend.hit("k", RULE, NOW);
+  assertEquals(d, { allowed: false, resetAt: new Date(NOW + 6 * 60_000).toISOString() });
+});
+
+function config(failMode: RateLimitConfig["failMode"], backends = ["rpc"]): RateLimitConfig {
+  return { backends, rules: [RULE, { scope: "email", limit: 5, windowSeconds: 3600 }], failMode };
+}
+
+const RPC_DOWN = { rpc: () => ({ error: { message: "function waitlist_rate_limit_allow does not exist" } }) };
+
+Deno.test("every backend down: fail-open lets the request through, degraded", async () => {
+  const { client } = createFakeSupabase(RPC_DOWN);
+  const r = await checkRateLimits(client, { ip: "203.0.113.7", email: "coach@gmail.com" }, config("open"), NOW);
+  assertEquals(r, { allowed: true, backend: undefined, degraded: true });
+});
+
+Deno.test("every backend down: fail-closed answers unavailable", async () => {
+  const { client } = createFakeSupabase(RPC_DOWN);
+  const r = await checkRateLimits(client, { ip: "203.0.113.7", email: "coach@gmail.com" }, config("closed"), NOW);
+  assertEquals(r, { allowed: false, reason: "unavailable" });
+});
+
+Deno.test("a failing backend falls through to the next one in the chain", async () => {
+  const { client, rpcs } = createFakeSupabase(RPC_DOWN);
+  const r = await checkRateLimits(
+    client,
+    { ip: "198.51.100.23", email: "fallthrough@example.com" },
+    config("closed", ["rpc", "memory"]),
+    NOW,
+  );
+  assert(r.allowed);
+  assertEquals([r.backend, r.degraded], ["memory", true]);
+  assertEquals(rpcs.map((c) => c.args.p_key), ["coach_waitlist:ip:198.51.100.23", "coach_waitlist:email:fallthrough@example.com"]);
+});
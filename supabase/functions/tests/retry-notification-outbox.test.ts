@@ -0,0 +1,197 @@
+// supabase/functions/tests/retry-notification-outbox.test.ts
+//
+// Handler tests for retry-notification-outbox: due rows are claimed with a
+// compare-and-set on `attempts`, re-sent through a scripted Resend, suppressed when
+// the lead has unsubscribed or been erased, and dead-lettered when retries run out.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals } from "jsr:@std/assert@1";
+
+import { handle, type RetryOutboxDeps } from "../retry-notification-outbox/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import type { OutboxRow } from "../_shared/outbox.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+const SECRET = "test-webhook-secret";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const ROW: OutboxRow = {
+  id: "outbox_1",
+  kind: "welcome",
+  lead_id: "lead_1",
+  message: {
+    from: "Lungeable <hello@lungeable.com>",
+    to: ["alex@example.com"],
+    subject: "You're on the list",
+    text: "Welcome",
+    html: "<p>Welcome</p>",
+  },
+  status: "pending",
+  attempts: 2,
+  last_error: "resend: upstream down",
+  last_status: 503,
+  next_attempt_at: "2026-01-15T11:59:00.000Z",
+  sent_at: null,
+  created_at: "2026-01-15T11:00:00.000Z",
+  updated_at: "2026-01-15T11:58:00.000Z",
+};
+
+type Setup = {
+  rows?: OutboxRow[];
+  /** Answers outbox updates; by default every claim (the CAS on `attempts`) wins. */
+  update?: (q: FakeQuery) => FakeResult | undefined;
+  lead?: FakeResult;
+  resendStatus?: number;
+  env?: Record<string, string>;
+};
+
+function setup(opts: Setup = {}) {
+  const rows = opts.rows ?? [ROW];
+  const supabase = createFakeSupabase({
+    query: (q) => {
+      if (q.table === "leads_coach_waitlist") return opts.lead ?? { data: { unsubscribed_at: null } };
+      if (q.table !== "notification_outbox") return undefined;
+      if (q.op === "select") return { data: rows };
+      if (q.op !== "update") return undefined;
+      if (opts.update) return opts.update(q);
+      return { data: [{ id: q.filters.find(([, col]) => col === "id")?.[2] }] };
+    },
+  });
+  const net = createFakeFetch(({ url }) => {
+    if (url !== RESEND_URL) return undefined;
+    const status = opts.resendStatus ?? 200;
+    return status === 200 ? jsonResponse({ id: "email_1" }) : jsonResponse({ message: "nope" }, status);
+  });
+  const deps: RetryOutboxDeps = {
+    env: envFrom({ WAITLIST_WEBHOOK_SECRET: SECRET, EMAIL_PROVIDER: "resend", RESEND_API_KEY: "re_test", ...opts.env }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: net.fetch,
+    now: () => NOW,
+  };
+  return { deps, supabase, net };
+}
+
+function post(body?: unknown, secret = SECRET): Request {
+  return new Request("http://localhost/functions/v1/retry-notification-outbox", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-webhook-secret": secret },
+    body: body === undefined ? "" : JSON.stringify(body),
+  });
+}
+
+/** The final status write for a row (anything after its claim). */
+function finalUpdate(queries: FakeQuery[], id = ROW.id) {
+  return queries
+    .filter((q) => q.table === "notification_outbox" && q.op === "update" && "status" in (q.payload as object))
+    .find((q) => q.filters.some(([, col, v]) => col === "id" && v === id))?.payload as Record<string, unknown> | undefined;
+}
+
+Deno.test("a due row is claimed on its old attempts count, re-sent and marked sent", async () => {
+  const { deps, supabase, net } = setup();
+  const res = await handle(post(), deps);
+
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals([body.processed, body.results], [1, [{ id: ROW.id, kind: "welcome", outcome: "sent" }]]);
+
+  const [due, claim] = supabase.queries.filter((q) => q.table === "notification_outbox");
+  assertEquals(due.filters, [
+    ["eq", "status", "pending"],
+    ["lte", "next_attempt_at", new Date(NOW).toISOString()],
+  ]);
+  assertEquals(claim.payload, { attempts: 3, updated_at: new Date(NOW).toISOString() });
+  assertEquals(claim.filters, [
+    ["eq", "id", ROW.id],
+    ["eq", "status", "pending"],
+    ["eq", "attempts", 2],
+  ]);
+
+  assertEquals(net.calls.filter((c) => c.url === RESEND_URL).length, 1);
+  assertEquals(finalUpdate(supabase.queries)?.status, "sent");
+});
+
+Deno.test("a row another run already claimed is skipped, not sent twice", async () => {
+  const { deps, supabase, net } = setup({ update: () => ({ data: [] }) });
+  const body = await (await handle(post(), deps)).json();
+
+  assertEquals(body.results, [{ id: ROW.id, kind: "welcome", outcome: "skipped" }]);
+  assertEquals(net.calls.length, 0);
+  assertEquals(finalUpdate(supabase.queries), undefined);
+});
+
+Deno.test("a welcome for an unsubscribed or erased lead is dead-lettered as suppressed", async () => {
+  for (const [lead, reason] of [
+    [{ data: { unsubscribed_at: "2026-01-15T11:30:00.000Z" } }, "unsubscribed"],
+    [{ data: null }, "lead_deleted"],
+  ] as const) {
+    const { deps, supabase, net } = setup({ lead });
+    const body = await (await handle(post(), deps)).json();
+
+    assertEquals(body.results[0].outcome, "suppressed");
+    assertEquals(net.calls.length, 0);
+    assertEquals(finalUpdate(supabase.queries)?.status, "dead");
+    assertEquals(finalUpdate(supabase.queries)?.last_error, `suppressed: ${reason}`);
+  }
+
+  // A failed lookup doesn't block the retry; team alerts are never suppressed.
+  const lookupDown = setup({ lead: { error: { message: "timeout" } } });
+  assertEquals((await (await handle(post(), lookupDown.deps)).json()).results[0].outcome, "sent");
+
+  const team = setup({ rows: [{ ...ROW, kind: "lead_alert" }], lead: { data: null } });
+  assertEquals((await (await handle(post(), team.deps)).json()).results[0].outcome, "sent");
+});
+
+Deno.test("a failed send backs off; a rejected message or the last attempt dead-letters", async () => {
+  const transient = setup({ resendStatus: 503 });
+  assertEquals((await (await handle(post(), transient.deps)).json()).results[0].outcome, "retry");
+  const retry = finalUpdate(transient.supabase.queries);
+  assertEquals([retry?.status, retry?.attempts, retry?.last_status], ["pending", 3, 503]);
+  // Third attempt with the default 60s base: 4 minutes.
+  assertEquals(retry?.next_attempt_at, new Date(NOW + 4 * 60_000).toISOString());
+
+  const rejected = setup({ resendStatus: 422 });
+  assertEquals((await (await handle(post(), rejected.deps)).json()).results[0].outcome, "dead");
+  assertEquals(finalUpdate(rejected.supabase.queries)?.status, "dead");
+
+  const exhausted = setup({ resendStatus: 503, env: { OUTBOX_MAX_ATTEMPTS: "3" } });
+  assertEquals((await (await handle(post(), exhausted.deps)).json()).results[0].outcome, "dead");
+});
+
+const DEAD_ID = "0b1e7c52-0000-4000-8000-000000000009";
+
+Deno.test("replay moves dead letters back to pending; list_dead omits the body", async () => {
+  const { deps, supabase } = setup({ update: () => ({ data: [{ id: DEAD_ID }] }) });
+
+  const replayed = await (await handle(post({ action: "replay", ids: [DEAD_ID] }), deps)).json();
+  assertEquals(replayed, { ok: true, replayed: [DEAD_ID] });
+  const [update] = supabase.queries;
+  assertEquals(update.payload, {
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: new Date(NOW).toISOString(),
+    updated_at: new Date(NOW).toISOString(),
+  });
+  assertEquals(update.filters, [
+    ["in", "id", [DEAD_ID]],
+    ["eq", "status", "dead"],
+  ]);
+
+  await handle(post({ action: "list_dead" }), deps);
+  assertEquals(supabase.queries[1].columns?.includes("message->>subject"), true);
+  assertEquals(supabase.queries[1].filters, [["eq", "status", "dead"]]);
+});
+
+Deno.test("a wrong secret is 401, GET is 405, an unknown action or missing or malformed ids is 400", async () => {
+  const { deps, supabase } = setup();
+  assertEquals((await handle(post(undefined, "wrong"), deps)).status, 401);
+  assertEquals((await handle(new Request("http://localhost/functions/v1/retry-notification-outbox"), deps)).status, 405);
+  assertEquals((await (await handle(post({ action: "purge" }), deps)).json()).error, "unknown_action");
+  assertEquals((await (await handle(post({ action: "replay", ids: [] }), deps)).json()).error, "missing_ids");
+  for (const ids of [["outbox_9"], [DEAD_ID, 7]]) {
+    const res = await handle(post({ action: "replay", ids }), deps);
+    assertEquals([res.status, (await res.json()).error], [400, "invalid_body"]);
+  }
+  assertEquals(supabase.queries.length, 0);
+});
@@ -0,0 +1,143 @@
+// supabase/functions/tests/send-waitlist-digest.test.ts
+//
+// Handler tests for send-waitlist-digest: each run covers the leads confirmed since
+// the previous run, mails the team through a scripted Resend, parks a failed send in
+// the outbox and records the run.
+//
+//   deno test --allow-read --allow-env supabase/functions/tests/
+
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+
+import { handle, RUNS_TABLE, type DigestDeps } from "../send-waitlist-digest/handler.ts";
+import { envFrom } from "../_shared/env.ts";
+import { createFakeFetch, createFakeSupabase, jsonResponse, type FakeQuery, type FakeResult } from "./fakes.ts";
+
+const NOW = Date.parse("2026-01-15T08:00:00.000Z");
+const SECRET = "test-webhook-secret";
+const RESEND_URL = "https://api.resend.com/emails";
+
+const LAST_RUN_END = "2026-01-14T08:00:00.000Z";
+
+const LEADS = [
+  { id: "lead_1", email: "alex@example.com", client_count: "10-25", source: "coach-trial", score: 40 },
+  { id: "lead_2", email: "sam@example.com", client_count: "50+", source: "coach-trial", score: 80 },
+];
+
+type Setup = {
+  lastRun?: FakeResult;
+  leads?: unknown[];
+  outbox?: FakeResult;
+  resendStatus?: number;
+  env?: Record<string, string>;
+};
+
+function setup(opts: Setup = {}) {
+  const supabase = createFakeSupabase({
+    query: (q) => {
+      if (q.table === RUNS_TABLE && q.op === "select") return opts.lastRun ?? { data: { period_end: LAST_RUN_END } };
+      if (q.table === "leads_coach_waitlist") {
+        return q.columns === "id" ? { count: 3 } : { data: opts.leads ?? LEADS };
+      }
+      if (q.table === "notification_outbox") return opts.outbox ?? { data: { id: "outbox_1" } };
+      return undefined;
+    },
+  });
+  const net = createFakeFetch(({ url }) => {
+    if (url !== RESEND_URL) return undefined;
+    const status = opts.resendStatus ?? 200;
+    return status === 200 ? jsonResponse({ id: "email_1" }) : jsonResponse({ message: "upstream down" }, status);
+  });
+  const deps: DigestDeps = {
+    env: envFrom({
+      WAITLIST_WEBHOOK_SECRET: SECRET,
+      WAITLIST_NOTIFY_FROM: "Lungeable <alerts@lungeable.com>",
+      WAITLIST_NOTIFY_TO: "team@lungeable.com",
+      EMAIL_PROVIDER: "resend",
+      RESEND_API_KEY: "re_test",
+      ...opts.env,
+    }),
+    createAdminClient: () => Promise.resolve(supabase.client),
+    fetch: net.fetch,
+    now: () => NOW,
+  };
+  return { deps, supabase, net };
+}
+
+function post(secret = SECRET): Request {
+  return new Request("http://localhost/functions/v1/send-waitlist-digest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-webhook-secret": secret },
+    body: "{}",
+  });
+}
+
+function runInsert(queries: FakeQuery[]) {
+  return queries.find((q) => q.table === RUNS_TABLE && q.op === "insert")?.payload as Record<string, unknown> | undefined;
+}
+
+Deno.test("covers leads confirmed since the last run, mails the team and records the run", async () => {
+  const { deps, supabase, net } = setup();
+  const res = await handle(post(), deps);
+
+  assertEquals(res.status, 200);
+  const periodEnd = new Date(NOW).toISOString();
+  const body = await res.json();
+  assertEquals([body.periodStart, body.periodEnd, body.leads, body.sent, body.queued], [LAST_RUN_END, periodEnd, 2, true, false]);
+
+  const leads = supabase.queries.find((q) => q.table === "leads_coach_waitlist");
+  assertEquals(leads?.filters, [
+    ["eq", "status", "confirmed"],
+    ["gt", "confirmed_at", LAST_RUN_END],
+    ["lte", "confirmed_at", periodEnd],
+  ]);
+
+  const [mail] = net.calls.filter((c) => c.url === RESEND_URL).map((c) => c.body as { to: string[]; subject: string; text: string });
+  assertEquals(mail.to, ["team@lungeable.com"]);
+  assertEquals(mail.subject, "Coach waitlist digest: 2 new confirmed leads (1 high-value)");
+  // 50+ clients is high-value by default.
+  assertStringIncludes(mail.text, "★ sam@example.com");
+
+  assertEquals(runInsert(supabase.queries), { period_start: LAST_RUN_END, period_end: periodEnd, lead_count: 2, sent: true });
+});
+
+Deno.test("the first run looks back DIGEST_LOOKBACK_HOURS", async () => {
+  const { deps } = setup({ lastRun: { data: null }, env: { DIGEST_LOOKBACK_HOURS: "48" } });
+  const body = await (await handle(post(), deps)).json();
+  assertEquals(body.periodStart, new Date(NOW - 48 * 60 * 60 * 1000).toISOString());
+});
+
+Deno.test("no new leads sends nothing unless DIGEST_SEND_EMPTY, but the run is recorded", async () => {
+  const quiet = setup({ leads: [] });
+  assertEquals((await (await handle(post(), quiet.deps)).json()).sent, false);
+  assertEquals(quiet.net.calls.length, 0);
+  assertEquals(runInsert(quiet.supabase.queries)?.sent, false);
+
+  const empty = setup({ leads: [], env: { DIGEST_SEND_EMPTY: "true" } });
+  assertEquals((await (await handle(post(), empty.deps)).json()).sent, true);
+  assertEquals(empty.net.calls.length, 1);
+});
+
+Deno.test("a failed send is parked in the outbox; if that fails too the run isn't recorded", async () => {
+  const parked = setup({ resendStatus: 503 });
+  const body = await (await handle(post(), parked.deps)).json();
+  assertEquals([body.sent, body.queued], [false, true]);
+  const outbox = parked.supabase.queries.find((q) => q.table === "notification_outbox");
+  assertEquals([outbox?.op, (outbox?.payload as { kind: string }).kind], ["insert", "digest"]);
+  assertEquals(runInsert(parked.supabase.queries)?.sent, true);
+
+  const lost = setup({ resendStatus: 503, outbox: { error: { message: "outbox down" } } });
+  const res = await handle(post(), lost.deps);
+  assertEquals([res.status, (await res.json()).error], [502, "send_failed"]);
+  assertEquals(runInsert(lost.supabase.queries), undefined);
+});
+
+Deno.test("a wrong secret is 401, GET is 405, a runs lookup error is 500", async () => {
+  const { deps, supabase } = setup();
+  assertEquals((await handle(post("wrong"), deps)).status, 401);
+  assertEquals((await handle(new Request("http://localhost/functions/v1/send-waitlist-digest"), deps)).status, 405);
+  assertEquals(supabase.queries.length, 0);
+
+  const failing = setup({ lastRun: { error: { message: "boom" } } });
+  const res = await handle(post(), failing.deps);
+  assertEquals([res.status, (await res.json()).error], [500, "db_select_failed"]);
+});
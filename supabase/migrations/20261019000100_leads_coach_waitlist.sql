@@ -0,0 +1,59 @@
+-- Coach waitlist leads (written only by the coach-waitlist-signup Edge Function).
+--
+-- Idempotent on purpose: production already has this table (it predates the repo's
+-- migrations), so every statement is "if not exists" and safe to run against it.
+
+create table if not exists public.leads_coach_waitlist (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  email text not null,
+  name text,
+  primary_focus text,
+  client_count text,
+  coach_intents text[] not null default '{}',
+  presence text,
+  notes text,
+  source text not null default 'coach-landing',
+  site_version text,
+  utm jsonb not null default '{}'::jsonb,
+  user_agent text,
+  referer text
+);
+
+-- coach-waitlist-signup treats a unique violation (23505) as "already on the list".
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_email_key') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_email_key unique (email);
+  end if;
+
+  -- Must match ALLOWED_COACH_INTENTS in supabase/functions/_shared/signupSchema.ts.
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_coach_intents_check') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_coach_intents_check check (
+        coach_intents <@ array['Save time', 'Safer progression', 'Scale my roster', 'Better client experience', 'Other']::text[]
+      );
+  end if;
+
+  -- Must match PRIMARY_FOCUS_OPTIONS / CLIENT_COUNT_OPTIONS in signupSchema.ts.
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_primary_focus_check') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_primary_focus_check check (
+        primary_focus is null or primary_focus in ('strength', 'powerlifting', 'olympic', 'sport', 'rehab', 'other')
+      );
+  end if;
+
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_client_count_check') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_client_count_check check (
+        client_count is null or client_count in ('0-10', '10-25', '25-50', '50+')
+      );
+  end if;
+end $$;
+
+create index if not exists leads_coach_waitlist_created_at_idx on public.leads_coach_waitlist (created_at desc);
+
+-- No policies: anon/authenticated can't read or write. The Edge Functions use the
+-- service role, which bypasses RLS.
+alter table public.leads_coach_waitlist enable row level security;
@@ -0,0 +1,29 @@
+-- Double opt-in: leads start 'pending' and coach-waitlist-confirm flips them to
+-- 'confirmed'. The notify trigger alerts the team on that transition.
+
+alter table public.leads_coach_waitlist
+  add column if not exists status text,
+  add column if not exists confirmed_at timestamptz;
+
+-- Leads from before double opt-in signed up under single opt-in and were never sent a
+-- confirmation email: they stay on the list as confirmed (as of their signup), or
+-- they would drop out of the digest, CRM sync and admin views with no way back in.
+-- Only rows without a status yet, so re-running this is a no-op.
+update public.leads_coach_waitlist
+  set status = 'confirmed', confirmed_at = coalesce(confirmed_at, created_at)
+  where status is null;
+
+alter table public.leads_coach_waitlist
+  alter column status set default 'pending',
+  alter column status set not null;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_status_check') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_status_check check (status in ('pending', 'confirmed'));
+  end if;
+end $$;
+
+create index if not exists leads_coach_waitlist_status_confirmed_at_idx
+  on public.leads_coach_waitlist (status, confirmed_at);
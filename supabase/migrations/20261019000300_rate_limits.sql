@@ -0,0 +1,68 @@
+-- Rate-limit backends for coach-waitlist-signup (supabase/functions/_shared/rateLimit),
+-- and an hourly pg_cron job that purges keys nobody has hit for a day.
+
+-- "rpc" backend: fixed window counter behind an atomic upsert.
+create table if not exists public.waitlist_rate_limits (
+  key text primary key,
+  window_start timestamptz not null,
+  hits int not null
+);
+
+alter table public.waitlist_rate_limits enable row level security;
+
+create or replace function public.waitlist_rate_limit_allow(p_key text, p_limit int, p_window_seconds int)
+returns table (allowed boolean, reset_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := now();
+  v_window interval := make_interval(secs => p_window_seconds);
+  v_row public.waitlist_rate_limits;
+begin
+  insert into public.waitlist_rate_limits as r (key, window_start, hits)
+  values (p_key, v_now, 1)
+  on conflict (key) do update
+    set window_start = case when r.window_start + v_window <= v_now then v_now else r.window_start end,
+        hits = case when r.window_start + v_window <= v_now then 1 else r.hits + 1 end
+  returning * into v_row;
+
+  return query select v_row.hits <= p_limit, v_row.window_start + v_window;
+end;
+$$;
+
+revoke all on function public.waitlist_rate_limit_allow(text, int, int) from public, anon, authenticated;
+grant execute on function public.waitlist_rate_limit_allow(text, int, int) to service_role;
+
+-- "table" backend: token buckets.
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.rate_limit_buckets enable row level security;
+
+-- Purge: every signup attempt leaves a row per key (IP, email, subnet), so both tables
+-- grow without bound. A key untouched for longer than its window is the same as no
+-- row (the counter restarts, the bucket is full again); `p_older_than` must stay above
+-- the longest RATE_LIMIT_* window (default rules use one hour).
+create or replace function public.purge_rate_limits(p_older_than interval default interval '1 day')
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.waitlist_rate_limits where window_start < now() - p_older_than;
+  delete from public.rate_limit_buckets where updated_at < now() - p_older_than;
+$$;
+
+revoke all on function public.purge_rate_limits(interval) from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.unschedule('purge-rate-limits')
+where exists (select 1 from cron.job where jobname = 'purge-rate-limits');
+
+select cron.schedule('purge-rate-limits', '17 * * * *', $$ select public.purge_rate_limits() $$);
@@ -0,0 +1,21 @@
+-- Failed notification emails, retried by retry-notification-outbox
+-- (supabase/functions/_shared/outbox.ts). status 'dead' is the dead-letter state.
+
+create table if not exists public.notification_outbox (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('lead_alert', 'welcome', 'digest')),
+  lead_id text,
+  message jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'dead')),
+  attempts int not null default 0,
+  last_error text,
+  last_status int,
+  next_attempt_at timestamptz not null default now(),
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists notification_outbox_due_idx on public.notification_outbox (status, next_attempt_at);
+
+alter table public.notification_outbox enable row level security;
@@ -0,0 +1,14 @@
+-- One row per send-waitlist-digest run; the next run starts at the last period_end.
+
+create table if not exists public.waitlist_digest_runs (
+  id uuid primary key default gen_random_uuid(),
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  lead_count int not null,
+  sent boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_digest_runs_period_end_idx on public.waitlist_digest_runs (period_end desc);
+
+alter table public.waitlist_digest_runs enable row level security;
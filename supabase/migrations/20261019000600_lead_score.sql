@@ -0,0 +1,8 @@
+-- Lead score computed at signup (supabase/functions/_shared/leadScore.ts).
+-- Null for leads that signed up before scoring existed.
+
+alter table public.leads_coach_waitlist
+  add column if not exists score int,
+  add column if not exists score_reasons text[] not null default '{}';
+
+create index if not exists leads_coach_waitlist_score_idx on public.leads_coach_waitlist (score desc nulls last);
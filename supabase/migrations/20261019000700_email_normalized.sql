@@ -0,0 +1,62 @@
+-- Duplicate detection on a normalized address (supabase/functions/_shared/emailValidation.ts):
+-- lowercase, "+tag" dropped, Gmail dots removed, googlemail.com → gmail.com.
+
+alter table public.leads_coach_waitlist
+  add column if not exists email_normalized text;
+
+-- Backfill with the same rules as normalizeEmailForDedup().
+update public.leads_coach_waitlist
+set email_normalized = (
+  with parts as (
+    select
+      split_part(lower(trim(email)), '@', 1) as local,
+      case split_part(lower(trim(email)), '@', 2)
+        when 'googlemail.com' then 'gmail.com'
+        else split_part(lower(trim(email)), '@', 2)
+      end as domain
+  )
+  select
+    case when domain = 'gmail.com'
+      then replace(split_part(local, '+', 1), '.', '')
+      else split_part(local, '+', 1)
+    end || '@' || domain
+  from parts
+)
+where email_normalized is null;
+
+-- Pre-existing duplicates (e.g. a@gmail.com and a+x@gmail.com) would block the
+-- unique index, and every lookup goes by email_normalized, so a row left without the
+-- key could never be reached again (not by a data request, not by an erasure). Fold
+-- each newer duplicate into the oldest row for its key, then delete it: the oldest
+-- row keeps its fields, takes the earliest confirmation, and inherits the outbox rows.
+create temporary table email_normalized_dupes on commit drop as
+select id as dupe_id, first_value(id) over w as keep_id
+from public.leads_coach_waitlist
+window w as (partition by email_normalized order by created_at, id);
+
+delete from email_normalized_dupes where dupe_id = keep_id;
+
+update public.leads_coach_waitlist k
+set status = 'confirmed',
+    confirmed_at = m.confirmed_at
+from (
+  select d.keep_id, min(l.confirmed_at) as confirmed_at
+  from email_normalized_dupes d
+  join public.leads_coach_waitlist l on l.id = d.dupe_id
+  where l.status = 'confirmed'
+  group by d.keep_id
+) m
+where k.id = m.keep_id
+  and (k.status <> 'confirmed' or k.confirmed_at is null or k.confirmed_at > m.confirmed_at);
+
+update public.notification_outbox o
+set lead_id = d.keep_id::text
+from email_normalized_dupes d
+where o.lead_id = d.dupe_id::text;
+
+delete from public.leads_coach_waitlist l
+using email_normalized_dupes d
+where l.id = d.dupe_id;
+
+create unique index if not exists leads_coach_waitlist_email_normalized_key
+  on public.leads_coach_waitlist (email_normalized);
@@ -0,0 +1,85 @@
+-- Calls Edge Functions from the database via pg_net:
+-- - trigger on leads_coach_waitlist → notify-coach-waitlist (INSERT + status UPDATE)
+-- - pg_cron job every minute → retry-notification-outbox
+--
+-- Endpoint + shared secret come from Supabase Vault, so nothing environment-specific
+-- is baked into the migration. Set them once per environment:
+--
+--   select vault.create_secret('https://<PROJECT_REF>.supabase.co/functions/v1', 'functions_base_url');
+--   select vault.create_secret('<same value as WAITLIST_WEBHOOK_SECRET>', 'waitlist_webhook_secret');
+--
+-- (supabase/seed.sql does this for the local stack.) Until both exist, the calls are
+-- skipped with a NOTICE instead of failing the insert.
+--
+-- send-waitlist-digest is not scheduled here: only enable it with
+-- WAITLIST_NOTIFY_MODE=digest, e.g.
+--   select cron.schedule('send-waitlist-digest', '0 8 * * *',
+--     $$ select public.invoke_edge_function('send-waitlist-digest', '{}'::jsonb) $$);
+
+create extension if not exists pg_net with schema extensions;
+create extension if not exists pg_cron;
+
+create or replace function public.invoke_edge_function(p_name text, p_body jsonb)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_base text;
+  v_secret text;
+begin
+  select decrypted_secret into v_base from vault.decrypted_secrets where name = 'functions_base_url';
+  select decrypted_secret into v_secret from vault.decrypted_secrets where name = 'waitlist_webhook_secret';
+
+  if v_base is null or v_secret is null then
+    raise notice 'invoke_edge_function(%): functions_base_url / waitlist_webhook_secret not set in vault; skipped', p_name;
+    return null;
+  end if;
+
+  return net.http_post(
+    url := rtrim(v_base, '/') || '/' || p_name,
+    body := p_body,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-webhook-secret', v_secret),
+    timeout_milliseconds := 20000
+  );
+end;
+$$;
+
+revoke all on function public.invoke_edge_function(text, jsonb) from public, anon, authenticated;
+
+-- Same payload shape as a Supabase Database Webhook, which notify-coach-waitlist expects.
+create or replace function public.notify_coach_waitlist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.invoke_edge_function(
+    'notify-coach-waitlist',
+    jsonb_build_object(
+      'type', tg_op,
+      'schema', tg_table_schema,
+      'table', tg_table_name,
+      'record', to_jsonb(new),
+      'old_record', case when tg_op = 'UPDATE' then to_jsonb(old) else null end
+    )
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_coach_waitlist on public.leads_coach_waitlist;
+create trigger notify_coach_waitlist
+  after insert or update of status on public.leads_coach_waitlist
+  for each row execute function public.notify_coach_waitlist();
+
+select cron.unschedule('retry-notification-outbox')
+where exists (select 1 from cron.job where jobname = 'retry-notification-outbox');
+
+select cron.schedule(
+  'retry-notification-outbox',
+  '* * * * *',
+  $$ select public.invoke_edge_function('retry-notification-outbox', '{}'::jsonb) $$
+);
@@ -0,0 +1,19 @@
+-- Profile enrichment after signup (supabase/functions/coach-waitlist-profile):
+-- the welcome email links to /profile with a signed token, and every save that
+-- changes something is recorded here (one row per save, { field: { from, to } }).
+
+alter table public.leads_coach_waitlist
+  add column if not exists profile_updated_at timestamptz;
+
+create table if not exists public.lead_profile_changes (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads_coach_waitlist (id) on delete cascade,
+  changes jsonb not null,
+  source text not null default 'profile_link',
+  request_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_profile_changes_lead_idx on public.lead_profile_changes (lead_id, created_at desc);
+
+alter table public.lead_profile_changes enable row level security;
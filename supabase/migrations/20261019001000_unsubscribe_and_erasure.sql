@@ -0,0 +1,22 @@
+-- Unsubscribe + GDPR erasure (coach-waitlist-unsubscribe, coach-waitlist-data).
+--
+-- unsubscribed_at: set by the one-click List-Unsubscribe link; coach-facing email
+-- (welcome, outbox retries) is skipped for these leads.
+--
+-- lead_tombstones: written when a coach deletes their data. Only a SHA-256 of the
+-- normalized email is kept (functions/_shared/tombstone.ts), so the address itself
+-- is gone. It keeps a late webhook for the erased lead from alerting or syncing it
+-- again; a new signup for the address goes through double opt-in as usual and its
+-- confirmation deletes the tombstone.
+
+alter table public.leads_coach_waitlist
+  add column if not exists unsubscribed_at timestamptz;
+
+create table if not exists public.lead_tombstones (
+  email_hash text primary key,
+  reason text not null default 'erasure_request' check (reason in ('erasure_request')),
+  request_id text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.lead_tombstones enable row level security;
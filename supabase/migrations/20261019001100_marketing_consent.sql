@@ -0,0 +1,56 @@
+-- Marketing consent captured on the signup form (coach-waitlist-signup).
+--
+-- The lead row carries the current state for filtering sends; lead_consents is the
+-- audit trail: one immutable row per recorded decision with the exact wording shown
+-- (MARKETING_CONSENT_TEXTS in functions/_shared/signupSchema.ts), the browser and
+-- server timestamps, and the site version that rendered the form.
+
+alter table public.leads_coach_waitlist
+  add column if not exists marketing_consent boolean not null default false,
+  add column if not exists email_preference text;
+
+do $$
+begin
+  -- Must match EMAIL_PREFERENCE_OPTIONS in signupSchema.ts.
+  if not exists (select 1 from pg_constraint where conname = 'leads_coach_waitlist_email_preference_check') then
+    alter table public.leads_coach_waitlist
+      add constraint leads_coach_waitlist_email_preference_check check (
+        email_preference is null or email_preference in ('beta_access', 'product_updates')
+      );
+  end if;
+end $$;
+
+create table if not exists public.lead_consents (
+  id uuid primary key default gen_random_uuid(),
+  -- Cascade is the one way a consent row goes away: erasure (coach-waitlist-data).
+  lead_id uuid not null references public.leads_coach_waitlist (id) on delete cascade,
+  marketing_consent boolean not null,
+  email_preference text,
+  consent_text_version text,
+  consent_text text,
+  consented_at timestamptz,
+  recorded_at timestamptz not null default now(),
+  site_version text,
+  source text not null default 'signup', -- 'signup' | 'list_unsubscribe' | 'unsubscribe_page'
+  user_agent text,
+  request_id text
+);
+
+create index if not exists lead_consents_lead_idx on public.lead_consents (lead_id, recorded_at desc);
+
+-- Immutable: a changed mind is a new row, never an edit (service role included).
+create or replace function public.lead_consents_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'lead_consents rows are immutable; insert a new record instead';
+end;
+$$;
+
+drop trigger if exists lead_consents_no_update on public.lead_consents;
+create trigger lead_consents_no_update
+  before update on public.lead_consents
+  for each row execute function public.lead_consents_immutable();
+
+alter table public.lead_consents enable row level security;
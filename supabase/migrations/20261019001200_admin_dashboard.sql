@@ -0,0 +1,54 @@
+-- Read access for the /admin lead dashboard (src/AdminPage.tsx).
+--
+-- The dashboard signs in with a Supabase Auth magic link. Anyone can request one, so
+-- the gate is here: only emails in admin_team_members get select policies on the lead
+-- tables. Writes still go through the Edge Functions (service role) only.
+--
+-- Add a teammate:
+--   insert into public.admin_team_members (email) values ('someone@lungeable.com');
+
+create table if not exists public.admin_team_members (
+  email text primary key check (email = lower(email)),
+  added_at timestamptz not null default now()
+);
+
+-- No policies: managed from SQL / the dashboard, never from the browser.
+alter table public.admin_team_members enable row level security;
+
+-- security definer so the policies below can read admin_team_members under RLS.
+create or replace function public.is_waitlist_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.admin_team_members t
+    where t.email = lower(coalesce(auth.jwt() ->> 'email', ''))
+  );
+$$;
+
+revoke all on function public.is_waitlist_admin() from public, anon;
+grant execute on function public.is_waitlist_admin() to authenticated;
+
+drop policy if exists leads_coach_waitlist_team_select on public.leads_coach_waitlist;
+create policy leads_coach_waitlist_team_select on public.leads_coach_waitlist
+  for select to authenticated
+  using ((select public.is_waitlist_admin()));
+
+drop policy if exists lead_profile_changes_team_select on public.lead_profile_changes;
+create policy lead_profile_changes_team_select on public.lead_profile_changes
+  for select to authenticated
+  using ((select public.is_waitlist_admin()));
+
+drop policy if exists lead_consents_team_select on public.lead_consents;
+create policy lead_consents_team_select on public.lead_consents
+  for select to authenticated
+  using ((select public.is_waitlist_admin()));
+
+-- Dashboard filters (source, UTM campaign), newest first.
+create index if not exists leads_coach_waitlist_source_idx on public.leads_coach_waitlist (source, created_at desc);
+create index if not exists leads_coach_waitlist_utm_campaign_idx
+  on public.leads_coach_waitlist ((utm ->> 'utm_campaign'), created_at desc);
@@ -0,0 +1,40 @@
+-- Per-lead CRM sync state (functions/_shared/crm). notify-coach-waitlist upserts the
+-- lead's CRM contact when it confirms (with marketing consent, not unsubscribed) and
+-- records the outcome here: the contact id once a sync has succeeded, and what the
+-- last attempt returned.
+--
+-- Erasure (coach-waitlist-data) deletes the CRM contact, then cascades this row away.
+-- A deletion the CRM refuses waits in crm_deletions (contact id only, no email);
+-- retry-notification-outbox retries it on every run until it goes through or runs
+-- out of attempts (functions/_shared/crm/index.ts, MAX_CRM_DELETE_ATTEMPTS).
+
+create table if not exists public.lead_crm_sync (
+  lead_id uuid primary key references public.leads_coach_waitlist (id) on delete cascade,
+  provider text not null, -- CRM_PROVIDER, e.g. 'hubspot'
+  contact_id text,
+  status text not null check (status in ('synced', 'failed')),
+  last_http_status int,
+  last_error text,
+  synced_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lead_crm_sync_failed_idx on public.lead_crm_sync (updated_at)
+  where status = 'failed';
+
+-- No policies: written by the Edge Functions (service role) only.
+alter table public.lead_crm_sync enable row level security;
+
+create table if not exists public.crm_deletions (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  contact_id text not null,
+  attempts int not null default 1,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (provider, contact_id)
+);
+
+-- No policies: written by the Edge Functions (service role) only.
+alter table public.crm_deletions enable row level security;
@@ -0,0 +1,15 @@
+-- First-touch / last-touch attribution (src/attribution.ts), sent with the signup.
+--
+-- Each is one visit as the browser recorded it:
+--   { utm: {...}, click_ids: { gclid?, fbclid?, li_fat_id? }, referrer_domain,
+--     landing_path, at }
+-- first_touch is the coach's first visit, last_touch the latest one with a campaign
+-- signal. `utm` keeps the last touch's UTMs, so existing reports stay comparable.
+-- Null for leads that signed up before this existed.
+
+alter table public.leads_coach_waitlist
+  add column if not exists first_touch jsonb,
+  add column if not exists last_touch jsonb;
+
+create index if not exists leads_coach_waitlist_first_touch_source_idx
+  on public.leads_coach_waitlist ((first_touch -> 'utm' ->> 'utm_source'), created_at desc);
@@ -0,0 +1,16 @@
+-- A/B experiment assignments (supabase/functions/_shared/experiments.ts), sent with
+-- the signup: { "<experiment id>": "<variant id>", ... }, e.g.
+--   { "hero_headline": "sunday", "price_framing": "control" }
+-- Only experiments/variants defined at signup time are kept. Leads from before
+-- experiments existed get '{}'.
+--
+-- Conversion per variant:
+--   select experiments ->> 'hero_headline' as variant, count(*),
+--          count(*) filter (where status = 'confirmed') as confirmed
+--   from public.leads_coach_waitlist group by 1;
+
+alter table public.leads_coach_waitlist
+  add column if not exists experiments jsonb not null default '{}'::jsonb;
+
+create index if not exists leads_coach_waitlist_experiments_idx
+  on public.leads_coach_waitlist using gin (experiments jsonb_path_ops);
@@ -0,0 +1,36 @@
+-- Demo calls booked through the Calendly embed on /demo (coach-demo-booking).
+--
+-- One row per Calendly invitee. Email, name, status and times come from Calendly's
+-- API; utm / site_version / experiments from the page that embedded the calendar.
+-- lead_id links the booking to the waitlist lead with the same email_normalized at
+-- booking time; bookings made before the signup can be joined on
+-- invitee_email_normalized later.
+--
+-- Export and erasure (coach-waitlist-data) find bookings by invitee_email_normalized,
+-- so unlinked ones are covered too; linked ones also cascade with the lead.
+
+create table if not exists public.demo_bookings (
+  id uuid primary key default gen_random_uuid(),
+  invitee_uri text not null unique,
+  event_uri text not null,
+  invitee_email text not null,
+  invitee_email_normalized text not null,
+  invitee_name text,
+  lead_id uuid references public.leads_coach_waitlist (id) on delete cascade,
+  status text not null, -- Calendly invitee status: 'active' | 'canceled'
+  event_name text,
+  starts_at timestamptz,
+  booked_at timestamptz,
+  utm jsonb not null default '{}'::jsonb,
+  site_version text,
+  experiments jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists demo_bookings_lead_id_idx on public.demo_bookings (lead_id);
+create index if not exists demo_bookings_email_normalized_idx on public.demo_bookings (invitee_email_normalized);
+create index if not exists demo_bookings_created_at_idx on public.demo_bookings (created_at desc);
+
+-- No policies: written by the Edge Functions (service role) only.
+alter table public.demo_bookings enable row level security;
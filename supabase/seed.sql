@@ -0,0 +1,40 @@
+-- Local seed data (runs after migrations on `supabase db reset`).
+
+-- Local stack: the database reaches Edge Functions through the host.
+-- Must match WAITLIST_WEBHOOK_SECRET in supabase/functions/.env.
+select vault.create_secret('http://host.docker.internal:54321/functions/v1', 'functions_base_url');
+select vault.create_secret('local-webhook-secret', 'waitlist_webhook_secret');
+
+-- Sample leads. Triggers are off while seeding so this doesn't fire notification emails.
+set session_replication_role = replica;
+
+insert into public.leads_coach_waitlist
+  (email, email_normalized, name, primary_focus, client_count, coach_intents, presence, notes,
+   source, site_version, utm, status, confirmed_at, score, score_reasons, created_at)
+values
+  ('alex@example.com', 'alex@example.com', 'Alex Rivera', 'powerlifting', '25-50',
+   array['Scale my roster', 'Save time'], 'TrueCoach + Google Sheets', 'Moving 30 clients off spreadsheets.',
+   'coach-trial', 'coach-landing-v2-mono:apply:full', '{"utm_source":"linkedin","utm_campaign":"launch"}',
+   'confirmed', now() - interval '2 hours',
+   83, array['client_count 25-50 (+30)', 'coaches on truecoach (+15)', 'intent "Scale my roster" (+15)', 'focus powerlifting (+8)',
+             'intent "Save time" (+8)', 'left notes (+3)', 'campaign-attributed (+2)', 'name provided (+2)'],
+   now() - interval '3 hours'),
+  ('sam@example.com', 'sam@example.com', 'Sam Lee', 'rehab', '0-10',
+   array['Safer progression'], 'Instagram DMs', null,
+   'coach-demo', 'coach-landing-v2-mono:demo:compact', '{}',
+   'confirmed', now() - interval '1 day',
+   20, array['client_count 0-10 (+5)', 'intent "Safer progression" (+5)', 'coaches on instagram (+4)', 'focus rehab (+4)',
+             'name provided (+2)'],
+   now() - interval '1 day 1 hour'),
+  ('pending.coach@example.com', 'pending.coach@example.com', null, null, '50+',
+   '{}', null, null,
+   'coach-trial', 'coach-landing-v2-mono:apply:compact', '{"utm_source":"newsletter"}',
+   'pending', null,
+   42, array['client_count 50+ (+40)', 'campaign-attributed (+2)'],
+   now() - interval '20 minutes');
+
+set session_replication_role = origin;
+
+-- Dashboard login for the local stack: request a magic link on /admin, then open it
+-- from the local mail catcher (http://127.0.0.1:54324).
+insert into public.admin_team_members (email) values ('team@example.com');